@@ -0,0 +1,12 @@
+-- Migration: Add sessionId to RefreshToken
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- معرف الجلسة (الجهاز) يبقى ثابتاً عند تدوير الـ refresh token
+ALTER TABLE "RefreshToken" ADD COLUMN IF NOT EXISTS "sessionId" TEXT;
+
+-- الـ tokens الحالية: كل token يعتبر جلسة مستقلة
+UPDATE "RefreshToken" SET "sessionId" = "id" WHERE "sessionId" IS NULL;
+
+ALTER TABLE "RefreshToken" ALTER COLUMN "sessionId" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "RefreshToken_sessionId_idx" ON "RefreshToken"("sessionId");
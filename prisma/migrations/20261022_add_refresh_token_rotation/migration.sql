@@ -0,0 +1,5 @@
+-- Migration: Add rotatedAt to RefreshToken (reuse detection)
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- وقت تدوير الـ token؛ تقديم token تم تدويره مسبقاً يعني أنه مسروق
+ALTER TABLE "RefreshToken" ADD COLUMN IF NOT EXISTS "rotatedAt" TIMESTAMP(3);
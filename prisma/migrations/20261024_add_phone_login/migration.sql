@@ -0,0 +1,13 @@
+-- Migration: Add phone number login
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+ALTER TYPE "AuthProvider" ADD VALUE IF NOT EXISTS 'PHONE';
+
+-- حسابات الهاتف قد لا تملك بريداً إلكترونياً
+ALTER TABLE "User" ALTER COLUMN "email" DROP NOT NULL;
+
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "phoneNumber" TEXT;
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "phoneVerified" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "User_phoneNumber_key" ON "User"("phoneNumber");
+CREATE INDEX IF NOT EXISTS "User_phoneNumber_idx" ON "User"("phoneNumber");
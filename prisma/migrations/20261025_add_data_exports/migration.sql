@@ -0,0 +1,36 @@
+-- Migration: Add personal data export archives
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+DO $$ BEGIN
+    CREATE TYPE "DataExportStatus" AS ENUM ('PENDING', 'PROCESSING', 'READY', 'FAILED', 'EXPIRED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- طلبات تصدير البيانات الشخصية (الأرشيف يحذف بعد انتهاء صلاحية الرابط)
+CREATE TABLE IF NOT EXISTS "DataExport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "DataExportStatus" NOT NULL DEFAULT 'PENDING',
+    "tokenHash" TEXT,
+    "archive" BYTEA,
+    "sizeBytes" INTEGER,
+    "error" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "downloadedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DataExport_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "DataExport_tokenHash_key" ON "DataExport"("tokenHash");
+CREATE INDEX IF NOT EXISTS "DataExport_userId_createdAt_idx" ON "DataExport"("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "DataExport_status_idx" ON "DataExport"("status");
+CREATE INDEX IF NOT EXISTS "DataExport_expiresAt_idx" ON "DataExport"("expiresAt");
+
+DO $$ BEGIN
+    ALTER TABLE "DataExport" ADD CONSTRAINT "DataExport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,12 @@
+-- Migration: Grace-period account deletion with restore
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "deletionRequestedAt" TIMESTAMP(3);
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "deletionScheduledFor" TIMESTAMP(3);
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "anonymizedAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "User_status_deletionScheduledFor_idx" ON "User"("status", "deletionScheduledFor");
+
+ALTER TYPE "AdminActionType" ADD VALUE IF NOT EXISTS 'ACCOUNT_DELETION_REQUESTED';
+ALTER TYPE "AdminActionType" ADD VALUE IF NOT EXISTS 'ACCOUNT_RESTORED';
+ALTER TYPE "AdminActionType" ADD VALUE IF NOT EXISTS 'ACCOUNT_ANONYMIZED';
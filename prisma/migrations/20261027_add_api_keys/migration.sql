@@ -0,0 +1,35 @@
+-- Migration: Add scoped API keys
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- مفاتيح API (المفتاح مخزن كـ hash فقط)
+CREATE TABLE IF NOT EXISTS "ApiKey" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "scopes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "rateLimitPerMinute" INTEGER NOT NULL DEFAULT 60,
+    "lastUsedAt" TIMESTAMP(3),
+    "lastUsedIp" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApiKey_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ApiKey_keyHash_key" ON "ApiKey"("keyHash");
+CREATE INDEX IF NOT EXISTS "ApiKey_userId_idx" ON "ApiKey"("userId");
+
+DO $$ BEGIN
+    ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE "AdminActionType" ADD VALUE IF NOT EXISTS 'API_KEY_CREATED';
+ALTER TYPE "AdminActionType" ADD VALUE IF NOT EXISTS 'API_KEY_ROTATED';
+ALTER TYPE "AdminActionType" ADD VALUE IF NOT EXISTS 'API_KEY_REVOKED';
+ALTER TYPE "AdminActionType" ADD VALUE IF NOT EXISTS 'API_KEY_USED';
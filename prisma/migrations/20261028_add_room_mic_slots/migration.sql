@@ -0,0 +1,26 @@
+-- Migration: Persist live mic seats
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- نسخة دائمة من حالة المايكات (Redis هو المصدر السريع)
+CREATE TABLE IF NOT EXISTS "RoomMicSlot" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "slotIndex" INTEGER NOT NULL,
+    "userId" TEXT,
+    "isLocked" BOOLEAN NOT NULL DEFAULT true,
+    "isMuted" BOOLEAN NOT NULL DEFAULT false,
+    "state" JSONB NOT NULL,
+    "joinedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoomMicSlot_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RoomMicSlot_roomId_slotIndex_key" ON "RoomMicSlot"("roomId", "slotIndex");
+CREATE INDEX IF NOT EXISTS "RoomMicSlot_userId_idx" ON "RoomMicSlot"("userId");
+
+DO $$ BEGIN
+    ALTER TABLE "RoomMicSlot" ADD CONSTRAINT "RoomMicSlot_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,23 @@
+-- Migration: Saved room music playlists
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- قوائم تشغيل محفوظة لكل غرفة (الحالة الحية في Redis)
+CREATE TABLE IF NOT EXISTS "RoomPlaylist" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "songs" JSONB NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoomPlaylist_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RoomPlaylist_roomId_name_key" ON "RoomPlaylist"("roomId", "name");
+
+DO $$ BEGIN
+    ALTER TABLE "RoomPlaylist" ADD CONSTRAINT "RoomPlaylist_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,28 @@
+-- Migration: Hourly room analytics
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- إحصائيات الغرف مجمعة لكل ساعة (لوحة تحليلات المالك)
+CREATE TABLE IF NOT EXISTS "RoomHourlyStat" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "hour" TIMESTAMP(3) NOT NULL,
+    "visitorIds" TEXT[],
+    "peakListeners" INTEGER NOT NULL DEFAULT 0,
+    "sessions" INTEGER NOT NULL DEFAULT 0,
+    "sessionSeconds" INTEGER NOT NULL DEFAULT 0,
+    "messages" INTEGER NOT NULL DEFAULT 0,
+    "giftRevenue" INTEGER NOT NULL DEFAULT 0,
+    "micSeconds" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomHourlyStat_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RoomHourlyStat_roomId_hour_key" ON "RoomHourlyStat"("roomId", "hour");
+CREATE INDEX IF NOT EXISTS "RoomHourlyStat_hour_idx" ON "RoomHourlyStat"("hour");
+
+DO $$ BEGIN
+    ALTER TABLE "RoomHourlyStat" ADD CONSTRAINT "RoomHourlyStat_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,8 @@
+-- Migration: Room XP and levels
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- نقاط الخبرة ومستوى الغرفة
+ALTER TABLE "Room" ADD COLUMN IF NOT EXISTS "xp" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Room" ADD COLUMN IF NOT EXISTS "level" INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS "Room_level_idx" ON "Room"("level");
@@ -0,0 +1,5 @@
+-- Migration: Room rules acceptance
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- آخر نسخة من قوانين الغرفة وافق عليها العضو (القوانين نفسها في Room.settings)
+ALTER TABLE "RoomMember" ADD COLUMN IF NOT EXISTS "rulesAcceptedVersion" INTEGER NOT NULL DEFAULT 0;
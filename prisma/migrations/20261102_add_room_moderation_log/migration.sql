@@ -0,0 +1,25 @@
+-- Migration: Room moderation log
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- سجل الإشراف في الغرفة (إجراءات فلتر الكلمات التلقائية)
+CREATE TABLE IF NOT EXISTS "RoomModerationLog" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "targetId" TEXT,
+    "action" TEXT NOT NULL,
+    "reason" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomModerationLog_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "RoomModerationLog_roomId_createdAt_idx" ON "RoomModerationLog"("roomId", "createdAt");
+CREATE INDEX IF NOT EXISTS "RoomModerationLog_targetId_idx" ON "RoomModerationLog"("targetId");
+
+DO $$ BEGIN
+    ALTER TABLE "RoomModerationLog" ADD CONSTRAINT "RoomModerationLog_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
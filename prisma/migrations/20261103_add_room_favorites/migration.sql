@@ -0,0 +1,29 @@
+-- Migration: Favorite rooms
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- الغرف المفضلة للمستخدمين + الاشتراك في إشعار "الغرفة مباشرة"
+CREATE TABLE IF NOT EXISTS "RoomFavorite" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "notifyLive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomFavorite_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RoomFavorite_roomId_userId_key" ON "RoomFavorite"("roomId", "userId");
+CREATE INDEX IF NOT EXISTS "RoomFavorite_userId_idx" ON "RoomFavorite"("userId");
+CREATE INDEX IF NOT EXISTS "RoomFavorite_roomId_notifyLive_idx" ON "RoomFavorite"("roomId", "notifyLive");
+
+DO $$ BEGIN
+    ALTER TABLE "RoomFavorite" ADD CONSTRAINT "RoomFavorite_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "RoomFavorite" ADD CONSTRAINT "RoomFavorite_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
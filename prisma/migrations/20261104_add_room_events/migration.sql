@@ -0,0 +1,66 @@
+-- Migration: Scheduled room events with RSVP
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+DO $$ BEGIN
+    CREATE TYPE "RoomEventStatus" AS ENUM ('SCHEDULED', 'LIVE', 'ENDED', 'CANCELLED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'ROOM_EVENT';
+
+-- الفعاليات المجدولة في الغرف
+CREATE TABLE IF NOT EXISTS "RoomEvent" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "coverUrl" TEXT,
+    "category" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "status" "RoomEventStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "reminderOffsets" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "remindersSent" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "unlockMicSlots" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoomEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "RoomEvent_roomId_startsAt_idx" ON "RoomEvent"("roomId", "startsAt");
+CREATE INDEX IF NOT EXISTS "RoomEvent_status_startsAt_idx" ON "RoomEvent"("status", "startsAt");
+CREATE INDEX IF NOT EXISTS "RoomEvent_category_idx" ON "RoomEvent"("category");
+
+-- المشتركون في الفعالية (RSVP)
+CREATE TABLE IF NOT EXISTS "RoomEventRsvp" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomEventRsvp_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RoomEventRsvp_eventId_userId_key" ON "RoomEventRsvp"("eventId", "userId");
+CREATE INDEX IF NOT EXISTS "RoomEventRsvp_userId_idx" ON "RoomEventRsvp"("userId");
+
+DO $$ BEGIN
+    ALTER TABLE "RoomEvent" ADD CONSTRAINT "RoomEvent_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "RoomEventRsvp" ADD CONSTRAINT "RoomEventRsvp_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "RoomEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "RoomEventRsvp" ADD CONSTRAINT "RoomEventRsvp_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,40 @@
+-- Migration: Room invite links and direct friend invites
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- دعوات الغرف (روابط قابلة للمشاركة ودعوات مباشرة للأصدقاء)
+CREATE TABLE IF NOT EXISTS "RoomInvite" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "inviteeId" TEXT,
+    "maxUses" INTEGER,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomInvite_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RoomInvite_token_key" ON "RoomInvite"("token");
+CREATE INDEX IF NOT EXISTS "RoomInvite_roomId_revokedAt_idx" ON "RoomInvite"("roomId", "revokedAt");
+CREATE INDEX IF NOT EXISTS "RoomInvite_inviteeId_idx" ON "RoomInvite"("inviteeId");
+
+DO $$ BEGIN
+    ALTER TABLE "RoomInvite" ADD CONSTRAINT "RoomInvite_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "RoomInvite" ADD CONSTRAINT "RoomInvite_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "RoomInvite" ADD CONSTRAINT "RoomInvite_inviteeId_fkey" FOREIGN KEY ("inviteeId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
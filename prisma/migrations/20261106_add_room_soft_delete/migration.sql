@@ -0,0 +1,10 @@
+-- Migration: Soft-delete (archive) for rooms
+-- هذه migration آمنة - لا تحذف أي بيانات
+
+-- الغرف المحذوفة تبقى مؤرشفة 30 يوماً قبل الحذف النهائي
+ALTER TABLE "Room" ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMP(3);
+ALTER TABLE "Room" ADD COLUMN IF NOT EXISTS "deletedBy" TEXT;
+
+CREATE INDEX IF NOT EXISTS "Room_deletedAt_idx" ON "Room"("deletedAt");
+
+ALTER TYPE "AdminActionType" ADD VALUE IF NOT EXISTS 'ROOM_RESTORED';
@@ -91,6 +91,7 @@ async function main() {
   const userTokens: { user: any, token: string }[] = [];
   
   for (const user of testUsers) {
+    if (!user.email) continue;
     const token = await login(user.email, 'Test@123');
     if (token) {
       userTokens.push({ user, token });
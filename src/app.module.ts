@@ -12,6 +12,7 @@ import { SecurityModule } from "./common/security/security.module";
 import { MonitoringModule } from "./common/monitoring/monitoring.module";
 import { CleanupModule } from "./common/cleanup/cleanup.module";
 import { EmailModule } from "./common/email/email.module";
+import { SmsModule } from "./common/sms/sms.module";
 import { LoggerModule } from "./common/logger/logger.module";
 import { SecurityMiddleware } from "./common/security/middleware/security.middleware";
 import { LoggingInterceptor } from "./common/monitoring/interceptors/logging.interceptor";
@@ -42,6 +43,17 @@ import { DiceGameModule } from "./modules/games/dice/dice-game.module";
 import { NameIconsModule } from "./modules/name-icons/name-icons.module";
 import { AppealsModule } from "./modules/appeals/appeals.module";
 import { AgoraModule } from "./modules/agora/agora.module";
+import { ApiKeysModule } from "./modules/api-keys/api-keys.module";
+import { RoomPermissionsModule } from "./modules/rooms/room-permissions.module";
+import { MicStateModule } from "./modules/rooms/mic-state.module";
+import { RoomMusicModule } from "./modules/rooms/room-music.module";
+import { RoomAnalyticsModule } from "./modules/rooms/room-analytics.module";
+import { RoomLevelsModule } from "./modules/rooms/room-levels.module";
+import { WordFilterModule } from "./modules/rooms/word-filter.module";
+import { RoomFavoritesModule } from "./modules/rooms/room-favorites.module";
+import { RoomEventsModule } from "./modules/rooms/room-events.module";
+import { RoomInvitesModule } from "./modules/rooms/room-invites.module";
+import { RoomKnocksModule } from "./modules/rooms/room-knocks.module";
 
 // Guards
 import { JwtAuthGuard } from "./modules/auth/guards/jwt-auth.guard";
@@ -95,8 +107,9 @@ import { configuration, envValidationSchema } from "./config";
     SecurityModule,
     MonitoringModule,
 
-    // Email & Logging
+    // Email, SMS & Logging
     EmailModule,
+    SmsModule,
     LoggerModule,
 
     // Feature Modules
@@ -123,6 +136,17 @@ import { configuration, envValidationSchema } from "./config";
     NameIconsModule,
     AppealsModule,
     AgoraModule,
+    ApiKeysModule,
+    RoomPermissionsModule,
+    MicStateModule,
+    RoomMusicModule,
+    RoomAnalyticsModule,
+    RoomLevelsModule,
+    WordFilterModule,
+    RoomFavoritesModule,
+    RoomEventsModule,
+    RoomInvitesModule,
+    RoomKnocksModule,
     CleanupModule,
     ScheduledTasksModule,
   ],
@@ -0,0 +1,63 @@
+/**
+ * Cleanup Service Unit Tests
+ * اختبارات وحدة خدمة تنظيف البيانات
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConfigService } from "@nestjs/config";
+import { CleanupService } from "./cleanup.service";
+import { PrismaService } from "../prisma/prisma.service";
+import { RedisService } from "../redis/redis.service";
+import { CacheService } from "../cache/cache.service";
+
+describe("CleanupService", () => {
+  let service: CleanupService;
+
+  const mockPrismaService = {
+    room: {
+      deleteMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CleanupService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: {} },
+        { provide: CacheService, useValue: {} },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<CleanupService>(CleanupService);
+
+    jest.clearAllMocks();
+  });
+
+  describe("purgeArchivedRooms", () => {
+    it("should delete only rooms archived before the restore window", async () => {
+      jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+      jest.setSystemTime(new Date("2026-03-31T12:00:00Z"));
+      mockPrismaService.room.deleteMany.mockResolvedValue({ count: 2 });
+
+      try {
+        await expect(service.purgeArchivedRooms()).resolves.toBe(2);
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(mockPrismaService.room.deleteMany).toHaveBeenCalledWith({
+        where: { deletedAt: { lt: new Date("2026-03-01T12:00:00Z") } },
+      });
+    });
+
+    it("should report nothing purged when the delete fails", async () => {
+      mockPrismaService.room.deleteMany.mockRejectedValue(
+        new Error("connection lost"),
+      );
+
+      await expect(service.purgeArchivedRooms()).resolves.toBe(0);
+    });
+  });
+});
@@ -6,7 +6,9 @@
 import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
 import { PrismaService } from "../prisma/prisma.service";
 import { RedisService } from "../redis/redis.service";
+import { CacheService } from "../cache/cache.service";
 import { ConfigService } from "@nestjs/config";
+import { getRoomPurgeCutoff } from "../../modules/rooms/room-archive";
 
 @Injectable()
 export class CleanupService implements OnModuleInit {
@@ -16,6 +18,7 @@ export class CleanupService implements OnModuleInit {
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
+    private cache: CacheService,
     private config: ConfigService,
   ) {}
 
@@ -53,6 +56,8 @@ export class CleanupService implements OnModuleInit {
       results.expiredMutes = await this.cleanupExpiredMutes();
       results.expiredAgentRequests = await this.cleanupExpiredAgentRequests();
       results.oldMessages = await this.cleanupSoftDeletedMessages();
+      results.expiredDataExports = await this.cleanupExpiredDataExports();
+      results.archivedRooms = await this.purgeArchivedRooms();
 
       this.logger.log(`Cleanup completed: ${JSON.stringify(results)}`);
     } catch (error) {
@@ -323,6 +328,247 @@ export class CleanupService implements OnModuleInit {
     }
   }
 
+  // ================================
+  // CLEANUP EXPIRED DATA EXPORTS
+  // ================================
+
+  async cleanupExpiredDataExports(): Promise<number> {
+    try {
+      // Drop the archive once the download link has expired
+      const expired = await this.prisma.dataExport.updateMany({
+        where: {
+          status: "READY",
+          expiresAt: { lt: new Date() },
+        },
+        data: {
+          status: "EXPIRED",
+          archive: null,
+          tokenHash: null,
+        },
+      });
+
+      // Exports interrupted by a restart - the user can request a new one
+      const stuck = await this.prisma.dataExport.updateMany({
+        where: {
+          status: { in: ["PENDING", "PROCESSING"] },
+          createdAt: { lt: new Date(Date.now() - 60 * 60 * 1000) },
+        },
+        data: {
+          status: "FAILED",
+          error: "Export did not complete",
+        },
+      });
+
+      const total = expired.count + stuck.count;
+      if (total > 0) {
+        this.logger.log(
+          `Expired ${expired.count} data exports, failed ${stuck.count} stuck exports`,
+        );
+      }
+
+      return total;
+    } catch (error) {
+      this.logger.error(`Failed to cleanup data exports: ${error.message}`);
+      return 0;
+    }
+  }
+
+  // ================================
+  // PURGE ARCHIVED ROOMS
+  // ================================
+
+  async purgeArchivedRooms(): Promise<number> {
+    try {
+      // Rooms deleted more than ROOM_RESTORE_WINDOW_DAYS ago can no longer
+      // be restored - members, messages and events go with them (cascade)
+      const result = await this.prisma.room.deleteMany({
+        where: { deletedAt: { lt: getRoomPurgeCutoff() } },
+      });
+
+      if (result.count > 0) {
+        this.logger.log(`Purged ${result.count} archived rooms`);
+      }
+
+      return result.count;
+    } catch (error) {
+      this.logger.error(`Failed to purge archived rooms: ${error.message}`);
+      return 0;
+    }
+  }
+
+  // ================================
+  // ANONYMIZE DELETED ACCOUNTS
+  // ================================
+
+  /**
+   * Accounts whose deletion grace period has ended lose their personal data.
+   * Ledger rows (wallet transactions, gifts, room messages, admin actions)
+   * are kept and now point at an anonymous user. Rules:
+   * - owned rooms are closed, not transferred
+   * - the Agent record and agent requests are deleted (contact details)
+   * - any remaining wallet balance and diamonds are forfeited with a ledger entry
+   */
+  async anonymizeDeletedAccounts(): Promise<number> {
+    let anonymized = 0;
+
+    try {
+      const users = await this.prisma.user.findMany({
+        where: {
+          status: "DELETED",
+          anonymizedAt: null,
+          deletionScheduledFor: { lte: new Date() },
+        },
+        select: { id: true },
+        take: 50,
+      });
+
+      for (const { id } of users) {
+        try {
+          if (await this.anonymizeUser(id)) {
+            anonymized++;
+          }
+        } catch (error) {
+          this.logger.error(`Failed to anonymize user ${id}: ${error.message}`);
+        }
+      }
+
+      if (anonymized > 0) {
+        this.logger.log(`Anonymized ${anonymized} deleted accounts`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to anonymize accounts: ${error.message}`);
+    }
+
+    return anonymized;
+  }
+
+  /**
+   * Returns false when another instance already anonymized the account
+   */
+  private async anonymizeUser(userId: string): Promise<boolean> {
+    const anonymized = await this.prisma.$transaction(async (tx) => {
+      // Claim the account first - a second run sees count 0 and never
+      // forfeits the wallet or writes the ledger rows twice
+      const claimed = await tx.user.updateMany({
+        where: { id: userId, status: "DELETED", anonymizedAt: null },
+        data: { anonymizedAt: new Date() },
+      });
+      if (claimed.count === 0) return false;
+
+      const user = await tx.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { numericId: true, wallet: true },
+      });
+
+      // Wallet: forfeit the remaining coins and diamonds, one ledger row each
+      const wallet = user.wallet;
+      if (wallet && (wallet.balance > 0n || wallet.diamonds > 0n)) {
+        await tx.wallet.update({
+          where: { id: wallet.id },
+          data: { balance: 0, diamonds: 0, version: { increment: 1 } },
+        });
+
+        const forfeited = [
+          { type: "coins", amount: wallet.balance },
+          { type: "diamonds", amount: wallet.diamonds },
+        ].filter((entry) => entry.amount > 0n);
+
+        for (const entry of forfeited) {
+          await tx.walletTransaction.create({
+            data: {
+              walletId: wallet.id,
+              type: "ADMIN_ADJUSTMENT",
+              amount: -entry.amount,
+              balanceBefore: entry.amount,
+              balanceAfter: 0,
+              referenceType: "ACCOUNT_DELETION",
+              referenceId: userId,
+              description:
+                entry.type === "diamonds"
+                  ? "مصادرة الماس المتبقي بعد حذف الحساب"
+                  : "مصادرة الرصيد المتبقي بعد حذف الحساب",
+              metadata: { type: entry.type },
+            },
+          });
+        }
+      }
+
+      // Owned rooms are closed (history and gift ledger stay intact)
+      await tx.room.updateMany({
+        where: { ownerId: userId },
+        data: { status: "CLOSED", currentMembers: 0 },
+      });
+
+      // Personal data and social graph
+      await Promise.all([
+        tx.agent.deleteMany({ where: { userId } }),
+        tx.agentRequest.deleteMany({ where: { userId } }),
+        tx.refreshToken.deleteMany({ where: { userId } }),
+        tx.apiKey.deleteMany({ where: { userId } }),
+        tx.userTwoFactor.deleteMany({ where: { userId } }),
+        tx.deviceToken.deleteMany({ where: { userId } }),
+        tx.passwordResetToken.deleteMany({ where: { userId } }),
+        tx.emailVerificationToken.deleteMany({ where: { userId } }),
+        tx.dataExport.deleteMany({ where: { userId } }),
+        tx.notification.deleteMany({ where: { userId } }),
+        tx.verification.deleteMany({ where: { userId } }),
+        tx.explorePost.deleteMany({ where: { userId } }),
+        tx.roomMember.deleteMany({ where: { userId } }),
+        tx.follow.deleteMany({
+          where: { OR: [{ followerId: userId }, { followingId: userId }] },
+        }),
+        tx.friendships.deleteMany({
+          where: { OR: [{ user1_id: userId }, { user2_id: userId }] },
+        }),
+        tx.friend_requests.deleteMany({
+          where: { OR: [{ from_user_id: userId }, { to_user_id: userId }] },
+        }),
+      ]);
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          email: null,
+          emailVerified: false,
+          phoneNumber: null,
+          phoneVerified: false,
+          googleId: null,
+          passwordHash: null,
+          twoFactorEnabled: false,
+          customId: null,
+          username: `deleted_${user.numericId}`,
+          displayName: "مستخدم محذوف",
+          avatar: null,
+          bio: null,
+          isVIP: false,
+          vipExpiresAt: null,
+          lastLoginIp: null,
+        },
+      });
+
+      await tx.adminAction.create({
+        data: {
+          actorId: userId,
+          targetId: userId,
+          action: "ACCOUNT_ANONYMIZED",
+          reason: "انتهاء فترة الاستعادة بعد حذف الحساب",
+          details: {
+            forfeitedBalance: wallet?.balance.toString() ?? "0",
+            forfeitedDiamonds: wallet?.diamonds.toString() ?? "0",
+          },
+        },
+      });
+
+      return true;
+    });
+
+    if (anonymized) {
+      await this.redis.setUserOffline(userId);
+      await this.cache.invalidateUser(userId);
+    }
+    return anonymized;
+  }
+
   // ================================
   // CLEANUP PRIVATE MESSAGES (Optional)
   // ================================
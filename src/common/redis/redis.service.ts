@@ -251,6 +251,31 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.client!.hincrby(key, field, increment);
   }
 
+  /**
+   * Raise a numeric hash field to value if it is higher (atomic - Lua)
+   */
+  async hsetMax(key: string, field: string, value: number): Promise<void> {
+    if (!this.isEnabled()) {
+      if (!this.memoryHashes.has(key)) {
+        this.memoryHashes.set(key, new Map());
+      }
+      const hash = this.memoryHashes.get(key)!;
+      if (value > parseInt(hash.get(field) || "0")) {
+        hash.set(field, value.toString());
+      }
+      return;
+    }
+    await this.client!.eval(
+      `if tonumber(redis.call("HGET", KEYS[1], ARGV[1]) or "0") < tonumber(ARGV[2]) then
+        redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+      end`,
+      1,
+      key,
+      field,
+      value.toString(),
+    );
+  }
+
   // ================================
   // Set Operations (for room members online)
   // ================================
@@ -436,6 +461,21 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     await this.client!.expire(key, seconds);
   }
 
+  /**
+   * Seconds until the key expires (0 when missing or without expiry)
+   */
+  async ttl(key: string): Promise<number> {
+    if (!this.isEnabled()) {
+      const expiresAt =
+        this.memoryCache.get(key)?.expiresAt ??
+        this.memoryRateLimits.get(key)?.expiresAt;
+      return expiresAt
+        ? Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000))
+        : 0;
+    }
+    return Math.max(0, await this.client!.ttl(key));
+  }
+
   async keys(pattern: string): Promise<string[]> {
     if (!this.isEnabled()) {
       const regex = new RegExp("^" + pattern.replace(/\*/g, ".*") + "$");
@@ -489,6 +529,13 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.client!.zrange(key, start, stop);
   }
 
+  async zrem(key: string, member: string): Promise<boolean> {
+    if (!this.isEnabled()) {
+      return this.memorySortedSets.get(key)?.delete(member) || false;
+    }
+    return (await this.client!.zrem(key, member)) === 1;
+  }
+
   async zremrangebyscore(key: string, min: number, max: number): Promise<void> {
     if (!this.isEnabled()) {
       const set = this.memorySortedSets.get(key);
@@ -961,6 +1008,91 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     await this.hdel(key, userId);
   }
 
+  // ================================
+  // ✋ MIC REQUEST QUEUE (raise hand)
+  // ================================
+
+  /**
+   * Add a mic request - returns false if the user is already queued
+   * Lower score = earlier in the queue
+   */
+  async addMicRequest(
+    roomId: string,
+    userId: string,
+    score: number,
+    info: Record<string, any>,
+  ): Promise<boolean> {
+    const key = `room:${roomId}:mic_queue`;
+    const infoKey = `${key}:info`;
+    if (await this.hget(infoKey, userId)) {
+      return false;
+    }
+
+    await this.hset(infoKey, userId, JSON.stringify(info));
+    await this.zadd(key, score, userId);
+    await this.expire(key, 86400);
+    await this.expire(infoKey, 86400);
+    return true;
+  }
+
+  /**
+   * Remove a mic request - returns true if the user was queued
+   */
+  async removeMicRequest(roomId: string, userId: string): Promise<boolean> {
+    const key = `room:${roomId}:mic_queue`;
+    await this.hdel(`${key}:info`, userId);
+    return this.zrem(key, userId);
+  }
+
+  /**
+   * Get the ordered mic queue with request info
+   */
+  async getMicRequests(roomId: string): Promise<Array<Record<string, any>>> {
+    const key = `room:${roomId}:mic_queue`;
+    const userIds = await this.zrange(key, 0, -1);
+    const info = await this.hgetall(`${key}:info`);
+
+    return userIds
+      .filter((userId) => info[userId])
+      .map((userId, index) => ({
+        ...JSON.parse(info[userId]),
+        userId,
+        position: index + 1,
+      }));
+  }
+
+  /**
+   * Allow a user to take a specific locked slot (after invite/approval)
+   */
+  async setMicGrant(
+    roomId: string,
+    userId: string,
+    slotIndex: number,
+    ttlSeconds: number = 60,
+  ): Promise<void> {
+    await this.set(
+      `room:${roomId}:mic_grant:${userId}`,
+      slotIndex.toString(),
+      ttlSeconds,
+    );
+  }
+
+  /**
+   * Consume a grant - returns true if the user was granted this slot
+   */
+  async consumeMicGrant(
+    roomId: string,
+    userId: string,
+    slotIndex: number,
+  ): Promise<boolean> {
+    const key = `room:${roomId}:mic_grant:${userId}`;
+    if ((await this.get(key)) !== slotIndex.toString()) {
+      return false;
+    }
+    await this.del(key);
+    return true;
+  }
+
   // ================================
   // 🎁 GIFT IDEMPOTENCY
   // ================================
@@ -983,6 +1115,27 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     await this.set(key, resultId, 300);
   }
 
+  // ================================
+  // 🔐 REVOKED SESSIONS
+  // ================================
+
+  /**
+   * Access tokens of a revoked session stay valid until they expire -
+   * keep the session id that long so they are rejected
+   */
+  async markSessionsRevoked(
+    sessionIds: string[],
+    ttlSeconds: number,
+  ): Promise<void> {
+    for (const sessionId of sessionIds) {
+      await this.set(`auth:revoked_sid:${sessionId}`, "1", ttlSeconds);
+    }
+  }
+
+  async isSessionRevoked(sessionId: string): Promise<boolean> {
+    return (await this.get(`auth:revoked_sid:${sessionId}`)) !== null;
+  }
+
   // ================================
   // 📊 PRESENCE SNAPSHOT
   // ================================
@@ -8,6 +8,11 @@ import { Cron, CronExpression, SchedulerRegistry } from "@nestjs/schedule";
 import { CleanupService } from "../cleanup/cleanup.service";
 import { PrismaService } from "../prisma/prisma.service";
 import { RedisService } from "../redis/redis.service";
+import { MicStateService } from "../../modules/rooms/mic-state.service";
+import { RoomAnalyticsService } from "../../modules/rooms/room-analytics.service";
+import { RoomLevelsService } from "../../modules/rooms/room-levels.service";
+import { RoomEventsService } from "../../modules/rooms/room-events.service";
+import { RoomKnocksService } from "../../modules/rooms/room-knocks.service";
 
 @Injectable()
 export class ScheduledTasksService {
@@ -18,6 +23,11 @@ export class ScheduledTasksService {
     private readonly cleanupService: CleanupService,
     private readonly prisma: PrismaService,
     private readonly redis: RedisService,
+    private readonly micState: MicStateService,
+    private readonly roomAnalytics: RoomAnalyticsService,
+    private readonly roomLevels: RoomLevelsService,
+    private readonly roomEvents: RoomEventsService,
+    private readonly roomKnocks: RoomKnocksService,
   ) {}
 
   // ================================
@@ -38,6 +48,7 @@ export class ScheduledTasksService {
         this.cleanupService.cleanupExpiredBans(),
         this.cleanupService.cleanupExpiredMutes(),
         this.cleanupService.cleanupExpiredVIPs(),
+        this.cleanupService.purgeArchivedRooms(),
       ]);
 
       const successful = results.filter((r) => r.status === "fulfilled").length;
@@ -88,6 +99,28 @@ export class ScheduledTasksService {
     }
   }
 
+  /**
+   * إخفاء بيانات الحسابات المحذوفة بعد انتهاء فترة الاستعادة - كل ساعة
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: "accountAnonymization" })
+  async handleAccountAnonymization(): Promise<void> {
+    const lockKey = "lock:cron:account_anonymization";
+    if (!(await this.redis.acquireLock(lockKey, 300))) {
+      return;
+    }
+
+    try {
+      const count = await this.cleanupService.anonymizeDeletedAccounts();
+      if (count > 0) {
+        this.logger.log(`🗑️ Anonymized ${count} deleted accounts`);
+      }
+    } catch (error) {
+      this.logger.error("Account anonymization failed", error);
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
   // ================================
   // HEALTH MONITORING JOBS
   // ================================
@@ -132,6 +165,108 @@ export class ScheduledTasksService {
     }
   }
 
+  // ================================
+  // ROOM LIVE STATE JOBS
+  // ================================
+
+  /**
+   * إنزال من بقي على المايك بعد مغادرة الغرفة - كل دقيقة
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: "micSeatReconciliation" })
+  async handleMicSeatReconciliation(): Promise<void> {
+    // نسخة واحدة فقط تنفذ الفحص عند تشغيل عدة instances
+    const lockKey = "lock:cron:mic_reconciliation";
+    if (!(await this.redis.acquireLock(lockKey, 55))) {
+      return;
+    }
+
+    try {
+      await this.micState.reconcile();
+    } catch (error) {
+      this.logger.error("Mic seat reconciliation failed", error);
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * تجميع إحصائيات الغرف للساعة المنتهية - كل ساعة
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: "roomAnalyticsRollup" })
+  async handleRoomAnalyticsRollup(): Promise<void> {
+    const lockKey = "lock:cron:room_analytics_rollup";
+    if (!(await this.redis.acquireLock(lockKey, 300))) {
+      return;
+    }
+
+    try {
+      const previousHour = new Date(Date.now() - 60 * 60 * 1000);
+      const count = await this.roomAnalytics.rollupHour(previousHour);
+      if (count > 0) {
+        this.logger.log(`📈 Room analytics rolled up for ${count} rooms`);
+      }
+    } catch (error) {
+      this.logger.error("Room analytics rollup failed", error);
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * نقاط خبرة الغرف من دقائق الاستماع - كل 5 دقائق
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES, { name: "roomListenerXp" })
+  async handleRoomListenerXp(): Promise<void> {
+    // القفل لا يُحرر - ينتهي تلقائياً حتى لا تمنح نسخة أخرى نفس الدقائق مرتين
+    if (!(await this.redis.acquireLock("lock:cron:room_listener_xp", 240))) {
+      return;
+    }
+
+    try {
+      await this.roomLevels.awardListenerMinutes(5);
+    } catch (error) {
+      this.logger.error("Room listener XP failed", error);
+    }
+  }
+
+  /**
+   * تذكيرات الفعاليات المجدولة وبدؤها وإنهاؤها - كل دقيقة
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: "roomEvents" })
+  async handleRoomEvents(): Promise<void> {
+    const lockKey = "lock:cron:room_events";
+    if (!(await this.redis.acquireLock(lockKey, 55))) {
+      return;
+    }
+
+    try {
+      await this.roomEvents.processDue();
+    } catch (error) {
+      this.logger.error("Room events processing failed", error);
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * إنهاء طلبات طرق الباب المنتهية وإبلاغ أصحابها - كل دقيقة
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: "roomKnockExpiry" })
+  async handleRoomKnockExpiry(): Promise<void> {
+    const lockKey = "lock:cron:room_knock_expiry";
+    if (!(await this.redis.acquireLock(lockKey, 55))) {
+      return;
+    }
+
+    try {
+      await this.roomKnocks.expireStale();
+    } catch (error) {
+      this.logger.error("Room knock expiry failed", error);
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
   // ================================
   // STATISTICS JOBS
   // ================================
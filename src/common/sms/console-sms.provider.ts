@@ -0,0 +1,29 @@
+/**
+ * Console SMS Provider - مزود تجريبي للتطوير المحلي
+ * يطبع الرسالة في السجل ويضيفها إلى ملف (SMS_LOG_FILE) إن وُجد
+ */
+
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { SmsProvider } from './sms-provider.interface';
+
+export class ConsoleSmsProvider implements SmsProvider {
+  private readonly logger = new Logger(ConsoleSmsProvider.name);
+
+  constructor(private readonly logFile?: string) {}
+
+  async send(to: string, message: string): Promise<boolean> {
+    this.logger.log(`📱 [SMS] to ${to}: ${message}`);
+
+    if (this.logFile) {
+      try {
+        const line = `${new Date().toISOString()}\t${to}\t${message}\n`;
+        await fs.appendFile(this.logFile, line, 'utf8');
+      } catch (error) {
+        this.logger.warn(`Failed to write SMS log file: ${error.message}`);
+      }
+    }
+
+    return true;
+  }
+}
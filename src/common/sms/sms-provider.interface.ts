@@ -0,0 +1,14 @@
+/**
+ * SMS Provider - واجهة مزود الرسائل النصية
+ * أي مزود (Twilio، مزود محلي...) يطبق هذه الواجهة ويُسجل في SmsModule
+ */
+
+export const SMS_PROVIDER = 'SMS_PROVIDER';
+
+export interface SmsProvider {
+  /**
+   * Send a text message to an E.164 phone number.
+   * Returns false when the message could not be delivered.
+   */
+  send(to: string, message: string): Promise<boolean>;
+}
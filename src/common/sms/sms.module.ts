@@ -0,0 +1,44 @@
+import { Module, Global, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SMS_PROVIDER } from './sms-provider.interface';
+import { ConsoleSmsProvider } from './console-sms.provider';
+import { TwilioSmsProvider } from './twilio-sms.provider';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: SMS_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        const logger = new Logger('SmsModule');
+        const driver = config.get<string>('SMS_DRIVER', 'console');
+
+        switch (driver) {
+          case 'twilio':
+            return new TwilioSmsProvider({
+              accountSid: config.get<string>('TWILIO_ACCOUNT_SID')!,
+              authToken: config.get<string>('TWILIO_AUTH_TOKEN')!,
+              from: config.get<string>('TWILIO_FROM_NUMBER')!,
+            });
+          case 'console':
+            // The console driver logs codes in plaintext - never in production.
+            // Boot without a provider instead; phone OTP answers 503.
+            if (config.get<string>('NODE_ENV') === 'production') {
+              logger.warn(
+                'SMS_DRIVER=console is disabled in production - phone OTP is unavailable until a real SMS provider is configured',
+              );
+              return null;
+            }
+            return new ConsoleSmsProvider(
+              config.get<string>('SMS_LOG_FILE') || undefined,
+            );
+          default:
+            throw new Error(`Unknown SMS_DRIVER: ${driver}`);
+        }
+      },
+    },
+  ],
+  exports: [SMS_PROVIDER],
+})
+export class SmsModule {}
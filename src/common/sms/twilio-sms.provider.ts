@@ -0,0 +1,48 @@
+/**
+ * Twilio SMS Provider - إرسال الرسائل عبر Twilio REST API
+ * يتطلب TWILIO_ACCOUNT_SID و TWILIO_AUTH_TOKEN و TWILIO_FROM_NUMBER
+ */
+
+import { Logger } from '@nestjs/common';
+import { SmsProvider } from './sms-provider.interface';
+
+export interface TwilioSmsConfig {
+  accountSid: string;
+  authToken: string;
+  from: string;
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  private readonly logger = new Logger(TwilioSmsProvider.name);
+
+  constructor(private readonly config: TwilioSmsConfig) {}
+
+  async send(to: string, message: string): Promise<boolean> {
+    const { accountSid, authToken, from } = this.config;
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+    const auth = Buffer.from(`${accountSid}:${authToken}`).toString('base64');
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${auth}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: from, Body: message }),
+        signal: AbortSignal.timeout(10_000),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        this.logger.error(`Twilio send failed (${response.status}): ${error}`);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      this.logger.error(`Twilio send failed: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -62,6 +62,21 @@ export default () => ({
     password: process.env.SMTP_PASSWORD,
     fromEmail: process.env.SMTP_FROM_EMAIL,
     fromName: process.env.SMTP_FROM_NAME || 'Ali App',
+    verificationRequiredFor: process.env.EMAIL_VERIFICATION_REQUIRED_FOR || '',
+  },
+
+  // SMS
+  sms: {
+    driver: process.env.SMS_DRIVER || 'console',
+    logFile: process.env.SMS_LOG_FILE || '',
+  },
+
+  // Account deletion
+  account: {
+    deletionGraceDays: parseInt(
+      process.env.ACCOUNT_DELETION_GRACE_DAYS || '14',
+      10,
+    ),
   },
 
   // Logging
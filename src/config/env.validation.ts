@@ -60,6 +60,33 @@ export const envValidationSchema = Joi.object({
   SMTP_FROM_EMAIL: Joi.string().email().optional(),
   SMTP_FROM_NAME: Joi.string().default('Ali App'),
 
+  // Email verification - features blocked until the email is verified
+  // e.g. "wallet_transfer,gift_send" (empty = no restriction)
+  EMAIL_VERIFICATION_REQUIRED_FOR: Joi.string().allow('').default(''),
+
+  // SMS (phone login OTP) - "console" logs codes (and appends to SMS_LOG_FILE),
+  // "twilio" sends through the Twilio REST API
+  SMS_DRIVER: Joi.string().valid('console', 'twilio').default('console'),
+  SMS_LOG_FILE: Joi.string().allow('').optional(),
+  TWILIO_ACCOUNT_SID: Joi.string().when('SMS_DRIVER', {
+    is: 'twilio',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
+  TWILIO_AUTH_TOKEN: Joi.string().when('SMS_DRIVER', {
+    is: 'twilio',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
+  TWILIO_FROM_NUMBER: Joi.string().when('SMS_DRIVER', {
+    is: 'twilio',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
+
+  // Account deletion - days the user can still log in and restore the account
+  ACCOUNT_DELETION_GRACE_DAYS: Joi.number().integer().min(0).default(14),
+
   // Logging
   LOG_LEVEL: Joi.string()
     .valid('error', 'warn', 'info', 'debug', 'verbose')
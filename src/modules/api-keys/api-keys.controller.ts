@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Ip,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from "@nestjs/common";
+import { Throttle } from "@nestjs/throttler";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { ApiKeysService } from "./api-keys.service";
+import { CreateApiKeyDto } from "./dto/api-keys.dto";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { CurrentUser } from "../auth/decorators/current-user.decorator";
+
+@ApiTags("api-keys")
+@Controller("api-keys")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Get()
+  @ApiOperation({ summary: "قائمة مفاتيح API الخاصة بي" })
+  async list(@CurrentUser("id") userId: string) {
+    return this.apiKeysService.list(userId);
+  }
+
+  @Post()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "إنشاء مفتاح API" })
+  @ApiResponse({
+    status: 201,
+    description: "المفتاح يظهر مرة واحدة فقط - احفظه في مكان آمن",
+  })
+  async create(
+    @CurrentUser() user: any,
+    @Body() dto: CreateApiKeyDto,
+    @Ip() ip: string,
+  ) {
+    return this.apiKeysService.create(user, dto, ip);
+  }
+
+  @Post(":id/rotate")
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "تجديد مفتاح API (المفتاح القديم يتوقف فوراً)" })
+  async rotate(
+    @CurrentUser() user: any,
+    @Param("id") id: string,
+    @Ip() ip: string,
+  ) {
+    return this.apiKeysService.rotate(user, id, ip);
+  }
+
+  @Delete(":id")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "إلغاء مفتاح API" })
+  async revoke(
+    @CurrentUser("id") userId: string,
+    @Param("id") id: string,
+    @Ip() ip: string,
+  ) {
+    await this.apiKeysService.revoke(userId, id, ip);
+    return { message: "تم إلغاء المفتاح" };
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * API Keys Module - مفاتيح API للبوتات والخدمات الداخلية
+ * Global: ApiKeyGuard يحتاج ApiKeysService في أي موديول يستخدمه
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { ApiKeysController } from "./api-keys.controller";
+import { ApiKeysService } from "./api-keys.service";
+import { AuthModule } from "../auth/auth.module";
+
+@Global()
+@Module({
+  imports: [AuthModule],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,204 @@
+/**
+ * API Keys Service Unit Tests
+ * اختبارات وحدة خدمة مفاتيح API
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { ApiKeysService } from './api-keys.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { SecurityService } from '../../common/security/security.service';
+import { TwoFactorService } from '../auth/two-factor.service';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+
+  const context = { method: 'POST', path: '/api/v1/gifts/send', ip: '1.2.3.4' };
+
+  const mockPrismaService = {
+    apiKey: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    adminAction: {
+      create: jest.fn(),
+    },
+  };
+
+  const mockSecurityService = {
+    checkRateLimit: jest.fn(),
+  };
+
+  const mockTwoFactorService = {
+    hasRecentMfa: jest.fn(),
+  };
+
+  const activeKey = (overrides: Record<string, unknown> = {}) => ({
+    id: 'key-1',
+    userId: 'user-1',
+    name: 'bot',
+    scopes: ['gifts:send'],
+    rateLimitPerMinute: 2,
+    revokedAt: null,
+    expiresAt: null,
+    lastUsedAt: null,
+    user: { id: 'user-1', role: 'USER', status: 'ACTIVE' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SecurityService, useValue: mockSecurityService },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+
+    jest.clearAllMocks();
+    mockSecurityService.checkRateLimit.mockResolvedValue({
+      allowed: true,
+      remaining: 1,
+      resetAt: Date.now() + 60000,
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve the key owner by key hash', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(activeKey());
+
+      const user = await service.authenticate(
+        'ak_secret',
+        ['gifts:send'],
+        context,
+      );
+
+      expect(mockPrismaService.apiKey.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            keyHash: crypto.createHash('sha256').update('ak_secret').digest('hex'),
+          },
+        }),
+      );
+      expect(user).toEqual(
+        expect.objectContaining({ id: 'user-1', apiKeyId: 'key-1' }),
+      );
+      expect(mockPrismaService.adminAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'API_KEY_USED' }),
+      });
+    });
+
+    it('should reject an unknown key', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.authenticate('ak_wrong', ['gifts:send'], context),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a revoked key', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(
+        activeKey({ revokedAt: new Date() }),
+      );
+
+      await expect(
+        service.authenticate('ak_secret', ['gifts:send'], context),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockSecurityService.checkRateLimit).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired key', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(
+        activeKey({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(
+        service.authenticate('ak_secret', ['gifts:send'], context),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a key whose owner is no longer active', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(
+        activeKey({ user: { id: 'user-1', role: 'USER', status: 'BANNED' } }),
+      );
+
+      await expect(
+        service.authenticate('ak_secret', ['gifts:send'], context),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a key without the route scope', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(
+        activeKey({ scopes: ['rooms:read'] }),
+      );
+
+      const error = await service
+        .authenticate('ak_secret', ['gifts:send'], context)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({
+          code: 'API_KEY_SCOPE_REQUIRED',
+          requiredScopes: ['gifts:send'],
+        }),
+      );
+      expect(mockPrismaService.adminAction.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the per-key rate limit', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(activeKey());
+      mockSecurityService.checkRateLimit.mockResolvedValue({
+        allowed: false,
+        remaining: 0,
+        resetAt: Date.now() + 30000,
+      });
+
+      const error = await service
+        .authenticate('ak_secret', ['gifts:send'], context)
+        .catch((e) => e);
+
+      expect(mockSecurityService.checkRateLimit).toHaveBeenCalledWith(
+        'api-key:key-1',
+        2,
+        60,
+      );
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(error.getResponse().retryAfter).toBeGreaterThan(0);
+      expect(mockPrismaService.adminAction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    it('should not let a regular user grant staff scopes', async () => {
+      await expect(
+        service.create(
+          { id: 'user-1', role: 'USER' },
+          { name: 'bot', scopes: ['wallet:adjust'] },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should require a recent 2FA check for staff scopes', async () => {
+      mockTwoFactorService.hasRecentMfa.mockResolvedValue(false);
+
+      await expect(
+        service.create(
+          { id: 'admin-1', role: 'ADMIN', sessionId: 'sid-1' },
+          { name: 'bot', scopes: ['wallet:adjust'] },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockTwoFactorService.hasRecentMfa).toHaveBeenCalledWith('sid-1');
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from "@nestjs/common";
+import * as crypto from "crypto";
+import { AdminActionType, UserRole, UserStatus } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { SecurityService } from "../../common/security/security.service";
+import { TwoFactorService } from "../auth/two-factor.service";
+import { CreateApiKeyDto } from "./dto/api-keys.dto";
+
+export const API_KEY_SCOPES = [
+  "gifts:send",
+  "rooms:read",
+  "wallet:adjust",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Scopes that act on other users' balances - admin owners only
+const STAFF_SCOPES: ApiKeyScope[] = ["wallet:adjust"];
+const STAFF_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+export interface ApiKeyRequestContext {
+  method: string;
+  path: string;
+  ip?: string;
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  rateLimitPerMinute: number;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  private readonly KEY_PREFIX = "ak_";
+  private readonly MAX_ACTIVE_KEYS = 10;
+  private readonly LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+  constructor(
+    private prisma: PrismaService,
+    private security: SecurityService,
+    private twoFactor: TwoFactorService,
+  ) {}
+
+  // ================================
+  // KEY MANAGEMENT (owner)
+  // ================================
+
+  /**
+   * Create a key. The plain key is returned once and never stored.
+   */
+  async create(
+    user: { id: string; role: string; sessionId?: string },
+    dto: CreateApiKeyDto,
+    ipAddress?: string,
+  ): Promise<ApiKeyInfo & { key: string }> {
+    const scopes = Array.from(new Set(dto.scopes));
+    await this.assertCanGrant(user, scopes);
+
+    const activeKeys = await this.prisma.apiKey.count({
+      where: { userId: user.id, revokedAt: null },
+    });
+    if (activeKeys >= this.MAX_ACTIVE_KEYS) {
+      throw new BadRequestException(
+        `لا يمكن إنشاء أكثر من ${this.MAX_ACTIVE_KEYS} مفاتيح فعالة`,
+      );
+    }
+
+    const key = this.generateKey();
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId: user.id,
+        name: dto.name,
+        keyPrefix: key.slice(0, 11),
+        keyHash: this.hashKey(key),
+        scopes,
+        rateLimitPerMinute: dto.rateLimitPerMinute ?? 60,
+        expiresAt: dto.expiresInDays
+          ? new Date(Date.now() + dto.expiresInDays * 24 * 60 * 60 * 1000)
+          : null,
+      },
+    });
+
+    await this.logAction(user.id, AdminActionType.API_KEY_CREATED, ipAddress, {
+      apiKeyId: apiKey.id,
+      name: apiKey.name,
+      scopes,
+    });
+
+    this.logger.log(`User ${user.id} created API key ${apiKey.id}`);
+
+    return { ...this.toInfo(apiKey), key };
+  }
+
+  async list(userId: string): Promise<ApiKeyInfo[]> {
+    const keys = await this.prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return keys.map((k) => this.toInfo(k));
+  }
+
+  /**
+   * Replace the secret of a key. The old secret stops working immediately.
+   */
+  async rotate(
+    user: { id: string; role: string; sessionId?: string },
+    keyId: string,
+    ipAddress?: string,
+  ): Promise<ApiKeyInfo & { key: string }> {
+    const apiKey = await this.findOwnedKey(user.id, keyId);
+
+    if (apiKey.revokedAt) {
+      throw new BadRequestException("لا يمكن تجديد مفتاح ملغى");
+    }
+
+    await this.assertCanGrant(user, apiKey.scopes);
+
+    const key = this.generateKey();
+    const updated = await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: {
+        keyPrefix: key.slice(0, 11),
+        keyHash: this.hashKey(key),
+      },
+    });
+
+    await this.logAction(user.id, AdminActionType.API_KEY_ROTATED, ipAddress, {
+      apiKeyId: apiKey.id,
+      name: apiKey.name,
+    });
+
+    return { ...this.toInfo(updated), key };
+  }
+
+  async revoke(
+    userId: string,
+    keyId: string,
+    ipAddress?: string,
+  ): Promise<void> {
+    const apiKey = await this.findOwnedKey(userId, keyId);
+
+    if (apiKey.revokedAt) {
+      return;
+    }
+
+    await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.logAction(userId, AdminActionType.API_KEY_REVOKED, ipAddress, {
+      apiKeyId: apiKey.id,
+      name: apiKey.name,
+    });
+
+    this.logger.log(`User ${userId} revoked API key ${apiKey.id}`);
+  }
+
+  // ================================
+  // AUTHENTICATION (ApiKeyGuard)
+  // ================================
+
+  /**
+   * Resolve a key to its owner for a route that requires the given scopes.
+   * Enforces the per-key rate limit and records the call in AdminAction.
+   */
+  async authenticate(
+    rawKey: string,
+    requiredScopes: string[],
+    context: ApiKeyRequestContext,
+  ) {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(rawKey) },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            username: true,
+            displayName: true,
+            avatar: true,
+            role: true,
+            status: true,
+            emailVerified: true,
+            phoneNumber: true,
+            phoneVerified: true,
+            twoFactorEnabled: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt < new Date())
+    ) {
+      throw new UnauthorizedException("مفتاح API غير صالح أو منتهي الصلاحية");
+    }
+
+    if (apiKey.user.status !== UserStatus.ACTIVE) {
+      throw new UnauthorizedException("حساب صاحب المفتاح غير نشط");
+    }
+
+    const missing = requiredScopes.filter((s) => !apiKey.scopes.includes(s));
+    if (missing.length > 0) {
+      throw new ForbiddenException({
+        message: "صلاحيات المفتاح لا تسمح بهذه العملية",
+        code: "API_KEY_SCOPE_REQUIRED",
+        requiredScopes: missing,
+      });
+    }
+
+    const limit = await this.security.checkRateLimit(
+      `api-key:${apiKey.id}`,
+      apiKey.rateLimitPerMinute,
+      60,
+    );
+    if (!limit.allowed) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: "تم تجاوز الحد المسموح لهذا المفتاح",
+          retryAfter: Math.ceil((limit.resetAt - Date.now()) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const now = Date.now();
+    if (
+      !apiKey.lastUsedAt ||
+      now - apiKey.lastUsedAt.getTime() > this.LAST_USED_UPDATE_INTERVAL_MS
+    ) {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date(now), lastUsedIp: context.ip },
+      });
+    }
+
+    await this.logAction(
+      apiKey.userId,
+      AdminActionType.API_KEY_USED,
+      context.ip,
+      {
+        apiKeyId: apiKey.id,
+        name: apiKey.name,
+        method: context.method,
+        path: context.path,
+        scopes: requiredScopes,
+      },
+    );
+
+    return {
+      ...apiKey.user,
+      apiKeyId: apiKey.id,
+      apiKeyScopes: apiKey.scopes,
+    };
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private async assertCanGrant(
+    user: { id: string; role: string; sessionId?: string },
+    scopes: string[],
+  ): Promise<void> {
+    if (!scopes.some((s) => STAFF_SCOPES.includes(s as ApiKeyScope))) {
+      return;
+    }
+
+    if (!STAFF_ROLES.includes(user.role as UserRole)) {
+      throw new ForbiddenException("ليس لديك الصلاحية لمنح هذه الصلاحيات");
+    }
+
+    // Staff scopes need the same recent 2FA check as owner actions
+    if (!(await this.twoFactor.hasRecentMfa(user.sessionId))) {
+      throw new ForbiddenException({
+        message: "يرجى إدخال رمز المصادقة الثنائية لتأكيد هذه العملية",
+        code: "MFA_REQUIRED",
+      });
+    }
+  }
+
+  private async findOwnedKey(userId: string, keyId: string) {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id: keyId, userId },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException("المفتاح غير موجود");
+    }
+
+    return apiKey;
+  }
+
+  private async logAction(
+    userId: string,
+    action: AdminActionType,
+    ipAddress: string | undefined,
+    details: Record<string, unknown>,
+  ): Promise<void> {
+    try {
+      await this.prisma.adminAction.create({
+        data: {
+          actorId: userId,
+          action,
+          details: details as any,
+          ipAddress,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to log ${action}: ${error.message}`);
+    }
+  }
+
+  private generateKey(): string {
+    return `${this.KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+  }
+
+  private toInfo(apiKey: ApiKeyInfo): ApiKeyInfo {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      expiresAt: apiKey.expiresAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
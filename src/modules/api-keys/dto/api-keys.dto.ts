@@ -0,0 +1,42 @@
+import {
+  IsString,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  ArrayNotEmpty,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+} from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { API_KEY_SCOPES } from "../api-keys.service";
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: "Gift bot" })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: ["gifts:send"], enum: API_KEY_SCOPES, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: string[];
+
+  @ApiPropertyOptional({ example: 60, description: "Requests per minute" })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(600)
+  rateLimitPerMinute?: number;
+
+  @ApiPropertyOptional({ example: 90, description: "Empty = no expiry" })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays?: number;
+}
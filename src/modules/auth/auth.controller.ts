@@ -7,6 +7,8 @@ import {
   HttpCode,
   HttpStatus,
   Get,
+  Delete,
+  Param,
 } from "@nestjs/common";
 import {
   ApiTags,
@@ -17,13 +19,26 @@ import {
 import { Request } from "express";
 import { Throttle } from "@nestjs/throttler";
 import { AuthService } from "./auth.service";
+import { TwoFactorService } from "./two-factor.service";
 import {
   RegisterDto,
   LoginDto,
   GoogleLoginDto,
+  LinkGoogleDto,
+  RequestPhoneOtpDto,
+  PhoneLoginDto,
+  LinkPhoneDto,
   RefreshTokenDto,
   LogoutDto,
   ChangePasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  ChangeEmailDto,
+  VerifyMfaLoginDto,
+  RestoreAccountDto,
+  TwoFactorCodeDto,
+  DisableTwoFactorDto,
 } from "./dto/auth.dto";
 import { JwtAuthGuard } from "./guards/jwt-auth.guard";
 import { CurrentUser } from "./decorators/current-user.decorator";
@@ -32,7 +47,10 @@ import { Public } from "./decorators/public.decorator";
 @ApiTags("auth")
 @Controller("auth")
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
 
   @Public()
   @Post("register")
@@ -72,6 +90,106 @@ export class AuthController {
     return this.authService.googleLogin(dto, ipAddress);
   }
 
+  @Public()
+  @Post("phone/request-otp")
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiOperation({ summary: "إرسال رمز دخول إلى رقم الهاتف" })
+  @ApiResponse({ status: 200, description: "تم إرسال الرمز" })
+  @ApiResponse({ status: 429, description: "طلبات كثيرة" })
+  async requestPhoneOtp(@Body() dto: RequestPhoneOtpDto, @Req() req: Request) {
+    const ipAddress = this.getClientIp(req);
+    const result = await this.authService.requestPhoneOtp(dto, ipAddress);
+    return { message: "تم إرسال رمز التحقق", ...result };
+  }
+
+  @Public()
+  @Post("phone/login")
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: "تسجيل دخول / إنشاء حساب برقم الهاتف" })
+  @ApiResponse({ status: 200, description: "تم تسجيل الدخول بنجاح" })
+  @ApiResponse({ status: 401, description: "رمز التحقق غير صحيح" })
+  async phoneLogin(@Body() dto: PhoneLoginDto, @Req() req: Request) {
+    const ipAddress = this.getClientIp(req);
+    return this.authService.phoneLogin(dto, ipAddress);
+  }
+
+  @Post("phone/link/request-otp")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiOperation({ summary: "إرسال رمز لربط رقم هاتف بالحساب" })
+  @ApiResponse({ status: 200, description: "تم إرسال الرمز" })
+  @ApiResponse({ status: 409, description: "الرقم مرتبط بحساب آخر" })
+  async requestPhoneLinkOtp(
+    @CurrentUser() user: any,
+    @Body() dto: RequestPhoneOtpDto,
+    @Req() req: Request,
+  ) {
+    const ipAddress = this.getClientIp(req);
+    const result = await this.authService.requestPhoneLinkOtp(
+      user.id,
+      dto,
+      ipAddress,
+    );
+    return { message: "تم إرسال رمز التحقق", ...result };
+  }
+
+  @Post("phone/link")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: "تأكيد وربط رقم الهاتف بالحساب" })
+  @ApiResponse({ status: 200, description: "تم ربط رقم الهاتف" })
+  async linkPhone(
+    @CurrentUser() user: any,
+    @Body() dto: LinkPhoneDto,
+    @Req() req: Request,
+  ) {
+    const ipAddress = this.getClientIp(req);
+    const result = await this.authService.linkPhone(user.id, dto, ipAddress);
+    return { message: "تم ربط رقم الهاتف بنجاح", ...result };
+  }
+
+  @Post("google/link")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "ربط حساب Google بالحساب الحالي" })
+  @ApiResponse({ status: 200, description: "تم ربط حساب Google" })
+  @ApiResponse({ status: 409, description: "حساب Google مرتبط بحساب آخر" })
+  async linkGoogle(
+    @CurrentUser() user: any,
+    @Body() dto: LinkGoogleDto,
+    @Req() req: Request,
+  ) {
+    const ipAddress = this.getClientIp(req);
+    const result = await this.authService.linkGoogle(
+      user.id,
+      dto.idToken,
+      ipAddress,
+    );
+    return { message: "تم ربط حساب Google بنجاح", ...result };
+  }
+
+  @Delete("google/link")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "إلغاء ربط حساب Google" })
+  @ApiResponse({ status: 200, description: "تم إلغاء الربط" })
+  @ApiResponse({ status: 400, description: "لا توجد طريقة دخول أخرى" })
+  async unlinkGoogle(@CurrentUser() user: any, @Req() req: Request) {
+    const ipAddress = this.getClientIp(req);
+    await this.authService.unlinkGoogle(user.id, ipAddress);
+    return { message: "تم إلغاء ربط حساب Google" };
+  }
+
   @Public()
   @Post("refresh")
   @HttpCode(HttpStatus.OK)
@@ -95,6 +213,46 @@ export class AuthController {
     return { message: "تم تسجيل الخروج بنجاح" };
   }
 
+  @Get("sessions")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "قائمة الجلسات النشطة (الأجهزة)" })
+  @ApiResponse({ status: 200, description: "الجلسات النشطة" })
+  async getSessions(@CurrentUser() user: any) {
+    return this.authService.getSessions(user.id, user.sessionId);
+  }
+
+  @Post("sessions/logout-others")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "تسجيل الخروج من جميع الأجهزة الأخرى" })
+  @ApiResponse({
+    status: 200,
+    description: "تم تسجيل الخروج من الأجهزة الأخرى",
+  })
+  async logoutOtherSessions(@CurrentUser() user: any) {
+    const result = await this.authService.revokeOtherSessions(
+      user.id,
+      user.sessionId,
+    );
+    return { message: "تم تسجيل الخروج من الأجهزة الأخرى", ...result };
+  }
+
+  @Delete("sessions/:id")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: "إنهاء جلسة جهاز محدد" })
+  @ApiResponse({ status: 200, description: "تم إنهاء الجلسة" })
+  @ApiResponse({ status: 404, description: "الجلسة غير موجودة" })
+  async revokeSession(@CurrentUser() user: any, @Param("id") id: string) {
+    await this.authService.revokeSession(user.id, id);
+    return { message: "تم إنهاء الجلسة بنجاح" };
+  }
+
   @Post("change-password")
   @HttpCode(HttpStatus.OK)
   @UseGuards(JwtAuthGuard)
@@ -110,6 +268,190 @@ export class AuthController {
     return { message: "تم تغيير كلمة المرور بنجاح" };
   }
 
+  @Public()
+  @Post("forgot-password")
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "طلب رابط إعادة تعيين كلمة المرور" })
+  @ApiResponse({
+    status: 200,
+    description: "تم إرسال الرابط إن كان البريد مسجلاً",
+  })
+  @ApiResponse({ status: 429, description: "طلبات كثيرة جداً" })
+  async forgotPassword(@Body() dto: ForgotPasswordDto, @Req() req: Request) {
+    const ipAddress = this.getClientIp(req);
+    await this.authService.forgotPassword(dto, ipAddress);
+    return {
+      message:
+        "إذا كان البريد الإلكتروني مسجلاً، ستصلك رسالة لإعادة تعيين كلمة المرور",
+    };
+  }
+
+  @Public()
+  @Post("reset-password")
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "إعادة تعيين كلمة المرور باستخدام الرمز" })
+  @ApiResponse({ status: 200, description: "تم تغيير كلمة المرور" })
+  @ApiResponse({
+    status: 400,
+    description: "رابط إعادة التعيين غير صالح أو منتهي",
+  })
+  async resetPassword(@Body() dto: ResetPasswordDto, @Req() req: Request) {
+    const ipAddress = this.getClientIp(req);
+    await this.authService.resetPassword(dto, ipAddress);
+    return { message: "تم تغيير كلمة المرور بنجاح. يرجى تسجيل الدخول مجدداً" };
+  }
+
+  @Public()
+  @Post("verify-email")
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: "تأكيد البريد الإلكتروني" })
+  @ApiResponse({ status: 200, description: "تم تأكيد البريد الإلكتروني" })
+  @ApiResponse({ status: 400, description: "رابط التأكيد غير صالح أو منتهي" })
+  async verifyEmail(@Body() dto: VerifyEmailDto) {
+    const result = await this.authService.verifyEmail(dto);
+    return { message: "تم تأكيد البريد الإلكتروني بنجاح", ...result };
+  }
+
+  @Post("resend-verification")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiOperation({ summary: "إعادة إرسال رسالة تأكيد البريد" })
+  @ApiResponse({ status: 200, description: "تم إرسال رسالة التأكيد" })
+  @ApiResponse({ status: 429, description: "يرجى الانتظار قبل إعادة الإرسال" })
+  async resendVerification(@CurrentUser("id") userId: string) {
+    await this.authService.resendEmailVerification(userId);
+    return { message: "تم إرسال رسالة التأكيد" };
+  }
+
+  @Post("change-email")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiOperation({
+    summary: "تغيير البريد الإلكتروني (يتطلب تأكيد البريد الجديد)",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "تم إرسال رسالة التأكيد للبريد الجديد",
+  })
+  @ApiResponse({ status: 409, description: "البريد الإلكتروني مسجل بالفعل" })
+  async changeEmail(
+    @CurrentUser("id") userId: string,
+    @Body() dto: ChangeEmailDto,
+  ) {
+    const result = await this.authService.requestEmailChange(userId, dto);
+    return {
+      message: "تم إرسال رسالة تأكيد إلى البريد الجديد",
+      ...result,
+    };
+  }
+
+  // ================================
+  // ACCOUNT RESTORE
+  // ================================
+
+  @Public()
+  @Post("account/restore")
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "استعادة حساب مجدول للحذف" })
+  @ApiResponse({ status: 200, description: "تمت استعادة الحساب" })
+  @ApiResponse({ status: 401, description: "انتهت فترة الاستعادة" })
+  async restoreAccount(@Body() dto: RestoreAccountDto, @Req() req: Request) {
+    const ipAddress = this.getClientIp(req);
+    return this.authService.restoreAccount(dto, ipAddress);
+  }
+
+  // ================================
+  // TWO-FACTOR AUTHENTICATION
+  // ================================
+
+  @Public()
+  @Post("2fa/verify")
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: "إكمال تسجيل الدخول برمز المصادقة الثنائية" })
+  @ApiResponse({ status: 200, description: "تم تسجيل الدخول بنجاح" })
+  @ApiResponse({ status: 401, description: "رمز التحقق غير صحيح" })
+  async verifyMfaLogin(@Body() dto: VerifyMfaLoginDto, @Req() req: Request) {
+    const ipAddress = this.getClientIp(req);
+    return this.authService.verifyMfaLogin(dto, ipAddress);
+  }
+
+  @Post("2fa/setup")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "بدء إعداد المصادقة الثنائية (QR)" })
+  @ApiResponse({ status: 200, description: "السر ورمز QR" })
+  async setupTwoFactor(@CurrentUser() user: any) {
+    return this.twoFactorService.setup(user.id);
+  }
+
+  @Post("2fa/enable")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "تفعيل المصادقة الثنائية" })
+  @ApiResponse({ status: 200, description: "رموز الاسترداد (تظهر مرة واحدة)" })
+  async enableTwoFactor(
+    @CurrentUser() user: any,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.enable(user.id, dto.code);
+  }
+
+  @Post("2fa/disable")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: "إيقاف المصادقة الثنائية" })
+  @ApiResponse({ status: 200, description: "تم إيقاف المصادقة الثنائية" })
+  async disableTwoFactor(
+    @CurrentUser() user: any,
+    @Body() dto: DisableTwoFactorDto,
+  ) {
+    await this.twoFactorService.disable(user.id, dto.code, dto.password);
+    return { message: "تم إيقاف المصادقة الثنائية" };
+  }
+
+  @Post("2fa/recovery-codes")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiOperation({ summary: "توليد رموز استرداد جديدة" })
+  @ApiResponse({ status: 200, description: "رموز الاسترداد الجديدة" })
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: any,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(user.id, dto.code);
+  }
+
+  @Post("2fa/step-up")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: "إعادة التحقق قبل العمليات الحساسة" })
+  @ApiResponse({ status: 200, description: "تم التحقق" })
+  async stepUpTwoFactor(
+    @CurrentUser() user: any,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.stepUp(user.id, user.sessionId, dto.code);
+  }
+
   @Get("me")
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -4,9 +4,15 @@ import { PassportModule } from "@nestjs/passport";
 import { ConfigModule, ConfigService } from "@nestjs/config";
 import { AuthController } from "./auth.controller";
 import { AuthService } from "./auth.service";
+import { TwoFactorService } from "./two-factor.service";
+import { PhoneOtpService } from "./phone-otp.service";
 import { JwtStrategy } from "./strategies/jwt.strategy";
 import { JwtAuthGuard } from "./guards/jwt-auth.guard";
 import { RolesGuard } from "./guards/roles.guard";
+import { EmailVerifiedGuard } from "./guards/email-verified.guard";
+import { RecentMfaGuard } from "./guards/recent-mfa.guard";
+import { WebsocketModule } from "../websocket/websocket.module";
+import { NotificationsModule } from "../notifications/notifications.module";
 
 @Module({
   imports: [
@@ -21,9 +27,27 @@ import { RolesGuard } from "./guards/roles.guard";
         },
       }),
     }),
+    WebsocketModule,
+    NotificationsModule,
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, JwtAuthGuard, RolesGuard],
-  exports: [AuthService, JwtAuthGuard, RolesGuard],
+  providers: [
+    AuthService,
+    TwoFactorService,
+    PhoneOtpService,
+    JwtStrategy,
+    JwtAuthGuard,
+    RolesGuard,
+    EmailVerifiedGuard,
+    RecentMfaGuard,
+  ],
+  exports: [
+    AuthService,
+    TwoFactorService,
+    JwtAuthGuard,
+    RolesGuard,
+    EmailVerifiedGuard,
+    RecentMfaGuard,
+  ],
 })
 export class AuthModule {}
@@ -6,10 +6,24 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import * as argon2 from 'argon2';
 import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { PhoneOtpService } from './phone-otp.service';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { RedisService } from '../../common/redis/redis.service';
-import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import { CacheService } from '../../common/cache/cache.service';
+import { EmailService } from '../../common/email/email.service';
+import { SecurityService } from '../../common/security/security.service';
+import { AppGateway } from '../websocket/app.gateway';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 
 describe('AuthService', () => {
   let service: AuthService;
@@ -20,17 +34,35 @@ describe('AuthService', () => {
   const mockPrismaService: any = {
     user: {
       findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    adminAction: {
+      create: jest.fn(),
     },
     wallet: {
       create: jest.fn(),
     },
     refreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    passwordResetToken: {
       create: jest.fn(),
       findUnique: jest.fn(),
       updateMany: jest.fn(),
     },
+    emailVerificationToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+    },
     $transaction: jest.fn((callback: any) => callback(mockPrismaService)),
     ensureConnection: jest.fn(),
   };
@@ -40,6 +72,48 @@ describe('AuthService', () => {
     get: jest.fn(),
     del: jest.fn(),
     isEnabled: jest.fn().mockReturnValue(true),
+    setUserOffline: jest.fn(),
+    acquireLock: jest.fn().mockResolvedValue(true),
+    markSessionsRevoked: jest.fn(),
+  };
+
+  const mockGateway = {
+    disconnectSessions: jest.fn(),
+  };
+
+  const mockTwoFactorService = {
+    createChallenge: jest.fn().mockReturnValue({
+      mfaRequired: true,
+      mfaToken: 'mfa-token',
+      expiresIn: 300,
+    }),
+    verifyChallenge: jest.fn(),
+    markRecentMfa: jest.fn(),
+  };
+
+  const mockPhoneOtpService = {
+    normalizePhone: jest.fn((phone: string) => phone),
+    sendCode: jest.fn(),
+    verifyCode: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    create: jest.fn(),
+  };
+
+  const mockCacheService = {
+    invalidateUser: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendPasswordResetEmail: jest.fn().mockResolvedValue(true),
+    sendEmailVerification: jest.fn().mockResolvedValue(true),
+  };
+
+  const mockSecurityService = {
+    checkRateLimit: jest.fn(),
+    logSecurityEvent: jest.fn(),
+    recordFailedLogin: jest.fn(),
   };
 
   const mockJwtService = {
@@ -70,6 +144,13 @@ describe('AuthService', () => {
         { provide: RedisService, useValue: mockRedisService },
         { provide: JwtService, useValue: mockJwtService },
         { provide: ConfigService, useValue: mockConfigService },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: AppGateway, useValue: mockGateway },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
+        { provide: PhoneOtpService, useValue: mockPhoneOtpService },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: SecurityService, useValue: mockSecurityService },
       ],
     }).compile();
 
@@ -133,6 +214,58 @@ describe('AuthService', () => {
     });
   });
 
+  describe('login with two-factor', () => {
+    const user = {
+      id: 'user-id',
+      numericId: BigInt(1),
+      email: 'test@example.com',
+      username: 'testuser',
+      displayName: 'Test User',
+      avatar: null,
+      role: 'ADMIN',
+      status: 'ACTIVE',
+      emailVerified: true,
+      twoFactorEnabled: true,
+    };
+
+    it('should return an MFA challenge instead of tokens', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...user,
+        passwordHash: await argon2.hash('Password123!'),
+      });
+
+      const result = await service.login({
+        email: 'test@example.com',
+        password: 'Password123!',
+      });
+
+      expect(result).toEqual(expect.objectContaining({ mfaRequired: true }));
+      expect(mockTwoFactorService.createChallenge).toHaveBeenCalledWith(
+        'user-id',
+        undefined,
+      );
+      expect(mockPrismaService.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should issue tokens and mark the session as recently verified', async () => {
+      mockTwoFactorService.verifyChallenge.mockResolvedValue({
+        userId: 'user-id',
+        deviceInfo: 'iPhone',
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue(user);
+
+      const result = await service.verifyMfaLogin({
+        mfaToken: 'mfa-token',
+        code: '123456',
+      });
+
+      expect(result.tokens.accessToken).toBeDefined();
+      const sessionId =
+        mockPrismaService.refreshToken.create.mock.calls[0][0].data.sessionId;
+      expect(mockTwoFactorService.markRecentMfa).toHaveBeenCalledWith(sessionId);
+    });
+  });
+
   describe('validateUser', () => {
     it('should return null if user not found', async () => {
       mockPrismaService.user.findUnique.mockResolvedValue(null);
@@ -173,4 +306,562 @@ describe('AuthService', () => {
       expect(result.id).toBe('user-id');
     });
   });
+
+  describe('forgotPassword', () => {
+    beforeEach(() => {
+      mockSecurityService.checkRateLimit.mockResolvedValue({
+        allowed: true,
+        remaining: 2,
+        resetAt: Date.now() + 3600000,
+      });
+    });
+
+    it('should store a hashed token and email the raw token', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'test@example.com',
+        status: 'ACTIVE',
+      });
+      mockPrismaService.$transaction.mockResolvedValueOnce([]);
+
+      await service.forgotPassword({ email: 'Test@Example.com' }, '1.2.3.4');
+
+      const created = mockPrismaService.passwordResetToken.create.mock.calls[0][0];
+      const sentToken = mockEmailService.sendPasswordResetEmail.mock.calls[0][1];
+      expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        expect.any(String),
+      );
+      expect(created.data.tokenHash).not.toBe(sentToken);
+      expect(created.data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not reveal unknown emails', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.forgotPassword({ email: 'nobody@example.com' }, '1.2.3.4'),
+      ).resolves.toBeUndefined();
+      expect(mockEmailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it('should throw 429 when rate limited', async () => {
+      mockSecurityService.checkRateLimit.mockResolvedValue({
+        allowed: false,
+        remaining: 0,
+        resetAt: Date.now() + 1000,
+      });
+
+      await expect(
+        service.forgotPassword({ email: 'test@example.com' }, '1.2.3.4'),
+      ).rejects.toThrow(HttpException);
+    });
+  });
+
+  describe('resetPassword', () => {
+    const resetDto = { token: 'raw-token', newPassword: 'NewPassword123!' };
+
+    beforeEach(() => {
+      mockSecurityService.checkRateLimit.mockResolvedValue({
+        allowed: true,
+        remaining: 9,
+        resetAt: Date.now() + 3600000,
+      });
+    });
+
+    it('should reject used or expired tokens', async () => {
+      mockPrismaService.passwordResetToken.findUnique.mockResolvedValue({
+        id: 'token-id',
+        userId: 'user-id',
+        usedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60000),
+        user: { id: 'user-id', status: 'ACTIVE' },
+      });
+
+      await expect(service.resetPassword(resetDto, '1.2.3.4')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should update password and revoke all refresh tokens', async () => {
+      mockPrismaService.passwordResetToken.findUnique.mockResolvedValue({
+        id: 'token-id',
+        userId: 'user-id',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+        user: { id: 'user-id', status: 'ACTIVE' },
+      });
+      mockPrismaService.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.resetPassword(resetDto, '1.2.3.4');
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'user-id' } }),
+      );
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email as verified', async () => {
+      mockPrismaService.emailVerificationToken.findUnique.mockResolvedValue({
+        id: 'token-id',
+        userId: 'user-id',
+        email: 'test@example.com',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+        user: { id: 'user-id', email: 'test@example.com' },
+      });
+      mockPrismaService.emailVerificationToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.verifyEmail({ token: 'raw-token' });
+
+      expect(result.email).toBe('test@example.com');
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { email: 'test@example.com', emailVerified: true },
+      });
+    });
+
+    it('should refuse an email change to an address taken meanwhile', async () => {
+      mockPrismaService.emailVerificationToken.findUnique.mockResolvedValue({
+        id: 'token-id',
+        userId: 'user-id',
+        email: 'new@example.com',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+        user: { id: 'user-id', email: 'old@example.com' },
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'other-user' });
+
+      await expect(service.verifyEmail({ token: 'raw-token' })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should map a unique violation on the email to a conflict', async () => {
+      mockPrismaService.emailVerificationToken.findUnique.mockResolvedValue({
+        id: 'token-id',
+        userId: 'user-id',
+        email: 'new@example.com',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+        user: { id: 'user-id', email: 'old@example.com' },
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.emailVerificationToken.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.user.update.mockRejectedValueOnce(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }),
+      );
+
+      await expect(service.verifyEmail({ token: 'raw-token' })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('resendEmailVerification', () => {
+    it('should enforce the resend cooldown', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'test@example.com',
+        emailVerified: false,
+      });
+      mockPrismaService.emailVerificationToken.findFirst.mockResolvedValue(null);
+      mockRedisService.acquireLock.mockResolvedValueOnce(false);
+
+      await expect(service.resendEmailVerification('user-id')).rejects.toThrow(
+        HttpException,
+      );
+      expect(mockEmailService.sendEmailVerification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      mockPrismaService.refreshToken.findMany.mockResolvedValue([
+        {
+          sessionId: 'session-a',
+          deviceInfo: 'iPhone',
+          ipAddress: '1.1.1.1',
+          createdAt: new Date(),
+          expiresAt: new Date(Date.now() + 60000),
+        },
+        {
+          sessionId: 'session-b',
+          deviceInfo: 'Android',
+          ipAddress: '2.2.2.2',
+          createdAt: new Date(),
+          expiresAt: new Date(Date.now() + 60000),
+        },
+      ]);
+
+      const sessions = await service.getSessions('user-id', 'session-b');
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions.find((s) => s.id === 'session-b')?.isCurrent).toBe(true);
+      expect(sessions.find((s) => s.id === 'session-a')?.isCurrent).toBe(false);
+    });
+
+    it('should revoke a session and disconnect its sockets', async () => {
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.revokeSession('user-id', 'session-a');
+
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', sessionId: 'session-a', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockRedisService.markSessionsRevoked).toHaveBeenCalledWith(
+        ['session-a'],
+        900,
+      );
+      expect(mockGateway.disconnectSessions).toHaveBeenCalledWith(
+        ['session-a'],
+        'session_revoked',
+      );
+    });
+
+    it('should throw NotFoundException for an unknown session', async () => {
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.revokeSession('user-id', 'missing'),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockGateway.disconnectSessions).not.toHaveBeenCalled();
+    });
+
+    it('should keep the current session when logging out other devices', async () => {
+      mockPrismaService.refreshToken.findMany.mockResolvedValue([
+        { sessionId: 'session-a' },
+        { sessionId: 'session-c' },
+      ]);
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await service.revokeOtherSessions('user-id', 'session-b');
+
+      expect(result.revokedCount).toBe(2);
+      expect(mockRedisService.markSessionsRevoked).toHaveBeenCalledWith(
+        ['session-a', 'session-c'],
+        900,
+      );
+      expect(mockGateway.disconnectSessions).toHaveBeenCalledWith(
+        ['session-a', 'session-c'],
+        'session_revoked',
+      );
+    });
+  });
+
+  describe('refreshTokens', () => {
+    const storedToken = {
+      id: 'token-id',
+      token: 'refresh-token',
+      userId: 'user-id',
+      sessionId: 'session-a',
+      deviceInfo: 'iPhone',
+      expiresAt: new Date(Date.now() + 60000),
+      revokedAt: null,
+      rotatedAt: null,
+      user: {
+        id: 'user-id',
+        email: 'test@example.com',
+        role: 'USER',
+        status: 'ACTIVE',
+      },
+    };
+
+    it('should rotate the token within the same session', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(storedToken);
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const tokens = await service.refreshTokens({
+        refreshToken: 'refresh-token',
+      });
+
+      expect(tokens.accessToken).toBeDefined();
+      expect(mockPrismaService.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          sessionId: 'session-a',
+          deviceInfo: 'iPhone',
+        }),
+      });
+    });
+
+    it('should revoke the whole family when a rotated token is replayed', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue({
+        ...storedToken,
+        revokedAt: new Date(),
+        rotatedAt: new Date(),
+      });
+
+      await expect(
+        service.refreshTokens({ refreshToken: 'refresh-token' }, '1.1.1.1'),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', sessionId: 'session-a', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockRedisService.markSessionsRevoked).toHaveBeenCalledWith(
+        ['session-a'],
+        900,
+      );
+      expect(mockGateway.disconnectSessions).toHaveBeenCalledWith(
+        ['session-a'],
+        'token_reuse',
+      );
+      expect(mockSecurityService.logSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'REFRESH_TOKEN_REUSE',
+          severity: 'high',
+        }),
+      );
+      expect(mockNotificationsService.create).toHaveBeenCalled();
+      expect(mockPrismaService.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should treat a lost rotation race as reuse', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(storedToken);
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.refreshTokens({ refreshToken: 'refresh-token' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockGateway.disconnectSessions).toHaveBeenCalledWith(
+        ['session-a'],
+        'token_reuse',
+      );
+    });
+
+    it('should reject a logged-out token without revoking the family', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue({
+        ...storedToken,
+        revokedAt: new Date(),
+      });
+
+      await expect(
+        service.refreshTokens({ refreshToken: 'refresh-token' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockPrismaService.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('google linking', () => {
+    beforeEach(() => {
+      (service as any).googleClient = {
+        verifyIdToken: jest.fn().mockResolvedValue({
+          getPayload: () => ({ sub: 'google-id', email: 'test@example.com' }),
+        }),
+      };
+    });
+
+    it('should refuse a Google account that belongs to another user', async () => {
+      mockPrismaService.user.findUnique
+        .mockResolvedValueOnce({ id: 'user-id', email: 'test@example.com', googleId: null })
+        .mockResolvedValueOnce({ id: 'other-user' });
+
+      await expect(service.linkGoogle('user-id', 'id-token')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should link Google and verify a matching email', async () => {
+      mockPrismaService.user.findUnique
+        .mockResolvedValueOnce({ id: 'user-id', email: 'test@example.com', googleId: null })
+        .mockResolvedValueOnce(null);
+
+      await service.linkGoogle('user-id', 'id-token');
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { googleId: 'google-id', emailVerified: true },
+      });
+    });
+
+    it('should refuse to unlink when no password is set', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        googleId: 'google-id',
+        passwordHash: null,
+        authProvider: 'GOOGLE',
+      });
+
+      await expect(service.unlinkGoogle('user-id')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should fall back to the email provider after unlinking', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        googleId: 'google-id',
+        passwordHash: 'hash',
+        authProvider: 'GOOGLE',
+      });
+
+      await service.unlinkGoogle('user-id');
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { googleId: null, authProvider: 'EMAIL' },
+      });
+    });
+
+    it('should not link Google to an existing account by email on login', async () => {
+      mockPrismaService.user.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'user-id' });
+
+      await expect(
+        service.googleLogin({ idToken: 'id-token' } as any),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a banned Google user', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValueOnce({
+        id: 'user-id',
+        googleId: 'google-id',
+        status: 'BANNED',
+      });
+
+      await expect(
+        service.googleLogin({ idToken: 'id-token' } as any),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('phoneLogin', () => {
+    const dto = { phoneNumber: '+9647701234567', code: '123456' };
+
+    it('should register a new phone-only account', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.user.create.mockResolvedValue({
+        id: 'new-user-id',
+        numericId: BigInt(2),
+        email: null,
+        phoneNumber: dto.phoneNumber,
+        username: 'user',
+        displayName: 'user',
+        avatar: null,
+        role: 'USER',
+        emailVerified: false,
+      });
+
+      const result = await service.phoneLogin(dto, '1.1.1.1');
+
+      expect(mockPhoneOtpService.verifyCode).toHaveBeenCalledWith(
+        dto.phoneNumber,
+        'login',
+        dto.code,
+        '1.1.1.1',
+      );
+      expect(mockPrismaService.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          phoneNumber: dto.phoneNumber,
+          phoneVerified: true,
+          authProvider: 'PHONE',
+        }),
+      });
+      expect(mockPrismaService.wallet.create).toHaveBeenCalled();
+      expect(result).toHaveProperty('tokens');
+    });
+
+    it('should not issue tokens when the code is wrong', async () => {
+      mockPhoneOtpService.verifyCode.mockRejectedValueOnce(
+        new UnauthorizedException(),
+      );
+
+      await expect(service.phoneLogin(dto, '1.1.1.1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a number linked to another account', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'other-user' });
+
+      await expect(
+        service.requestPhoneLinkOtp('user-id', dto, '1.1.1.1'),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPhoneOtpService.sendCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('account restore', () => {
+    const user = {
+      id: 'user-id',
+      numericId: BigInt(1),
+      email: 'test@example.com',
+      username: 'testuser',
+      displayName: 'Test User',
+      avatar: null,
+      role: 'USER',
+      status: 'DELETED',
+      emailVerified: true,
+      twoFactorEnabled: false,
+      anonymizedAt: null,
+    };
+
+    it('should offer a restore when logging in during the grace period', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...user,
+        passwordHash: await argon2.hash('Password123!'),
+        deletionScheduledFor: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      const result = await service.login({
+        email: 'test@example.com',
+        password: 'Password123!',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({ restoreRequired: true }),
+      );
+      expect(mockPrismaService.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse login once the grace period is over', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...user,
+        passwordHash: await argon2.hash('Password123!'),
+        deletionScheduledFor: new Date(Date.now() - 1000),
+      });
+
+      await expect(
+        service.login({ email: 'test@example.com', password: 'Password123!' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reactivate the account and issue tokens', async () => {
+      mockJwtService.verify.mockReturnValueOnce({
+        sub: 'user-id',
+        type: 'restore',
+      });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.user.findUniqueOrThrow.mockResolvedValue({
+        ...user,
+        status: 'ACTIVE',
+      });
+
+      const result = await service.restoreAccount({
+        restoreToken: 'restore-token',
+      });
+
+      expect(mockPrismaService.user.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'ACTIVE',
+            deletionScheduledFor: null,
+          }),
+        }),
+      );
+      expect(result).toHaveProperty('tokens');
+    });
+  });
 });
@@ -3,30 +3,63 @@ import {
   UnauthorizedException,
   ConflictException,
   BadRequestException,
+  NotFoundException,
   Logger,
   InternalServerErrorException,
+  HttpException,
+  HttpStatus,
 } from "@nestjs/common";
 import { JwtService } from "@nestjs/jwt";
 import { ConfigService } from "@nestjs/config";
 import * as argon2 from "argon2";
+import * as crypto from "crypto";
 import { v4 as uuidv4 } from "uuid";
 import { OAuth2Client } from "google-auth-library";
 import { PrismaService } from "../../common/prisma/prisma.service";
 import { RedisService } from "../../common/redis/redis.service";
+import { CacheService } from "../../common/cache/cache.service";
+import { EmailService } from "../../common/email/email.service";
+import { SecurityService } from "../../common/security/security.service";
+import { AppGateway } from "../websocket/app.gateway";
+import { NotificationsService } from "../notifications/notifications.service";
+import { TwoFactorService, MfaChallengeResponse } from "./two-factor.service";
+import { PhoneOtpService } from "./phone-otp.service";
 import {
   RegisterDto,
   LoginDto,
   GoogleLoginDto,
   RefreshTokenDto,
   ChangePasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  ChangeEmailDto,
+  VerifyMfaLoginDto,
+  RestoreAccountDto,
+  RequestPhoneOtpDto,
+  PhoneLoginDto,
+  LinkPhoneDto,
 } from "./dto/auth.dto";
-import { AuthProvider, UserStatus, Prisma } from "@prisma/client";
+import {
+  AuthProvider,
+  UserStatus,
+  NotificationType,
+  AdminActionType,
+  Prisma,
+} from "@prisma/client";
 
 interface JwtPayload {
   sub: string;
-  email: string;
+  email: string | null;
   role: string;
   type: "access" | "refresh";
+  sid?: string; // session id (RefreshToken.sessionId)
+}
+
+interface RestoreTokenPayload {
+  sub: string;
+  type: "restore";
+  deviceInfo?: string;
 }
 
 export interface TokenPair {
@@ -39,7 +72,7 @@ export interface AuthResponse {
   user: {
     id: string;
     numericId: string; // ID الرقمي المتسلسل
-    email: string;
+    email: string | null; // null for phone-only accounts
     username: string;
     displayName: string;
     avatar: string | null;
@@ -49,16 +82,53 @@ export interface AuthResponse {
   tokens: TokenPair;
 }
 
+// Returned instead of tokens when the account is pending deletion
+export interface AccountRestoreChallenge {
+  restoreRequired: true;
+  restoreToken: string;
+  deletionScheduledFor: Date;
+  expiresIn: number;
+}
+
+export interface ActiveSession {
+  id: string;
+  deviceInfo: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+  isCurrent: boolean;
+}
+
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
   private googleClient: OAuth2Client;
 
+  // Password reset: token lifetime and per-window request limits
+  private readonly PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour (matches email template)
+  private readonly PASSWORD_RESET_WINDOW_SEC = 60 * 60;
+  private readonly PASSWORD_RESET_MAX_PER_EMAIL = 3;
+  private readonly PASSWORD_RESET_MAX_PER_IP = 10;
+
+  // Email verification: token lifetime and resend cooldown
+  private readonly EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly EMAIL_VERIFICATION_COOLDOWN_SEC = 60;
+
+  // Account restore (login during the deletion grace period)
+  private readonly ACCOUNT_RESTORE_TTL_SEC = 10 * 60;
+
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private cache: CacheService,
+    private emailService: EmailService,
+    private security: SecurityService,
+    private gateway: AppGateway,
+    private notificationsService: NotificationsService,
+    private twoFactor: TwoFactorService,
+    private phoneOtp: PhoneOtpService,
   ) {
     // Initialize Google OAuth client
     this.googleClient = new OAuth2Client(
@@ -133,6 +203,15 @@ export class AuthService {
       // Generate tokens
       const tokens = await this.generateTokens(user, ipAddress);
 
+      // Send verification email (failure must not block registration)
+      try {
+        await this.issueEmailVerification(user.id, dto.email.toLowerCase());
+      } catch (verificationError) {
+        this.logger.warn(
+          `Failed to send verification email to ${user.email}: ${verificationError.message}`,
+        );
+      }
+
       this.logger.log(`New user registered: ${user.email}`);
 
       return {
@@ -185,7 +264,10 @@ export class AuthService {
   // EMAIL LOGIN
   // ================================
 
-  async login(dto: LoginDto, ipAddress?: string): Promise<AuthResponse> {
+  async login(
+    dto: LoginDto,
+    ipAddress?: string,
+  ): Promise<AuthResponse | MfaChallengeResponse | AccountRestoreChallenge> {
     try {
       // Ensure database connection is alive
       await this.prisma.ensureConnection();
@@ -224,6 +306,16 @@ export class AuthService {
         throw new UnauthorizedException("بيانات الدخول غير صحيحة");
       }
 
+      // Account pending deletion: offer a restore instead of logging in
+      if (user.status === UserStatus.DELETED) {
+        return this.createRestoreChallenge(user, dto.deviceInfo);
+      }
+
+      // Second step: TOTP code required before tokens are issued
+      if (user.twoFactorEnabled) {
+        return this.twoFactor.createChallenge(user.id, dto.deviceInfo);
+      }
+
       // Update last login
       await this.prisma.user.update({
         where: { id: user.id },
@@ -280,27 +372,13 @@ export class AuthService {
   async googleLogin(
     dto: GoogleLoginDto,
     ipAddress?: string,
-  ): Promise<AuthResponse> {
-    // Verify Google ID token
-    let googlePayload;
-    try {
-      const ticket = await this.googleClient.verifyIdToken({
-        idToken: dto.idToken,
-        audience: this.configService.get<string>("GOOGLE_CLIENT_ID"),
-      });
-      googlePayload = ticket.getPayload();
-    } catch (error) {
-      this.logger.error("Google token verification failed", error);
-      throw new UnauthorizedException("Google token غير صالح");
-    }
-
-    if (!googlePayload || !googlePayload.email) {
-      throw new UnauthorizedException(
-        "لم يتم الحصول على البريد الإلكتروني من Google",
-      );
-    }
-
-    const { email, sub: googleId, name, picture } = googlePayload;
+  ): Promise<AuthResponse | MfaChallengeResponse | AccountRestoreChallenge> {
+    const {
+      email,
+      sub: googleId,
+      name,
+      picture,
+    } = await this.verifyGoogleIdToken(dto.idToken);
 
     // Check if user exists by Google ID
     let user = await this.prisma.user.findUnique({
@@ -308,60 +386,57 @@ export class AuthService {
     });
 
     if (!user) {
-      // Check if user exists by email
-      user = await this.prisma.user.findUnique({
+      // No automatic linking by email - it would undo an explicit unlink.
+      // The owner links from the signed-in account (POST auth/google/link)
+      const emailOwner = await this.prisma.user.findUnique({
         where: { email: email.toLowerCase() },
+        select: { id: true },
       });
-
-      if (user) {
-        // Link Google account to existing user
-        user = await this.prisma.user.update({
-          where: { id: user.id },
-          data: {
-            googleId,
-            avatar: user.avatar || picture,
-            emailVerified: true, // Google emails are verified
-          },
+      if (emailOwner) {
+        throw new ConflictException({
+          error: "GOOGLE_NOT_LINKED",
+          message:
+            "هذا البريد الإلكتروني مسجل بحساب آخر - سجّل الدخول ثم اربط حساب Google من الإعدادات",
+          linkEndpoint: "/api/v1/auth/google/link",
         });
-        this.logger.log(`Linked Google account to existing user: ${email}`);
-      } else {
-        // Create new user
-        const username = await this.generateUniqueUsername(
-          name || email.split("@")[0],
-        );
+      }
 
-        user = await this.prisma.$transaction(
-          async (tx: Prisma.TransactionClient) => {
-            // Create user (numericId يتم توليده تلقائياً)
-            const newUser = await tx.user.create({
-              data: {
-                email: email.toLowerCase(),
-                googleId,
-                username,
-                displayName: name || username,
-                avatar: picture,
-                authProvider: AuthProvider.GOOGLE,
-                emailVerified: true,
-                lastLoginAt: new Date(),
-                lastLoginIp: ipAddress,
-              },
-            });
-
-            // Create wallet
-            await tx.wallet.create({
-              data: {
-                userId: newUser.id,
-                balance: 0,
-                diamonds: 0,
-              },
-            });
-
-            return newUser;
-          },
-        );
+      // Create new user
+      const username = await this.generateUniqueUsername(
+        name || email.split("@")[0],
+      );
 
-        this.logger.log(`New Google user registered: ${email}`);
-      }
+      user = await this.prisma.$transaction(
+        async (tx: Prisma.TransactionClient) => {
+          // Create user (numericId يتم توليده تلقائياً)
+          const newUser = await tx.user.create({
+            data: {
+              email: email.toLowerCase(),
+              googleId,
+              username,
+              displayName: name || username,
+              avatar: picture,
+              authProvider: AuthProvider.GOOGLE,
+              emailVerified: true,
+              lastLoginAt: new Date(),
+              lastLoginIp: ipAddress,
+            },
+          });
+
+          // Create wallet
+          await tx.wallet.create({
+            data: {
+              userId: newUser.id,
+              balance: 0,
+              diamonds: 0,
+            },
+          });
+
+          return newUser;
+        },
+      );
+
+      this.logger.log(`New Google user registered: ${email}`);
     } else {
       // Check user status
       if (user.status === UserStatus.BANNED) {
@@ -372,17 +447,26 @@ export class AuthService {
         throw new UnauthorizedException("هذا الحساب معلق مؤقتاً");
       }
 
-      // Update last login
-      await this.prisma.user.update({
+      if (user.status === UserStatus.DELETED) {
+        return this.createRestoreChallenge(user, dto.deviceInfo);
+      }
+
+      // Update last login (Google-verified email counts as verified)
+      user = await this.prisma.user.update({
         where: { id: user.id },
         data: {
           lastLoginAt: new Date(),
           lastLoginIp: ipAddress,
           avatar: user.avatar || picture,
+          ...(user.email === email.toLowerCase() && { emailVerified: true }),
         },
       });
     }
 
+    if (user.twoFactorEnabled) {
+      return this.twoFactor.createChallenge(user.id, dto.deviceInfo);
+    }
+
     // Generate tokens
     const tokens = await this.generateTokens(user, ipAddress, dto.deviceInfo);
 
@@ -402,150 +486,1136 @@ export class AuthService {
   }
 
   // ================================
-  // REFRESH TOKEN
+  // PHONE LOGIN (OTP)
   // ================================
 
-  async refreshTokens(
-    dto: RefreshTokenDto,
-    ipAddress?: string,
-  ): Promise<TokenPair> {
-    // Find refresh token in database
-    const storedToken = await this.prisma.refreshToken.findUnique({
-      where: { token: dto.refreshToken },
-      include: { user: true },
+  async requestPhoneOtp(
+    dto: RequestPhoneOtpDto,
+    ipAddress: string,
+  ): Promise<{ expiresIn: number }> {
+    const phone = this.phoneOtp.normalizePhone(dto.phoneNumber);
+    return this.phoneOtp.sendCode(phone, "login", ipAddress);
+  }
+
+  /**
+   * Log in with a phone code; an unknown number registers a new account.
+   */
+  async phoneLogin(
+    dto: PhoneLoginDto,
+    ipAddress: string,
+  ): Promise<AuthResponse | MfaChallengeResponse | AccountRestoreChallenge> {
+    const phone = this.phoneOtp.normalizePhone(dto.phoneNumber);
+    await this.phoneOtp.verifyCode(phone, "login", dto.code, ipAddress);
+
+    let user = await this.prisma.user.findUnique({
+      where: { phoneNumber: phone },
     });
 
-    if (!storedToken) {
-      throw new UnauthorizedException("Refresh token غير صالح");
-    }
+    if (user) {
+      if (user.status === UserStatus.BANNED) {
+        throw new UnauthorizedException("تم حظر هذا الحساب");
+      }
 
-    if (storedToken.revokedAt) {
-      // Token was revoked - possible security breach, revoke all tokens
-      await this.revokeAllUserTokens(storedToken.userId);
-      throw new UnauthorizedException(
-        "تم اكتشاف محاولة استخدام token ملغي. تم تسجيل الخروج من جميع الأجهزة",
+      if (user.status === UserStatus.SUSPENDED) {
+        throw new UnauthorizedException("هذا الحساب معلق مؤقتاً");
+      }
+
+      if (user.status === UserStatus.DELETED) {
+        return this.createRestoreChallenge(user, dto.deviceInfo);
+      }
+
+      if (user.twoFactorEnabled) {
+        return this.twoFactor.createChallenge(user.id, dto.deviceInfo);
+      }
+
+      user = await this.prisma.user.update({
+        where: { id: user.id },
+        data: {
+          lastLoginAt: new Date(),
+          lastLoginIp: ipAddress,
+          phoneVerified: true,
+        },
+      });
+    } else {
+      const username = await this.generateUniqueUsername(
+        dto.displayName || "user",
       );
-    }
 
-    if (storedToken.expiresAt < new Date()) {
-      throw new UnauthorizedException("Refresh token منتهي الصلاحية");
-    }
+      user = await this.prisma.$transaction(
+        async (tx: Prisma.TransactionClient) => {
+          const newUser = await tx.user.create({
+            data: {
+              phoneNumber: phone,
+              phoneVerified: true,
+              username,
+              displayName: dto.displayName || username,
+              authProvider: AuthProvider.PHONE,
+              lastLoginAt: new Date(),
+              lastLoginIp: ipAddress,
+            },
+          });
 
-    // Check user status
-    if (storedToken.user.status === UserStatus.BANNED) {
-      throw new UnauthorizedException("تم حظر هذا الحساب");
+          await tx.wallet.create({
+            data: {
+              userId: newUser.id,
+              balance: 0,
+              diamonds: 0,
+            },
+          });
+
+          return newUser;
+        },
+      );
+
+      this.logger.log(`New phone user registered: ${user.id}`);
     }
 
-    // Revoke old token
-    await this.prisma.refreshToken.update({
-      where: { id: storedToken.id },
-      data: { revokedAt: new Date() },
-    });
+    const tokens = await this.generateTokens(user, ipAddress, dto.deviceInfo);
 
-    // Generate new tokens
-    const tokens = await this.generateTokens(storedToken.user, ipAddress);
+    return {
+      user: {
+        id: user.id,
+        numericId: user.numericId.toString(),
+        email: user.email,
+        username: user.username,
+        displayName: user.displayName,
+        avatar: user.avatar,
+        role: user.role,
+        emailVerified: user.emailVerified,
+      },
+      tokens,
+    };
+  }
 
-    return tokens;
+  async requestPhoneLinkOtp(
+    userId: string,
+    dto: RequestPhoneOtpDto,
+    ipAddress: string,
+  ): Promise<{ expiresIn: number }> {
+    const phone = this.phoneOtp.normalizePhone(dto.phoneNumber);
+    await this.ensurePhoneAvailable(userId, phone);
+    return this.phoneOtp.sendCode(phone, "link", ipAddress);
   }
 
-  // ================================
-  // LOGOUT
-  // ================================
+  async linkPhone(
+    userId: string,
+    dto: LinkPhoneDto,
+    ipAddress: string,
+  ): Promise<{ phoneNumber: string }> {
+    const phone = this.phoneOtp.normalizePhone(dto.phoneNumber);
+    await this.ensurePhoneAvailable(userId, phone);
+    await this.phoneOtp.verifyCode(phone, "link", dto.code, ipAddress);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { phoneNumber: phone, phoneVerified: true },
+    });
+    await this.cache.invalidateUser(userId);
 
-  async logout(
+    await this.security.logSecurityEvent({
+      type: "PHONE_LINKED",
+      ip: ipAddress,
+      userId,
+      severity: "low",
+    });
+
+    return { phoneNumber: phone };
+  }
+
+  private async ensurePhoneAvailable(
     userId: string,
-    refreshToken?: string,
-    logoutAll?: boolean,
+    phone: string,
   ): Promise<void> {
-    if (logoutAll) {
-      await this.revokeAllUserTokens(userId);
-      this.logger.log(`User ${userId} logged out from all devices`);
-    } else if (refreshToken) {
-      await this.prisma.refreshToken.updateMany({
-        where: {
-          token: refreshToken,
-          userId,
-        },
-        data: { revokedAt: new Date() },
-      });
-      this.logger.log(`User ${userId} logged out from one device`);
-    }
+    const owner = await this.prisma.user.findUnique({
+      where: { phoneNumber: phone },
+      select: { id: true },
+    });
 
-    // Clear presence from Redis
-    await this.redis.setUserOffline(userId);
+    if (owner && owner.id !== userId) {
+      throw new ConflictException("رقم الهاتف مرتبط بحساب آخر");
+    }
   }
 
   // ================================
-  // CHANGE PASSWORD
+  // GOOGLE ACCOUNT LINKING
   // ================================
 
-  async changePassword(userId: string, dto: ChangePasswordDto): Promise<void> {
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-    });
+  async linkGoogle(
+    userId: string,
+    idToken: string,
+    ipAddress?: string,
+  ): Promise<{ googleEmail: string }> {
+    const { email, sub: googleId } = await this.verifyGoogleIdToken(idToken);
 
-    if (!user || !user.passwordHash) {
-      throw new BadRequestException("لا يمكن تغيير كلمة المرور لهذا الحساب");
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException("المستخدم غير موجود");
     }
 
-    // Verify current password
-    const isValid = await argon2.verify(user.passwordHash, dto.currentPassword);
-    if (!isValid) {
-      throw new UnauthorizedException("كلمة المرور الحالية غير صحيحة");
+    if (user.googleId === googleId) {
+      return { googleEmail: email };
     }
 
-    // Hash new password
-    const newPasswordHash = await argon2.hash(dto.newPassword, {
-      type: argon2.argon2id,
-      memoryCost: 65536,
-      timeCost: 3,
-      parallelism: 4,
+    if (user.googleId) {
+      throw new ConflictException(
+        "حسابك مرتبط بحساب Google آخر، يرجى إلغاء الربط أولاً",
+      );
+    }
+
+    const owner = await this.prisma.user.findUnique({
+      where: { googleId },
+      select: { id: true },
     });
+    if (owner) {
+      throw new ConflictException("حساب Google هذا مرتبط بحساب آخر");
+    }
 
-    // Update password and revoke all tokens
-    await this.prisma.$transaction([
-      this.prisma.user.update({
-        where: { id: userId },
-        data: { passwordHash: newPasswordHash },
-      }),
-      this.prisma.refreshToken.updateMany({
-        where: { userId },
-        data: { revokedAt: new Date() },
-      }),
-    ]);
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        googleId,
+        // Same address confirmed by Google counts as verified
+        ...(user.email === email.toLowerCase() && { emailVerified: true }),
+      },
+    });
+    await this.cache.invalidateUser(userId);
+
+    await this.security.logSecurityEvent({
+      type: "GOOGLE_LINKED",
+      ip: ipAddress || "unknown",
+      userId,
+      details: { googleEmail: email },
+      severity: "low",
+    });
 
-    this.logger.log(`User ${userId} changed password`);
+    this.logger.log(`User ${userId} linked Google account ${email}`);
+
+    return { googleEmail: email };
   }
 
-  // ================================
-  // HELPER METHODS
-  // ================================
+  async unlinkGoogle(userId: string, ipAddress?: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException("المستخدم غير موجود");
+    }
 
-  private async generateTokens(
-    user: any,
-    ipAddress?: string,
-    deviceInfo?: string,
-  ): Promise<TokenPair> {
-    const accessPayload: JwtPayload = {
-      sub: user.id,
-      email: user.email,
-      role: user.role,
-      type: "access",
-    };
+    if (!user.googleId) {
+      throw new BadRequestException("حسابك غير مرتبط بـ Google");
+    }
 
-    const refreshPayload: JwtPayload = {
-      sub: user.id,
-      email: user.email,
-      role: user.role,
-      type: "refresh",
-    };
+    // Google must not be the only way back into the account
+    if (!user.passwordHash && !user.phoneVerified) {
+      throw new BadRequestException(
+        "لا يمكن إلغاء الربط قبل تعيين كلمة مرور. استخدم استعادة كلمة المرور لتعيينها",
+      );
+    }
 
-    const accessToken = this.jwtService.sign(accessPayload, {
-      secret: this.configService.get<string>("JWT_SECRET"),
-      expiresIn: this.configService.get<string>("JWT_EXPIRES_IN", "15m"),
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        googleId: null,
+        ...(user.authProvider === AuthProvider.GOOGLE && {
+          authProvider: user.passwordHash
+            ? AuthProvider.EMAIL
+            : AuthProvider.PHONE,
+        }),
+      },
     });
+    await this.cache.invalidateUser(userId);
 
-    const refreshTokenValue = uuidv4();
+    await this.security.logSecurityEvent({
+      type: "GOOGLE_UNLINKED",
+      ip: ipAddress || "unknown",
+      userId,
+      severity: "low",
+    });
+
+    this.logger.log(`User ${userId} unlinked Google account`);
+  }
+
+  private async verifyGoogleIdToken(idToken: string) {
+    let googlePayload;
+    try {
+      const ticket = await this.googleClient.verifyIdToken({
+        idToken,
+        audience: this.configService.get<string>("GOOGLE_CLIENT_ID"),
+      });
+      googlePayload = ticket.getPayload();
+    } catch (error) {
+      this.logger.error("Google token verification failed", error);
+      throw new UnauthorizedException("Google token غير صالح");
+    }
+
+    if (!googlePayload || !googlePayload.email) {
+      throw new UnauthorizedException(
+        "لم يتم الحصول على البريد الإلكتروني من Google",
+      );
+    }
+
+    return googlePayload as typeof googlePayload & { email: string };
+  }
+
+  // ================================
+  // ACCOUNT RESTORE (deletion grace period)
+  // ================================
+
+  /**
+   * Credentials were valid but the account is pending deletion. Hand out a
+   * short-lived restore token; once the grace period is over the account is
+   * treated as gone.
+   */
+  private createRestoreChallenge(
+    user: {
+      id: string;
+      deletionScheduledFor: Date | null;
+      anonymizedAt: Date | null;
+    },
+    deviceInfo?: string,
+  ): AccountRestoreChallenge {
+    if (
+      !user.deletionScheduledFor ||
+      user.anonymizedAt ||
+      user.deletionScheduledFor <= new Date()
+    ) {
+      throw new UnauthorizedException("تم حذف هذا الحساب");
+    }
+
+    const payload: RestoreTokenPayload = {
+      sub: user.id,
+      type: "restore",
+      deviceInfo,
+    };
+
+    const restoreToken = this.jwtService.sign(payload, {
+      secret: this.configService.get<string>("JWT_SECRET"),
+      expiresIn: this.ACCOUNT_RESTORE_TTL_SEC,
+    });
+
+    return {
+      restoreRequired: true,
+      restoreToken,
+      deletionScheduledFor: user.deletionScheduledFor,
+      expiresIn: this.ACCOUNT_RESTORE_TTL_SEC,
+    };
+  }
+
+  async restoreAccount(
+    dto: RestoreAccountDto,
+    ipAddress?: string,
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    let payload: RestoreTokenPayload;
+    try {
+      payload = this.jwtService.verify<RestoreTokenPayload>(dto.restoreToken, {
+        secret: this.configService.get<string>("JWT_SECRET"),
+      });
+    } catch {
+      throw new UnauthorizedException(
+        "انتهت صلاحية طلب الاستعادة، يرجى تسجيل الدخول من جديد",
+      );
+    }
+
+    if (payload.type !== "restore") {
+      throw new UnauthorizedException("نوع Token غير صالح");
+    }
+
+    const now = new Date();
+    const restored = await this.prisma.user.updateMany({
+      where: {
+        id: payload.sub,
+        status: UserStatus.DELETED,
+        anonymizedAt: null,
+        deletionScheduledFor: { gt: now },
+      },
+      data: {
+        status: UserStatus.ACTIVE,
+        deletionRequestedAt: null,
+        deletionScheduledFor: null,
+        lastLoginAt: now,
+        lastLoginIp: ipAddress,
+      },
+    });
+
+    if (restored.count === 0) {
+      throw new UnauthorizedException("لا يمكن استعادة هذا الحساب");
+    }
+
+    await this.prisma.adminAction.create({
+      data: {
+        actorId: payload.sub,
+        targetId: payload.sub,
+        action: AdminActionType.ACCOUNT_RESTORED,
+        reason: "استعادة الحساب خلال فترة السماح",
+      },
+    });
+    await this.cache.invalidateUser(payload.sub);
+
+    await this.security.logSecurityEvent({
+      type: "ACCOUNT_RESTORED",
+      ip: ipAddress || "unknown",
+      userId: payload.sub,
+      severity: "medium",
+    });
+
+    this.logger.log(`User ${payload.sub} restored their account`);
+
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: payload.sub },
+    });
+
+    if (user.twoFactorEnabled) {
+      return this.twoFactor.createChallenge(user.id, payload.deviceInfo);
+    }
+
+    const tokens = await this.generateTokens(
+      user,
+      ipAddress,
+      payload.deviceInfo,
+    );
+
+    return {
+      user: {
+        id: user.id,
+        numericId: user.numericId.toString(),
+        email: user.email,
+        username: user.username,
+        displayName: user.displayName,
+        avatar: user.avatar,
+        role: user.role,
+        emailVerified: user.emailVerified,
+      },
+      tokens,
+    };
+  }
+
+  // ================================
+  // TWO-FACTOR LOGIN (second step)
+  // ================================
+
+  async verifyMfaLogin(
+    dto: VerifyMfaLoginDto,
+    ipAddress?: string,
+  ): Promise<AuthResponse> {
+    const { userId, deviceInfo } = await this.twoFactor.verifyChallenge(
+      dto.mfaToken,
+      dto.code,
+      ipAddress,
+    );
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new UnauthorizedException("المستخدم غير موجود");
+    }
+
+    if (user.status === UserStatus.BANNED) {
+      throw new UnauthorizedException("تم حظر هذا الحساب");
+    }
+
+    if (user.status === UserStatus.SUSPENDED) {
+      throw new UnauthorizedException("هذا الحساب معلق مؤقتاً");
+    }
+
+    if (user.status === UserStatus.DELETED) {
+      throw new UnauthorizedException("تم حذف هذا الحساب");
+    }
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        lastLoginAt: new Date(),
+        lastLoginIp: ipAddress,
+      },
+    });
+
+    // Fresh login counts as a recent MFA check for sensitive actions
+    const sessionId = uuidv4();
+    const tokens = await this.generateTokens(
+      user,
+      ipAddress,
+      deviceInfo,
+      sessionId,
+    );
+    await this.twoFactor.markRecentMfa(sessionId);
+
+    this.logger.log(`User logged in with 2FA: ${user.email}`);
+
+    return {
+      user: {
+        id: user.id,
+        numericId: user.numericId.toString(),
+        email: user.email,
+        username: user.username,
+        displayName: user.displayName,
+        avatar: user.avatar,
+        role: user.role,
+        emailVerified: user.emailVerified,
+      },
+      tokens,
+    };
+  }
+
+  // ================================
+  // REFRESH TOKEN
+  // ================================
+
+  async refreshTokens(
+    dto: RefreshTokenDto,
+    ipAddress?: string,
+  ): Promise<TokenPair> {
+    // Find refresh token in database
+    const storedToken = await this.prisma.refreshToken.findUnique({
+      where: { token: dto.refreshToken },
+      include: { user: true },
+    });
+
+    if (!storedToken) {
+      throw new UnauthorizedException("Refresh token غير صالح");
+    }
+
+    if (storedToken.rotatedAt) {
+      // Already rotated token presented again - stolen token, kill the family
+      await this.handleRefreshTokenReuse(storedToken, ipAddress);
+    }
+
+    if (storedToken.revokedAt) {
+      throw new UnauthorizedException("Refresh token غير صالح");
+    }
+
+    if (storedToken.expiresAt < new Date()) {
+      throw new UnauthorizedException("Refresh token منتهي الصلاحية");
+    }
+
+    // Check user status
+    if (storedToken.user.status === UserStatus.BANNED) {
+      throw new UnauthorizedException("تم حظر هذا الحساب");
+    }
+
+    if (storedToken.user.status === UserStatus.DELETED) {
+      throw new UnauthorizedException("تم حذف هذا الحساب");
+    }
+
+    // Rotate old token (atomic: a concurrent replay loses the race)
+    const now = new Date();
+    const rotated = await this.prisma.refreshToken.updateMany({
+      where: { id: storedToken.id, revokedAt: null },
+      data: { revokedAt: now, rotatedAt: now },
+    });
+
+    if (rotated.count === 0) {
+      await this.handleRefreshTokenReuse(storedToken, ipAddress);
+    }
+
+    // Generate new tokens (same session/device)
+    const tokens = await this.generateTokens(
+      storedToken.user,
+      ipAddress,
+      storedToken.deviceInfo ?? undefined,
+      storedToken.sessionId,
+    );
+
+    return tokens;
+  }
+
+  /**
+   * Refresh token reuse: revoke the whole family (session), cut off its
+   * sockets, log the event and warn the user. Always throws.
+   */
+  private async handleRefreshTokenReuse(
+    storedToken: {
+      userId: string;
+      sessionId: string;
+      deviceInfo: string | null;
+    },
+    ipAddress?: string,
+  ): Promise<never> {
+    const { userId, sessionId } = storedToken;
+
+    await this.prisma.refreshToken.updateMany({
+      where: { userId, sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    await this.cutOffSessions([sessionId], "token_reuse");
+
+    await this.security.logSecurityEvent({
+      type: "REFRESH_TOKEN_REUSE",
+      ip: ipAddress || "unknown",
+      userId,
+      details: { sessionId, deviceInfo: storedToken.deviceInfo },
+      severity: "high",
+    });
+
+    try {
+      await this.notificationsService.create({
+        userId,
+        type: NotificationType.SYSTEM_MESSAGE,
+        title: "تنبيه أمني",
+        body: "تم اكتشاف استخدام مشبوه لجلسة على أحد أجهزتك وتم إنهاؤها. إذا لم تكن أنت، يرجى تغيير كلمة المرور.",
+        data: {
+          type: "SESSION_COMPROMISED",
+          sessionId,
+          deviceInfo: storedToken.deviceInfo,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to notify user ${userId} about token reuse: ${error.message}`,
+      );
+    }
+
+    this.logger.warn(
+      `Refresh token reuse detected for user ${userId}, session ${sessionId} revoked`,
+    );
+
+    throw new UnauthorizedException(
+      "تم اكتشاف محاولة استخدام token ملغي. تم إنهاء هذه الجلسة",
+    );
+  }
+
+  // ================================
+  // LOGOUT
+  // ================================
+
+  async logout(
+    userId: string,
+    refreshToken?: string,
+    logoutAll?: boolean,
+  ): Promise<void> {
+    if (logoutAll) {
+      await this.revokeAllUserTokens(userId);
+      this.logger.log(`User ${userId} logged out from all devices`);
+    } else if (refreshToken) {
+      await this.prisma.refreshToken.updateMany({
+        where: {
+          token: refreshToken,
+          userId,
+        },
+        data: { revokedAt: new Date() },
+      });
+      this.logger.log(`User ${userId} logged out from one device`);
+    }
+
+    // Clear presence from Redis
+    await this.redis.setUserOffline(userId);
+  }
+
+  // ================================
+  // SESSIONS
+  // ================================
+
+  async getSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<ActiveSession[]> {
+    const tokens = await this.prisma.refreshToken.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    // A session normally has a single active token, but keep the newest one per session
+    const sessions = new Map<string, ActiveSession>();
+    for (const token of tokens) {
+      if (sessions.has(token.sessionId)) continue;
+      sessions.set(token.sessionId, {
+        id: token.sessionId,
+        deviceInfo: token.deviceInfo,
+        ipAddress: token.ipAddress,
+        createdAt: token.createdAt,
+        expiresAt: token.expiresAt,
+        isCurrent: token.sessionId === currentSessionId,
+      });
+    }
+
+    return Array.from(sessions.values());
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const result = await this.prisma.refreshToken.updateMany({
+      where: { userId, sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException("الجلسة غير موجودة أو منتهية");
+    }
+
+    await this.cutOffSessions([sessionId]);
+
+    this.logger.log(`User ${userId} revoked session ${sessionId}`);
+  }
+
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<{ revokedCount: number }> {
+    if (!currentSessionId) {
+      throw new BadRequestException(
+        "يرجى تسجيل الدخول من جديد لاستخدام هذه الميزة",
+      );
+    }
+
+    const tokens = await this.prisma.refreshToken.findMany({
+      where: { userId, revokedAt: null, sessionId: { not: currentSessionId } },
+      select: { sessionId: true },
+    });
+    const sessionIds = [...new Set(tokens.map((t) => t.sessionId))];
+
+    if (sessionIds.length > 0) {
+      await this.prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null, sessionId: { in: sessionIds } },
+        data: { revokedAt: new Date() },
+      });
+      await this.cutOffSessions(sessionIds);
+    }
+
+    this.logger.log(
+      `User ${userId} logged out ${sessionIds.length} other session(s)`,
+    );
+
+    return { revokedCount: sessionIds.length };
+  }
+
+  /**
+   * Revoked sessions lose their sockets now and their unexpired access
+   * tokens (same sid) are rejected until JWT_EXPIRES_IN passes
+   */
+  private async cutOffSessions(
+    sessionIds: string[],
+    reason = "session_revoked",
+  ): Promise<void> {
+    const accessTokenTtl = this.parseExpiry(
+      this.configService.get<string>("JWT_EXPIRES_IN", "15m"),
+    );
+    await this.redis.markSessionsRevoked(
+      sessionIds,
+      Math.ceil(accessTokenTtl / 1000),
+    );
+    await this.gateway.disconnectSessions(sessionIds, reason);
+  }
+
+  // ================================
+  // CHANGE PASSWORD
+  // ================================
+
+  async changePassword(userId: string, dto: ChangePasswordDto): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.passwordHash) {
+      throw new BadRequestException("لا يمكن تغيير كلمة المرور لهذا الحساب");
+    }
+
+    // Verify current password
+    const isValid = await argon2.verify(user.passwordHash, dto.currentPassword);
+    if (!isValid) {
+      throw new UnauthorizedException("كلمة المرور الحالية غير صحيحة");
+    }
+
+    // Hash new password
+    const newPasswordHash = await argon2.hash(dto.newPassword, {
+      type: argon2.argon2id,
+      memoryCost: 65536,
+      timeCost: 3,
+      parallelism: 4,
+    });
+
+    // Update password and revoke all tokens
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { passwordHash: newPasswordHash },
+      }),
+      this.prisma.refreshToken.updateMany({
+        where: { userId },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+
+    this.logger.log(`User ${userId} changed password`);
+  }
+
+  // ================================
+  // EMAIL VERIFICATION
+  // ================================
+
+  async verifyEmail(dto: VerifyEmailDto): Promise<{ email: string }> {
+    const verification = await this.prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: this.hashToken(dto.token) },
+      include: { user: { select: { id: true, email: true } } },
+    });
+
+    if (
+      !verification ||
+      verification.usedAt ||
+      verification.expiresAt < new Date()
+    ) {
+      throw new BadRequestException("رابط التأكيد غير صالح أو منتهي");
+    }
+
+    const { userId, email } = verification;
+    const isEmailChange = verification.user.email !== email;
+
+    if (isEmailChange) {
+      const taken = await this.prisma.user.findUnique({ where: { email } });
+      if (taken && taken.id !== userId) {
+        throw new ConflictException("البريد الإلكتروني مسجل بالفعل");
+      }
+    }
+
+    const now = new Date();
+
+    await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const consumed = await tx.emailVerificationToken.updateMany({
+        where: { id: verification.id, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      if (consumed.count === 0) {
+        throw new BadRequestException("رابط التأكيد غير صالح أو منتهي");
+      }
+
+      try {
+        await tx.user.update({
+          where: { id: userId },
+          data: { email, emailVerified: true },
+        });
+      } catch (error) {
+        // A registration or email change with the same address won the race
+        if (error.code === "P2002") {
+          throw new ConflictException("البريد الإلكتروني مسجل بالفعل");
+        }
+        throw error;
+      }
+
+      await tx.emailVerificationToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: now },
+      });
+    });
+
+    await this.cache.invalidateUser(userId);
+
+    this.logger.log(
+      isEmailChange
+        ? `User ${userId} confirmed new email ${email}`
+        : `User ${userId} verified email`,
+    );
+
+    return { email };
+  }
+
+  async resendEmailVerification(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, emailVerified: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException("المستخدم غير موجود");
+    }
+
+    // A pending email change is re-sent to the new address
+    const pending = await this.prisma.emailVerificationToken.findFirst({
+      where: {
+        userId,
+        usedAt: null,
+        ...(user.email && { email: { not: user.email } }),
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const targetEmail = pending?.email ?? user.email;
+    if (!targetEmail) {
+      throw new BadRequestException("لا يوجد بريد إلكتروني مرتبط بحسابك");
+    }
+
+    if (user.emailVerified && !pending) {
+      throw new BadRequestException("البريد الإلكتروني مؤكد بالفعل");
+    }
+
+    await this.enforceVerificationCooldown(userId);
+    await this.issueEmailVerification(userId, targetEmail);
+  }
+
+  async requestEmailChange(
+    userId: string,
+    dto: ChangeEmailDto,
+  ): Promise<{ pendingEmail: string }> {
+    const newEmail = dto.newEmail.toLowerCase();
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException("المستخدم غير موجود");
+    }
+
+    if (user.passwordHash) {
+      const isValid =
+        !!dto.password &&
+        (await argon2.verify(user.passwordHash, dto.password));
+      if (!isValid) {
+        throw new UnauthorizedException("كلمة المرور الحالية غير صحيحة");
+      }
+    }
+
+    if (newEmail === user.email) {
+      throw new BadRequestException("هذا هو بريدك الحالي");
+    }
+
+    const taken = await this.prisma.user.findUnique({
+      where: { email: newEmail },
+    });
+    if (taken) {
+      throw new ConflictException("البريد الإلكتروني مسجل بالفعل");
+    }
+
+    await this.enforceVerificationCooldown(userId);
+    await this.issueEmailVerification(userId, newEmail);
+
+    this.logger.log(`User ${userId} requested email change`);
+
+    return { pendingEmail: newEmail };
+  }
+
+  private async issueEmailVerification(
+    userId: string,
+    email: string,
+  ): Promise<void> {
+    const rawToken = crypto.randomBytes(32).toString("hex");
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.emailVerificationToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: now },
+      }),
+      this.prisma.emailVerificationToken.create({
+        data: {
+          userId,
+          email,
+          tokenHash: this.hashToken(rawToken),
+          expiresAt: new Date(now.getTime() + this.EMAIL_VERIFICATION_TTL_MS),
+        },
+      }),
+    ]);
+
+    await this.emailService.sendEmailVerification(email, rawToken);
+  }
+
+  private async enforceVerificationCooldown(userId: string): Promise<void> {
+    const key = `email-verification:cooldown:${userId}`;
+    const acquired = await this.redis.acquireLock(
+      key,
+      this.EMAIL_VERIFICATION_COOLDOWN_SEC,
+    );
+
+    if (!acquired) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: "يرجى الانتظار قبل إعادة الإرسال",
+          retryAfter: this.EMAIL_VERIFICATION_COOLDOWN_SEC,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  // ================================
+  // FORGOT / RESET PASSWORD
+  // ================================
+
+  async forgotPassword(
+    dto: ForgotPasswordDto,
+    ipAddress?: string,
+  ): Promise<void> {
+    const email = dto.email.toLowerCase();
+    const ip = ipAddress || "unknown";
+
+    await this.enforcePasswordResetLimit(
+      `password-reset:ip:${ip}`,
+      this.PASSWORD_RESET_MAX_PER_IP,
+    );
+    await this.enforcePasswordResetLimit(
+      `password-reset:email:${email}`,
+      this.PASSWORD_RESET_MAX_PER_EMAIL,
+    );
+
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true, status: true },
+    });
+
+    // لا نكشف إن كان البريد مسجلاً أم لا - نفس الاستجابة دائماً
+    if (!user || user.status === UserStatus.BANNED) {
+      this.logger.log(`Password reset requested for unknown/blocked email`);
+      return;
+    }
+
+    const rawToken = crypto.randomBytes(32).toString("hex");
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      // رمز واحد صالح فقط لكل مستخدم
+      this.prisma.passwordResetToken.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: now },
+      }),
+      this.prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: this.hashToken(rawToken),
+          ipAddress,
+          expiresAt: new Date(now.getTime() + this.PASSWORD_RESET_TTL_MS),
+        },
+      }),
+    ]);
+
+    await this.emailService.sendPasswordResetEmail(email, rawToken);
+
+    await this.security.logSecurityEvent({
+      type: "PASSWORD_RESET_REQUESTED",
+      ip,
+      userId: user.id,
+      severity: "low",
+    });
+  }
+
+  async resetPassword(
+    dto: ResetPasswordDto,
+    ipAddress?: string,
+  ): Promise<void> {
+    const ip = ipAddress || "unknown";
+
+    await this.enforcePasswordResetLimit(
+      `password-reset:confirm:${ip}`,
+      this.PASSWORD_RESET_MAX_PER_IP,
+    );
+
+    const resetToken = await this.prisma.passwordResetToken.findUnique({
+      where: { tokenHash: this.hashToken(dto.token) },
+      include: { user: { select: { id: true, status: true } } },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      await this.security.recordFailedLogin(ip);
+      throw new BadRequestException("رابط إعادة التعيين غير صالح أو منتهي");
+    }
+
+    if (resetToken.user.status === UserStatus.BANNED) {
+      throw new UnauthorizedException("تم حظر هذا الحساب");
+    }
+
+    const newPasswordHash = await argon2.hash(dto.newPassword, {
+      type: argon2.argon2id,
+      memoryCost: 65536,
+      timeCost: 3,
+      parallelism: 4,
+    });
+
+    const now = new Date();
+    const userId = resetToken.userId;
+
+    await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Consume the token atomically - a concurrent request loses the race
+      const consumed = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      if (consumed.count === 0) {
+        throw new BadRequestException("رابط إعادة التعيين غير صالح أو منتهي");
+      }
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { passwordHash: newPasswordHash },
+      });
+
+      // Invalidate any other outstanding reset links
+      await tx.passwordResetToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      // Sign out every device
+      await tx.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      });
+    });
+
+    await this.redis.setUserOffline(userId);
+
+    await this.security.logSecurityEvent({
+      type: "PASSWORD_RESET_COMPLETED",
+      ip,
+      userId,
+      severity: "medium",
+    });
+
+    this.logger.log(`User ${userId} reset password`);
+  }
+
+  private async enforcePasswordResetLimit(
+    identifier: string,
+    maxRequests: number,
+  ): Promise<void> {
+    const result = await this.security.checkRateLimit(
+      identifier,
+      maxRequests,
+      this.PASSWORD_RESET_WINDOW_SEC,
+    );
+
+    if (!result.allowed) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: "طلبات كثيرة جداً، يرجى المحاولة لاحقاً",
+          retryAfter: Math.ceil((result.resetAt - Date.now()) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  // ================================
+  // HELPER METHODS
+  // ================================
+
+  private async generateTokens(
+    user: any,
+    ipAddress?: string,
+    deviceInfo?: string,
+    sessionId: string = uuidv4(),
+  ): Promise<TokenPair> {
+    const accessPayload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      type: "access",
+      sid: sessionId,
+    };
+
+    const refreshPayload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      type: "refresh",
+    };
+
+    const accessToken = this.jwtService.sign(accessPayload, {
+      secret: this.configService.get<string>("JWT_SECRET"),
+      expiresIn: this.configService.get<string>("JWT_EXPIRES_IN", "15m"),
+    });
+
+    const refreshTokenValue = uuidv4();
     const refreshExpiresIn = this.configService.get<string>(
       "JWT_REFRESH_EXPIRES_IN",
       "7d",
@@ -557,6 +1627,7 @@ export class AuthService {
       data: {
         token: refreshTokenValue,
         userId: user.id,
+        sessionId,
         deviceInfo,
         ipAddress,
         expiresAt: new Date(Date.now() + refreshExpiresMs),
@@ -639,6 +1710,9 @@ export class AuthService {
         role: true,
         status: true,
         emailVerified: true,
+        phoneNumber: true,
+        phoneVerified: true,
+        twoFactorEnabled: true,
         // حقول الحظر
         banReason: true,
         bannedAt: true,
@@ -646,7 +1720,8 @@ export class AuthService {
       },
     });
 
-    if (!user) {
+    // الحسابات المحذوفة (أو في فترة الاستعادة) لا تستطيع استخدام الـ API
+    if (!user || user.status === UserStatus.DELETED) {
       return null;
     }
 
@@ -0,0 +1,12 @@
+import { SetMetadata } from "@nestjs/common";
+import { ApiKeyScope } from "../../api-keys/api-keys.service";
+
+export const API_KEY_SCOPES_KEY = "apiKeyScopes";
+export const API_KEY_HEADER = "x-api-key";
+
+/**
+ * Route also accepts an X-API-Key holding all of these scopes
+ * (authenticated by ApiKeyGuard instead of the JWT)
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
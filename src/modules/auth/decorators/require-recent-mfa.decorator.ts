@@ -0,0 +1,9 @@
+import { SetMetadata } from "@nestjs/common";
+
+export const RECENT_MFA_KEY = "requireRecentMfa";
+
+/**
+ * Sensitive action: the current session must have passed a TOTP check
+ * recently (login with 2FA or POST /auth/2fa/step-up)
+ */
+export const RequireRecentMfa = () => SetMetadata(RECENT_MFA_KEY, true);
@@ -0,0 +1,12 @@
+import { SetMetadata } from "@nestjs/common";
+
+export const VERIFIED_EMAIL_FEATURE_KEY = "verifiedEmailFeature";
+
+/**
+ * Features that can be restricted to verified accounts via
+ * EMAIL_VERIFICATION_REQUIRED_FOR (comma separated)
+ */
+export type VerifiedEmailFeature = "wallet_transfer" | "gift_send";
+
+export const RequireVerifiedEmail = (feature: VerifiedEmailFeature) =>
+  SetMetadata(VERIFIED_EMAIL_FEATURE_KEY, feature);
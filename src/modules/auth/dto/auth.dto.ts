@@ -65,6 +65,45 @@ export class GoogleLoginDto {
   deviceInfo?: string;
 }
 
+export class LinkGoogleDto {
+  @ApiProperty({ description: "Google ID Token from Flutter app" })
+  @IsString()
+  idToken: string;
+}
+
+export class RequestPhoneOtpDto {
+  @ApiProperty({ example: "+9647701234567", description: "E.164 format" })
+  @IsString()
+  @MaxLength(20)
+  phoneNumber: string;
+}
+
+export class PhoneLoginDto extends RequestPhoneOtpDto {
+  @ApiProperty({ example: "123456" })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: "رمز التحقق يجب أن يكون 6 أرقام" })
+  code: string;
+
+  @ApiPropertyOptional({ description: "Display name for new accounts" })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  displayName?: string;
+
+  @ApiPropertyOptional({ example: "Samsung Galaxy S24" })
+  @IsOptional()
+  @IsString()
+  deviceInfo?: string;
+}
+
+export class LinkPhoneDto extends RequestPhoneOtpDto {
+  @ApiProperty({ example: "123456" })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: "رمز التحقق يجب أن يكون 6 أرقام" })
+  code: string;
+}
+
 export class RefreshTokenDto {
   @ApiProperty({ description: "Refresh token" })
   @IsString()
@@ -100,6 +139,23 @@ export class ResetPasswordDto {
   newPassword: string;
 }
 
+export class VerifyEmailDto {
+  @ApiProperty({ description: "Token from the verification email" })
+  @IsString()
+  token: string;
+}
+
+export class ChangeEmailDto {
+  @ApiProperty({ example: "new@example.com" })
+  @IsEmail({}, { message: "البريد الإلكتروني غير صالح" })
+  newEmail: string;
+
+  @ApiPropertyOptional({ description: "Current password (email accounts)" })
+  @IsOptional()
+  @IsString()
+  password?: string;
+}
+
 export class ChangePasswordDto {
   @ApiProperty()
   @IsString()
@@ -111,3 +167,36 @@ export class ChangePasswordDto {
   @Matches(/((?=.*\d)|(?=.*\W+))(?![.\n])(?=.*[A-Z])(?=.*[a-z]).*$/)
   newPassword: string;
 }
+
+export class VerifyMfaLoginDto {
+  @ApiProperty({ description: "mfaToken returned by login" })
+  @IsString()
+  mfaToken: string;
+
+  @ApiProperty({ example: "123456", description: "TOTP or recovery code" })
+  @IsString()
+  @MinLength(6)
+  @MaxLength(20)
+  code: string;
+}
+
+export class RestoreAccountDto {
+  @ApiProperty({ description: "restoreToken returned by login" })
+  @IsString()
+  restoreToken: string;
+}
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ example: "123456", description: "TOTP or recovery code" })
+  @IsString()
+  @MinLength(6)
+  @MaxLength(20)
+  code: string;
+}
+
+export class DisableTwoFactorDto extends TwoFactorCodeDto {
+  @ApiPropertyOptional({ description: "Current password (email accounts)" })
+  @IsOptional()
+  @IsString()
+  password?: string;
+}
@@ -0,0 +1,137 @@
+/**
+ * API Key Guard Unit Tests
+ * اختبارات وحدة حارس مفاتيح API
+ */
+
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyGuard } from './api-key.guard';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { ApiKeyScopes } from '../decorators/api-key-scopes.decorator';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+
+class TestController {
+  @ApiKeyScopes('gifts:send')
+  sendGift() {}
+
+  getProfile() {}
+}
+
+describe('API key authentication', () => {
+  const reflector = new Reflector();
+
+  const mockApiKeysService = {
+    authenticate: jest.fn(),
+  };
+
+  const createContext = (
+    handler: () => void,
+    headers: Record<string, string> = {},
+  ) => {
+    const request: any = {
+      headers,
+      method: 'POST',
+      originalUrl: '/api/v1/gifts/send',
+      ip: '1.2.3.4',
+    };
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => handler,
+      getClass: () => TestController,
+    } as unknown as ExecutionContext;
+
+    return { context, request };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ApiKeyGuard', () => {
+    const guard = new ApiKeyGuard(
+      reflector,
+      mockApiKeysService as unknown as ApiKeysService,
+    );
+
+    it('should leave requests without a key to the JWT guard', async () => {
+      const { context } = createContext(TestController.prototype.sendGift);
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      expect(mockApiKeysService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a key on a route without @ApiKeyScopes', async () => {
+      const { context } = createContext(TestController.prototype.getProfile, {
+        'x-api-key': 'ak_secret',
+      });
+
+      await expect(guard.canActivate(context)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockApiKeysService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should authenticate the key with the route scopes', async () => {
+      const owner = { id: 'user-1', apiKeyId: 'key-1' };
+      mockApiKeysService.authenticate.mockResolvedValue(owner);
+      const { context, request } = createContext(
+        TestController.prototype.sendGift,
+        { 'x-api-key': 'ak_secret' },
+      );
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      expect(mockApiKeysService.authenticate).toHaveBeenCalledWith(
+        'ak_secret',
+        ['gifts:send'],
+        { method: 'POST', path: '/api/v1/gifts/send', ip: '1.2.3.4' },
+      );
+      expect(request.user).toBe(owner);
+    });
+
+    it('should propagate a rejected key', async () => {
+      mockApiKeysService.authenticate.mockRejectedValue(
+        new UnauthorizedException(),
+      );
+      const { context } = createContext(TestController.prototype.sendGift, {
+        'x-api-key': 'ak_revoked',
+      });
+
+      await expect(guard.canActivate(context)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('JwtAuthGuard', () => {
+    const guard = new JwtAuthGuard(reflector);
+    let jwtCanActivate: jest.SpyInstance;
+
+    beforeEach(() => {
+      jwtCanActivate = jest
+        .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+        .mockReturnValue(false);
+    });
+
+    afterEach(() => {
+      jwtCanActivate.mockRestore();
+    });
+
+    it('should skip the JWT only for a key on a route that accepts keys', () => {
+      const { context } = createContext(TestController.prototype.sendGift, {
+        'x-api-key': 'ak_secret',
+      });
+
+      expect(guard.canActivate(context)).toBe(true);
+      expect(jwtCanActivate).not.toHaveBeenCalled();
+    });
+
+    it('should still require the JWT when a key is sent to another route', () => {
+      const { context } = createContext(TestController.prototype.getProfile, {
+        'x-api-key': 'ak_secret',
+      });
+
+      expect(guard.canActivate(context)).toBe(false);
+      expect(jwtCanActivate).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import {
+  API_KEY_HEADER,
+  API_KEY_SCOPES_KEY,
+} from "../decorators/api-key-scopes.decorator";
+import { ApiKeysService } from "../../api-keys/api-keys.service";
+
+/**
+ * Authenticates X-API-Key requests on routes marked with @ApiKeyScopes.
+ * Requests without the header were already handled by JwtAuthGuard.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiKeysService: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const rawKey = request.headers[API_KEY_HEADER];
+
+    if (!rawKey) {
+      return true;
+    }
+
+    const scopes = this.reflector.getAllAndOverride<string[]>(
+      API_KEY_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!scopes?.length || typeof rawKey !== "string") {
+      throw new UnauthorizedException("مفاتيح API غير مدعومة لهذه العملية");
+    }
+
+    request.user = await this.apiKeysService.authenticate(rawKey, scopes, {
+      method: request.method,
+      path: request.originalUrl ?? request.url,
+      ip: request.ip,
+    });
+
+    return true;
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { ConfigService } from "@nestjs/config";
+import {
+  VERIFIED_EMAIL_FEATURE_KEY,
+  VerifiedEmailFeature,
+} from "../decorators/require-verified-email.decorator";
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private configService: ConfigService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const feature = this.reflector.getAllAndOverride<VerifiedEmailFeature>(
+      VERIFIED_EMAIL_FEATURE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!feature) {
+      return true;
+    }
+
+    const restricted = this.configService
+      .get<string>("EMAIL_VERIFICATION_REQUIRED_FOR", "")
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+    if (!restricted.includes(feature)) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!user?.emailVerified) {
+      throw new ForbiddenException(
+        "يرجى تأكيد بريدك الإلكتروني لاستخدام هذه الميزة",
+      );
+    }
+
+    return true;
+  }
+}
@@ -6,6 +6,10 @@ import {
 import { AuthGuard } from "@nestjs/passport";
 import { Reflector } from "@nestjs/core";
 import { IS_PUBLIC_KEY } from "../decorators/public.decorator";
+import {
+  API_KEY_HEADER,
+  API_KEY_SCOPES_KEY,
+} from "../decorators/api-key-scopes.decorator";
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard("jwt") {
@@ -24,6 +28,18 @@ export class JwtAuthGuard extends AuthGuard("jwt") {
       return true;
     }
 
+    // API key request on a route that accepts keys - ApiKeyGuard authenticates
+    const apiKeyScopes = this.reflector.getAllAndOverride<string[]>(
+      API_KEY_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (
+      apiKeyScopes?.length &&
+      context.switchToHttp().getRequest().headers[API_KEY_HEADER]
+    ) {
+      return true;
+    }
+
     return super.canActivate(context);
   }
 
@@ -0,0 +1,46 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { RECENT_MFA_KEY } from "../decorators/require-recent-mfa.decorator";
+import { TwoFactorService } from "../two-factor.service";
+
+@Injectable()
+export class RecentMfaGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private twoFactorService: TwoFactorService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<boolean>(RECENT_MFA_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!required) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!user?.twoFactorEnabled) {
+      throw new ForbiddenException({
+        message: "يجب تفعيل المصادقة الثنائية لتنفيذ هذه العملية",
+        code: "MFA_SETUP_REQUIRED",
+      });
+    }
+
+    if (!(await this.twoFactorService.hasRecentMfa(user.sessionId))) {
+      throw new ForbiddenException({
+        message: "يرجى إدخال رمز المصادقة الثنائية لتأكيد هذه العملية",
+        code: "MFA_REQUIRED",
+      });
+    }
+
+    return true;
+  }
+}
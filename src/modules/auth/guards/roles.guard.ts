@@ -6,6 +6,7 @@ import {
 } from "@nestjs/common";
 import { Reflector } from "@nestjs/core";
 import { ROLES_KEY } from "../decorators/roles.decorator";
+import { MFA_REQUIRED_ROLES } from "../two-factor.service";
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -33,6 +34,21 @@ export class RolesGuard implements CanActivate {
       throw new ForbiddenException("ليس لديك الصلاحية الكافية");
     }
 
+    // Staff-only routes: staff accounts must have 2FA enabled
+    const staffOnly = requiredRoles.every((role) =>
+      MFA_REQUIRED_ROLES.includes(role as any),
+    );
+    if (
+      staffOnly &&
+      MFA_REQUIRED_ROLES.includes(user.role) &&
+      !user.twoFactorEnabled
+    ) {
+      throw new ForbiddenException({
+        message: "يجب تفعيل المصادقة الثنائية لحسابات الإدارة",
+        code: "MFA_SETUP_REQUIRED",
+      });
+    }
+
     return true;
   }
 }
@@ -0,0 +1,213 @@
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  UnauthorizedException,
+  HttpException,
+  HttpStatus,
+  ServiceUnavailableException,
+  Logger,
+} from "@nestjs/common";
+import * as crypto from "crypto";
+import { RedisService } from "../../common/redis/redis.service";
+import { SecurityService } from "../../common/security/security.service";
+import {
+  SMS_PROVIDER,
+  SmsProvider,
+} from "../../common/sms/sms-provider.interface";
+
+export type PhoneOtpPurpose = "login" | "link";
+
+interface StoredOtp {
+  codeHash: string;
+  expiresAt: number;
+}
+
+@Injectable()
+export class PhoneOtpService {
+  private readonly logger = new Logger(PhoneOtpService.name);
+
+  private readonly OTP_TTL_SEC = 5 * 60;
+  private readonly RESEND_COOLDOWN_SEC = 60;
+  private readonly MAX_SENDS_PER_PHONE = 5; // per hour
+  private readonly MAX_SENDS_PER_IP = 20; // per hour
+  private readonly MAX_VERIFY_ATTEMPTS = 5;
+
+  constructor(
+    private redis: RedisService,
+    private security: SecurityService,
+    @Inject(SMS_PROVIDER) private sms: SmsProvider | null,
+  ) {}
+
+  /**
+   * Normalize to E.164 (+9647xxxxxxxxx). Spaces, dashes and a leading 00
+   * are accepted.
+   */
+  normalizePhone(phone: string): string {
+    const normalized = phone.replace(/[\s\-()]/g, "").replace(/^00/, "+");
+
+    if (!/^\+[1-9]\d{7,14}$/.test(normalized)) {
+      throw new BadRequestException(
+        "رقم الهاتف غير صالح، استخدم الصيغة الدولية مثل +9647xxxxxxxxx",
+      );
+    }
+
+    return normalized;
+  }
+
+  async sendCode(
+    phone: string,
+    purpose: PhoneOtpPurpose,
+    ipAddress: string,
+  ): Promise<{ expiresIn: number }> {
+    const sms = this.requireProvider();
+
+    const canSend = await this.redis.acquireLock(
+      `phone-otp:cooldown:${phone}`,
+      this.RESEND_COOLDOWN_SEC,
+    );
+    if (!canSend) {
+      throw this.tooManyRequests(
+        "يرجى الانتظار قبل طلب رمز جديد",
+        this.RESEND_COOLDOWN_SEC,
+      );
+    }
+
+    const [byPhone, byIp] = await Promise.all([
+      this.security.checkRateLimit(
+        `phone-otp:phone:${phone}`,
+        this.MAX_SENDS_PER_PHONE,
+        60 * 60,
+      ),
+      this.security.checkRateLimit(
+        `phone-otp:ip:${ipAddress}`,
+        this.MAX_SENDS_PER_IP,
+        60 * 60,
+      ),
+    ]);
+    const blocked = [byPhone, byIp].find((limit) => !limit.allowed);
+    if (blocked) {
+      throw this.tooManyRequests(
+        "تم تجاوز عدد الرموز المسموح، يرجى المحاولة لاحقاً",
+        Math.ceil((blocked.resetAt - Date.now()) / 1000),
+      );
+    }
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+    await this.redis.setJson<StoredOtp>(
+      this.otpKey(phone, purpose),
+      {
+        codeHash: this.hashCode(phone, code),
+        expiresAt: Date.now() + this.OTP_TTL_SEC * 1000,
+      },
+      this.OTP_TTL_SEC,
+    );
+    await this.redis.del(this.attemptsKey(phone, purpose));
+
+    const sent = await sms.send(
+      phone,
+      `رمز التحقق الخاص بك: ${code}\nصالح لمدة 5 دقائق. لا تشاركه مع أحد.`,
+    );
+    if (!sent) {
+      await this.redis.del(this.otpKey(phone, purpose));
+      throw new ServiceUnavailableException(
+        "تعذر إرسال الرسالة، يرجى المحاولة لاحقاً",
+      );
+    }
+
+    return { expiresIn: this.OTP_TTL_SEC };
+  }
+
+  /**
+   * Verify and consume a code. Every attempt is counted (atomic INCR) before
+   * comparing, so parallel guesses cannot exceed the limit; wrong codes also
+   * count towards the IP lockout in SecurityService.
+   */
+  async verifyCode(
+    phone: string,
+    purpose: PhoneOtpPurpose,
+    code: string,
+    ipAddress: string,
+  ): Promise<void> {
+    this.requireProvider();
+
+    const key = this.otpKey(phone, purpose);
+    const attemptsKey = this.attemptsKey(phone, purpose);
+    const stored = await this.redis.getJson<StoredOtp>(key);
+
+    if (!stored || stored.expiresAt < Date.now()) {
+      throw new UnauthorizedException("رمز التحقق غير صالح أو منتهي الصلاحية");
+    }
+
+    const attempts = await this.redis.incr(attemptsKey);
+    if (attempts === 1) {
+      const ttl = Math.ceil((stored.expiresAt - Date.now()) / 1000);
+      await this.redis.expire(attemptsKey, Math.max(ttl, 1));
+    }
+    if (attempts > this.MAX_VERIFY_ATTEMPTS) {
+      // Code is burned - a new one must be requested
+      await this.redis.del(key);
+      throw new UnauthorizedException(
+        "تم تجاوز عدد المحاولات، يرجى طلب رمز جديد",
+      );
+    }
+
+    const expected = Buffer.from(stored.codeHash, "hex");
+    const actual = Buffer.from(this.hashCode(phone, code), "hex");
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      if (attempts === this.MAX_VERIFY_ATTEMPTS) {
+        await this.redis.del(key);
+      }
+
+      await this.security.recordFailedLogin(ipAddress, phone);
+      throw new UnauthorizedException("رمز التحقق غير صحيح");
+    }
+
+    await this.redis.del(key);
+    await this.redis.del(attemptsKey);
+    this.logger.log(
+      `Phone OTP verified (${purpose}) for ${this.maskPhone(phone)}`,
+    );
+  }
+
+  /**
+   * No provider is registered when SMS is not configured (e.g. production
+   * without SMS_DRIVER) - phone OTP is then unavailable, not the whole app.
+   */
+  private requireProvider(): SmsProvider {
+    if (!this.sms) {
+      throw new ServiceUnavailableException(
+        "تسجيل الدخول بالهاتف غير متاح حالياً",
+      );
+    }
+    return this.sms;
+  }
+
+  private otpKey(phone: string, purpose: PhoneOtpPurpose): string {
+    return `phone-otp:${purpose}:${phone}`;
+  }
+
+  private attemptsKey(phone: string, purpose: PhoneOtpPurpose): string {
+    return `phone-otp:attempts:${purpose}:${phone}`;
+  }
+
+  private hashCode(phone: string, code: string): string {
+    return crypto.createHash("sha256").update(`${phone}:${code}`).digest("hex");
+  }
+
+  private maskPhone(phone: string): string {
+    return `${phone.slice(0, 4)}****${phone.slice(-2)}`;
+  }
+
+  private tooManyRequests(message: string, retryAfter: number): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
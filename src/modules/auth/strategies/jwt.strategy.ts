@@ -3,12 +3,14 @@ import { PassportStrategy } from "@nestjs/passport";
 import { ExtractJwt, Strategy } from "passport-jwt";
 import { ConfigService } from "@nestjs/config";
 import { AuthService } from "../auth.service";
+import { RedisService } from "../../../common/redis/redis.service";
 
 interface JwtPayload {
   sub: string;
-  email: string;
+  email: string | null;
   role: string;
   type: "access" | "refresh";
+  sid?: string;
 }
 
 @Injectable()
@@ -16,6 +18,7 @@ export class JwtStrategy extends PassportStrategy(Strategy, "jwt") {
   constructor(
     private configService: ConfigService,
     private authService: AuthService,
+    private redis: RedisService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -30,12 +33,17 @@ export class JwtStrategy extends PassportStrategy(Strategy, "jwt") {
       throw new UnauthorizedException("نوع Token غير صالح");
     }
 
+    // Session revoked from another device - its access token is dead too
+    if (payload.sid && (await this.redis.isSessionRevoked(payload.sid))) {
+      throw new UnauthorizedException("تم إنهاء هذه الجلسة");
+    }
+
     const user = await this.authService.validateUser(payload.sub);
 
     if (!user) {
       throw new UnauthorizedException("المستخدم غير موجود أو محظور");
     }
 
-    return user;
+    return { ...user, sessionId: payload.sid };
   }
 }
@@ -0,0 +1,421 @@
+import {
+  Injectable,
+  BadRequestException,
+  UnauthorizedException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from "@nestjs/common";
+import { JwtService } from "@nestjs/jwt";
+import { ConfigService } from "@nestjs/config";
+import * as argon2 from "argon2";
+import * as crypto from "crypto";
+import * as QRCode from "qrcode";
+import { authenticator } from "otplib";
+import { UserRole } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { SecurityService } from "../../common/security/security.service";
+
+interface MfaChallengePayload {
+  sub: string;
+  type: "mfa";
+  deviceInfo?: string;
+}
+
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data:image/png;base64,...
+}
+
+// الأدوار التي يجب عليها تفعيل المصادقة الثنائية
+export const MFA_REQUIRED_ROLES: UserRole[] = [
+  UserRole.MODERATOR,
+  UserRole.ADMIN,
+  UserRole.SUPER_ADMIN,
+];
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  // TOTP (RFC 6238): 30s step, accept one step of clock drift
+  private readonly totp = authenticator.clone({ window: 1 });
+  private readonly ISSUER = "Ali App";
+  private readonly RECOVERY_CODE_COUNT = 10;
+  private readonly RECOVERY_CODE_CAS_ATTEMPTS = 3;
+  private readonly CHALLENGE_TTL_SEC = 5 * 60;
+  private readonly CHALLENGE_MAX_ATTEMPTS = 5;
+  private readonly RECENT_MFA_TTL_SEC = 10 * 60;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private security: SecurityService,
+  ) {}
+
+  isRequiredForRole(role: string): boolean {
+    return MFA_REQUIRED_ROLES.includes(role as UserRole);
+  }
+
+  // ================================
+  // ENROLLMENT
+  // ================================
+
+  async setup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, username: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      throw new BadRequestException("المستخدم غير موجود");
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException("المصادقة الثنائية مفعلة بالفعل");
+    }
+
+    // A new setup replaces any unfinished enrollment
+    const secret = this.totp.generateSecret();
+    await this.prisma.userTwoFactor.upsert({
+      where: { userId },
+      create: {
+        userId,
+        secret: this.security.encrypt(secret),
+        recoveryCodes: [],
+      },
+      update: {
+        secret: this.security.encrypt(secret),
+        enabledAt: null,
+        recoveryCodes: [],
+        lastUsedStep: null,
+      },
+    });
+
+    const otpauthUrl = this.totp.keyuri(
+      user.email ?? user.username,
+      this.ISSUER,
+      secret,
+    );
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  async enable(
+    userId: string,
+    code: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({
+      where: { userId },
+    });
+
+    if (!twoFactor) {
+      throw new BadRequestException("يرجى بدء إعداد المصادقة الثنائية أولاً");
+    }
+
+    if (twoFactor.enabledAt) {
+      throw new BadRequestException("المصادقة الثنائية مفعلة بالفعل");
+    }
+
+    if (!(await this.verifyTotp(userId, twoFactor, code))) {
+      throw new BadRequestException("رمز التحقق غير صحيح");
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.prisma.$transaction([
+      this.prisma.userTwoFactor.update({
+        where: { userId },
+        data: {
+          enabledAt: new Date(),
+          recoveryCodes: recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+        },
+      }),
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true },
+      }),
+    ]);
+
+    this.logger.log(`User ${userId} enabled two-factor authentication`);
+
+    return { recoveryCodes };
+  }
+
+  async disable(
+    userId: string,
+    code: string,
+    password?: string,
+  ): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, passwordHash: true, twoFactorEnabled: true },
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      throw new BadRequestException("المصادقة الثنائية غير مفعلة");
+    }
+
+    if (this.isRequiredForRole(user.role)) {
+      throw new BadRequestException(
+        "لا يمكن إيقاف المصادقة الثنائية لحسابات الإدارة",
+      );
+    }
+
+    if (user.passwordHash) {
+      if (!password || !(await argon2.verify(user.passwordHash, password))) {
+        throw new UnauthorizedException("كلمة المرور غير صحيحة");
+      }
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException("رمز التحقق غير صحيح");
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.userTwoFactor.delete({ where: { userId } }),
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: false },
+      }),
+    ]);
+
+    this.logger.log(`User ${userId} disabled two-factor authentication`);
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException("رمز التحقق غير صحيح");
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.userTwoFactor.update({
+      where: { userId },
+      data: {
+        recoveryCodes: recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+      },
+    });
+
+    return { recoveryCodes };
+  }
+
+  // ================================
+  // LOGIN CHALLENGE
+  // ================================
+
+  createChallenge(userId: string, deviceInfo?: string): MfaChallengeResponse {
+    const payload: MfaChallengePayload = {
+      sub: userId,
+      type: "mfa",
+      deviceInfo,
+    };
+
+    const mfaToken = this.jwtService.sign(payload, {
+      secret: this.configService.get<string>("JWT_SECRET"),
+      expiresIn: this.CHALLENGE_TTL_SEC,
+    });
+
+    return {
+      mfaRequired: true,
+      mfaToken,
+      expiresIn: this.CHALLENGE_TTL_SEC,
+    };
+  }
+
+  /**
+   * Validate the challenge token + code. Returns the user id and the device
+   * info captured at password login.
+   */
+  async verifyChallenge(
+    mfaToken: string,
+    code: string,
+    ipAddress?: string,
+  ): Promise<{ userId: string; deviceInfo?: string }> {
+    let payload: MfaChallengePayload;
+    try {
+      payload = this.jwtService.verify<MfaChallengePayload>(mfaToken, {
+        secret: this.configService.get<string>("JWT_SECRET"),
+      });
+    } catch {
+      throw new UnauthorizedException(
+        "انتهت صلاحية جلسة التحقق، يرجى تسجيل الدخول من جديد",
+      );
+    }
+
+    if (payload.type !== "mfa") {
+      throw new UnauthorizedException("نوع Token غير صالح");
+    }
+
+    const limit = await this.security.checkRateLimit(
+      `mfa:challenge:${payload.sub}`,
+      this.CHALLENGE_MAX_ATTEMPTS,
+      this.CHALLENGE_TTL_SEC,
+    );
+    if (!limit.allowed) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: "محاولات كثيرة، يرجى تسجيل الدخول من جديد لاحقاً",
+          retryAfter: Math.ceil((limit.resetAt - Date.now()) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    if (!(await this.verifyCode(payload.sub, code))) {
+      if (ipAddress) {
+        await this.security.recordFailedLogin(ipAddress);
+      }
+      throw new UnauthorizedException("رمز التحقق غير صحيح");
+    }
+
+    return { userId: payload.sub, deviceInfo: payload.deviceInfo };
+  }
+
+  // ================================
+  // RECENT MFA (step-up for sensitive actions)
+  // ================================
+
+  async markRecentMfa(sessionId: string): Promise<void> {
+    await this.redis.set(
+      `mfa:recent:${sessionId}`,
+      Date.now().toString(),
+      this.RECENT_MFA_TTL_SEC,
+    );
+  }
+
+  async hasRecentMfa(sessionId?: string): Promise<boolean> {
+    if (!sessionId) return false;
+    return this.redis.exists(`mfa:recent:${sessionId}`);
+  }
+
+  async stepUp(
+    userId: string,
+    sessionId: string | undefined,
+    code: string,
+  ): Promise<{ expiresIn: number }> {
+    if (!sessionId) {
+      throw new BadRequestException(
+        "يرجى تسجيل الدخول من جديد لاستخدام هذه الميزة",
+      );
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException("رمز التحقق غير صحيح");
+    }
+
+    await this.markRecentMfa(sessionId);
+
+    return { expiresIn: this.RECENT_MFA_TTL_SEC };
+  }
+
+  // ================================
+  // CODE VERIFICATION
+  // ================================
+
+  /**
+   * Accepts a TOTP code or an unused recovery code (consumed on success).
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({
+      where: { userId },
+    });
+
+    if (!twoFactor || !twoFactor.enabledAt) {
+      return false;
+    }
+
+    const normalized = code.replace(/\s/g, "");
+    if (/^\d{6}$/.test(normalized)) {
+      return this.verifyTotp(userId, twoFactor, normalized);
+    }
+
+    const hash = this.hashRecoveryCode(normalized);
+    let codes = twoFactor.recoveryCodes;
+
+    // Compare-and-swap on the list that was read: redeeming another code
+    // meanwhile changes it, so the write is retried on a fresh read and a
+    // used code is never written back
+    for (
+      let attempt = 0;
+      attempt < this.RECOVERY_CODE_CAS_ATTEMPTS;
+      attempt++
+    ) {
+      if (!codes.includes(hash)) {
+        return false;
+      }
+
+      const result = await this.prisma.userTwoFactor.updateMany({
+        where: { userId, recoveryCodes: { equals: codes } },
+        data: { recoveryCodes: codes.filter((c) => c !== hash) },
+      });
+
+      if (result.count > 0) {
+        this.logger.warn(`User ${userId} used a 2FA recovery code`);
+        return true;
+      }
+
+      const fresh = await this.prisma.userTwoFactor.findUnique({
+        where: { userId },
+        select: { recoveryCodes: true },
+      });
+      if (!fresh) {
+        return false;
+      }
+      codes = fresh.recoveryCodes;
+    }
+
+    return false;
+  }
+
+  private async verifyTotp(
+    userId: string,
+    twoFactor: { secret: string },
+    code: string,
+  ): Promise<boolean> {
+    const secret = this.security.decrypt(twoFactor.secret);
+    const delta = this.totp.checkDelta(code, secret);
+
+    if (delta === null) {
+      return false;
+    }
+
+    // Reject replay of an already used code
+    const step = Math.floor(Date.now() / 1000 / 30) + delta;
+    const result = await this.prisma.userTwoFactor.updateMany({
+      where: {
+        userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+
+    return result.count > 0;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString("hex");
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/-/g, "");
+    return crypto.createHash("sha256").update(normalized).digest("hex");
+  }
+}
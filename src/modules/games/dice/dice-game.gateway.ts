@@ -9,6 +9,7 @@ import { Logger } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { PrismaService } from '../../../common/prisma/prisma.service';
 import { RedisService } from '../../../common/redis/redis.service';
+import { RoomPermissionsService } from '../../rooms/room-permissions.service';
 
 // ================================
 // DICE GAME TYPES
@@ -147,6 +148,7 @@ export class DiceGameGateway {
   constructor(
     private readonly prisma: PrismaService,
     private readonly redis: RedisService,
+    private readonly roomPermissions: RoomPermissionsService,
   ) {}
 
   // ================================
@@ -175,8 +177,12 @@ export class DiceGameGateway {
     const { roomId, settings } = data || {};
     if (!roomId) return { success: false, error: 'ROOM_ID_REQUIRED' };
 
-    // Check if user is owner or moderator
-    const isAuthorized = await this.isRoomOwnerOrMod(roomId, client.user.id);
+    // Check room permission (owner or roles allowed to run games)
+    const isAuthorized = await this.roomPermissions.can(
+      roomId,
+      client.user.id,
+      'startGames',
+    );
     if (!isAuthorized) return { success: false, error: 'NOT_AUTHORIZED' };
 
     // Update settings
@@ -211,7 +217,11 @@ export class DiceGameGateway {
     const { roomId, themeName, customTheme } = data || {};
     if (!roomId) return { success: false, error: 'ROOM_ID_REQUIRED' };
 
-    const isAuthorized = await this.isRoomOwnerOrMod(roomId, client.user.id);
+    const isAuthorized = await this.roomPermissions.can(
+      roomId,
+      client.user.id,
+      'startGames',
+    );
     if (!isAuthorized) return { success: false, error: 'NOT_AUTHORIZED' };
 
     const settings = this.getOrCreateSettings(roomId);
@@ -253,7 +263,11 @@ export class DiceGameGateway {
       return { success: false, error: 'GAME_ALREADY_EXISTS' };
     }
 
-    const isAuthorized = await this.isRoomOwnerOrMod(roomId, client.user.id);
+    const isAuthorized = await this.roomPermissions.can(
+      roomId,
+      client.user.id,
+      'startGames',
+    );
     if (!isAuthorized) return { success: false, error: 'NOT_AUTHORIZED' };
 
     const settings = this.getOrCreateSettings(roomId);
@@ -417,7 +431,11 @@ export class DiceGameGateway {
     const { roomId } = data || {};
     if (!roomId) return { success: false, error: 'ROOM_ID_REQUIRED' };
 
-    const isAuthorized = await this.isRoomOwnerOrMod(roomId, client.user.id);
+    const isAuthorized = await this.roomPermissions.can(
+      roomId,
+      client.user.id,
+      'startGames',
+    );
     if (!isAuthorized) return { success: false, error: 'NOT_AUTHORIZED' };
 
     const gameState = this.activeGames.get(roomId);
@@ -572,7 +590,11 @@ export class DiceGameGateway {
     const { roomId } = data || {};
     if (!roomId) return { success: false, error: 'ROOM_ID_REQUIRED' };
 
-    const isAuthorized = await this.isRoomOwnerOrMod(roomId, client.user.id);
+    const isAuthorized = await this.roomPermissions.can(
+      roomId,
+      client.user.id,
+      'startGames',
+    );
     if (!isAuthorized) return { success: false, error: 'NOT_AUTHORIZED' };
 
     const gameState = this.activeGames.get(roomId);
@@ -643,22 +665,4 @@ export class DiceGameGateway {
     }
     return settings;
   }
-
-  private async isRoomOwnerOrMod(roomId: string, userId: string): Promise<boolean> {
-    const room = await this.prisma.room.findUnique({
-      where: { id: roomId },
-      select: { ownerId: true },
-    });
-
-    if (!room) return false;
-    if (room.ownerId === userId) return true;
-
-    // Check if moderator
-    const membership = await this.prisma.roomMember.findUnique({
-      where: { roomId_userId: { roomId, userId } },
-      select: { role: true },
-    });
-
-    return membership?.role === 'MODERATOR' || membership?.role === 'ADMIN';
-  }
 }
@@ -25,7 +25,11 @@ import {
 } from "./dto/gifts.dto";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { RolesGuard } from "../auth/guards/roles.guard";
+import { EmailVerifiedGuard } from "../auth/guards/email-verified.guard";
+import { ApiKeyGuard } from "../auth/guards/api-key.guard";
 import { Roles } from "../auth/decorators/roles.decorator";
+import { RequireVerifiedEmail } from "../auth/decorators/require-verified-email.decorator";
+import { ApiKeyScopes } from "../auth/decorators/api-key-scopes.decorator";
 import { CurrentUser } from "../auth/decorators/current-user.decorator";
 import { v4 as uuidv4 } from "uuid";
 
@@ -78,6 +82,9 @@ export class GiftsController {
   }
 
   @Post("send")
+  @UseGuards(ApiKeyGuard, EmailVerifiedGuard)
+  @ApiKeyScopes("gifts:send")
+  @RequireVerifiedEmail("gift_send")
   @ApiOperation({ summary: "إرسال هدية" })
   @ApiHeader({
     name: "X-Idempotency-Key",
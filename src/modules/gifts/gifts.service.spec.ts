@@ -9,6 +9,8 @@ import { PrismaService } from '../../common/prisma/prisma.service';
 import { RedisService } from '../../common/redis/redis.service';
 import { CacheService } from '../../common/cache/cache.service';
 import { MessagesService } from '../messages/messages.service';
+import { AppGateway } from '../websocket/app.gateway';
+import { RoomLevelsService } from '../rooms/room-levels.service';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 
 describe('GiftsService', () => {
@@ -28,8 +30,12 @@ describe('GiftsService', () => {
     },
     wallet: {
       findUnique: jest.fn(),
+      create: jest.fn(),
       update: jest.fn(),
     },
+    room: {
+      findUnique: jest.fn(),
+    },
     walletTransaction: {
       create: jest.fn(),
     },
@@ -50,10 +56,21 @@ describe('GiftsService', () => {
     getCachedGiftsList: jest.fn(),
     cacheGiftsList: jest.fn(),
     invalidate: jest.fn(),
+    invalidateUser: jest.fn(),
   };
 
   const mockMessagesService = {
     create: jest.fn(),
+    createGiftMessage: jest.fn(),
+  };
+
+  const mockAppGateway = {
+    notifyGiftSent: jest.fn(),
+    server: { emit: jest.fn() },
+  };
+
+  const mockRoomLevelsService = {
+    addGiftXp: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -64,6 +81,8 @@ describe('GiftsService', () => {
         { provide: RedisService, useValue: mockRedisService },
         { provide: CacheService, useValue: mockCacheService },
         { provide: MessagesService, useValue: mockMessagesService },
+        { provide: AppGateway, useValue: mockAppGateway },
+        { provide: RoomLevelsService, useValue: mockRoomLevelsService },
       ],
     }).compile();
 
@@ -151,5 +170,67 @@ describe('GiftsService', () => {
         }, 'key-1'),
       ).rejects.toThrow(BadRequestException);
     });
+
+    describe('room XP', () => {
+      beforeEach(() => {
+        mockPrismaService.giftSend.findUnique.mockResolvedValue(null);
+        mockRedisService.exists.mockResolvedValue(0);
+        mockPrismaService.gift.findUnique.mockResolvedValue({
+          id: 'gift-1',
+          name: 'Rose',
+          price: 10,
+          isActive: true,
+          type: 'STATIC',
+        });
+        mockPrismaService.user = {
+          findUnique: jest.fn(({ where }: any) =>
+            Promise.resolve({ id: where.id, displayName: where.id }),
+          ),
+        };
+        mockPrismaService.room.findUnique.mockResolvedValue({
+          ownerId: 'owner-1',
+          deletedAt: null,
+        });
+        mockPrismaService.wallet.findUnique.mockImplementation(({ where }: any) =>
+          Promise.resolve({
+            id: `wallet-${where.userId}`,
+            balance: BigInt(100),
+          }),
+        );
+        mockPrismaService.wallet.update.mockResolvedValue({
+          balance: BigInt(90),
+        });
+        mockPrismaService.giftSend.create.mockResolvedValue({
+          id: 'send-1',
+          quantity: 1,
+          totalPrice: 10,
+        });
+      });
+
+      it('should add gift XP to the room the gift was sent in', async () => {
+        await service.sendGift(
+          'user-1',
+          { giftId: 'gift-1', receiverId: 'user-2', roomId: 'room-1' },
+          'key-1',
+        );
+
+        expect(mockRoomLevelsService.addGiftXp).toHaveBeenCalledWith(
+          'room-1',
+          10,
+        );
+      });
+
+      it('should not add room XP for a gift sent outside a room', async () => {
+        const result = await service.sendGift(
+          'user-1',
+          { giftId: 'gift-1', receiverId: 'user-2' },
+          'key-2',
+        );
+
+        expect(result.success).toBe(true);
+        expect(mockRoomLevelsService.addGiftXp).not.toHaveBeenCalled();
+        expect(mockAppGateway.notifyGiftSent).not.toHaveBeenCalled();
+      });
+    });
   });
 });
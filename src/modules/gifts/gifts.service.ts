@@ -12,6 +12,7 @@ import { RedisService } from "../../common/redis/redis.service";
 import { CacheService, CACHE_TTL } from "../../common/cache/cache.service";
 import { MessagesService } from "../messages/messages.service";
 import { AppGateway } from "../websocket/app.gateway";
+import { RoomLevelsService } from "../rooms/room-levels.service";
 import {
   CreateGiftDto,
   UpdateGiftDto,
@@ -42,6 +43,7 @@ export class GiftsService {
     private messagesService: MessagesService,
     @Inject(forwardRef(() => AppGateway))
     private appGateway: AppGateway,
+    private roomLevels: RoomLevelsService,
   ) {}
 
   private toBigInt(amount: number) {
@@ -266,9 +268,12 @@ export class GiftsService {
         const room = dto.roomId
           ? await tx.room.findUnique({
               where: { id: dto.roomId },
-              select: { ownerId: true },
+              select: { ownerId: true, deletedAt: true },
             })
           : null;
+        if (dto.roomId && (!room || room.deletedAt)) {
+          throw new NotFoundException("الغرفة غير موجودة");
+        }
         const roomOwnerId = room?.ownerId ?? null;
 
         // Get sender wallet with lock (SELECT FOR UPDATE)
@@ -460,6 +465,8 @@ export class GiftsService {
         result.giftSend.id,
         messageContent,
       );
+
+      await this.roomLevels.addGiftXp(dto.roomId, result.giftSend.totalPrice);
     }
 
     // Publish gift event for WebSocket
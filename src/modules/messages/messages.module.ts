@@ -1,8 +1,10 @@
 import { Module } from "@nestjs/common";
 import { MessagesController } from "./messages.controller";
 import { MessagesService } from "./messages.service";
+import { RoomsModule } from "../rooms/rooms.module";
 
 @Module({
+  imports: [RoomsModule],
   controllers: [MessagesController],
   providers: [MessagesService],
   exports: [MessagesService],
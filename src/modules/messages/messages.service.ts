@@ -2,12 +2,17 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  HttpException,
+  HttpStatus,
   Logger,
 } from "@nestjs/common";
 import { PrismaService } from "../../common/prisma/prisma.service";
 import { RedisService } from "../../common/redis/redis.service";
+import { RoomPermissionsService } from "../rooms/room-permissions.service";
+import { RoomLevelsService } from "../rooms/room-levels.service";
+import { RoomsService } from "../rooms/rooms.service";
 import { SendMessageDto, MessageQueryDto } from "./dto/messages.dto";
-import { MessageType, MemberRole } from "@prisma/client";
+import { MessageType } from "@prisma/client";
 
 // Helper function to convert BigInt to number in objects
 function serializeData(data: any): any {
@@ -34,6 +39,9 @@ export class MessagesService {
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
+    private roomPermissions: RoomPermissionsService,
+    private roomLevels: RoomLevelsService,
+    private roomsService: RoomsService,
   ) {}
 
   // ================================
@@ -44,12 +52,18 @@ export class MessagesService {
     // Check room membership
     const membership = await this.prisma.roomMember.findUnique({
       where: { roomId_userId: { roomId, userId } },
+      include: { room: { select: { deletedAt: true } } },
     });
 
     if (!membership || membership.leftAt || membership.isBanned) {
       throw new ForbiddenException("أنت لست عضواً في هذه الغرفة");
     }
 
+    // الأعضاء يبقون في الغرفة المؤرشفة - لا رسائل حتى تُستعاد
+    if (membership.room.deletedAt) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+
     // Check if muted
     if (membership.isMuted) {
       if (membership.mutedUntil && membership.mutedUntil > new Date()) {
@@ -62,6 +76,42 @@ export class MessagesService {
       });
     }
 
+    // Slow mode + burst limiter
+    const rateLimit = await this.roomsService.checkChatRateLimit(
+      roomId,
+      userId,
+      membership.role,
+    );
+    if (!rateLimit.allowed) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: rateLimit.message,
+          code: "RATE_LIMITED",
+          reason: rateLimit.reason,
+          retryAfter: rateLimit.retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // Banned-word filter (block / mask / auto-mute / auto-kick)
+    let content = dto.content;
+    if ((dto.type || MessageType.TEXT) === MessageType.TEXT && content) {
+      const moderation = await this.roomsService.moderateMessage(
+        roomId,
+        userId,
+        content,
+      );
+      if (!moderation.allowed) {
+        throw new ForbiddenException({
+          message: moderation.message,
+          code: moderation.error,
+        });
+      }
+      content = moderation.content;
+    }
+
     // 🔧 Use transaction to create message + enforce 75 limit
     const message = await this.prisma.$transaction(async (tx) => {
       // 1️⃣ Create the message
@@ -70,7 +120,7 @@ export class MessagesService {
           roomId,
           senderId: userId,
           type: dto.type || MessageType.TEXT,
-          content: dto.content,
+          content,
           metadata: dto.metadata as any,
         },
         include: {
@@ -107,6 +157,8 @@ export class MessagesService {
     // Remove typing indicator
     await this.redis.removeTyping(roomId, userId);
 
+    await this.roomLevels.addMessageXp(roomId, userId);
+
     return message;
   }
   
@@ -245,29 +297,20 @@ export class MessagesService {
   async delete(messageId: string, userId: string) {
     const message = await this.prisma.message.findUnique({
       where: { id: messageId },
-      include: {
-        room: {
-          include: {
-            members: {
-              where: { userId },
-            },
-          },
-        },
-      },
     });
 
     if (!message) {
       throw new NotFoundException("الرسالة غير موجودة");
     }
 
-    // Check permission: sender or room moderator+
-    const membership = message.room.members[0];
+    // Check permission: sender or room role with deleteMessages
     const canDelete =
       message.senderId === userId ||
-      (membership &&
-        (
-          [MemberRole.OWNER, MemberRole.ADMIN, MemberRole.MODERATOR] as string[]
-        ).includes(membership.role));
+      (await this.roomPermissions.can(
+        message.roomId,
+        userId,
+        "deleteMessages",
+      ));
 
     if (!canDelete) {
       throw new ForbiddenException("ليس لديك صلاحية حذف هذه الرسالة");
@@ -305,13 +305,14 @@ export class NotificationsService {
     roomName: string,
     roomId: string,
     inviterName: string,
+    inviteToken?: string,
   ): Promise<any> {
     return this.create({
       userId,
       type: "ROOM_INVITE",
       title: "📩 دعوة للانضمام",
       body: `دعاك ${inviterName} للانضمام إلى غرفة "${roomName}"`,
-      data: { roomId },
+      data: { roomId, ...(inviteToken && { inviteToken }) },
     });
   }
 }
@@ -21,9 +21,12 @@ import { ApiTags, ApiOperation, ApiBearerAuth, ApiProperty, ApiPropertyOptional
 import { IsString, IsBoolean, IsOptional, IsNumber, IsEnum, IsUUID } from "class-validator";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { RolesGuard } from "../auth/guards/roles.guard";
+import { RecentMfaGuard } from "../auth/guards/recent-mfa.guard";
 import { Roles } from "../auth/decorators/roles.decorator";
+import { RequireRecentMfa } from "../auth/decorators/require-recent-mfa.decorator";
 import { CurrentUser } from "../auth/decorators/current-user.decorator";
 import { OwnerService, LockdownLevel, PunishmentType } from "./owner.service";
+import { UpdateWordFilterDto } from "../rooms/dto/rooms.dto";
 import { UserRole } from "@prisma/client";
 
 // ================================
@@ -171,7 +174,7 @@ class TransferRoomOwnershipDto {
 
 @ApiTags("owner")
 @Controller("owner")
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, RecentMfaGuard)
 @Roles("SUPER_ADMIN")
 @ApiBearerAuth()
 export class OwnerController {
@@ -206,6 +209,7 @@ export class OwnerController {
   }
 
   @Post("system/lockdown")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "تفعيل الإغلاق الطارئ" })
   async setLockdownLevel(
@@ -246,6 +250,22 @@ export class OwnerController {
     );
   }
 
+  @Get("system/word-filter")
+  @ApiOperation({ summary: "قائمة الكلمات المحظورة على مستوى المنصة" })
+  async getPlatformWordFilter() {
+    return this.ownerService.getPlatformWordFilter();
+  }
+
+  @Put("system/word-filter")
+  @ApiOperation({ summary: "تعديل قائمة الكلمات المحظورة على مستوى المنصة" })
+  async updatePlatformWordFilter(
+    @CurrentUser("id") ownerId: string,
+    @Body() dto: UpdateWordFilterDto,
+  ) {
+    this.logger.log(`Owner: Updating platform word filter`);
+    return this.ownerService.updatePlatformWordFilter(ownerId, dto.rules);
+  }
+
   // ================================
   // USER AUTHORITY (PUNISHMENTS)
   // ================================
@@ -357,6 +377,7 @@ export class OwnerController {
   }
 
   @Post("economy/adjust-balance")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "تعديل رصيد مستخدم" })
   async adjustBalance(
@@ -373,6 +394,7 @@ export class OwnerController {
   }
 
   @Post("economy/freeze")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "تجميد/رفع تجميد الاقتصاد" })
   async setEconomyFreeze(
@@ -384,6 +406,7 @@ export class OwnerController {
   }
 
   @Post("economy/reverse-gift")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "عكس هدية" })
   async reverseGift(
@@ -410,6 +433,7 @@ export class OwnerController {
   }
 
   @Post("users/role")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "تغيير دور مستخدم" })
   async setUserRole(
@@ -426,6 +450,7 @@ export class OwnerController {
   }
 
   @Patch("users/:userId/role")
+  @RequireRecentMfa()
   @ApiOperation({ summary: "تغيير دور مستخدم (بديل)" })
   async updateUserRole(
     @CurrentUser("id") ownerId: string,
@@ -437,6 +462,7 @@ export class OwnerController {
   }
 
   @Post("users/:userId/force-logout")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "تسجيل خروج إجباري لمستخدم" })
   async forceLogout(
@@ -448,6 +474,7 @@ export class OwnerController {
   }
 
   @Post("users/force-logout-all")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "تسجيل خروج إجباري لجميع المستخدمين" })
   async forceLogoutAll(
@@ -463,6 +490,7 @@ export class OwnerController {
   // ================================
 
   @Post("rooms/:roomId/delete")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "حذف غرفة" })
   async deleteRoom(
@@ -474,7 +502,21 @@ export class OwnerController {
     return this.ownerService.deleteRoom(ownerId, roomId, reason);
   }
 
+  @Post("rooms/:roomId/restore")
+  @RequireRecentMfa()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "استعادة غرفة محذوفة" })
+  async restoreRoom(
+    @CurrentUser("id") ownerId: string,
+    @Param("roomId") roomId: string,
+    @Body("reason") reason: string,
+  ) {
+    this.logger.log(`Owner: Restoring room ${roomId}`);
+    return this.ownerService.restoreRoom(ownerId, roomId, reason);
+  }
+
   @Post("rooms/transfer-ownership")
+  @RequireRecentMfa()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "نقل ملكية غرفة" })
   async transferRoomOwnership(
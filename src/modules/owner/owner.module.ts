@@ -7,12 +7,13 @@ import { OwnerController } from "./owner.controller";
 import { OwnerAgentsController } from "./owner-agents.controller";
 import { OwnerService } from "./owner.service";
 import { AgentsModule } from "../agents/agents.module";
+import { AuthModule } from "../auth/auth.module";
 import { PrismaModule } from "../../common/prisma/prisma.module";
 import { RedisModule } from "../../common/redis/redis.module";
 import { CacheModule } from "../../common/cache/cache.module";
 
 @Module({
-  imports: [AgentsModule, PrismaModule, RedisModule, CacheModule],
+  imports: [AgentsModule, AuthModule, PrismaModule, RedisModule, CacheModule],
   controllers: [OwnerController, OwnerAgentsController],
   providers: [OwnerService],
   exports: [OwnerService],
@@ -0,0 +1,125 @@
+/**
+ * Owner Service Unit Tests
+ * اختبارات وحدة خدمة المالك
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "@nestjs/common";
+import { AdminActionType } from "@prisma/client";
+import { OwnerService } from "./owner.service";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { CacheService } from "../../common/cache/cache.service";
+import { WordFilterService } from "../rooms/word-filter.service";
+
+describe("OwnerService", () => {
+  let service: OwnerService;
+
+  const DAY = 24 * 60 * 60 * 1000;
+
+  const mockPrismaService: any = {
+    room: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    adminAction: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn((callback: any) => callback(mockPrismaService)),
+  };
+
+  const mockRedisService = {
+    isEnabled: jest.fn().mockReturnValue(false),
+  };
+
+  const mockCacheService = {
+    invalidateRoom: jest.fn(),
+  };
+
+  const archivedRoom = (overrides: Record<string, unknown> = {}) => ({
+    id: "room-1",
+    name: "Room",
+    ownerId: "user-1",
+    deletedAt: new Date(Date.now() - 2 * DAY),
+    deletedBy: "super-1",
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OwnerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: WordFilterService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<OwnerService>(OwnerService);
+
+    jest.clearAllMocks();
+    mockPrismaService.room.findUnique.mockResolvedValue(archivedRoom());
+    mockPrismaService.room.count.mockResolvedValue(0);
+  });
+
+  describe("restoreRoom", () => {
+    it("should restore an archived room and log the action", async () => {
+      await expect(
+        service.restoreRoom("super-1", "room-1", "appeal accepted"),
+      ).resolves.toEqual(expect.objectContaining({ success: true }));
+
+      expect(mockPrismaService.room.count).toHaveBeenCalledWith({
+        where: { ownerId: "user-1", status: "ACTIVE", deletedAt: null },
+      });
+      expect(mockPrismaService.room.update).toHaveBeenCalledWith({
+        where: { id: "room-1" },
+        data: { deletedAt: null, deletedBy: null },
+      });
+      expect(mockPrismaService.adminAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorId: "super-1",
+          action: AdminActionType.ROOM_RESTORED,
+        }),
+      });
+      expect(mockCacheService.invalidateRoom).toHaveBeenCalledWith("room-1");
+    });
+
+    it("should not restore while the room owner has another active room", async () => {
+      mockPrismaService.room.count.mockResolvedValue(1);
+
+      const error = await service
+        .restoreRoom("super-1", "room-1", "appeal accepted")
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse().error).toBe("MAX_ROOMS_REACHED");
+      expect(mockPrismaService.room.update).not.toHaveBeenCalled();
+    });
+
+    it("should not restore past the restore window", async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(
+        archivedRoom({ deletedAt: new Date(Date.now() - 31 * DAY) }),
+      );
+
+      await expect(
+        service.restoreRoom("super-1", "room-1", "appeal accepted"),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("should reject a room that is not archived", async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(
+        archivedRoom({ deletedAt: null }),
+      );
+
+      await expect(
+        service.restoreRoom("super-1", "room-1", "appeal accepted"),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -8,11 +8,21 @@ import {
   ForbiddenException,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from "@nestjs/common";
 import { PrismaService } from "../../common/prisma/prisma.service";
 import { RedisService } from "../../common/redis/redis.service";
 import { CacheService } from "../../common/cache/cache.service";
-import { AdminActionType, UserRole, Prisma } from "@prisma/client";
+import { WordFilterService } from "../rooms/word-filter.service";
+import { WordFilterRule } from "../rooms/word-filter";
+import {
+  getRoomPurgeCutoff,
+  MAX_ROOMS_PER_USER,
+  ROOM_ARCHIVED_CHANNEL,
+  ROOM_RESTORE_WINDOW_DAYS,
+  RoomArchivedMessage,
+} from "../rooms/room-archive";
+import { AdminActionType, UserRole, Prisma, RoomStatus } from "@prisma/client";
 
 // ================================
 // TYPES & INTERFACES
@@ -74,6 +84,7 @@ export class OwnerService {
     private prisma: PrismaService,
     private redis: RedisService,
     private cache: CacheService,
+    private wordFilter: WordFilterService,
   ) {
     this.loadSystemSettings();
   }
@@ -264,6 +275,36 @@ export class OwnerService {
     };
   }
 
+  /**
+   * Platform-wide banned words (applied in every room on top of its own list)
+   */
+  async getPlatformWordFilter(): Promise<WordFilterRule[]> {
+    return this.wordFilter.getPlatformRules();
+  }
+
+  async updatePlatformWordFilter(
+    ownerId: string,
+    rules: WordFilterRule[],
+  ): Promise<OwnerActionResult> {
+    const saved = await this.wordFilter.setPlatformRules(
+      this.wordFilter.normalizeRules(rules),
+    );
+
+    await this.logOwnerAction(ownerId, "WORD_FILTER_UPDATED", {
+      ruleCount: saved.length,
+    });
+
+    this.logger.log(
+      `Platform word filter updated by ${ownerId} (${saved.length} rules)`,
+    );
+
+    return {
+      success: true,
+      message: "تم تحديث قائمة الكلمات المحظورة",
+      data: { rules: saved },
+    };
+  }
+
   // ================================
   // 2. USER AUTHORITY (PUNISHMENTS)
   // ================================
@@ -853,13 +894,16 @@ export class OwnerService {
   ): Promise<OwnerActionResult> {
     const room = await this.prisma.room.findUnique({ where: { id: roomId } });
 
-    if (!room) {
+    if (!room || room.deletedAt) {
       throw new NotFoundException("الغرفة غير موجودة");
     }
 
     await this.prisma.$transaction(async (tx) => {
-      // Delete room
-      await tx.room.delete({ where: { id: roomId } });
+      // Archive room - purged by CleanupService after the restore window
+      await tx.room.update({
+        where: { id: roomId },
+        data: { deletedAt: new Date(), deletedBy: ownerId },
+      });
 
       // Log the action
       await tx.adminAction.create({
@@ -874,6 +918,9 @@ export class OwnerService {
 
     // Broadcast room deletion
     await this.broadcastSystemEvent("room_deleted", { roomId, reason });
+    const message: RoomArchivedMessage = { roomId, reason };
+    await this.redis.publish(ROOM_ARCHIVED_CHANNEL, message);
+    await this.cache.invalidateRoom(roomId);
 
     this.logger.log(`Room ${roomId} deleted by owner ${ownerId}`);
 
@@ -884,6 +931,69 @@ export class OwnerService {
     };
   }
 
+  /**
+   * Restore an archived room (within the retention window)
+   */
+  async restoreRoom(
+    ownerId: string,
+    roomId: string,
+    reason: string,
+  ): Promise<OwnerActionResult> {
+    const room = await this.prisma.room.findUnique({ where: { id: roomId } });
+
+    if (!room || !room.deletedAt) {
+      throw new NotFoundException("لا توجد غرفة محذوفة بهذا المعرف");
+    }
+
+    if (room.deletedAt < getRoomPurgeCutoff()) {
+      throw new BadRequestException(
+        `انتهت مدة الاستعادة (${ROOM_RESTORE_WINDOW_DAYS} يوماً)`,
+      );
+    }
+
+    // نفس حد RoomsService.restore - لا تُستعاد غرفة ثانية لنفس المالك
+    const activeRooms = await this.prisma.room.count({
+      where: {
+        ownerId: room.ownerId,
+        status: RoomStatus.ACTIVE,
+        deletedAt: null,
+      },
+    });
+    if (activeRooms >= MAX_ROOMS_PER_USER) {
+      throw new ConflictException({
+        error: "MAX_ROOMS_REACHED",
+        message: "لدى مالك الغرفة غرفة أخرى - يجب حذفها أولاً",
+        maxRooms: MAX_ROOMS_PER_USER,
+      });
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.room.update({
+        where: { id: roomId },
+        data: { deletedAt: null, deletedBy: null },
+      });
+
+      await tx.adminAction.create({
+        data: {
+          actorId: ownerId,
+          action: AdminActionType.ROOM_RESTORED,
+          reason,
+          details: { roomId, roomName: room.name },
+        },
+      });
+    });
+
+    await this.cache.invalidateRoom(roomId);
+
+    this.logger.log(`Room ${roomId} restored by owner ${ownerId}`);
+
+    return {
+      success: true,
+      message: "تمت استعادة الغرفة",
+      data: { roomId },
+    };
+  }
+
   /**
    * Transfer room ownership
    */
@@ -5,13 +5,54 @@ import {
   IsBoolean,
   IsInt,
   IsObject,
+  IsIn,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested,
+  IsDate,
   MinLength,
   MaxLength,
   Min,
   Max,
 } from "class-validator";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
 import { RoomType, MemberRole } from "@prisma/client";
+import { MIC_LAYOUT_SEATS } from "../mic-layout";
+import {
+  CONFIGURABLE_ROLES,
+  ConfigurableRole,
+} from "../room-permissions.service";
+import {
+  ROOM_ANALYTICS_RANGES,
+  RoomAnalyticsRange,
+} from "../room-analytics.service";
+import {
+  MAX_ANNOUNCEMENT_LENGTH,
+  MAX_ROOM_RULES,
+  MAX_ROOM_RULE_LENGTH,
+  MAX_WELCOME_MESSAGE_LENGTH,
+} from "../room-rules";
+import { MAX_SLOW_MODE_SECONDS } from "../slow-mode";
+import {
+  MAX_EVENT_DESCRIPTION_LENGTH,
+  MAX_EVENT_REMINDER_OFFSET_MINUTES,
+  MAX_EVENT_REMINDERS,
+  MAX_EVENT_TITLE_LENGTH,
+  ROOM_EVENT_CATEGORIES,
+  RoomEventCategory,
+} from "../room-events";
+import {
+  MAX_INVITE_EXPIRY_HOURS,
+  MAX_INVITE_USES,
+} from "../room-invites.service";
+import {
+  MAX_WORD_FILTER_MUTE_MINUTES,
+  MAX_WORD_FILTER_PATTERN_LENGTH,
+  MAX_WORD_FILTER_RULES,
+  WORD_FILTER_ACTIONS,
+  WordFilterAction,
+} from "../word-filter";
 
 export class CreateRoomDto {
   @ApiProperty({ example: "غرفة الأصدقاء" })
@@ -92,6 +133,17 @@ export class JoinRoomDto {
   @IsOptional()
   @IsString()
   password?: string;
+
+  @ApiPropertyOptional({ description: "رمز الدعوة - يغني عن كلمة المرور" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  inviteToken?: string;
+
+  @ApiPropertyOptional({ description: "الموافقة على قوانين الغرفة" })
+  @IsOptional()
+  @IsBoolean()
+  acceptRules?: boolean;
 }
 
 export class UpdateMemberDto {
@@ -134,8 +186,20 @@ export class RoomQueryDto {
   @IsString()
   category?: string;
 
+  @ApiPropertyOptional({ description: "level, minimum room level" })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minLevel?: number;
+
   @ApiPropertyOptional()
   @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxLevel?: number;
+
+  @ApiPropertyOptional({ description: "currentMembers, createdAt, level" })
+  @IsOptional()
   @IsString()
   sortBy?: string = "currentMembers";
 
@@ -160,3 +224,303 @@ export class KickMemberDto {
   @IsOptional()
   bannedUntil?: Date;
 }
+
+export class UpdateMicLayoutDto {
+  @ApiProperty({ enum: MIC_LAYOUT_SEATS, example: 10 })
+  @IsIn(MIC_LAYOUT_SEATS)
+  seats: number;
+
+  @ApiPropertyOptional({ description: "مقعد مضيف مخصص (المقعد 0)" })
+  @IsOptional()
+  @IsBoolean()
+  hostSeat?: boolean;
+}
+
+export class ApproveMicRequestDto {
+  @ApiProperty({ example: 1, description: "رقم المقعد" })
+  @IsInt()
+  @Min(0)
+  slotIndex: number;
+}
+
+export class UpdateRoomPermissionsDto {
+  @ApiProperty({ enum: CONFIGURABLE_ROLES, example: MemberRole.MODERATOR })
+  @IsIn(CONFIGURABLE_ROLES)
+  role: ConfigurableRole;
+
+  @ApiProperty({
+    example: { kick: true, ban: false, manageMusic: true },
+    description: "الصلاحيات المراد تعديلها (true/false)",
+  })
+  @IsObject()
+  permissions: Record<string, boolean>;
+}
+
+export class RoomAnalyticsQueryDto {
+  @ApiPropertyOptional({ enum: ROOM_ANALYTICS_RANGES, default: "day" })
+  @IsOptional()
+  @IsIn(ROOM_ANALYTICS_RANGES)
+  range?: RoomAnalyticsRange = "day";
+}
+
+export class UpdateRoomRulesDto {
+  @ApiPropertyOptional({ type: [String], example: ["احترام الجميع"] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_ROOM_RULES)
+  @IsString({ each: true })
+  @MaxLength(MAX_ROOM_RULE_LENGTH, { each: true })
+  items?: string[];
+
+  @ApiPropertyOptional({ description: "الانضمام يتطلب الموافقة على القوانين" })
+  @IsOptional()
+  @IsBoolean()
+  requireAcceptance?: boolean;
+
+  @ApiPropertyOptional({
+    example: "أهلاً {name} 👋",
+    description: "رسالة ترحيب خاصة لكل منضم - null للحذف",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_WELCOME_MESSAGE_LENGTH)
+  welcomeMessage?: string | null;
+}
+
+export class PinAnnouncementDto {
+  @ApiProperty({ example: "مسابقة الليلة الساعة 9" })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(MAX_ANNOUNCEMENT_LENGTH)
+  text: string;
+}
+
+export class WordFilterRuleDto {
+  @ApiProperty({ example: "كلمة" })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(MAX_WORD_FILTER_PATTERN_LENGTH)
+  pattern: string;
+
+  @ApiPropertyOptional({
+    description: "النمط تعبير نمطي (regex) - بدونه يطابق النمط كلمات كاملة فقط",
+  })
+  @IsOptional()
+  @IsBoolean()
+  isRegex?: boolean = false;
+
+  @ApiProperty({ enum: WORD_FILTER_ACTIONS, example: "mask" })
+  @IsIn(WORD_FILTER_ACTIONS)
+  action: WordFilterAction;
+
+  @ApiPropertyOptional({ example: 10, description: "مدة الكتم (للإجراء mute)" })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_WORD_FILTER_MUTE_MINUTES)
+  muteMinutes?: number;
+}
+
+export class UpdateWordFilterDto {
+  @ApiProperty({ type: [WordFilterRuleDto] })
+  @IsArray()
+  @ArrayMaxSize(MAX_WORD_FILTER_RULES)
+  @ValidateNested({ each: true })
+  @Type(() => WordFilterRuleDto)
+  rules: WordFilterRuleDto[];
+}
+
+export class ModerationLogQueryDto {
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ description: "للصفحة التالية: createdAt لآخر عنصر" })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  before?: Date;
+}
+
+export class UpdateSlowModeDto {
+  @ApiProperty({ example: 10, description: "ثوانٍ بين رسالتين (0 = إيقاف)" })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_SLOW_MODE_SECONDS)
+  intervalSeconds: number;
+
+  @ApiPropertyOptional({ description: "إعفاء أعضاء VIP" })
+  @IsOptional()
+  @IsBoolean()
+  exemptVip?: boolean;
+}
+
+export class FavoriteRoomDto {
+  @ApiPropertyOptional({
+    description: "إشعار عند فتح المالك للغرفة أو صعوده للمايك",
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyLive?: boolean;
+}
+
+export class CreateRoomEventDto {
+  @ApiProperty({ example: "أمسية شعرية" })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(MAX_EVENT_TITLE_LENGTH)
+  title: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_EVENT_DESCRIPTION_LENGTH)
+  description?: string;
+
+  @ApiPropertyOptional({ description: "صورة الغلاف" })
+  @IsOptional()
+  @IsString()
+  coverUrl?: string;
+
+  @ApiProperty({ enum: ROOM_EVENT_CATEGORIES, example: "chat" })
+  @IsIn(ROOM_EVENT_CATEGORIES)
+  category: RoomEventCategory;
+
+  @ApiProperty({ example: "2026-11-01T18:00:00.000Z" })
+  @Type(() => Date)
+  @IsDate()
+  startsAt: Date;
+
+  @ApiProperty({ example: "2026-11-01T20:00:00.000Z" })
+  @Type(() => Date)
+  @IsDate()
+  endsAt: Date;
+
+  @ApiPropertyOptional({
+    type: [Number],
+    example: [60, 10],
+    description: "دقائق قبل البدء لإرسال التذكير",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_EVENT_REMINDERS)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(MAX_EVENT_REMINDER_OFFSET_MINUTES, { each: true })
+  reminderOffsets?: number[];
+
+  @ApiPropertyOptional({
+    type: [Number],
+    example: [3, 4],
+    description: "مايكات تُفتح تلقائياً عند بدء الفعالية",
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  unlockMicSlots?: number[];
+}
+
+export class UpdateRoomEventDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MinLength(3)
+  @MaxLength(MAX_EVENT_TITLE_LENGTH)
+  title?: string;
+
+  @ApiPropertyOptional({ description: "null للحذف" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_EVENT_DESCRIPTION_LENGTH)
+  description?: string | null;
+
+  @ApiPropertyOptional({ description: "null للحذف" })
+  @IsOptional()
+  @IsString()
+  coverUrl?: string | null;
+
+  @ApiPropertyOptional({ enum: ROOM_EVENT_CATEGORIES })
+  @IsOptional()
+  @IsIn(ROOM_EVENT_CATEGORIES)
+  category?: RoomEventCategory;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startsAt?: Date;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endsAt?: Date;
+
+  @ApiPropertyOptional({ type: [Number] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_EVENT_REMINDERS)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(MAX_EVENT_REMINDER_OFFSET_MINUTES, { each: true })
+  reminderOffsets?: number[];
+
+  @ApiPropertyOptional({ type: [Number] })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  unlockMicSlots?: number[];
+}
+
+export class UpcomingEventsQueryDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ enum: ROOM_EVENT_CATEGORIES })
+  @IsOptional()
+  @IsIn(ROOM_EVENT_CATEGORIES)
+  category?: RoomEventCategory;
+}
+
+export class CreateRoomInviteDto {
+  @ApiPropertyOptional({ default: 24, description: "صلاحية الرابط بالساعات" })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_INVITE_EXPIRY_HOURS)
+  expiresInHours?: number;
+
+  @ApiPropertyOptional({ description: "عدد مرات الاستخدام (بدون = غير محدود)" })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_INVITE_USES)
+  maxUses?: number;
+}
+
+export class UpdateKnockModeDto {
+  @ApiProperty({ description: "طرق الباب بدلاً من كلمة المرور (غرف خاصة)" })
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class InviteFriendDto {
+  @ApiProperty({ description: "معرف الصديق" })
+  @IsString()
+  friendId: string;
+}
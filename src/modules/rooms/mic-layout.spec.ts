@@ -0,0 +1,173 @@
+/**
+ * Mic Layout Unit Tests
+ * اختبارات وحدة تخطيط مقاعد المايك
+ */
+
+import {
+  DEFAULT_MIC_LAYOUT,
+  MicLayout,
+  getMicLayout,
+  getMicSlotCount,
+  isHostSeat,
+  isValidMicSlot,
+  migrateMicSlots,
+} from "./mic-layout";
+
+describe("mic-layout", () => {
+  const seated = (userId: string): Record<string, any> => ({
+    userId,
+    userName: userId,
+    isLocked: false,
+  });
+  const emptySlot = (isLocked: boolean): Record<string, any> => ({
+    userId: null,
+    isLocked,
+  });
+
+  describe("getMicLayout", () => {
+    it("should default rooms without a layout to 8 seats", () => {
+      expect(getMicLayout(null)).toEqual(DEFAULT_MIC_LAYOUT);
+      expect(getMicLayout({ category: "chat" })).toEqual(DEFAULT_MIC_LAYOUT);
+    });
+
+    it("should ignore unsupported seat counts", () => {
+      expect(getMicLayout({ micLayout: { seats: 7 } })).toEqual(
+        DEFAULT_MIC_LAYOUT,
+      );
+    });
+
+    it("should read the stored layout", () => {
+      expect(getMicLayout({ micLayout: { seats: 5, hostSeat: true } })).toEqual(
+        { seats: 5, hostSeat: true },
+      );
+    });
+  });
+
+  describe("slot validation", () => {
+    const withHost: MicLayout = { seats: 5, hostSeat: true };
+    const withoutHost: MicLayout = { seats: 5, hostSeat: false };
+
+    it("should count the host seat as an extra slot", () => {
+      expect(getMicSlotCount(withHost)).toBe(6);
+      expect(getMicSlotCount(withoutHost)).toBe(5);
+    });
+
+    it("should accept only integer slots inside the layout", () => {
+      expect(isValidMicSlot(withHost, 0)).toBe(true);
+      expect(isValidMicSlot(withHost, 5)).toBe(true);
+      expect(isValidMicSlot(withHost, 6)).toBe(false);
+      expect(isValidMicSlot(withoutHost, 5)).toBe(false);
+      expect(isValidMicSlot(withoutHost, -1)).toBe(false);
+      expect(isValidMicSlot(withoutHost, 1.5)).toBe(false);
+    });
+
+    it("should treat slot 0 as the host seat only when enabled", () => {
+      expect(isHostSeat(withHost, 0)).toBe(true);
+      expect(isHostSeat(withHost, 1)).toBe(false);
+      expect(isHostSeat(withoutHost, 0)).toBe(false);
+    });
+  });
+
+  describe("migrateMicSlots", () => {
+    it("should keep occupants on the same seat when it still exists", () => {
+      const { slots, removed } = migrateMicSlots(
+        new Map([
+          [1, seated("a")],
+          [3, seated("b")],
+        ]),
+        { seats: 8, hostSeat: false },
+        { seats: 5, hostSeat: false },
+      );
+
+      expect(slots.get(1)?.userId).toBe("a");
+      expect(slots.get(3)?.userId).toBe("b");
+      expect(removed).toEqual([]);
+    });
+
+    it("should move occupants of removed seats to the first free seat", () => {
+      const { slots, removed } = migrateMicSlots(
+        new Map([
+          [0, seated("a")],
+          [7, seated("b")],
+        ]),
+        { seats: 8, hostSeat: false },
+        { seats: 5, hostSeat: false },
+      );
+
+      expect(slots.get(0)?.userId).toBe("a");
+      expect(slots.get(1)).toEqual(expect.objectContaining({ userId: "b" }));
+      expect(removed).toEqual([]);
+    });
+
+    it("should unlock the seat an occupant is moved into", () => {
+      const { slots } = migrateMicSlots(
+        new Map([
+          [1, emptySlot(true)],
+          [7, seated("b")],
+        ]),
+        { seats: 8, hostSeat: false },
+        { seats: 2, hostSeat: false },
+      );
+
+      expect(slots.get(0)).toEqual(
+        expect.objectContaining({ userId: "b", isLocked: false }),
+      );
+      expect(slots.get(1)).toEqual(emptySlot(true));
+    });
+
+    it("should drop occupants that do not fit", () => {
+      const { slots, removed } = migrateMicSlots(
+        new Map([
+          [0, seated("a")],
+          [1, seated("b")],
+          [4, seated("c")],
+        ]),
+        { seats: 5, hostSeat: false },
+        { seats: 2, hostSeat: false },
+      );
+
+      expect([...slots.values()].map((s) => s.userId)).toEqual(["a", "b"]);
+      expect(removed.map((s) => s.userId)).toEqual(["c"]);
+    });
+
+    it("should keep the host on the host seat", () => {
+      const { slots } = migrateMicSlots(
+        new Map([
+          [0, seated("host")],
+          [1, seated("a")],
+        ]),
+        { seats: 8, hostSeat: true },
+        { seats: 5, hostSeat: true },
+      );
+
+      expect(slots.get(0)?.userId).toBe("host");
+      expect(slots.get(1)?.userId).toBe("a");
+    });
+
+    it("should move a guest off seat 0 when a host seat is added", () => {
+      const { slots } = migrateMicSlots(
+        new Map([[0, seated("a")]]),
+        { seats: 8, hostSeat: false },
+        { seats: 8, hostSeat: true },
+      );
+
+      expect(slots.get(0)).toBeUndefined();
+      expect(slots.get(1)?.userId).toBe("a");
+    });
+
+    it("should seat the host as a guest when the host seat is removed", () => {
+      const { slots, removed } = migrateMicSlots(
+        new Map([
+          [0, seated("host")],
+          [1, seated("a")],
+        ]),
+        { seats: 2, hostSeat: true },
+        { seats: 2, hostSeat: false },
+      );
+
+      expect(slots.get(1)?.userId).toBe("a");
+      expect(slots.get(0)?.userId).toBe("host");
+      expect(removed).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Mic Layouts - تخطيط مقاعد المايك لكل غرفة
+ * يُخزن في Room.settings.micLayout ويُستخدم في RoomsService و AppGateway
+ */
+
+// 8 = التخطيط القديم (الافتراضي للغرف الموجودة)
+export const MIC_LAYOUT_SEATS = [2, 5, 8, 10, 15] as const;
+
+export type MicLayoutSeats = (typeof MIC_LAYOUT_SEATS)[number];
+
+export interface MicLayout {
+  seats: MicLayoutSeats;
+  // مقعد المضيف = المقعد 0، والمقاعد العادية تبدأ من 1
+  hostSeat: boolean;
+}
+
+export const DEFAULT_MIC_LAYOUT: MicLayout = { seats: 8, hostSeat: false };
+
+export const HOST_SEAT_INDEX = 0;
+
+/**
+ * Read the layout from room settings, falling back to the default
+ */
+export function getMicLayout(settings: unknown): MicLayout {
+  const layout = (settings as { micLayout?: Partial<MicLayout> } | null)
+    ?.micLayout;
+
+  if (!layout || !MIC_LAYOUT_SEATS.includes(layout.seats as MicLayoutSeats)) {
+    return DEFAULT_MIC_LAYOUT;
+  }
+
+  return { seats: layout.seats as MicLayoutSeats, hostSeat: !!layout.hostSeat };
+}
+
+/**
+ * Total number of slots including the host seat
+ */
+export function getMicSlotCount(layout: MicLayout): number {
+  return layout.seats + (layout.hostSeat ? 1 : 0);
+}
+
+export function isHostSeat(layout: MicLayout, slotIndex: number): boolean {
+  return layout.hostSeat && slotIndex === HOST_SEAT_INDEX;
+}
+
+export function isValidMicSlot(layout: MicLayout, slotIndex: number): boolean {
+  return (
+    Number.isInteger(slotIndex) &&
+    slotIndex >= 0 &&
+    slotIndex < getMicSlotCount(layout)
+  );
+}
+
+type MicSlotData = Record<string, any>;
+
+/**
+ * Place current occupants into a new layout.
+ * يبقى كل مستخدم في نفس المقعد إن أمكن، وإلا ينتقل لأول مقعد فارغ،
+ * ومن لا يجد مقعداً يتم إنزاله
+ */
+export function migrateMicSlots(
+  oldSlots: Map<number, MicSlotData>,
+  oldLayout: MicLayout,
+  newLayout: MicLayout,
+): { slots: Map<number, MicSlotData>; removed: MicSlotData[] } {
+  const slotCount = getMicSlotCount(newLayout);
+  const slots = new Map<number, MicSlotData>();
+  const pending: MicSlotData[] = [];
+  const removed: MicSlotData[] = [];
+
+  const occupants = [...oldSlots.entries()]
+    .filter(
+      ([index, slotData]) =>
+        slotData?.userId && isValidMicSlot(oldLayout, index),
+    )
+    .sort(([a], [b]) => a - b);
+
+  // قفل المقاعد الفارغة كما كانت
+  for (const [index, slotData] of oldSlots) {
+    if (!slotData?.userId && isValidMicSlot(newLayout, index)) {
+      slots.set(index, slotData);
+    }
+  }
+
+  for (const [index, slotData] of occupants) {
+    const wasHost = isHostSeat(oldLayout, index);
+    if (wasHost && newLayout.hostSeat) {
+      slots.set(HOST_SEAT_INDEX, slotData);
+    } else if (
+      !wasHost &&
+      isValidMicSlot(newLayout, index) &&
+      !isHostSeat(newLayout, index)
+    ) {
+      slots.set(index, slotData);
+    } else {
+      pending.push(slotData);
+    }
+  }
+
+  for (const slotData of pending) {
+    let target = -1;
+    for (let i = 0; i < slotCount; i++) {
+      if (!isHostSeat(newLayout, i) && !slots.get(i)?.userId) {
+        target = i;
+        break;
+      }
+    }
+
+    if (target === -1) {
+      removed.push(slotData);
+    } else {
+      slots.set(target, { ...slotData, isLocked: false });
+    }
+  }
+
+  return { slots, removed };
+}
@@ -0,0 +1,14 @@
+/**
+ * Mic State Module - حفظ واستعادة حالة المايكات
+ * Global: تُستخدم في RoomsService و AppGateway و ScheduledTasksService
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { MicStateService } from "./mic-state.service";
+
+@Global()
+@Module({
+  providers: [MicStateService],
+  exports: [MicStateService],
+})
+export class MicStateModule {}
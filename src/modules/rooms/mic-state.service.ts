@@ -0,0 +1,318 @@
+import { Injectable, Logger, OnApplicationBootstrap } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { RoomAnalyticsService } from "./room-analytics.service";
+
+export type MicSlotState = Record<string, any>;
+
+export interface ClearedMicSlot {
+  roomId: string;
+  slotIndex: number;
+  userId: string;
+  userName?: string;
+  slot: MicSlotState;
+}
+
+export const MIC_SLOTS_CLEARED_CHANNEL = "mic:slots_cleared";
+
+/**
+ * Mic State - حالة المايكات الحية
+ * Redis هو المصدر السريع، وكل تغيير يُحفظ في RoomMicSlot
+ * حتى تُستعاد الحالة بعد فقدان Redis (flush / failover)
+ */
+@Injectable()
+export class MicStateService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MicStateService.name);
+
+  private readonly SLOTS_TTL_SECONDS = 86400; // 24 hours
+  // المستخدم يجب أن يغيب عن الغرفة في فحصين متتاليين قبل إنزاله
+  private readonly ABSENT_GRACE_SECONDS = 180;
+  // لا نفحص من صعد للتو (قد لا يكون حضوره سُجل بعد)
+  private readonly RECENT_JOIN_MS = 2 * 60 * 1000;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private roomAnalytics: RoomAnalyticsService,
+  ) {}
+
+  onApplicationBootstrap() {
+    // لا نؤخر تشغيل التطبيق - الاستعادة تتم في الخلفية
+    void this.hydrateAll().catch((error) =>
+      this.logger.error(`Mic state warm-up failed: ${error.message}`),
+    );
+  }
+
+  // ================================
+  // READ / WRITE
+  // ================================
+
+  async getSlots(roomId: string): Promise<Map<number, MicSlotState>> {
+    await this.ensureHydrated(roomId);
+
+    const raw = await this.redis.hgetall(this.slotsKey(roomId));
+    const slots = new Map<number, MicSlotState>();
+    for (const [field, value] of Object.entries(raw)) {
+      try {
+        slots.set(parseInt(field, 10), JSON.parse(value));
+      } catch {
+        // تجاهل البيانات التالفة
+      }
+    }
+
+    return slots;
+  }
+
+  async getSlot(
+    roomId: string,
+    slotIndex: number,
+  ): Promise<MicSlotState | null> {
+    await this.ensureHydrated(roomId);
+
+    const value = await this.redis.hget(
+      this.slotsKey(roomId),
+      slotIndex.toString(),
+    );
+    if (!value) return null;
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  async setSlot(
+    roomId: string,
+    slotIndex: number,
+    slot: MicSlotState,
+  ): Promise<void> {
+    const previous = await this.getSlot(roomId, slotIndex);
+
+    const key = this.slotsKey(roomId);
+    await this.redis.hset(key, slotIndex.toString(), JSON.stringify(slot));
+    await this.redis.expire(key, this.SLOTS_TTL_SECONDS);
+
+    await this.persist(roomId, slotIndex, slot);
+
+    if (previous?.userId && previous.userId !== slot.userId) {
+      await this.recordMicTime(roomId, previous);
+    }
+  }
+
+  /**
+   * Replace every slot of a room (layout change)
+   */
+  async replaceSlots(
+    roomId: string,
+    slots: Map<number, MicSlotState>,
+  ): Promise<void> {
+    const key = this.slotsKey(roomId);
+    const current = await this.redis.hgetall(key);
+    for (const field of Object.keys(current)) {
+      await this.redis.hdel(key, field);
+    }
+
+    // من لم يعد له مقعد في التخطيط الجديد
+    const seated = new Set([...slots.values()].map((slot) => slot.userId));
+    for (const value of Object.values(current)) {
+      try {
+        const previous = JSON.parse(value);
+        if (previous.userId && !seated.has(previous.userId)) {
+          await this.recordMicTime(roomId, previous);
+        }
+      } catch {
+        // تجاهل البيانات التالفة
+      }
+    }
+
+    for (const [slotIndex, slot] of slots) {
+      await this.redis.hset(key, slotIndex.toString(), JSON.stringify(slot));
+    }
+    await this.redis.expire(key, this.SLOTS_TTL_SECONDS);
+
+    await this.prisma.roomMicSlot.deleteMany({
+      where: { roomId, slotIndex: { notIn: [...slots.keys()] } },
+    });
+    for (const [slotIndex, slot] of slots) {
+      await this.persist(roomId, slotIndex, slot);
+    }
+  }
+
+  // ================================
+  // REHYDRATION
+  // ================================
+
+  /**
+   * Restore the Redis hash from the database if it was lost
+   */
+  async ensureHydrated(roomId: string): Promise<void> {
+    const markerKey = `room:${roomId}:mic_hydrated`;
+    if (await this.redis.get(markerKey)) {
+      return;
+    }
+
+    const rows = await this.prisma.roomMicSlot.findMany({
+      where: { roomId },
+    });
+
+    const key = this.slotsKey(roomId);
+    const existing = await this.redis.hgetall(key);
+    for (const row of rows) {
+      // لا نكتب فوق بيانات أحدث موجودة في Redis
+      if (!existing[row.slotIndex.toString()]) {
+        await this.redis.hset(
+          key,
+          row.slotIndex.toString(),
+          JSON.stringify(row.state),
+        );
+      }
+    }
+    if (rows.length > 0) {
+      await this.redis.expire(key, this.SLOTS_TTL_SECONDS);
+      this.logger.log(`Rehydrated ${rows.length} mic slots for room ${roomId}`);
+    }
+
+    await this.redis.set(markerKey, "1", this.SLOTS_TTL_SECONDS);
+  }
+
+  async hydrateAll(): Promise<number> {
+    const rooms = await this.prisma.roomMicSlot.findMany({
+      distinct: ["roomId"],
+      select: { roomId: true },
+    });
+
+    for (const { roomId } of rooms) {
+      await this.ensureHydrated(roomId);
+    }
+
+    return rooms.length;
+  }
+
+  // ================================
+  // RECONCILIATION
+  // ================================
+
+  /**
+   * Clear seats held by users who are no longer in the room.
+   * A seat is cleared only after the user is missing in two consecutive runs.
+   */
+  async reconcile(): Promise<ClearedMicSlot[]> {
+    const occupied = await this.prisma.roomMicSlot.findMany({
+      where: { userId: { not: null } },
+      select: { roomId: true, slotIndex: true, userId: true, joinedAt: true },
+    });
+
+    const onlineByRoom = new Map<string, Set<string>>();
+    const cleared: ClearedMicSlot[] = [];
+
+    for (const seat of occupied) {
+      const userId = seat.userId as string;
+      if (
+        seat.joinedAt &&
+        Date.now() - seat.joinedAt.getTime() < this.RECENT_JOIN_MS
+      ) {
+        continue;
+      }
+
+      if (!onlineByRoom.has(seat.roomId)) {
+        onlineByRoom.set(
+          seat.roomId,
+          new Set(await this.redis.getRoomOnlineUsers(seat.roomId)),
+        );
+      }
+
+      const absentKey = `room:${seat.roomId}:mic_absent:${userId}`;
+      if (onlineByRoom.get(seat.roomId)!.has(userId)) {
+        await this.redis.del(absentKey);
+        continue;
+      }
+
+      if (!(await this.redis.get(absentKey))) {
+        await this.redis.set(absentKey, "1", this.ABSENT_GRACE_SECONDS);
+        continue;
+      }
+
+      const current = await this.getSlot(seat.roomId, seat.slotIndex);
+      if (current?.userId && current.userId !== userId) {
+        // المقعد تغير منذ قراءة قاعدة البيانات
+        continue;
+      }
+
+      const emptySlot = {
+        userId: null,
+        userName: null,
+        userAvatar: null,
+        isLocked: current?.isLocked ?? true,
+        isMuted: false,
+        isSpeaking: false,
+      };
+      await this.setSlot(seat.roomId, seat.slotIndex, emptySlot);
+      await this.redis.del(absentKey);
+
+      cleared.push({
+        roomId: seat.roomId,
+        slotIndex: seat.slotIndex,
+        userId,
+        userName: current?.userName,
+        slot: emptySlot,
+      });
+    }
+
+    if (cleared.length > 0) {
+      await this.redis.publish(MIC_SLOTS_CLEARED_CHANNEL, cleared);
+      this.logger.log(`Reconciliation cleared ${cleared.length} mic seats`);
+    }
+
+    return cleared;
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private slotsKey(roomId: string): string {
+    return `room:${roomId}:mic_slots`;
+  }
+
+  private async recordMicTime(
+    roomId: string,
+    previous: MicSlotState,
+  ): Promise<void> {
+    if (!previous.joinedAt) return;
+
+    await this.roomAnalytics.recordMicTime(
+      roomId,
+      previous.userId,
+      (Date.now() - previous.joinedAt) / 1000,
+    );
+  }
+
+  private async persist(
+    roomId: string,
+    slotIndex: number,
+    slot: MicSlotState,
+  ): Promise<void> {
+    const data = {
+      userId: slot.userId ?? null,
+      isLocked: slot.isLocked !== false,
+      isMuted: !!slot.isMuted,
+      state: slot as Prisma.InputJsonValue,
+      joinedAt: slot.userId && slot.joinedAt ? new Date(slot.joinedAt) : null,
+    };
+
+    try {
+      await this.prisma.roomMicSlot.upsert({
+        where: { roomId_slotIndex: { roomId, slotIndex } },
+        create: { roomId, slotIndex, ...data },
+        update: data,
+      });
+    } catch (error) {
+      // Redis بقي محدثاً - الفشل هنا يؤثر فقط على الاستعادة
+      this.logger.error(
+        `Failed to persist mic slot ${slotIndex} of room ${roomId}: ${error.message}`,
+      );
+    }
+  }
+}
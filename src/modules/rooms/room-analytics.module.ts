@@ -0,0 +1,14 @@
+/**
+ * Room Analytics Module - إحصائيات الغرف
+ * Global: تُستخدم في RoomsService و AppGateway و MicStateService و ScheduledTasksService
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { RoomAnalyticsService } from "./room-analytics.service";
+
+@Global()
+@Module({
+  providers: [RoomAnalyticsService],
+  exports: [RoomAnalyticsService],
+})
+export class RoomAnalyticsModule {}
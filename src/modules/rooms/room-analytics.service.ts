@@ -0,0 +1,503 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+
+export const ROOM_ANALYTICS_RANGES = ["day", "week", "month"] as const;
+
+export type RoomAnalyticsRange = (typeof ROOM_ANALYTICS_RANGES)[number];
+
+interface HourStat {
+  hour: Date;
+  visitorIds: string[];
+  peakListeners: number;
+  sessions: number;
+  sessionSeconds: number;
+  messages: number;
+  giftRevenue: number;
+  micSeconds: Record<string, number>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Room Analytics - إحصائيات الغرفة لصاحبها
+ * الحضور والمايك يُجمعان في Redis لكل ساعة ثم يُنقلان إلى RoomHourlyStat
+ */
+@Injectable()
+export class RoomAnalyticsService {
+  private readonly logger = new Logger(RoomAnalyticsService.name);
+
+  private readonly KEY_TTL_SECONDS = 3 * 24 * 60 * 60; // 3 days
+  private readonly SESSION_TTL_SECONDS = 24 * 60 * 60;
+  private readonly RANGE_HOURS: Record<RoomAnalyticsRange, number> = {
+    day: 24,
+    week: 7 * 24,
+    month: 30 * 24,
+  };
+  private readonly TOP_LIMIT = 50;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+  ) {}
+
+  // ================================
+  // TRACKING (gateway / mic state)
+  // ================================
+
+  /**
+   * User entered the room (first socket)
+   */
+  async recordJoin(
+    roomId: string,
+    userId: string,
+    onlineCount: number,
+  ): Promise<void> {
+    try {
+      const hourKey = this.hourKey(new Date());
+      const statsKey = this.statsKey(roomId, hourKey);
+
+      await this.redis.sadd(this.visitorsKey(roomId, hourKey), userId);
+      await this.redis.sadd(this.activeRoomsKey(hourKey), roomId);
+
+      await this.redis.hsetMax(statsKey, "peak", onlineCount);
+
+      const sessionKey = this.sessionKey(roomId, userId);
+      if (!(await this.redis.get(sessionKey))) {
+        await this.redis.set(
+          sessionKey,
+          Date.now().toString(),
+          this.SESSION_TTL_SECONDS,
+        );
+      }
+
+      await this.touchHourKeys(roomId, hourKey);
+    } catch (error) {
+      this.logger.debug(`Failed to record room join: ${error.message}`);
+    }
+  }
+
+  /**
+   * User left the room - the session counts in the hour it ended
+   */
+  async recordLeave(roomId: string, userId: string): Promise<void> {
+    try {
+      const sessionKey = this.sessionKey(roomId, userId);
+      const startedAt = parseInt((await this.redis.get(sessionKey)) || "0");
+      if (!startedAt) return;
+      await this.redis.del(sessionKey);
+
+      const hourKey = this.hourKey(new Date());
+      const statsKey = this.statsKey(roomId, hourKey);
+      const seconds = Math.max(0, Math.round((Date.now() - startedAt) / 1000));
+
+      await this.redis.hincrby(statsKey, "sessions", 1);
+      await this.redis.hincrby(statsKey, "sessionSeconds", seconds);
+      await this.redis.sadd(this.activeRoomsKey(hourKey), roomId);
+      await this.touchHourKeys(roomId, hourKey);
+    } catch (error) {
+      this.logger.debug(`Failed to record room leave: ${error.message}`);
+    }
+  }
+
+  /**
+   * User left a mic seat after the given time on it
+   */
+  async recordMicTime(
+    roomId: string,
+    userId: string,
+    seconds: number,
+  ): Promise<void> {
+    if (seconds <= 0) return;
+
+    try {
+      const hourKey = this.hourKey(new Date());
+      await this.redis.hincrby(
+        this.micKey(roomId, hourKey),
+        userId,
+        Math.round(seconds),
+      );
+      await this.redis.sadd(this.activeRoomsKey(hourKey), roomId);
+      await this.touchHourKeys(roomId, hourKey);
+    } catch (error) {
+      this.logger.debug(`Failed to record mic time: ${error.message}`);
+    }
+  }
+
+  // ================================
+  // HOURLY ROLLUP (cron)
+  // ================================
+
+  /**
+   * Persist the stats of a finished hour for every active room
+   */
+  async rollupHour(hour: Date): Promise<number> {
+    const start = this.startOfHour(hour);
+    const end = new Date(start.getTime() + HOUR_MS);
+    const hourKey = this.hourKey(start);
+
+    // غرف فيها حضور أو رسائل أو هدايا خلال الساعة
+    const [tracked, messageRooms, giftRooms] = await Promise.all([
+      this.redis.smembers(this.activeRoomsKey(hourKey)),
+      this.prisma.message.groupBy({
+        by: ["roomId"],
+        where: { createdAt: { gte: start, lt: end } },
+      }),
+      this.prisma.giftSend.groupBy({
+        by: ["roomId"],
+        where: { roomId: { not: null }, createdAt: { gte: start, lt: end } },
+      }),
+    ]);
+
+    const roomIds = new Set<string>(tracked);
+    messageRooms.forEach((r) => roomIds.add(r.roomId));
+    giftRooms.forEach((r) => r.roomId && roomIds.add(r.roomId));
+
+    // Listeners who stay through an hour never trigger recordJoin - when
+    // rolling up the hour that just ended, the live count is a lower bound
+    // for its peak and the starting peak of the current hour
+    const nextHourKey = this.hourKey(end);
+    const isLatestHour = nextHourKey === this.hourKey(new Date());
+
+    let saved = 0;
+    for (const roomId of roomIds) {
+      try {
+        if (isLatestHour) {
+          await this.carryOnlineCount(roomId, hourKey, nextHourKey);
+        }
+
+        const stat = await this.buildHourStat(roomId, start);
+        const data = {
+          visitorIds: stat.visitorIds,
+          peakListeners: stat.peakListeners,
+          sessions: stat.sessions,
+          sessionSeconds: stat.sessionSeconds,
+          messages: stat.messages,
+          giftRevenue: stat.giftRevenue,
+          micSeconds: stat.micSeconds as Prisma.InputJsonValue,
+        };
+
+        await this.prisma.roomHourlyStat.upsert({
+          where: { roomId_hour: { roomId, hour: start } },
+          create: { roomId, hour: start, ...data },
+          update: data,
+        });
+        saved++;
+      } catch (error) {
+        // الغرفة قد تكون حُذفت خلال الساعة
+        this.logger.warn(
+          `Failed to roll up analytics for room ${roomId}: ${error.message}`,
+        );
+      }
+    }
+
+    return saved;
+  }
+
+  // ================================
+  // DASHBOARD
+  // ================================
+
+  async getAnalytics(roomId: string, range: RoomAnalyticsRange = "day") {
+    const now = new Date();
+    const currentHour = this.startOfHour(now);
+    const from = new Date(
+      currentHour.getTime() - (this.RANGE_HOURS[range] - 1) * HOUR_MS,
+    );
+
+    const rows = await this.prisma.roomHourlyStat.findMany({
+      where: { roomId, hour: { gte: from } },
+      orderBy: { hour: "asc" },
+    });
+
+    const hours: HourStat[] = rows.map((row) => ({
+      hour: row.hour,
+      visitorIds: row.visitorIds,
+      peakListeners: row.peakListeners,
+      sessions: row.sessions,
+      sessionSeconds: row.sessionSeconds,
+      messages: row.messages,
+      giftRevenue: row.giftRevenue,
+      micSeconds: (row.micSeconds as Record<string, number>) || {},
+    }));
+
+    // الساعة الحالية (والسابقة إن لم تُجمع بعد) تُقرأ مباشرة من Redis
+    for (const hour of [
+      new Date(currentHour.getTime() - HOUR_MS),
+      currentHour,
+    ]) {
+      if (
+        hour >= from &&
+        !hours.some((h) => h.hour.getTime() === hour.getTime())
+      ) {
+        hours.push(await this.buildHourStat(roomId, hour));
+      }
+    }
+    hours.sort((a, b) => a.hour.getTime() - b.hour.getTime());
+
+    // أعضاء انضموا قبل بدء التتبع يُحسبون من RoomMember.joinedAt
+    const members = await this.prisma.roomMember.findMany({
+      where: { roomId, joinedAt: { gte: from } },
+      select: { userId: true },
+    });
+
+    const visitors = new Set<string>(members.map((m) => m.userId));
+    let sessions = 0;
+    let sessionSeconds = 0;
+    let peakListeners = 0;
+    let messages = 0;
+    const micSeconds = new Map<string, number>();
+
+    for (const h of hours) {
+      h.visitorIds.forEach((id) => visitors.add(id));
+      sessions += h.sessions;
+      sessionSeconds += h.sessionSeconds;
+      peakListeners = Math.max(peakListeners, h.peakListeners);
+      messages += h.messages;
+      for (const [userId, seconds] of Object.entries(h.micSeconds)) {
+        micSeconds.set(userId, (micSeconds.get(userId) || 0) + seconds);
+      }
+    }
+
+    const [micTime, gifts] = await Promise.all([
+      this.getMicTime(micSeconds),
+      this.getGiftRevenue(roomId, from),
+    ]);
+
+    return {
+      range,
+      from,
+      to: now,
+      summary: {
+        uniqueVisitors: visitors.size,
+        peakListeners,
+        averageSessionSeconds: sessions
+          ? Math.round(sessionSeconds / sessions)
+          : 0,
+        totalMessages: messages,
+        totalGiftRevenue: gifts.total,
+      },
+      // يوم = نقاط لكل ساعة، أسبوع/شهر = نقاط لكل يوم
+      granularity: range === "day" ? "hour" : "day",
+      series: this.toSeries(hours, range === "day" ? HOUR_MS : DAY_MS),
+      micTime,
+      gifts: { bySender: gifts.bySender, byGift: gifts.byGift },
+    };
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private async buildHourStat(roomId: string, hour: Date): Promise<HourStat> {
+    const start = this.startOfHour(hour);
+    const end = new Date(start.getTime() + HOUR_MS);
+    const hourKey = this.hourKey(start);
+
+    const [visitorIds, stats, mic, messages, gifts] = await Promise.all([
+      this.redis.smembers(this.visitorsKey(roomId, hourKey)),
+      this.redis.hgetall(this.statsKey(roomId, hourKey)),
+      this.redis.hgetall(this.micKey(roomId, hourKey)),
+      this.prisma.message.count({
+        where: { roomId, createdAt: { gte: start, lt: end } },
+      }),
+      this.prisma.giftSend.aggregate({
+        where: { roomId, createdAt: { gte: start, lt: end } },
+        _sum: { totalPrice: true },
+      }),
+    ]);
+
+    const micSeconds: Record<string, number> = {};
+    for (const [userId, seconds] of Object.entries(mic)) {
+      micSeconds[userId] = parseInt(seconds) || 0;
+    }
+
+    return {
+      hour: start,
+      visitorIds,
+      peakListeners: parseInt(stats.peak || "0") || 0,
+      sessions: parseInt(stats.sessions || "0") || 0,
+      sessionSeconds: parseInt(stats.sessionSeconds || "0") || 0,
+      messages,
+      giftRevenue: gifts._sum.totalPrice || 0,
+      micSeconds,
+    };
+  }
+
+  private toSeries(hours: HourStat[], bucketMs: number) {
+    const buckets = new Map<
+      number,
+      { visitors: Set<string> } & Omit<HourStat, "visitorIds" | "micSeconds">
+    >();
+
+    for (const h of hours) {
+      const time = Math.floor(h.hour.getTime() / bucketMs) * bucketMs;
+      const bucket = buckets.get(time) || {
+        hour: new Date(time),
+        visitors: new Set<string>(),
+        peakListeners: 0,
+        sessions: 0,
+        sessionSeconds: 0,
+        messages: 0,
+        giftRevenue: 0,
+      };
+
+      h.visitorIds.forEach((id) => bucket.visitors.add(id));
+      bucket.peakListeners = Math.max(bucket.peakListeners, h.peakListeners);
+      bucket.sessions += h.sessions;
+      bucket.sessionSeconds += h.sessionSeconds;
+      bucket.messages += h.messages;
+      bucket.giftRevenue += h.giftRevenue;
+      buckets.set(time, bucket);
+    }
+
+    return [...buckets.values()].map((b) => ({
+      time: b.hour,
+      uniqueVisitors: b.visitors.size,
+      peakListeners: b.peakListeners,
+      averageSessionSeconds: b.sessions
+        ? Math.round(b.sessionSeconds / b.sessions)
+        : 0,
+      messages: b.messages,
+      giftRevenue: b.giftRevenue,
+    }));
+  }
+
+  private async getMicTime(micSeconds: Map<string, number>) {
+    const top = [...micSeconds.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, this.TOP_LIMIT);
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: top.map(([userId]) => userId) } },
+      select: { id: true, displayName: true, username: true, avatar: true },
+    });
+    const userMap = new Map(users.map((u) => [u.id, u]));
+
+    return top.map(([userId, seconds]) => ({
+      userId,
+      displayName:
+        userMap.get(userId)?.displayName || userMap.get(userId)?.username,
+      avatar: userMap.get(userId)?.avatar,
+      seconds,
+    }));
+  }
+
+  private async getGiftRevenue(roomId: string, from: Date) {
+    const where = { roomId, createdAt: { gte: from } };
+
+    const [bySender, byGift] = await Promise.all([
+      this.prisma.giftSend.groupBy({
+        by: ["senderId"],
+        where,
+        _sum: { totalPrice: true, quantity: true },
+        orderBy: { _sum: { totalPrice: "desc" } },
+        take: this.TOP_LIMIT,
+      }),
+      this.prisma.giftSend.groupBy({
+        by: ["giftId"],
+        where,
+        _sum: { totalPrice: true, quantity: true },
+        orderBy: { _sum: { totalPrice: "desc" } },
+      }),
+    ]);
+
+    const [senders, giftTypes, totals] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { id: { in: bySender.map((g) => g.senderId) } },
+        select: { id: true, displayName: true, username: true, avatar: true },
+      }),
+      this.prisma.gift.findMany({
+        where: { id: { in: byGift.map((g) => g.giftId) } },
+        select: { id: true, name: true, imageUrl: true },
+      }),
+      this.prisma.giftSend.aggregate({
+        where,
+        _sum: { totalPrice: true },
+      }),
+    ]);
+    const senderMap = new Map(senders.map((u) => [u.id, u]));
+    const giftMap = new Map(giftTypes.map((g) => [g.id, g]));
+
+    return {
+      total: totals._sum.totalPrice || 0,
+      bySender: bySender.map((g) => ({
+        userId: g.senderId,
+        displayName:
+          senderMap.get(g.senderId)?.displayName ||
+          senderMap.get(g.senderId)?.username,
+        avatar: senderMap.get(g.senderId)?.avatar,
+        revenue: g._sum.totalPrice || 0,
+        quantity: g._sum.quantity || 0,
+      })),
+      byGift: byGift.map((g) => ({
+        giftId: g.giftId,
+        name: giftMap.get(g.giftId)?.name,
+        imageUrl: giftMap.get(g.giftId)?.imageUrl,
+        revenue: g._sum.totalPrice || 0,
+        quantity: g._sum.quantity || 0,
+      })),
+    };
+  }
+
+  private async carryOnlineCount(
+    roomId: string,
+    hourKey: string,
+    nextHourKey: string,
+  ): Promise<void> {
+    const online = await this.redis.getRoomOnlineCount(roomId);
+    if (online <= 0) return;
+
+    await this.redis.hsetMax(this.statsKey(roomId, hourKey), "peak", online);
+    await this.redis.hsetMax(
+      this.statsKey(roomId, nextHourKey),
+      "peak",
+      online,
+    );
+    // The room stays in the rollup chain while anyone is listening
+    await this.redis.sadd(this.activeRoomsKey(nextHourKey), roomId);
+    await this.touchHourKeys(roomId, nextHourKey);
+  }
+
+  private async touchHourKeys(roomId: string, hourKey: string) {
+    for (const key of [
+      this.statsKey(roomId, hourKey),
+      this.visitorsKey(roomId, hourKey),
+      this.micKey(roomId, hourKey),
+      this.activeRoomsKey(hourKey),
+    ]) {
+      await this.redis.expire(key, this.KEY_TTL_SECONDS);
+    }
+  }
+
+  private startOfHour(date: Date): Date {
+    return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+  }
+
+  // 2026-10-19T14 (UTC)
+  private hourKey(date: Date): string {
+    return this.startOfHour(date).toISOString().slice(0, 13);
+  }
+
+  private statsKey(roomId: string, hourKey: string): string {
+    return `analytics:room:${roomId}:${hourKey}`;
+  }
+
+  private visitorsKey(roomId: string, hourKey: string): string {
+    return `analytics:room:${roomId}:${hourKey}:visitors`;
+  }
+
+  private micKey(roomId: string, hourKey: string): string {
+    return `analytics:room:${roomId}:${hourKey}:mic`;
+  }
+
+  private activeRoomsKey(hourKey: string): string {
+    return `analytics:rooms:${hourKey}`;
+  }
+
+  private sessionKey(roomId: string, userId: string): string {
+    return `analytics:room:${roomId}:session:${userId}`;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Room Archive - أرشفة الغرف المحذوفة (حذف ناعم)
+ * الغرفة تبقى بأعضائها وإعداداتها ويمكن استعادتها خلال مدة الاحتفاظ
+ */
+
+export const ROOM_RESTORE_WINDOW_DAYS = 30;
+
+// غرفة فعالة واحدة لكل مستخدم - الاستعادة تخضع لنفس الحد
+export const MAX_ROOMS_PER_USER = 1;
+
+// كل نسخة من الخادم تُخرج اتصالاتها من قناة الغرفة المؤرشفة
+export const ROOM_ARCHIVED_CHANNEL = "room:archived";
+
+export interface RoomArchivedMessage {
+  roomId: string;
+  reason?: string;
+}
+
+/**
+ * Last moment an archived room can be restored (purged after it)
+ */
+export function getRoomRestoreDeadline(deletedAt: Date): Date {
+  return new Date(
+    deletedAt.getTime() + ROOM_RESTORE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  );
+}
+
+/**
+ * Rooms archived before this date are past the retention window
+ */
+export function getRoomPurgeCutoff(now: Date = new Date()): Date {
+  return new Date(
+    now.getTime() - ROOM_RESTORE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  );
+}
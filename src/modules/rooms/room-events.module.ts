@@ -0,0 +1,16 @@
+/**
+ * Room Events Module - الفعاليات المجدولة في الغرف (RSVP والتذكيرات)
+ * Global: تُستخدم في RoomsService و ScheduledTasksService
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { NotificationsModule } from "../notifications/notifications.module";
+import { RoomEventsService } from "./room-events.service";
+
+@Global()
+@Module({
+  imports: [NotificationsModule],
+  providers: [RoomEventsService],
+  exports: [RoomEventsService],
+})
+export class RoomEventsModule {}
@@ -0,0 +1,207 @@
+/**
+ * Room Events Service Unit Tests
+ * اختبارات وحدة خدمة فعاليات الغرف
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConfigService } from "@nestjs/config";
+import { RoomEventStatus } from "@prisma/client";
+import { RoomEventsService } from "./room-events.service";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { RoomPermissionsService } from "./room-permissions.service";
+import { MicStateService } from "./mic-state.service";
+import { NotificationsService } from "../notifications/notifications.service";
+import { PushNotificationService } from "../notifications/push-notification.service";
+
+describe("RoomEventsService", () => {
+  let service: RoomEventsService;
+  let event: Record<string, any>;
+
+  const MINUTE = 60 * 1000;
+  const start = new Date("2026-03-01T18:00:00Z").getTime();
+
+  const room = { id: "room-1", numericId: 1001, name: "Room", avatar: null };
+
+  // فلترة مبسطة لشروط where المستخدمة في الخدمة
+  const matches = (row: Record<string, any>, where: Record<string, any>) => {
+    if (where.id && row.id !== where.id) return false;
+    if (where.status && row.status !== where.status) return false;
+    if (
+      where.remindersSent &&
+      JSON.stringify(row.remindersSent) !==
+        JSON.stringify(where.remindersSent.equals)
+    ) {
+      return false;
+    }
+    for (const field of ["startsAt", "endsAt"]) {
+      const range = where[field];
+      if (!range) continue;
+      if (range.gt && !(row[field] > range.gt)) return false;
+      if (range.lte && !(row[field] <= range.lte)) return false;
+    }
+    return true;
+  };
+
+  const mockPrismaService = {
+    roomEvent: {
+      findUnique: jest.fn(async () => ({ ...event })),
+      findMany: jest.fn(async ({ where }: any) =>
+        matches(event, where) ? [{ ...event, room }] : [],
+      ),
+      update: jest.fn(async ({ data }: any) => {
+        Object.assign(event, data);
+        return { ...event, room, _count: { rsvps: 1 }, rsvps: [] };
+      }),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        if (!matches(event, where)) return { count: 0 };
+        Object.assign(event, data);
+        return { count: 1 };
+      }),
+    },
+    roomEventRsvp: {
+      findMany: jest.fn(async () => [{ userId: "user-1" }]),
+    },
+  };
+
+  const mockRedisService = {
+    publish: jest.fn(),
+  };
+
+  const mockRoomPermissionsService = {
+    assert: jest.fn(async () => ({ id: "room-1", settings: {} })),
+  };
+
+  const mockNotificationsService = {
+    createMany: jest.fn(),
+  };
+
+  const mockPushNotificationService = {
+    sendToUsers: jest.fn().mockResolvedValue({ successCount: 1 }),
+  };
+
+  const at = (minutesBeforeStart: number) =>
+    jest.setSystemTime(start - minutesBeforeStart * MINUTE);
+
+  const reminders = () =>
+    mockPushNotificationService.sendToUsers.mock.calls.filter(
+      ([, message]) => message.data.type === "ROOM_EVENT_REMINDER",
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomEventsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+        {
+          provide: RoomPermissionsService,
+          useValue: mockRoomPermissionsService,
+        },
+        { provide: MicStateService, useValue: {} },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        {
+          provide: PushNotificationService,
+          useValue: mockPushNotificationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RoomEventsService>(RoomEventsService);
+
+    jest.clearAllMocks();
+    jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+
+    event = {
+      id: "event-1",
+      roomId: "room-1",
+      title: "Quiz night",
+      coverUrl: null,
+      status: RoomEventStatus.SCHEDULED,
+      startsAt: new Date(start),
+      endsAt: new Date(start + 60 * MINUTE),
+      reminderOffsets: [60, 10],
+      remindersSent: [],
+      unlockMicSlots: [],
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("processDue", () => {
+    it("should send each reminder once when it comes due", async () => {
+      at(60);
+      await service.processDue();
+      at(59);
+      await service.processDue();
+
+      expect(reminders()).toHaveLength(1);
+      expect(event.remindersSent).toEqual([60]);
+
+      at(10);
+      await service.processDue();
+      await service.processDue();
+
+      expect(reminders()).toHaveLength(2);
+      expect(event.remindersSent).toEqual([60, 10]);
+      expect(mockNotificationsService.createMany).toHaveBeenCalledWith(
+        ["user-1"],
+        expect.objectContaining({ type: "ROOM_EVENT" }),
+      );
+    });
+
+    it("should send a reminder only once after a reschedule", async () => {
+      at(60);
+      await service.processDue();
+      expect(reminders()).toHaveLength(1);
+
+      // تأجيل الفعالية ساعتين - التذكيرات تبدأ من جديد
+      await service.update("event-1", "owner-1", {
+        startsAt: new Date(start + 120 * MINUTE),
+        endsAt: new Date(start + 180 * MINUTE),
+      });
+      expect(event.remindersSent).toEqual([]);
+
+      await service.processDue();
+      expect(reminders()).toHaveLength(1);
+
+      at(-60);
+      await service.processDue();
+      at(-61);
+      await service.processDue();
+
+      expect(reminders()).toHaveLength(2);
+      expect(event.remindersSent).toEqual([60]);
+    });
+
+    it("should not reset sent reminders when the start time is unchanged", async () => {
+      at(60);
+      await service.processDue();
+
+      await service.update("event-1", "owner-1", { title: "Quiz night 2" });
+      await service.processDue();
+
+      expect(event.remindersSent).toEqual([60]);
+      expect(reminders()).toHaveLength(1);
+    });
+
+    it("should merge reminders that come due together into one", async () => {
+      at(5);
+      await service.processDue();
+
+      expect(reminders()).toHaveLength(1);
+      expect(reminders()[0][1].body).toContain("بعد 5 دقيقة");
+      expect(event.remindersSent).toEqual([60, 10]);
+    });
+
+    it("should not send the same reminder from two instances", async () => {
+      at(60);
+      await Promise.all([service.processDue(), service.processDue()]);
+
+      expect(reminders()).toHaveLength(1);
+    });
+  });
+});
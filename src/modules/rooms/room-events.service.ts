@@ -0,0 +1,619 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Prisma, RoomEvent, RoomEventStatus } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { NotificationsService } from "../notifications/notifications.service";
+import { PushNotificationService } from "../notifications/push-notification.service";
+import { MicStateService } from "./mic-state.service";
+import { RoomPermissionsService } from "./room-permissions.service";
+import { getMicLayout, isValidMicSlot } from "./mic-layout";
+import {
+  buildRoomEventDeepLink,
+  DEFAULT_EVENT_REMINDER_OFFSETS,
+  getDueReminderOffsets,
+  MAX_EVENT_DURATION_HOURS,
+  MAX_EVENT_REMINDER_OFFSET_MINUTES,
+  MAX_EVENT_SCHEDULE_DAYS,
+  MAX_UPCOMING_EVENTS_PER_ROOM,
+  normalizeReminderOffsets,
+} from "./room-events";
+import {
+  CreateRoomEventDto,
+  UpcomingEventsQueryDto,
+  UpdateRoomEventDto,
+} from "./dto/rooms.dto";
+
+export interface RoomEventStartedMessage {
+  roomId: string;
+  event: {
+    id: string;
+    title: string;
+    coverUrl: string | null;
+    category: string;
+    startsAt: Date;
+    endsAt: Date;
+  };
+  unlockedSlots: { slotIndex: number; slot: Record<string, any> }[];
+}
+
+export const ROOM_EVENT_STARTED_CHANNEL = "room_event:started";
+
+const EVENT_ROOM_SELECT = {
+  id: true,
+  numericId: true,
+  name: true,
+  avatar: true,
+} as const;
+
+/**
+ * Room Events - الفعاليات المجدولة مع RSVP والتذكيرات
+ * الـ cron يرسل التذكيرات ويبدأ/ينهي الفعاليات، والبدء يُنشر عبر Redis
+ * ليبثه AppGateway للغرفة
+ */
+@Injectable()
+export class RoomEventsService {
+  private readonly logger = new Logger(RoomEventsService.name);
+
+  private readonly BATCH_SIZE = 100;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private config: ConfigService,
+    private roomPermissions: RoomPermissionsService,
+    private micState: MicStateService,
+    private notifications: NotificationsService,
+    private push: PushNotificationService,
+  ) {}
+
+  // ================================
+  // MANAGE EVENTS
+  // ================================
+
+  async create(roomId: string, userId: string, dto: CreateRoomEventDto) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لجدولة فعالية",
+    );
+
+    const pending = await this.prisma.roomEvent.count({
+      where: {
+        roomId,
+        status: { in: [RoomEventStatus.SCHEDULED, RoomEventStatus.LIVE] },
+      },
+    });
+    if (pending >= MAX_UPCOMING_EVENTS_PER_ROOM) {
+      throw new BadRequestException(
+        `الحد الأقصى ${MAX_UPCOMING_EVENTS_PER_ROOM} فعالية قادمة للغرفة`,
+      );
+    }
+
+    this.assertValidSchedule(dto.startsAt, dto.endsAt);
+    const unlockMicSlots = this.normalizeMicSlots(
+      room.settings,
+      dto.unlockMicSlots ?? [],
+    );
+
+    const event = await this.prisma.roomEvent.create({
+      data: {
+        roomId,
+        createdBy: userId,
+        title: dto.title.trim(),
+        description: dto.description?.trim() || null,
+        coverUrl: dto.coverUrl ?? null,
+        category: dto.category,
+        startsAt: dto.startsAt,
+        endsAt: dto.endsAt,
+        reminderOffsets: normalizeReminderOffsets(
+          dto.reminderOffsets ?? DEFAULT_EVENT_REMINDER_OFFSETS,
+        ),
+        unlockMicSlots,
+      },
+      include: { room: { select: EVENT_ROOM_SELECT } },
+    });
+
+    this.logger.log(`Room event ${event.id} scheduled in room ${roomId}`);
+    return this.toResponse(event, 0, false);
+  }
+
+  async update(eventId: string, userId: string, dto: UpdateRoomEventDto) {
+    const event = await this.findEvent(eventId);
+    const room = await this.roomPermissions.assert(
+      event.roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لتعديل الفعالية",
+    );
+    if (event.status !== RoomEventStatus.SCHEDULED) {
+      throw new BadRequestException("لا يمكن تعديل فعالية بدأت أو انتهت");
+    }
+
+    const startsAt = dto.startsAt ?? event.startsAt;
+    const endsAt = dto.endsAt ?? event.endsAt;
+    this.assertValidSchedule(startsAt, endsAt);
+
+    const rescheduled = startsAt.getTime() !== event.startsAt.getTime();
+    const data: Prisma.RoomEventUpdateInput = {
+      startsAt,
+      endsAt,
+      // الموعد تغير - التذكيرات تُرسل من جديد حسب الموعد الجديد
+      ...(rescheduled && { remindersSent: [] }),
+    };
+    if (dto.title !== undefined) data.title = dto.title.trim();
+    if (dto.description !== undefined) {
+      data.description = dto.description?.trim() || null;
+    }
+    if (dto.coverUrl !== undefined) data.coverUrl = dto.coverUrl;
+    if (dto.category !== undefined) data.category = dto.category;
+    if (dto.reminderOffsets !== undefined) {
+      data.reminderOffsets = normalizeReminderOffsets(dto.reminderOffsets);
+    }
+    if (dto.unlockMicSlots !== undefined) {
+      data.unlockMicSlots = this.normalizeMicSlots(
+        room.settings,
+        dto.unlockMicSlots,
+      );
+    }
+
+    const updated = await this.prisma.roomEvent.update({
+      where: { id: eventId },
+      data,
+      include: {
+        room: { select: EVENT_ROOM_SELECT },
+        _count: { select: { rsvps: true } },
+        rsvps: { where: { userId }, select: { id: true } },
+      },
+    });
+
+    return this.toResponse(
+      updated,
+      updated._count.rsvps,
+      updated.rsvps.length > 0,
+    );
+  }
+
+  async cancel(eventId: string, userId: string) {
+    const event = await this.findEvent(eventId);
+    await this.roomPermissions.assert(
+      event.roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لإلغاء الفعالية",
+    );
+
+    const { count } = await this.prisma.roomEvent.updateMany({
+      where: {
+        id: eventId,
+        status: { in: [RoomEventStatus.SCHEDULED, RoomEventStatus.LIVE] },
+      },
+      data: { status: RoomEventStatus.CANCELLED },
+    });
+    if (count === 0) {
+      throw new BadRequestException("الفعالية انتهت أو أُلغيت مسبقاً");
+    }
+
+    const userIds = await this.getRsvpUserIds(eventId);
+    if (userIds.length > 0) {
+      await this.notifications.createMany(userIds, {
+        type: "ROOM_EVENT",
+        title: "تم إلغاء الفعالية",
+        body: `أُلغيت فعالية "${event.title}"`,
+        data: { eventId, roomId: event.roomId, action: "cancelled" },
+      });
+    }
+
+    return { success: true, message: "تم إلغاء الفعالية" };
+  }
+
+  // ================================
+  // DISCOVERY
+  // ================================
+
+  async getEvent(eventId: string, userId: string) {
+    const event = await this.prisma.roomEvent.findUnique({
+      where: { id: eventId },
+      include: {
+        room: { select: EVENT_ROOM_SELECT },
+        _count: { select: { rsvps: true } },
+        rsvps: { where: { userId }, select: { id: true } },
+      },
+    });
+    if (!event) {
+      throw new NotFoundException("الفعالية غير موجودة");
+    }
+
+    return this.toResponse(event, event._count.rsvps, event.rsvps.length > 0);
+  }
+
+  /**
+   * Scheduled and live events of one room
+   */
+  async listRoomEvents(roomId: string, userId: string) {
+    const events = await this.prisma.roomEvent.findMany({
+      where: {
+        roomId,
+        status: { in: [RoomEventStatus.SCHEDULED, RoomEventStatus.LIVE] },
+      },
+      include: {
+        room: { select: EVENT_ROOM_SELECT },
+        _count: { select: { rsvps: true } },
+        rsvps: { where: { userId }, select: { id: true } },
+      },
+      orderBy: { startsAt: "asc" },
+    });
+
+    return events.map((e) =>
+      this.toResponse(e, e._count.rsvps, e.rsvps.length > 0),
+    );
+  }
+
+  /**
+   * Upcoming events across active rooms - live ones first, then by start time
+   */
+  async getUpcoming(userId: string, query: UpcomingEventsQueryDto) {
+    const { page = 1, limit = 20, category } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.RoomEventWhereInput = {
+      status: { in: [RoomEventStatus.SCHEDULED, RoomEventStatus.LIVE] },
+      endsAt: { gt: new Date() },
+      room: { status: "ACTIVE", deletedAt: null },
+      ...(category && { category }),
+    };
+
+    const [events, total] = await Promise.all([
+      this.prisma.roomEvent.findMany({
+        where,
+        include: {
+          room: { select: EVENT_ROOM_SELECT },
+          _count: { select: { rsvps: true } },
+          rsvps: { where: { userId }, select: { id: true } },
+        },
+        orderBy: { startsAt: "asc" },
+        skip,
+        take: limit,
+      }),
+      this.prisma.roomEvent.count({ where }),
+    ]);
+
+    return {
+      data: events.map((e) =>
+        this.toResponse(e, e._count.rsvps, e.rsvps.length > 0),
+      ),
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // ================================
+  // RSVP
+  // ================================
+
+  async rsvp(eventId: string, userId: string) {
+    const event = await this.findEvent(eventId);
+    if (
+      event.status !== RoomEventStatus.SCHEDULED &&
+      event.status !== RoomEventStatus.LIVE
+    ) {
+      throw new BadRequestException("الفعالية انتهت أو أُلغيت");
+    }
+
+    await this.prisma.roomEventRsvp.upsert({
+      where: { eventId_userId: { eventId, userId } },
+      create: { eventId, userId },
+      update: {},
+    });
+
+    return {
+      eventId,
+      isRsvped: true,
+      rsvpCount: await this.prisma.roomEventRsvp.count({ where: { eventId } }),
+    };
+  }
+
+  async cancelRsvp(eventId: string, userId: string) {
+    await this.prisma.roomEventRsvp.deleteMany({ where: { eventId, userId } });
+
+    return {
+      eventId,
+      isRsvped: false,
+      rsvpCount: await this.prisma.roomEventRsvp.count({ where: { eventId } }),
+    };
+  }
+
+  // ================================
+  // SCHEDULER (cron)
+  // ================================
+
+  /**
+   * Send due reminders, start and end events - every minute
+   */
+  async processDue(): Promise<void> {
+    const now = new Date();
+    await this.sendDueReminders(now);
+    await this.startDueEvents(now);
+    await this.endDueEvents(now);
+  }
+
+  private async sendDueReminders(now: Date): Promise<void> {
+    const events = await this.prisma.roomEvent.findMany({
+      where: {
+        status: RoomEventStatus.SCHEDULED,
+        room: { deletedAt: null },
+        startsAt: {
+          gt: now,
+          lte: new Date(
+            now.getTime() + MAX_EVENT_REMINDER_OFFSET_MINUTES * 60 * 1000,
+          ),
+        },
+      },
+      include: { room: { select: EVENT_ROOM_SELECT } },
+      orderBy: { startsAt: "asc" },
+      take: this.BATCH_SIZE,
+    });
+
+    for (const event of events) {
+      const due = getDueReminderOffsets(
+        event.startsAt,
+        event.reminderOffsets,
+        event.remindersSent,
+        now,
+      );
+      if (due.length === 0) continue;
+
+      // عدة تذكيرات مستحقة معاً (بعد تأجيل أو توقف) = تذكير واحد فقط
+      const { count } = await this.prisma.roomEvent.updateMany({
+        where: { id: event.id, remindersSent: { equals: event.remindersSent } },
+        data: { remindersSent: [...event.remindersSent, ...due] },
+      });
+      if (count === 0) continue;
+
+      const minutesLeft = Math.max(
+        1,
+        Math.ceil((event.startsAt.getTime() - now.getTime()) / 60000),
+      );
+      await this.notifyRsvps(event, {
+        title: event.title,
+        body: `تبدأ الفعالية في ${event.room.name} بعد ${minutesLeft} دقيقة ⏰`,
+        type: "ROOM_EVENT_REMINDER",
+      });
+    }
+  }
+
+  private async startDueEvents(now: Date): Promise<void> {
+    // فعاليات فاتها موعدها بالكامل (توقف الخادم) تُنهى بدون إشعارات
+    await this.prisma.roomEvent.updateMany({
+      where: { status: RoomEventStatus.SCHEDULED, endsAt: { lte: now } },
+      data: { status: RoomEventStatus.ENDED },
+    });
+
+    const events = await this.prisma.roomEvent.findMany({
+      // فعاليات الغرف المؤرشفة لا تبدأ - تنتهي بصمت عند موعد انتهائها
+      where: {
+        status: RoomEventStatus.SCHEDULED,
+        startsAt: { lte: now },
+        room: { deletedAt: null },
+      },
+      include: { room: { select: { ...EVENT_ROOM_SELECT, settings: true } } },
+      take: this.BATCH_SIZE,
+    });
+
+    for (const event of events) {
+      const { count } = await this.prisma.roomEvent.updateMany({
+        where: { id: event.id, status: RoomEventStatus.SCHEDULED },
+        data: { status: RoomEventStatus.LIVE },
+      });
+      if (count === 0) continue;
+
+      try {
+        const unlockedSlots = await this.unlockEventMicSlots(
+          event.roomId,
+          event.room.settings,
+          event.unlockMicSlots,
+        );
+
+        const message: RoomEventStartedMessage = {
+          roomId: event.roomId,
+          event: {
+            id: event.id,
+            title: event.title,
+            coverUrl: event.coverUrl,
+            category: event.category,
+            startsAt: event.startsAt,
+            endsAt: event.endsAt,
+          },
+          unlockedSlots,
+        };
+        await this.redis.publish(ROOM_EVENT_STARTED_CHANNEL, message);
+
+        await this.notifyRsvps(event, {
+          title: event.title,
+          body: `بدأت الفعالية الآن في ${event.room.name} 🔴 انضم!`,
+          type: "ROOM_EVENT_STARTED",
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to start room event ${event.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async endDueEvents(now: Date): Promise<void> {
+    const { count } = await this.prisma.roomEvent.updateMany({
+      where: { status: RoomEventStatus.LIVE, endsAt: { lte: now } },
+      data: { status: RoomEventStatus.ENDED },
+    });
+    if (count > 0) {
+      this.logger.log(`🗓️ ${count} room events ended`);
+    }
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private async findEvent(eventId: string): Promise<RoomEvent> {
+    const event = await this.prisma.roomEvent.findUnique({
+      where: { id: eventId },
+    });
+    if (!event) {
+      throw new NotFoundException("الفعالية غير موجودة");
+    }
+    return event;
+  }
+
+  private assertValidSchedule(startsAt: Date, endsAt: Date): void {
+    const now = Date.now();
+    if (startsAt.getTime() <= now) {
+      throw new BadRequestException("موعد البدء يجب أن يكون في المستقبل");
+    }
+    if (startsAt.getTime() > now + MAX_EVENT_SCHEDULE_DAYS * 86400000) {
+      throw new BadRequestException(
+        `لا يمكن الجدولة لأكثر من ${MAX_EVENT_SCHEDULE_DAYS} يوماً مقدماً`,
+      );
+    }
+    if (endsAt.getTime() <= startsAt.getTime()) {
+      throw new BadRequestException("موعد الانتهاء يجب أن يكون بعد البدء");
+    }
+    if (
+      endsAt.getTime() - startsAt.getTime() >
+      MAX_EVENT_DURATION_HOURS * 3600000
+    ) {
+      throw new BadRequestException(
+        `أقصى مدة للفعالية ${MAX_EVENT_DURATION_HOURS} ساعة`,
+      );
+    }
+  }
+
+  private normalizeMicSlots(
+    settings: Prisma.JsonValue,
+    slots: number[],
+  ): number[] {
+    const layout = getMicLayout(settings);
+    const unique = [...new Set(slots)].sort((a, b) => a - b);
+    const invalid = unique.find((i) => !isValidMicSlot(layout, i));
+    if (invalid !== undefined) {
+      throw new BadRequestException(`رقم المايك ${invalid} غير صالح للغرفة`);
+    }
+    return unique;
+  }
+
+  /**
+   * Unlock the designated slots that are still valid for the current layout
+   */
+  private async unlockEventMicSlots(
+    roomId: string,
+    settings: Prisma.JsonValue,
+    slotIndexes: number[],
+  ) {
+    const layout = getMicLayout(settings);
+    const unlocked: RoomEventStartedMessage["unlockedSlots"] = [];
+
+    for (const slotIndex of slotIndexes) {
+      if (!isValidMicSlot(layout, slotIndex)) continue;
+
+      const slot = await this.micState.getSlot(roomId, slotIndex);
+      if (!slot?.isLocked) continue;
+
+      slot.isLocked = false;
+      await this.micState.setSlot(roomId, slotIndex, slot);
+      unlocked.push({ slotIndex, slot });
+    }
+
+    return unlocked;
+  }
+
+  private async getRsvpUserIds(eventId: string): Promise<string[]> {
+    const rsvps = await this.prisma.roomEventRsvp.findMany({
+      where: { eventId },
+      select: { userId: true },
+    });
+    return rsvps.map((r) => r.userId);
+  }
+
+  /**
+   * In-app notification + push with a deep link to the room
+   */
+  private async notifyRsvps(
+    event: RoomEvent & { room: { numericId: number; avatar: string | null } },
+    message: {
+      title: string;
+      body: string;
+      type: "ROOM_EVENT_REMINDER" | "ROOM_EVENT_STARTED";
+    },
+  ): Promise<void> {
+    const userIds = await this.getRsvpUserIds(event.id);
+    if (userIds.length === 0) return;
+
+    const deepLink = buildRoomEventDeepLink(
+      this.config.get("APP_URL", "https://ali-app.com"),
+      event.room.numericId,
+      event.id,
+    );
+    const data = {
+      type: message.type,
+      eventId: event.id,
+      roomId: event.roomId,
+      numericId: event.room.numericId.toString(),
+      deepLink,
+    };
+
+    await this.notifications.createMany(userIds, {
+      type: "ROOM_EVENT",
+      title: message.title,
+      body: message.body,
+      data,
+    });
+
+    const result = await this.push.sendToUsers(userIds, {
+      title: message.title,
+      body: message.body,
+      imageUrl: event.coverUrl ?? event.room.avatar ?? undefined,
+      data,
+    });
+
+    this.logger.log(
+      `Room event ${event.id} (${message.type}): notified ${result.successCount}/${userIds.length} users`,
+    );
+  }
+
+  private toResponse(
+    event: RoomEvent & {
+      room: Prisma.RoomGetPayload<{ select: typeof EVENT_ROOM_SELECT }>;
+    },
+    rsvpCount: number,
+    isRsvped: boolean,
+  ) {
+    return {
+      id: event.id,
+      roomId: event.roomId,
+      room: event.room,
+      title: event.title,
+      description: event.description,
+      coverUrl: event.coverUrl,
+      category: event.category,
+      startsAt: event.startsAt,
+      endsAt: event.endsAt,
+      status: event.status,
+      reminderOffsets: event.reminderOffsets,
+      unlockMicSlots: event.unlockMicSlots,
+      createdBy: event.createdBy,
+      createdAt: event.createdAt,
+      rsvpCount,
+      isRsvped,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Room Events - الفعاليات المجدولة في الغرف
+ * التصنيفات وحدود الجدولة ومواعيد التذكير
+ */
+
+// نفس تصنيفات الغرف حتى تعمل الفلترة بنفس القيم
+export const ROOM_EVENT_CATEGORIES = [
+  "chat",
+  "music",
+  "games",
+  "quran",
+  "entertainment",
+] as const;
+
+export type RoomEventCategory = (typeof ROOM_EVENT_CATEGORIES)[number];
+
+export const MAX_EVENT_TITLE_LENGTH = 100;
+export const MAX_EVENT_DESCRIPTION_LENGTH = 1000;
+
+// دقائق قبل البدء
+export const DEFAULT_EVENT_REMINDER_OFFSETS = [60, 10];
+export const MAX_EVENT_REMINDERS = 5;
+export const MAX_EVENT_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+export const MAX_EVENT_DURATION_HOURS = 12;
+export const MAX_EVENT_SCHEDULE_DAYS = 90;
+export const MAX_UPCOMING_EVENTS_PER_ROOM = 20;
+
+/**
+ * Unique offsets, largest first (the order reminders go out)
+ */
+export function normalizeReminderOffsets(offsets: number[]): number[] {
+  return [...new Set(offsets.map((o) => Math.floor(o)))]
+    .filter((o) => o > 0 && o <= MAX_EVENT_REMINDER_OFFSET_MINUTES)
+    .sort((a, b) => b - a);
+}
+
+/**
+ * Reminders whose time has come and were not sent yet
+ */
+export function getDueReminderOffsets(
+  startsAt: Date,
+  offsets: number[],
+  sent: number[],
+  now: Date = new Date(),
+): number[] {
+  const minutesLeft = (startsAt.getTime() - now.getTime()) / 60000;
+  return offsets.filter((o) => o >= minutesLeft && !sent.includes(o));
+}
+
+/**
+ * Link opened by the app (universal link) - room by numeric id + event
+ */
+export function buildRoomEventDeepLink(
+  appUrl: string,
+  numericId: number,
+  eventId: string,
+): string {
+  return `${appUrl}/room/${numericId}?event=${eventId}`;
+}
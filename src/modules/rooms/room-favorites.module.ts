@@ -0,0 +1,16 @@
+/**
+ * Room Favorites Module - الغرف المفضلة وإشعارات البث المباشر
+ * Global: تُستخدم في RoomsService و AppGateway
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { NotificationsModule } from "../notifications/notifications.module";
+import { RoomFavoritesService } from "./room-favorites.service";
+
+@Global()
+@Module({
+  imports: [NotificationsModule],
+  providers: [RoomFavoritesService],
+  exports: [RoomFavoritesService],
+})
+export class RoomFavoritesModule {}
@@ -0,0 +1,142 @@
+/**
+ * Room Favorites Service Unit Tests
+ * اختبارات وحدة خدمة الغرف المفضلة
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConfigService } from "@nestjs/config";
+import { RoomFavoritesService } from "./room-favorites.service";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { PushNotificationService } from "../notifications/push-notification.service";
+
+describe("RoomFavoritesService", () => {
+  let service: RoomFavoritesService;
+  let redis: RedisService;
+  let now: number;
+  let clock: jest.SpyInstance;
+
+  const mockPrismaService = {
+    room: {
+      findFirst: jest.fn(),
+    },
+    roomFavorite: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockPushNotificationService = {
+    sendToUsers: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    // Redis بدون اتصال يستخدم التخزين في الذاكرة
+    redis = new RedisService(new ConfigService({ REDIS_ENABLED: "false" }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomFavoritesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: redis },
+        {
+          provide: PushNotificationService,
+          useValue: mockPushNotificationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RoomFavoritesService>(RoomFavoritesService);
+
+    jest.clearAllMocks();
+    now = 1_700_000_000_000;
+    clock = jest.spyOn(Date, "now").mockImplementation(() => now);
+
+    mockPrismaService.room.findFirst.mockResolvedValue({
+      name: "Room",
+      avatar: null,
+      numericId: BigInt(1001),
+      ownerId: "owner-1",
+      owner: { displayName: "Owner", username: "owner" },
+    });
+    mockPrismaService.roomFavorite.findMany.mockResolvedValue([
+      { userId: "user-1" },
+      { userId: "user-2" },
+    ]);
+    mockPushNotificationService.sendToUsers.mockResolvedValue({
+      successCount: 2,
+    });
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+  });
+
+  describe("notifyRoomLive", () => {
+    it("should notify opted-in followers who are not in the room", async () => {
+      jest.spyOn(redis, "getRoomOnlineUsers").mockResolvedValue(["user-2"]);
+
+      await service.notifyRoomLive("room-1", "opened");
+
+      expect(mockPrismaService.roomFavorite.findMany).toHaveBeenCalledWith({
+        where: {
+          roomId: "room-1",
+          notifyLive: true,
+          userId: { not: "owner-1" },
+        },
+        select: { userId: true },
+      });
+      expect(mockPushNotificationService.sendToUsers).toHaveBeenCalledWith(
+        ["user-1"],
+        expect.objectContaining({
+          title: "Room",
+          data: expect.objectContaining({
+            type: "ROOM_LIVE",
+            roomId: "room-1",
+            numericId: "1001",
+            trigger: "opened",
+          }),
+        }),
+      );
+    });
+
+    it("should suppress repeated pushes during the cooldown", async () => {
+      await service.notifyRoomLive("room-1", "opened");
+
+      now += 10 * 60 * 1000;
+      await service.notifyRoomLive("room-1", "mic");
+      await service.notifyRoomLive("room-1", "opened");
+
+      expect(mockPushNotificationService.sendToUsers).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.room.findFirst).toHaveBeenCalledTimes(1);
+    });
+
+    it("should notify again once the cooldown has passed", async () => {
+      await service.notifyRoomLive("room-1", "opened");
+
+      now += 30 * 60 * 1000;
+      await service.notifyRoomLive("room-1", "mic");
+
+      expect(mockPushNotificationService.sendToUsers).toHaveBeenCalledTimes(2);
+      expect(
+        mockPushNotificationService.sendToUsers.mock.calls[1][1].data.trigger,
+      ).toBe("mic");
+    });
+
+    it("should keep a separate cooldown per room", async () => {
+      await service.notifyRoomLive("room-1", "opened");
+      await service.notifyRoomLive("room-2", "opened");
+
+      expect(mockPushNotificationService.sendToUsers).toHaveBeenCalledTimes(2);
+    });
+
+    it("should let only one of several concurrent triggers push", async () => {
+      await Promise.all([
+        service.notifyRoomLive("room-1", "opened"),
+        service.notifyRoomLive("room-1", "mic"),
+        service.notifyRoomLive("room-1", "mic"),
+      ]);
+
+      expect(mockPushNotificationService.sendToUsers).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { PushNotificationService } from "../notifications/push-notification.service";
+
+export type RoomLiveTrigger = "opened" | "mic";
+
+/**
+ * Room Favorites - الغرف المفضلة وإشعارات "الغرفة مباشرة الآن"
+ * المتابع المشترك يصله إشعار عند فتح المالك للغرفة أو صعوده للمايك،
+ * مع فترة تهدئة لكل غرفة حتى لا تتكرر الإشعارات
+ */
+@Injectable()
+export class RoomFavoritesService {
+  private readonly logger = new Logger(RoomFavoritesService.name);
+
+  private readonly MAX_FAVORITES = 200;
+  private readonly LIVE_NOTIFY_COOLDOWN_SECONDS = 30 * 60; // 30 minutes
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private push: PushNotificationService,
+  ) {}
+
+  // ================================
+  // FAVORITES
+  // ================================
+
+  async add(roomId: string, userId: string, notifyLive?: boolean) {
+    const existing = await this.prisma.roomFavorite.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+    });
+    if (!existing) {
+      const count = await this.prisma.roomFavorite.count({
+        where: { userId },
+      });
+      if (count >= this.MAX_FAVORITES) {
+        throw new BadRequestException(
+          `الحد الأقصى للغرف المفضلة ${this.MAX_FAVORITES} غرفة`,
+        );
+      }
+    }
+
+    const favorite = await this.prisma.roomFavorite.upsert({
+      where: { roomId_userId: { roomId, userId } },
+      create: { roomId, userId, notifyLive: notifyLive ?? false },
+      update: notifyLive !== undefined ? { notifyLive } : {},
+    });
+
+    return {
+      roomId,
+      isFavorite: true,
+      notifyLive: favorite.notifyLive,
+    };
+  }
+
+  async remove(roomId: string, userId: string) {
+    await this.prisma.roomFavorite.deleteMany({ where: { roomId, userId } });
+    return { roomId, isFavorite: false, notifyLive: false };
+  }
+
+  async setNotifyLive(roomId: string, userId: string, enabled: boolean) {
+    const { count } = await this.prisma.roomFavorite.updateMany({
+      where: { roomId, userId },
+      data: { notifyLive: enabled },
+    });
+    if (count === 0) {
+      throw new NotFoundException("الغرفة ليست في المفضلة");
+    }
+
+    return { roomId, isFavorite: true, notifyLive: enabled };
+  }
+
+  async isFavorite(roomId: string, userId: string) {
+    const favorite = await this.prisma.roomFavorite.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      select: { notifyLive: true },
+    });
+
+    return {
+      isFavorite: !!favorite,
+      notifyLive: favorite?.notifyLive ?? false,
+    };
+  }
+
+  /**
+   * My favorites - live rooms first (by listener count)
+   */
+  async list(userId: string) {
+    const favorites = await this.prisma.roomFavorite.findMany({
+      where: { userId, room: { deletedAt: null } },
+      include: {
+        room: {
+          select: {
+            id: true,
+            numericId: true,
+            name: true,
+            description: true,
+            avatar: true,
+            type: true,
+            status: true,
+            ownerId: true,
+            level: true,
+            currentMembers: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const rooms = await Promise.all(
+      favorites.map(async (f) => ({
+        ...f.room,
+        onlineCount: await this.redis.getRoomOnlineCount(f.roomId),
+        notifyLive: f.notifyLive,
+        favoritedAt: f.createdAt,
+      })),
+    );
+
+    // sort مستقر - الغرف بنفس العدد تبقى بترتيب الإضافة
+    return rooms.sort((a, b) => b.onlineCount - a.onlineCount);
+  }
+
+  // ================================
+  // LIVE NOTIFICATIONS
+  // ================================
+
+  /**
+   * Push to opted-in followers that are not already in the room.
+   * At most one notification per room per cooldown window (all instances).
+   */
+  async notifyRoomLive(roomId: string, trigger: RoomLiveTrigger) {
+    const cooldownKey = `room:${roomId}:live_notify_cooldown`;
+    const acquired = await this.redis.acquireLock(
+      cooldownKey,
+      this.LIVE_NOTIFY_COOLDOWN_SECONDS,
+    );
+    if (!acquired) return;
+
+    const room = await this.prisma.room.findFirst({
+      where: { id: roomId, deletedAt: null },
+      select: {
+        name: true,
+        avatar: true,
+        numericId: true,
+        ownerId: true,
+        owner: { select: { displayName: true, username: true } },
+      },
+    });
+    if (!room) return;
+
+    const followers = await this.prisma.roomFavorite.findMany({
+      where: { roomId, notifyLive: true, userId: { not: room.ownerId } },
+      select: { userId: true },
+    });
+    const online = new Set(await this.redis.getRoomOnlineUsers(roomId));
+    const userIds = followers
+      .map((f) => f.userId)
+      .filter((id) => !online.has(id));
+    if (userIds.length === 0) return;
+
+    const ownerName = room.owner.displayName || room.owner.username;
+    const result = await this.push.sendToUsers(userIds, {
+      title: room.name,
+      body:
+        trigger === "mic"
+          ? `${ownerName} على المايك الآن 🎙️`
+          : `${ownerName} فتح الغرفة الآن 🔴`,
+      imageUrl: room.avatar ?? undefined,
+      data: {
+        type: "ROOM_LIVE",
+        roomId,
+        numericId: room.numericId.toString(),
+        trigger,
+      },
+    });
+
+    this.logger.log(
+      `Room ${roomId} live (${trigger}): notified ${result.successCount}/${userIds.length} followers`,
+    );
+  }
+}
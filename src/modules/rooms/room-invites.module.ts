@@ -0,0 +1,16 @@
+/**
+ * Room Invites Module - روابط الدعوة ودعوات الأصدقاء
+ * Global: تُستخدم في RoomsService
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { NotificationsModule } from "../notifications/notifications.module";
+import { RoomInvitesService } from "./room-invites.service";
+
+@Global()
+@Module({
+  imports: [NotificationsModule],
+  providers: [RoomInvitesService],
+  exports: [RoomInvitesService],
+})
+export class RoomInvitesModule {}
@@ -0,0 +1,164 @@
+/**
+ * Room Invites Service Unit Tests
+ * اختبارات وحدة خدمة دعوات الغرف
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { ForbiddenException, NotFoundException } from "@nestjs/common";
+import { RoomInvitesService } from "./room-invites.service";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { RoomPermissionsService } from "./room-permissions.service";
+import { NotificationsService } from "../notifications/notifications.service";
+import { PushNotificationService } from "../notifications/push-notification.service";
+
+describe("RoomInvitesService", () => {
+  let service: RoomInvitesService;
+  let invite: Record<string, any>;
+
+  const mockPrismaService = {
+    roomInvite: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(async ({ where }: any) => {
+        const usable =
+          where.id === invite.id &&
+          invite.revokedAt === null &&
+          (where.uses === undefined || invite.uses < where.uses.lt);
+        if (!usable) return { count: 0 };
+        invite.uses += 1;
+        return { count: 1 };
+      }),
+    },
+  };
+
+  const linkInvite = (overrides: Record<string, unknown> = {}) => ({
+    id: "invite-1",
+    roomId: "room-1",
+    token: "token-1",
+    createdBy: "owner-1",
+    inviteeId: null,
+    maxUses: null,
+    uses: 0,
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomInvitesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: {} },
+        { provide: RoomPermissionsService, useValue: {} },
+        { provide: NotificationsService, useValue: {} },
+        { provide: PushNotificationService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<RoomInvitesService>(RoomInvitesService);
+
+    jest.clearAllMocks();
+    invite = linkInvite();
+    // كل قراءة ترجع نسخة - كما لو كانت من طلب منفصل
+    mockPrismaService.roomInvite.findUnique.mockImplementation(async () => ({
+      ...invite,
+    }));
+  });
+
+  describe("consume", () => {
+    it("should count a use of a link invite", async () => {
+      await service.consume("room-1", "token-1", "user-1");
+
+      expect(invite.uses).toBe(1);
+      expect(mockPrismaService.roomInvite.updateMany).toHaveBeenCalledWith({
+        where: { id: "invite-1", revokedAt: null },
+        data: { uses: { increment: 1 } },
+      });
+    });
+
+    it("should hold max uses under concurrent joins", async () => {
+      invite = linkInvite({ maxUses: 3 });
+
+      const results = await Promise.allSettled(
+        ["a", "b", "c", "d", "e"].map((userId) =>
+          service.consume("room-1", "token-1", userId),
+        ),
+      );
+
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(3);
+      const rejected = results.filter(
+        (r): r is PromiseRejectedResult => r.status === "rejected",
+      );
+      expect(rejected).toHaveLength(2);
+      for (const { reason } of rejected) {
+        expect(reason).toBeInstanceOf(ForbiddenException);
+      }
+      expect(invite.uses).toBe(3);
+    });
+
+    it("should reject an invite that is used up", async () => {
+      invite = linkInvite({ maxUses: 2, uses: 2 });
+
+      await expect(
+        service.consume("room-1", "token-1", "user-1"),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.roomInvite.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should not let another user use a friend invite", async () => {
+      invite = linkInvite({ inviteeId: "friend-1", maxUses: 1 });
+
+      await expect(
+        service.consume("room-1", "token-1", "user-2"),
+      ).rejects.toThrow(new ForbiddenException("هذه الدعوة موجهة لمستخدم آخر"));
+      expect(invite.uses).toBe(0);
+
+      await service.consume("room-1", "token-1", "friend-1");
+      expect(invite.uses).toBe(1);
+
+      await expect(
+        service.consume("room-1", "token-1", "friend-1"),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("should reject an invite for another room", async () => {
+      await expect(
+        service.consume("room-2", "token-1", "user-1"),
+      ).rejects.toThrow(ForbiddenException);
+      expect(invite.uses).toBe(0);
+    });
+
+    it("should reject revoked, expired and unknown invites", async () => {
+      invite = linkInvite({ revokedAt: new Date() });
+      await expect(
+        service.consume("room-1", "token-1", "user-1"),
+      ).rejects.toThrow(NotFoundException);
+
+      invite = linkInvite({ expiresAt: new Date(Date.now() - 1000) });
+      await expect(
+        service.consume("room-1", "token-1", "user-1"),
+      ).rejects.toThrow(ForbiddenException);
+
+      mockPrismaService.roomInvite.findUnique.mockResolvedValueOnce(null);
+      await expect(
+        service.consume("room-1", "wrong", "user-1"),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it("should not count a use when the invite is revoked mid-join", async () => {
+      mockPrismaService.roomInvite.findUnique.mockImplementationOnce(
+        async () => {
+          const snapshot = { ...invite };
+          invite.revokedAt = new Date();
+          return snapshot;
+        },
+      );
+
+      await expect(
+        service.consume("room-1", "token-1", "user-1"),
+      ).rejects.toThrow(ForbiddenException);
+      expect(invite.uses).toBe(0);
+    });
+  });
+});
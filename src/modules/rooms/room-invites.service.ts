@@ -0,0 +1,362 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { RoomInvite } from "@prisma/client";
+import * as crypto from "crypto";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { NotificationsService } from "../notifications/notifications.service";
+import { PushNotificationService } from "../notifications/push-notification.service";
+import { RoomPermissionsService } from "./room-permissions.service";
+
+export const DEFAULT_INVITE_EXPIRY_HOURS = 24;
+export const MAX_INVITE_EXPIRY_HOURS = 30 * 24;
+export const MAX_INVITE_USES = 1000;
+
+/**
+ * Room Invites - روابط الدعوة ودعوات الأصدقاء المباشرة
+ * الدعوة الصالحة تتجاوز كلمة مرور الغرفة عند الانضمام
+ */
+@Injectable()
+export class RoomInvitesService {
+  private readonly logger = new Logger(RoomInvitesService.name);
+
+  private readonly MAX_ACTIVE_LINKS_PER_ROOM = 50;
+  private readonly FRIEND_INVITE_EXPIRY_HOURS = 24;
+  private readonly FRIEND_INVITES_PER_HOUR = 30;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private roomPermissions: RoomPermissionsService,
+    private notifications: NotificationsService,
+    private push: PushNotificationService,
+  ) {}
+
+  // ================================
+  // CREATE INVITES
+  // ================================
+
+  /**
+   * Shareable link - anyone holding the token can join until it expires
+   */
+  async createLink(
+    roomId: string,
+    userId: string,
+    options: { expiresInHours?: number; maxUses?: number },
+  ) {
+    await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "invite",
+      "ليس لديك الصلاحية لإنشاء دعوات",
+    );
+
+    const activeLinks = await this.prisma.roomInvite.count({
+      where: {
+        roomId,
+        inviteeId: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+    });
+    if (activeLinks >= this.MAX_ACTIVE_LINKS_PER_ROOM) {
+      throw new BadRequestException(
+        `الحد الأقصى ${this.MAX_ACTIVE_LINKS_PER_ROOM} رابط دعوة فعال للغرفة`,
+      );
+    }
+
+    const invite = await this.prisma.roomInvite.create({
+      data: {
+        roomId,
+        token: this.generateToken(),
+        createdBy: userId,
+        maxUses: options.maxUses ?? null,
+        expiresAt: this.expiresIn(
+          options.expiresInHours ?? DEFAULT_INVITE_EXPIRY_HOURS,
+        ),
+      },
+    });
+
+    return this.toResponse(invite);
+  }
+
+  /**
+   * Direct single-use invite to a friend + ROOM_INVITE notification and push
+   */
+  async inviteFriend(roomId: string, userId: string, friendId: string) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "invite",
+      "ليس لديك الصلاحية لإرسال دعوات",
+    );
+
+    if (friendId === userId) {
+      throw new BadRequestException("لا يمكنك دعوة نفسك");
+    }
+
+    const friendship = await this.prisma.friendships.findFirst({
+      where: {
+        OR: [
+          { user1_id: userId, user2_id: friendId },
+          { user1_id: friendId, user2_id: userId },
+        ],
+      },
+      select: { id: true },
+    });
+    if (!friendship) {
+      throw new ForbiddenException("يمكنك دعوة أصدقائك فقط");
+    }
+
+    const membership = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId: friendId } },
+      select: { leftAt: true, isBanned: true },
+    });
+    if (membership && !membership.leftAt && !membership.isBanned) {
+      throw new BadRequestException("صديقك عضو بالفعل في الغرفة");
+    }
+
+    const allowed = await this.redis.checkRateLimit(
+      `room_invite:friend:${userId}`,
+      this.FRIEND_INVITES_PER_HOUR,
+      3600,
+    );
+    if (!allowed) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: "أرسلت دعوات كثيرة، حاول لاحقاً",
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // دعوة جديدة تلغي الدعوات السابقة لنفس الصديق
+    const [, invite] = await this.prisma.$transaction([
+      this.prisma.roomInvite.updateMany({
+        where: { roomId, inviteeId: friendId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+      this.prisma.roomInvite.create({
+        data: {
+          roomId,
+          token: this.generateToken(),
+          createdBy: userId,
+          inviteeId: friendId,
+          maxUses: 1,
+          expiresAt: this.expiresIn(this.FRIEND_INVITE_EXPIRY_HOURS),
+        },
+      }),
+    ]);
+
+    const inviter = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { displayName: true, username: true },
+    });
+    const inviterName = inviter?.displayName || inviter?.username || "صديقك";
+
+    await this.notifications.notifyRoomInvite(
+      friendId,
+      room.name,
+      roomId,
+      inviterName,
+      invite.token,
+    );
+    await this.push.sendToUser(friendId, {
+      title: "📩 دعوة للانضمام",
+      body: `دعاك ${inviterName} للانضمام إلى غرفة "${room.name}"`,
+      imageUrl: room.avatar ?? undefined,
+      data: {
+        type: "ROOM_INVITE",
+        roomId,
+        numericId: room.numericId.toString(),
+        inviteToken: invite.token,
+      },
+    });
+
+    this.logger.log(`User ${userId} invited ${friendId} to room ${roomId}`);
+    return this.toResponse(invite);
+  }
+
+  // ================================
+  // MANAGE INVITES
+  // ================================
+
+  /**
+   * Outstanding invites (not revoked, expired or used up)
+   */
+  async listActive(roomId: string, userId: string) {
+    await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لإدارة الدعوات",
+    );
+
+    const userSelect = {
+      id: true,
+      username: true,
+      displayName: true,
+      avatar: true,
+    };
+    const invites = await this.prisma.roomInvite.findMany({
+      where: { roomId, revokedAt: null, expiresAt: { gt: new Date() } },
+      include: {
+        creator: { select: userSelect },
+        invitee: { select: userSelect },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return invites
+      .filter((i) => this.hasUsesLeft(i))
+      .map((i) => ({
+        ...this.toResponse(i),
+        creator: i.creator,
+        invitee: i.invitee,
+      }));
+  }
+
+  /**
+   * Room managers revoke any invite - members only their own
+   */
+  async revoke(roomId: string, inviteId: string, userId: string) {
+    const invite = await this.prisma.roomInvite.findFirst({
+      where: { id: inviteId, roomId },
+    });
+    if (!invite) {
+      throw new NotFoundException("الدعوة غير موجودة");
+    }
+
+    if (invite.createdBy !== userId) {
+      await this.roomPermissions.assert(
+        roomId,
+        userId,
+        "editRoom",
+        "ليس لديك الصلاحية لإلغاء الدعوة",
+      );
+    }
+
+    if (!invite.revokedAt) {
+      await this.prisma.roomInvite.update({
+        where: { id: inviteId },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    return { success: true, message: "تم إلغاء الدعوة" };
+  }
+
+  // ================================
+  // USE INVITES
+  // ================================
+
+  /**
+   * Room preview for an invite link (before joining)
+   */
+  async preview(token: string, userId: string) {
+    const invite = await this.findUsable(token, userId);
+    const room = await this.prisma.room.findFirst({
+      where: { id: invite.roomId, deletedAt: null },
+      select: {
+        id: true,
+        numericId: true,
+        name: true,
+        description: true,
+        avatar: true,
+        type: true,
+        isPasswordProtected: true,
+        currentMembers: true,
+        maxMembers: true,
+      },
+    });
+
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+
+    return {
+      room,
+      expiresAt: invite.expiresAt,
+      onlineCount: await this.redis.getRoomOnlineCount(invite.roomId),
+    };
+  }
+
+  /**
+   * Count one use of the invite - used by join instead of the password
+   */
+  async consume(roomId: string, token: string, userId: string) {
+    const invite = await this.findUsable(token, userId);
+    if (invite.roomId !== roomId) {
+      throw new ForbiddenException("الدعوة لا تخص هذه الغرفة");
+    }
+
+    // شرط الاستخدامات داخل التحديث - لا يتجاوز الحد عند الانضمام المتزامن
+    const { count } = await this.prisma.roomInvite.updateMany({
+      where: {
+        id: invite.id,
+        revokedAt: null,
+        ...(invite.maxUses !== null && { uses: { lt: invite.maxUses } }),
+      },
+      data: { uses: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw new ForbiddenException("الدعوة منتهية أو مستخدمة بالكامل");
+    }
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private async findUsable(token: string, userId: string): Promise<RoomInvite> {
+    const invite = await this.prisma.roomInvite.findUnique({
+      where: { token },
+    });
+    if (!invite || invite.revokedAt) {
+      throw new NotFoundException("الدعوة غير موجودة أو ملغاة");
+    }
+    if (invite.expiresAt <= new Date() || !this.hasUsesLeft(invite)) {
+      throw new ForbiddenException("الدعوة منتهية أو مستخدمة بالكامل");
+    }
+    if (invite.inviteeId && invite.inviteeId !== userId) {
+      throw new ForbiddenException("هذه الدعوة موجهة لمستخدم آخر");
+    }
+
+    return invite;
+  }
+
+  private hasUsesLeft(invite: RoomInvite): boolean {
+    return invite.maxUses === null || invite.uses < invite.maxUses;
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(12).toString("base64url");
+  }
+
+  private expiresIn(hours: number): Date {
+    return new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+
+  private toResponse(invite: RoomInvite) {
+    return {
+      id: invite.id,
+      roomId: invite.roomId,
+      token: invite.token,
+      type: invite.inviteeId ? "friend" : "link",
+      inviteeId: invite.inviteeId,
+      createdBy: invite.createdBy,
+      maxUses: invite.maxUses,
+      uses: invite.uses,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    };
+  }
+}
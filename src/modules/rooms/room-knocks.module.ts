@@ -0,0 +1,14 @@
+/**
+ * Room Knocks Module - طرق الباب للغرف الخاصة
+ * Global: تُستخدم في RoomsService و AppGateway و ScheduledTasksService
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { RoomKnocksService } from "./room-knocks.service";
+
+@Global()
+@Module({
+  providers: [RoomKnocksService],
+  exports: [RoomKnocksService],
+})
+export class RoomKnocksModule {}
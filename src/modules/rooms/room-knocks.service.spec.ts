@@ -0,0 +1,186 @@
+/**
+ * Room Knocks Service Unit Tests
+ * اختبارات وحدة خدمة طرق الباب
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConfigService } from "@nestjs/config";
+import {
+  KNOCK_ADMIT_PASS_TTL_SECONDS,
+  KNOCK_DENIED_COOLDOWN_SECONDS,
+  KNOCK_TTL_SECONDS,
+  ROOM_KNOCKS_EXPIRED_CHANNEL,
+  RoomKnocksService,
+} from "./room-knocks.service";
+import { RedisService } from "../../common/redis/redis.service";
+
+describe("RoomKnocksService", () => {
+  let service: RoomKnocksService;
+  let redis: RedisService;
+  let now: number;
+  let clock: jest.SpyInstance;
+
+  const knock = (userId: string, knockedAt = now) => ({
+    userId,
+    userName: userId,
+    userAvatar: null,
+    knockedAt,
+    expiresAt: knockedAt + KNOCK_TTL_SECONDS * 1000,
+  });
+
+  beforeEach(async () => {
+    // Redis بدون اتصال يستخدم التخزين في الذاكرة
+    redis = new RedisService(new ConfigService({ REDIS_ENABLED: "false" }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomKnocksService,
+        { provide: RedisService, useValue: redis },
+      ],
+    }).compile();
+
+    service = module.get<RoomKnocksService>(RoomKnocksService);
+
+    now = 1_700_000_000_000;
+    clock = jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+  });
+
+  describe("denial cooldown", () => {
+    it("should count down until the user may knock again", async () => {
+      await expect(
+        service.getDeniedRetryAfter("room-1", "user-1"),
+      ).resolves.toBe(0);
+
+      await service.markDenied("room-1", "user-1");
+      await expect(
+        service.getDeniedRetryAfter("room-1", "user-1"),
+      ).resolves.toBe(KNOCK_DENIED_COOLDOWN_SECONDS);
+
+      now += 4 * 60 * 1000;
+      await expect(
+        service.getDeniedRetryAfter("room-1", "user-1"),
+      ).resolves.toBe(KNOCK_DENIED_COOLDOWN_SECONDS - 4 * 60);
+
+      now += (KNOCK_DENIED_COOLDOWN_SECONDS - 4 * 60) * 1000;
+      await expect(
+        service.getDeniedRetryAfter("room-1", "user-1"),
+      ).resolves.toBe(0);
+    });
+
+    it("should only apply to the denied user and room", async () => {
+      await service.markDenied("room-1", "user-1");
+
+      await expect(
+        service.getDeniedRetryAfter("room-1", "user-2"),
+      ).resolves.toBe(0);
+      await expect(
+        service.getDeniedRetryAfter("room-2", "user-1"),
+      ).resolves.toBe(0);
+    });
+  });
+
+  describe("admit pass", () => {
+    it("should be consumed once", async () => {
+      await service.grantPass("room-1", "user-1");
+
+      await expect(service.consumePass("room-1", "user-1")).resolves.toBe(true);
+      await expect(service.consumePass("room-1", "user-1")).resolves.toBe(
+        false,
+      );
+    });
+
+    it("should be consumed once by concurrent joins", async () => {
+      await service.grantPass("room-1", "user-1");
+
+      const results = await Promise.all([
+        service.consumePass("room-1", "user-1"),
+        service.consumePass("room-1", "user-1"),
+        service.consumePass("room-1", "user-1"),
+      ]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it("should work again for a later admit", async () => {
+      await service.grantPass("room-1", "user-1");
+      await service.consumePass("room-1", "user-1");
+
+      now += 60 * 1000;
+      await service.grantPass("room-1", "user-1");
+
+      await expect(service.consumePass("room-1", "user-1")).resolves.toBe(true);
+    });
+
+    it("should not be usable after it expires or by another user", async () => {
+      await service.grantPass("room-1", "user-1");
+
+      await expect(service.consumePass("room-1", "user-2")).resolves.toBe(
+        false,
+      );
+
+      now += KNOCK_ADMIT_PASS_TTL_SECONDS * 1000 + 1;
+      await expect(service.consumePass("room-1", "user-1")).resolves.toBe(
+        false,
+      );
+    });
+  });
+
+  describe("take", () => {
+    it("should hand a knock to only one of two concurrent decisions", async () => {
+      await service.add("room-1", knock("user-1"));
+
+      const [admit, deny] = await Promise.all([
+        service.take("room-1", "user-1"),
+        service.take("room-1", "user-1"),
+      ]);
+
+      expect([admit, deny].filter(Boolean)).toHaveLength(1);
+      await expect(service.list("room-1")).resolves.toEqual([]);
+    });
+  });
+
+  describe("expireStale", () => {
+    it("should drop expired knocks and publish them", async () => {
+      const publish = jest.spyOn(redis, "publish");
+      await service.add("room-1", knock("user-1"));
+      await service.add("room-1", knock("user-2", now + 2 * 60 * 1000));
+
+      now += KNOCK_TTL_SECONDS * 1000;
+      await service.expireStale();
+
+      expect(publish).toHaveBeenCalledTimes(1);
+      expect(publish).toHaveBeenCalledWith(ROOM_KNOCKS_EXPIRED_CHANNEL, {
+        roomId: "room-1",
+        userIds: ["user-1"],
+      });
+      expect((await service.list("room-1")).map((k) => k.userId)).toEqual([
+        "user-2",
+      ]);
+      await expect(redis.smembers("room_knocks:rooms")).resolves.toEqual([
+        "room-1",
+      ]);
+
+      now += 2 * 60 * 1000;
+      await service.expireStale();
+
+      expect(publish).toHaveBeenLastCalledWith(ROOM_KNOCKS_EXPIRED_CHANNEL, {
+        roomId: "room-1",
+        userIds: ["user-2"],
+      });
+      await expect(redis.smembers("room_knocks:rooms")).resolves.toEqual([]);
+    });
+
+    it("should not publish when nothing expired", async () => {
+      const publish = jest.spyOn(redis, "publish");
+      await service.add("room-1", knock("user-1"));
+
+      await service.expireStale();
+
+      expect(publish).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Prisma, RoomType } from "@prisma/client";
+import { RedisService } from "../../common/redis/redis.service";
+
+export interface RoomKnock {
+  userId: string;
+  userName: string;
+  userAvatar: string | null;
+  userNumericId?: string;
+  knockedAt: number;
+  expiresAt: number;
+}
+
+export interface ExpiredRoomKnocks {
+  roomId: string;
+  userIds: string[];
+}
+
+export const ROOM_KNOCKS_EXPIRED_CHANNEL = "room:knocks_expired";
+
+export const KNOCK_TTL_SECONDS = 5 * 60;
+export const KNOCK_ADMIT_PASS_TTL_SECONDS = 10 * 60;
+export const KNOCK_DENIED_COOLDOWN_SECONDS = 10 * 60;
+
+/**
+ * Knock mode only applies to PRIVATE rooms (Room.settings.knockMode)
+ */
+export function isKnockModeEnabled(room: {
+  type: RoomType;
+  settings: Prisma.JsonValue;
+}): boolean {
+  return (
+    room.type === RoomType.PRIVATE &&
+    !!(room.settings as { knockMode?: boolean } | null)?.knockMode
+  );
+}
+
+/**
+ * Room Knocks - غرفة الانتظار للغرف الخاصة (طرق الباب)
+ * الطلبات المعلقة في Redis وتنتهي تلقائياً، والقبول يمنح تصريح دخول مؤقت
+ */
+@Injectable()
+export class RoomKnocksService {
+  private readonly logger = new Logger(RoomKnocksService.name);
+
+  private readonly ACTIVE_ROOMS_KEY = "room_knocks:rooms";
+
+  constructor(private redis: RedisService) {}
+
+  // ================================
+  // PENDING KNOCKS
+  // ================================
+
+  async add(roomId: string, knock: RoomKnock): Promise<void> {
+    await this.redis.hset(
+      this.knocksKey(roomId),
+      knock.userId,
+      JSON.stringify(knock),
+    );
+    // مهلة إضافية حتى يلتقط الـ cron آخر طلب منتهٍ ويبلغ صاحبه
+    await this.redis.expire(this.knocksKey(roomId), KNOCK_TTL_SECONDS + 120);
+    await this.redis.sadd(this.ACTIVE_ROOMS_KEY, roomId);
+  }
+
+  async get(roomId: string, userId: string): Promise<RoomKnock | null> {
+    const value = await this.redis.hget(this.knocksKey(roomId), userId);
+    if (!value) return null;
+
+    const knock: RoomKnock = JSON.parse(value);
+    return knock.expiresAt > Date.now() ? knock : null;
+  }
+
+  /**
+   * Pending knocks, oldest first (expired ones are skipped)
+   */
+  async list(roomId: string): Promise<RoomKnock[]> {
+    const raw = await this.redis.hgetall(this.knocksKey(roomId));
+    const now = Date.now();
+
+    return Object.values(raw)
+      .map((value) => JSON.parse(value) as RoomKnock)
+      .filter((knock) => knock.expiresAt > now)
+      .sort((a, b) => a.knockedAt - b.knockedAt);
+  }
+
+  /**
+   * Remove a knock - returns it only to the first caller (one decision)
+   */
+  async take(roomId: string, userId: string): Promise<RoomKnock | null> {
+    const knock = await this.get(roomId, userId);
+    if (!knock) return null;
+
+    const decided = await this.redis.acquireLock(
+      `room:${roomId}:knock_decision:${userId}:${knock.knockedAt}`,
+      KNOCK_TTL_SECONDS,
+    );
+    if (!decided) return null;
+
+    await this.redis.hdel(this.knocksKey(roomId), userId);
+    return knock;
+  }
+
+  async remove(roomId: string, userId: string): Promise<void> {
+    await this.redis.hdel(this.knocksKey(roomId), userId);
+  }
+
+  // ================================
+  // ADMIT / DENY
+  // ================================
+
+  async grantPass(roomId: string, userId: string): Promise<void> {
+    await this.redis.set(
+      this.passKey(roomId, userId),
+      Date.now().toString(),
+      KNOCK_ADMIT_PASS_TTL_SECONDS,
+    );
+  }
+
+  /**
+   * Use the pass given on admit - returns true once, even for concurrent joins
+   */
+  async consumePass(roomId: string, userId: string): Promise<boolean> {
+    const key = this.passKey(roomId, userId);
+    const grantedAt = await this.redis.get(key);
+    if (!grantedAt) return false;
+
+    const claimed = await this.redis.acquireLock(
+      `${key}:used:${grantedAt}`,
+      KNOCK_ADMIT_PASS_TTL_SECONDS,
+    );
+    if (!claimed) return false;
+
+    await this.redis.del(key);
+    return true;
+  }
+
+  async markDenied(roomId: string, userId: string): Promise<void> {
+    await this.redis.set(
+      this.deniedKey(roomId, userId),
+      Date.now().toString(),
+      KNOCK_DENIED_COOLDOWN_SECONDS,
+    );
+  }
+
+  /**
+   * Seconds until the user may knock again after a denial (0 = allowed)
+   */
+  async getDeniedRetryAfter(roomId: string, userId: string): Promise<number> {
+    const deniedAt = await this.redis.get(this.deniedKey(roomId, userId));
+    if (!deniedAt) return 0;
+
+    const elapsed = (Date.now() - parseInt(deniedAt, 10)) / 1000;
+    return Math.max(0, Math.ceil(KNOCK_DENIED_COOLDOWN_SECONDS - elapsed));
+  }
+
+  // ================================
+  // EXPIRY (cron)
+  // ================================
+
+  /**
+   * Drop expired knocks and publish them so the gateway tells the users
+   */
+  async expireStale(): Promise<void> {
+    const roomIds = await this.redis.smembers(this.ACTIVE_ROOMS_KEY);
+    const now = Date.now();
+
+    for (const roomId of roomIds) {
+      const raw = await this.redis.hgetall(this.knocksKey(roomId));
+      const expired: string[] = [];
+
+      for (const [userId, value] of Object.entries(raw)) {
+        const knock: RoomKnock = JSON.parse(value);
+        if (knock.expiresAt <= now) {
+          await this.redis.hdel(this.knocksKey(roomId), userId);
+          expired.push(userId);
+        }
+      }
+
+      if (expired.length === Object.keys(raw).length) {
+        await this.redis.srem(this.ACTIVE_ROOMS_KEY, roomId);
+      }
+      if (expired.length > 0) {
+        const message: ExpiredRoomKnocks = { roomId, userIds: expired };
+        await this.redis.publish(ROOM_KNOCKS_EXPIRED_CHANNEL, message);
+        this.logger.log(`Expired ${expired.length} knocks in room ${roomId}`);
+      }
+    }
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private knocksKey(roomId: string): string {
+    return `room:${roomId}:knocks`;
+  }
+
+  private passKey(roomId: string, userId: string): string {
+    return `room:${roomId}:knock_pass:${userId}`;
+  }
+
+  private deniedKey(roomId: string, userId: string): string {
+    return `room:${roomId}:knock_denied:${userId}`;
+  }
+}
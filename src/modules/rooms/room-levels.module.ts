@@ -0,0 +1,14 @@
+/**
+ * Room Levels Module - نقاط الخبرة ومستويات الغرف
+ * Global: تُستخدم في RoomsService و AppGateway و GiftsService و ScheduledTasksService
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { RoomLevelsService } from "./room-levels.service";
+
+@Global()
+@Module({
+  providers: [RoomLevelsService],
+  exports: [RoomLevelsService],
+})
+export class RoomLevelsModule {}
@@ -0,0 +1,130 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { CacheService } from "../../common/cache/cache.service";
+import {
+  getLevelForXp,
+  getRoomLevelInfo,
+  getRoomPerks,
+  ROOM_XP_GIFT_COINS_PER_POINT,
+  ROOM_XP_PER_LISTENER_MINUTE,
+  ROOM_XP_PER_MESSAGE,
+} from "./room-levels";
+
+export type RoomXpSource = "listeners" | "message" | "gift";
+
+export const ROOM_LEVEL_UP_CHANNEL = "room:level_up";
+
+/**
+ * Room Levels - منح نقاط الخبرة للغرف وترقية المستوى
+ * الترقية تُنشر عبر Redis ليبثها AppGateway للغرفة
+ */
+@Injectable()
+export class RoomLevelsService {
+  private readonly logger = new Logger(RoomLevelsService.name);
+
+  // الرسائل التي تمنح نقاطاً لكل مستخدم في الساعة (منع التكرار للتسلق)
+  private readonly MESSAGE_XP_LIMIT_PER_HOUR = 30;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private cache: CacheService,
+  ) {}
+
+  // ================================
+  // XP SOURCES
+  // ================================
+
+  async addMessageXp(roomId: string, userId: string): Promise<void> {
+    const allowed = await this.redis.checkRateLimit(
+      `room_xp:message:${roomId}:${userId}`,
+      this.MESSAGE_XP_LIMIT_PER_HOUR,
+      3600,
+    );
+    if (!allowed) return;
+
+    await this.addXp(roomId, ROOM_XP_PER_MESSAGE, "message");
+  }
+
+  async addGiftXp(roomId: string, totalPrice: number): Promise<void> {
+    const xp = Math.max(
+      1,
+      Math.floor(totalPrice / ROOM_XP_GIFT_COINS_PER_POINT),
+    );
+    await this.addXp(roomId, xp, "gift");
+  }
+
+  /**
+   * Credit every room with listeners for the elapsed minutes (cron)
+   */
+  async awardListenerMinutes(minutes: number): Promise<number> {
+    const keys = await this.redis.keys("room:*:online");
+    let awarded = 0;
+
+    for (const key of keys) {
+      const roomId = key.slice("room:".length, -":online".length);
+      const listeners = await this.redis.getRoomOnlineCount(roomId);
+      if (listeners > 0) {
+        await this.addXp(
+          roomId,
+          listeners * minutes * ROOM_XP_PER_LISTENER_MINUTE,
+          "listeners",
+        );
+        awarded++;
+      }
+    }
+
+    return awarded;
+  }
+
+  // ================================
+  // LEVELS
+  // ================================
+
+  async addXp(
+    roomId: string,
+    amount: number,
+    source: RoomXpSource,
+  ): Promise<void> {
+    if (amount <= 0) return;
+
+    try {
+      const room = await this.prisma.room.update({
+        where: { id: roomId },
+        data: { xp: { increment: amount } },
+        select: { xp: true, level: true, maxMembers: true },
+      });
+
+      const level = getLevelForXp(room.xp);
+      if (level <= room.level) return;
+
+      const perks = getRoomPerks(level);
+
+      // شرط level < الجديد يمنع إعلان نفس الترقية مرتين
+      const { count } = await this.prisma.room.updateMany({
+        where: { id: roomId, level: { lt: level } },
+        data: {
+          level,
+          maxMembers: Math.max(room.maxMembers, perks.maxMembers),
+        },
+      });
+      if (count === 0) return;
+
+      await this.cache.invalidateRoom(roomId);
+
+      await this.redis.publish(ROOM_LEVEL_UP_CHANNEL, {
+        roomId,
+        previousLevel: room.level,
+        ...getRoomLevelInfo(room.xp),
+        source,
+        serverTs: Date.now(),
+      });
+
+      this.logger.log(`Room ${roomId} reached level ${level} (${room.xp} XP)`);
+    } catch (error) {
+      // الغرفة قد تكون حُذفت
+      this.logger.debug(`Failed to add XP to room ${roomId}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Room Levels - مستويات الغرف ومزاياها
+ * Room.xp يزيد من دقائق الاستماع والرسائل والهدايا، و Room.level يُحسب منه
+ */
+
+export interface RoomLevelPerks {
+  maxMembers: number;
+  maxMicSeats: number;
+  customBackground: boolean;
+  badge: string | null;
+}
+
+interface RoomLevelDefinition {
+  level: number;
+  xp: number; // مجموع النقاط المطلوب للوصول لهذا المستوى
+  perks: RoomLevelPerks;
+}
+
+export const ROOM_LEVELS: RoomLevelDefinition[] = [
+  {
+    level: 1,
+    xp: 0,
+    perks: {
+      maxMembers: 100,
+      maxMicSeats: 8,
+      customBackground: false,
+      badge: null,
+    },
+  },
+  {
+    level: 2,
+    xp: 500,
+    perks: {
+      maxMembers: 150,
+      maxMicSeats: 8,
+      customBackground: true,
+      badge: null,
+    },
+  },
+  {
+    level: 3,
+    xp: 2000,
+    perks: {
+      maxMembers: 200,
+      maxMicSeats: 10,
+      customBackground: true,
+      badge: null,
+    },
+  },
+  {
+    level: 4,
+    xp: 5000,
+    perks: {
+      maxMembers: 300,
+      maxMicSeats: 10,
+      customBackground: true,
+      badge: "bronze",
+    },
+  },
+  {
+    level: 5,
+    xp: 12000,
+    perks: {
+      maxMembers: 400,
+      maxMicSeats: 10,
+      customBackground: true,
+      badge: "bronze",
+    },
+  },
+  {
+    level: 6,
+    xp: 25000,
+    perks: {
+      maxMembers: 500,
+      maxMicSeats: 15,
+      customBackground: true,
+      badge: "silver",
+    },
+  },
+  {
+    level: 7,
+    xp: 50000,
+    perks: {
+      maxMembers: 600,
+      maxMicSeats: 15,
+      customBackground: true,
+      badge: "silver",
+    },
+  },
+  {
+    level: 8,
+    xp: 100000,
+    perks: {
+      maxMembers: 800,
+      maxMicSeats: 15,
+      customBackground: true,
+      badge: "gold",
+    },
+  },
+  {
+    level: 9,
+    xp: 200000,
+    perks: {
+      maxMembers: 900,
+      maxMicSeats: 15,
+      customBackground: true,
+      badge: "gold",
+    },
+  },
+  {
+    level: 10,
+    xp: 400000,
+    perks: {
+      maxMembers: 1000,
+      maxMicSeats: 15,
+      customBackground: true,
+      badge: "diamond",
+    },
+  },
+];
+
+export const MAX_ROOM_LEVEL = ROOM_LEVELS[ROOM_LEVELS.length - 1].level;
+
+// مصادر النقاط
+export const ROOM_XP_PER_LISTENER_MINUTE = 1;
+export const ROOM_XP_PER_MESSAGE = 2;
+export const ROOM_XP_GIFT_COINS_PER_POINT = 100;
+
+export function getLevelForXp(xp: number): number {
+  let level = 1;
+  for (const definition of ROOM_LEVELS) {
+    if (xp >= definition.xp) {
+      level = definition.level;
+    }
+  }
+  return level;
+}
+
+export function getRoomPerks(level: number): RoomLevelPerks {
+  const definition =
+    ROOM_LEVELS.find((l) => l.level === level) ||
+    (level > MAX_ROOM_LEVEL
+      ? ROOM_LEVELS[ROOM_LEVELS.length - 1]
+      : ROOM_LEVELS[0]);
+  return definition.perks;
+}
+
+/**
+ * Level, progress and perks for API responses
+ */
+export function getRoomLevelInfo(xp: number) {
+  const level = getLevelForXp(xp);
+  const current = ROOM_LEVELS.find((l) => l.level === level)!;
+  const next = ROOM_LEVELS.find((l) => l.level === level + 1);
+
+  return {
+    level,
+    xp,
+    currentLevelXp: current.xp,
+    nextLevelXp: next?.xp ?? null,
+    perks: current.perks,
+  };
+}
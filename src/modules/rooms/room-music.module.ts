@@ -0,0 +1,14 @@
+/**
+ * Room Music Module - مشغل الموسيقى في الغرف
+ * Global: تُستخدم في AppGateway
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { RoomMusicService } from "./room-music.service";
+
+@Global()
+@Module({
+  providers: [RoomMusicService],
+  exports: [RoomMusicService],
+})
+export class RoomMusicModule {}
@@ -0,0 +1,372 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { RoomPermissionsService } from "./room-permissions.service";
+import { MicStateService } from "./mic-state.service";
+
+export interface RoomMusicSong {
+  id: string;
+  name?: string;
+  title?: string;
+  artist?: string;
+  url: string;
+  coverUrl?: string;
+  category?: string;
+  durationSeconds?: number;
+}
+
+export const ROOM_MUSIC_REPEAT_MODES = ["off", "one", "all"] as const;
+
+export type RoomMusicRepeatMode = (typeof ROOM_MUSIC_REPEAT_MODES)[number];
+
+export interface RoomMusicState {
+  roomId: string;
+  playlist: RoomMusicSong[];
+  currentSong: RoomMusicSong | null;
+  isPlaying: boolean;
+  positionMs: number;
+  startedAt?: number | null;
+  updatedAt: number;
+  stateVersion: number;
+  updatedBy?: string;
+  // الـ DJ يتحكم بالموسيقى طالما هو على المايك
+  djUserId: string | null;
+  shuffle: boolean;
+  repeat: RoomMusicRepeatMode;
+}
+
+export type RoomMusicUpdateResult =
+  | { success: true; state: RoomMusicState }
+  | {
+      success: false;
+      error: "VERSION_CONFLICT" | "BUSY" | "NOT_FOUND" | "PLAYLIST_FULL";
+      state: RoomMusicState | null;
+    };
+
+export const ROOM_MUSIC_UPDATED_CHANNEL = "room_music:updated";
+
+const SONG_TEXT_FIELDS = ["name", "title", "artist", "category"] as const;
+const MAX_SONG_ID_LENGTH = 100;
+const MAX_SONG_TEXT_LENGTH = 200;
+const MAX_SONG_URL_LENGTH = 2048;
+const MAX_SONG_DURATION_SECONDS = 24 * 60 * 60;
+
+/**
+ * Room Music - حالة مشغل الموسيقى في الغرفة
+ * تُخزن في Redis حتى تبقى بعد إعادة التشغيل وتتطابق بين كل الـ instances.
+ * كل تعديل يزيد stateVersion، والعميل يرسل آخر نسخة رآها لرفض التعديلات القديمة
+ */
+@Injectable()
+export class RoomMusicService {
+  private readonly logger = new Logger(RoomMusicService.name);
+
+  private readonly STATE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+  private readonly MAX_PLAYLIST_SIZE = 200;
+  private readonly MAX_SAVED_PLAYLISTS = 20;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private roomPermissions: RoomPermissionsService,
+    private micState: MicStateService,
+  ) {}
+
+  // ================================
+  // STATE
+  // ================================
+
+  async get(roomId: string): Promise<RoomMusicState | null> {
+    const state = await this.redis.getJson<RoomMusicState>(
+      this.stateKey(roomId),
+    );
+    return state ? this.normalize(roomId, state) : null;
+  }
+
+  /**
+   * Apply a change to the room music state.
+   * expectedVersion (optional) must match the stored stateVersion.
+   * The mutator returns false to skip the write (nothing changed).
+   */
+  async update(
+    roomId: string,
+    userId: string,
+    expectedVersion: number | undefined,
+    mutate: (state: RoomMusicState) => boolean | void,
+    options: { create?: boolean } = {},
+  ): Promise<RoomMusicUpdateResult> {
+    const lockKey = `lock:room:${roomId}:music`;
+    if (!(await this.redis.acquireLock(lockKey, 5))) {
+      return { success: false, error: "BUSY", state: await this.get(roomId) };
+    }
+
+    try {
+      let state = await this.get(roomId);
+      if (!state) {
+        if (!options.create) {
+          return { success: false, error: "NOT_FOUND", state: null };
+        }
+        state = this.createDefault(roomId);
+      }
+
+      if (
+        Number.isInteger(expectedVersion) &&
+        expectedVersion !== state.stateVersion
+      ) {
+        return { success: false, error: "VERSION_CONFLICT", state };
+      }
+
+      if (mutate(state) === false) {
+        return { success: true, state };
+      }
+
+      if (state.playlist.length > this.MAX_PLAYLIST_SIZE) {
+        return {
+          success: false,
+          error: "PLAYLIST_FULL",
+          state: await this.get(roomId),
+        };
+      }
+
+      state.updatedAt = Date.now();
+      state.stateVersion = (state.stateVersion ?? 0) + 1;
+      state.updatedBy = userId;
+
+      await this.redis.setJson(
+        this.stateKey(roomId),
+        state,
+        this.STATE_TTL_SECONDS,
+      );
+      await this.redis.publish(ROOM_MUSIC_UPDATED_CHANNEL, state);
+
+      return { success: true, state };
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * Songs come from the client - keep only the known fields, bounded, and
+   * http(s) links. Returns null when the song is unusable.
+   */
+  sanitizeSong(input: unknown): RoomMusicSong | null {
+    if (!input || typeof input !== "object") return null;
+    const song = input as Record<string, unknown>;
+
+    const id = this.boundedString(song.id, MAX_SONG_ID_LENGTH);
+    const url = this.httpUrl(song.url);
+    if (!id || !url) return null;
+
+    const sanitized: RoomMusicSong = { id, url };
+    for (const field of SONG_TEXT_FIELDS) {
+      const value = this.boundedString(song[field], MAX_SONG_TEXT_LENGTH);
+      if (value) sanitized[field] = value;
+    }
+
+    const coverUrl = this.httpUrl(song.coverUrl);
+    if (coverUrl) sanitized.coverUrl = coverUrl;
+
+    const duration = song.durationSeconds;
+    if (
+      typeof duration === "number" &&
+      Number.isFinite(duration) &&
+      duration >= 0 &&
+      duration <= MAX_SONG_DURATION_SECONDS
+    ) {
+      sanitized.durationSeconds = Math.round(duration);
+    }
+
+    return sanitized;
+  }
+
+  // ================================
+  // PERMISSIONS
+  // ================================
+
+  /**
+   * Owner-chosen roles (manageMusic) or the DJ while seated on a mic
+   */
+  async canControl(roomId: string, userId: string): Promise<boolean> {
+    if (await this.roomPermissions.can(roomId, userId, "manageMusic")) {
+      return true;
+    }
+
+    const state = await this.get(roomId);
+    if (!state?.djUserId || state.djUserId !== userId) {
+      return false;
+    }
+
+    return this.isSeated(roomId, userId);
+  }
+
+  async isSeated(roomId: string, userId: string): Promise<boolean> {
+    const slots = await this.micState.getSlots(roomId);
+    return [...slots.values()].some((slot) => slot.userId === userId);
+  }
+
+  // ================================
+  // PLAYBACK HELPERS
+  // ================================
+
+  /**
+   * Move to the next song according to the shuffle / repeat modes
+   */
+  advance(state: RoomMusicState): void {
+    const next = this.pickNextSong(state);
+
+    state.currentSong = next;
+    state.positionMs = 0;
+    state.isPlaying = next != null;
+    state.startedAt = next ? Date.now() : null;
+  }
+
+  private pickNextSong(state: RoomMusicState): RoomMusicSong | null {
+    const { playlist, currentSong } = state;
+    if (playlist.length === 0) return null;
+
+    if (state.repeat === "one" && currentSong) {
+      return currentSong;
+    }
+
+    const currentIndex = currentSong
+      ? playlist.findIndex((s) => s.id === currentSong.id)
+      : -1;
+
+    if (state.shuffle && playlist.length > 1) {
+      const candidates = playlist.filter((_, i) => i !== currentIndex);
+      return candidates[Math.floor(Math.random() * candidates.length)];
+    }
+
+    if (currentIndex + 1 < playlist.length) {
+      return playlist[currentIndex + 1];
+    }
+
+    return state.repeat === "all" ? playlist[0] : null;
+  }
+
+  // ================================
+  // SAVED PLAYLISTS
+  // ================================
+
+  async listPlaylists(roomId: string) {
+    const playlists = await this.prisma.roomPlaylist.findMany({
+      where: { roomId },
+      orderBy: { updatedAt: "desc" },
+    });
+
+    return playlists.map((p) => ({
+      id: p.id,
+      name: p.name,
+      songCount: Array.isArray(p.songs) ? p.songs.length : 0,
+      createdBy: p.createdBy,
+      updatedAt: p.updatedAt,
+    }));
+  }
+
+  /**
+   * Save the live playlist under a name (overwrites the same name)
+   */
+  async savePlaylist(roomId: string, userId: string, name: string) {
+    const state = await this.get(roomId);
+    if (!state || state.playlist.length === 0) {
+      return { success: false, error: "EMPTY_PLAYLIST" };
+    }
+
+    const existing = await this.prisma.roomPlaylist.findUnique({
+      where: { roomId_name: { roomId, name } },
+      select: { id: true },
+    });
+    if (!existing) {
+      const count = await this.prisma.roomPlaylist.count({
+        where: { roomId },
+      });
+      if (count >= this.MAX_SAVED_PLAYLISTS) {
+        return { success: false, error: "TOO_MANY_PLAYLISTS" };
+      }
+    }
+
+    const songs = state.playlist as unknown as Prisma.InputJsonValue;
+    const playlist = await this.prisma.roomPlaylist.upsert({
+      where: { roomId_name: { roomId, name } },
+      create: { roomId, name, songs, createdBy: userId },
+      update: { songs },
+    });
+
+    this.logger.log(
+      `User ${userId} saved playlist "${name}" in room ${roomId}`,
+    );
+
+    return {
+      success: true,
+      playlist: {
+        id: playlist.id,
+        name: playlist.name,
+        songCount: state.playlist.length,
+      },
+    };
+  }
+
+  async getPlaylistSongs(
+    roomId: string,
+    playlistId: string,
+  ): Promise<RoomMusicSong[] | null> {
+    const playlist = await this.prisma.roomPlaylist.findFirst({
+      where: { id: playlistId, roomId },
+    });
+    if (!playlist || !Array.isArray(playlist.songs)) return null;
+
+    return playlist.songs
+      .map((song) => this.sanitizeSong(song))
+      .filter((song): song is RoomMusicSong => song !== null);
+  }
+
+  async deletePlaylist(roomId: string, playlistId: string): Promise<boolean> {
+    const { count } = await this.prisma.roomPlaylist.deleteMany({
+      where: { id: playlistId, roomId },
+    });
+    return count > 0;
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private boundedString(value: unknown, maxLength: number): string | null {
+    if (typeof value !== "string") return null;
+    const trimmed = value.trim();
+    return trimmed && trimmed.length <= maxLength ? trimmed : null;
+  }
+
+  private httpUrl(value: unknown): string | null {
+    const url = this.boundedString(value, MAX_SONG_URL_LENGTH);
+    return url && /^https?:\/\//i.test(url) ? url : null;
+  }
+
+  private stateKey(roomId: string): string {
+    return `room:${roomId}:music`;
+  }
+
+  private createDefault(roomId: string): RoomMusicState {
+    return {
+      roomId,
+      playlist: [],
+      currentSong: null,
+      isPlaying: false,
+      positionMs: 0,
+      startedAt: null,
+      updatedAt: Date.now(),
+      stateVersion: 0,
+      djUserId: null,
+      shuffle: false,
+      repeat: "off",
+    };
+  }
+
+  private normalize(roomId: string, state: RoomMusicState): RoomMusicState {
+    return {
+      ...this.createDefault(roomId),
+      ...state,
+      playlist: Array.isArray(state.playlist) ? state.playlist : [],
+    };
+  }
+}
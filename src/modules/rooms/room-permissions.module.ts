@@ -0,0 +1,14 @@
+/**
+ * Room Permissions Module - مصفوفة صلاحيات الغرف
+ * Global: تُستخدم في RoomsService و AppGateway و DiceGameGateway
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { RoomPermissionsService } from "./room-permissions.service";
+
+@Global()
+@Module({
+  providers: [RoomPermissionsService],
+  exports: [RoomPermissionsService],
+})
+export class RoomPermissionsModule {}
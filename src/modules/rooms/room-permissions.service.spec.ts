@@ -0,0 +1,187 @@
+/**
+ * Room Permissions Service Unit Tests
+ * اختبارات وحدة خدمة صلاحيات الغرفة
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { ForbiddenException, NotFoundException } from "@nestjs/common";
+import { MemberRole } from "@prisma/client";
+import {
+  DEFAULT_ROOM_PERMISSIONS,
+  RoomPermissionsService,
+} from "./room-permissions.service";
+import { PrismaService } from "../../common/prisma/prisma.service";
+
+describe("RoomPermissionsService", () => {
+  let service: RoomPermissionsService;
+
+  const mockPrismaService = {
+    room: {
+      findUnique: jest.fn(),
+    },
+    roomMember: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const room = (settings: unknown = {}) => ({
+    id: "room-1",
+    ownerId: "owner-1",
+    settings,
+  });
+
+  const member = (
+    role: MemberRole,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    role,
+    leftAt: null,
+    isBanned: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomPermissionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<RoomPermissionsService>(RoomPermissionsService);
+
+    jest.clearAllMocks();
+  });
+
+  describe("resolveMatrix", () => {
+    it("should return the defaults when nothing is stored", () => {
+      expect(service.resolveMatrix(null)).toEqual(DEFAULT_ROOM_PERMISSIONS);
+      expect(service.resolveMatrix({})).toEqual(DEFAULT_ROOM_PERMISSIONS);
+      expect(service.resolveMatrix(undefined)).toEqual(
+        DEFAULT_ROOM_PERMISSIONS,
+      );
+    });
+
+    it("should apply stored overrides on top of the role defaults", () => {
+      const matrix = service.resolveMatrix({
+        permissions: {
+          MODERATOR: { ban: true, kick: false },
+          MEMBER: { invite: true },
+        },
+      });
+
+      expect(matrix.MODERATOR).toEqual({
+        ...DEFAULT_ROOM_PERMISSIONS.MODERATOR,
+        ban: true,
+        kick: false,
+      });
+      expect(matrix.MEMBER).toEqual({
+        ...DEFAULT_ROOM_PERMISSIONS.MEMBER,
+        invite: true,
+      });
+      expect(matrix.ADMIN).toEqual(DEFAULT_ROOM_PERMISSIONS.ADMIN);
+    });
+
+    it("should ignore unknown permissions, roles and non-boolean values", () => {
+      const matrix = service.resolveMatrix({
+        permissions: {
+          OWNER: { kick: false },
+          MEMBER: { kick: "yes", fly: true },
+        },
+      });
+
+      expect(matrix).toEqual(DEFAULT_ROOM_PERMISSIONS);
+      expect(matrix).not.toHaveProperty("OWNER");
+      expect(matrix.MEMBER).not.toHaveProperty("fly");
+    });
+
+    it("should not mutate the shared defaults", () => {
+      service.resolveMatrix({ permissions: { ADMIN: { ban: false } } });
+
+      expect(DEFAULT_ROOM_PERMISSIONS.ADMIN.ban).toBe(true);
+    });
+  });
+
+  describe("can", () => {
+    it("should always allow the room owner", async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(
+        room({ permissions: { ADMIN: { kick: false } } }),
+      );
+
+      await expect(service.can("room-1", "owner-1", "editRoom")).resolves.toBe(
+        true,
+      );
+      expect(mockPrismaService.roomMember.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should follow the overridden matrix for members", async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(
+        room({ permissions: { MODERATOR: { kick: false } } }),
+      );
+      mockPrismaService.roomMember.findUnique.mockResolvedValue(
+        member(MemberRole.MODERATOR),
+      );
+
+      await expect(service.can("room-1", "mod-1", "kick")).resolves.toBe(false);
+      await expect(service.can("room-1", "mod-1", "mute")).resolves.toBe(true);
+    });
+
+    it("should deny members who left or are banned", async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(room());
+      mockPrismaService.roomMember.findUnique.mockResolvedValueOnce(
+        member(MemberRole.ADMIN, { leftAt: new Date() }),
+      );
+      mockPrismaService.roomMember.findUnique.mockResolvedValueOnce(
+        member(MemberRole.ADMIN, { isBanned: true }),
+      );
+
+      await expect(service.can("room-1", "admin-1", "kick")).resolves.toBe(
+        false,
+      );
+      await expect(service.can("room-1", "admin-1", "kick")).resolves.toBe(
+        false,
+      );
+    });
+
+    it("should deny when the room does not exist", async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(null);
+
+      await expect(service.can("room-1", "owner-1", "kick")).resolves.toBe(
+        false,
+      );
+    });
+  });
+
+  describe("assert", () => {
+    it("should return the room when allowed", async () => {
+      const stored = room();
+      mockPrismaService.room.findUnique.mockResolvedValue(stored);
+      mockPrismaService.roomMember.findUnique.mockResolvedValue(
+        member(MemberRole.ADMIN),
+      );
+
+      await expect(service.assert("room-1", "admin-1", "ban")).resolves.toBe(
+        stored,
+      );
+    });
+
+    it("should throw with the given message when denied", async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(room());
+      mockPrismaService.roomMember.findUnique.mockResolvedValue(
+        member(MemberRole.MEMBER),
+      );
+
+      await expect(
+        service.assert("room-1", "user-1", "kick", "ممنوع"),
+      ).rejects.toThrow(new ForbiddenException("ممنوع"));
+    });
+
+    it("should throw when the room does not exist", async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(null);
+
+      await expect(service.assert("room-1", "user-1", "kick")).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { MemberRole, Prisma, Room } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+
+export const ROOM_PERMISSIONS = [
+  "kick",
+  "ban",
+  "mute",
+  "deleteMessages",
+  "lockMics",
+  "manageMics",
+  "manageMusic",
+  "startGames",
+  "invite",
+  "editRoom",
+] as const;
+
+export type RoomPermission = (typeof ROOM_PERMISSIONS)[number];
+
+export type RoomPermissionSet = Record<RoomPermission, boolean>;
+
+// المالك يملك كل الصلاحيات دائماً ولا يمكن تعديلها
+export const CONFIGURABLE_ROLES = [
+  MemberRole.ADMIN,
+  MemberRole.MODERATOR,
+  MemberRole.MEMBER,
+] as const;
+
+export type ConfigurableRole = (typeof CONFIGURABLE_ROLES)[number];
+
+export type RoomPermissionMatrix = Record<ConfigurableRole, RoomPermissionSet>;
+
+const ALL_ALLOWED = Object.fromEntries(
+  ROOM_PERMISSIONS.map((p) => [p, true]),
+) as RoomPermissionSet;
+
+const NONE_ALLOWED = Object.fromEntries(
+  ROOM_PERMISSIONS.map((p) => [p, false]),
+) as RoomPermissionSet;
+
+export const DEFAULT_ROOM_PERMISSIONS: RoomPermissionMatrix = {
+  [MemberRole.ADMIN]: ALL_ALLOWED,
+  [MemberRole.MODERATOR]: {
+    ...NONE_ALLOWED,
+    kick: true,
+    mute: true,
+    deleteMessages: true,
+    manageMics: true,
+    manageMusic: true,
+    startGames: true,
+    invite: true,
+  },
+  [MemberRole.MEMBER]: NONE_ALLOWED,
+};
+
+/**
+ * Room Permissions - صلاحيات الغرفة لكل دور
+ * تُخزن في Room.settings.permissions وتُستخدم في REST و WebSocket
+ */
+@Injectable()
+export class RoomPermissionsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Resolve the matrix stored in room settings on top of the defaults
+   */
+  resolveMatrix(settings: Prisma.JsonValue | undefined): RoomPermissionMatrix {
+    const stored =
+      ((settings as Record<string, any> | null)?.permissions as Partial<
+        Record<ConfigurableRole, Partial<RoomPermissionSet>>
+      >) || {};
+
+    const matrix = {} as RoomPermissionMatrix;
+    for (const role of CONFIGURABLE_ROLES) {
+      const overrides = stored[role] || {};
+      matrix[role] = { ...DEFAULT_ROOM_PERMISSIONS[role] };
+      for (const permission of ROOM_PERMISSIONS) {
+        if (typeof overrides[permission] === "boolean") {
+          matrix[role][permission] = overrides[permission] as boolean;
+        }
+      }
+    }
+
+    return matrix;
+  }
+
+  /**
+   * Check if a user may perform an action in a room
+   */
+  async can(
+    roomId: string,
+    userId: string,
+    permission: RoomPermission,
+  ): Promise<boolean> {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+    });
+    if (!room) return false;
+
+    return this.hasPermission(room, userId, permission);
+  }
+
+  /**
+   * Same as can() but throws - returns the room for the caller
+   */
+  async assert(
+    roomId: string,
+    userId: string,
+    permission: RoomPermission,
+    message: string = "ليس لديك الصلاحية",
+  ): Promise<Room> {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+    });
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+
+    if (!(await this.hasPermission(room, userId, permission))) {
+      throw new ForbiddenException(message);
+    }
+
+    return room;
+  }
+
+  private async hasPermission(
+    room: Room,
+    userId: string,
+    permission: RoomPermission,
+  ): Promise<boolean> {
+    if (room.ownerId === userId) return true;
+
+    const membership = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId: room.id, userId } },
+      select: { role: true, leftAt: true, isBanned: true },
+    });
+
+    if (!membership || membership.leftAt || membership.isBanned) {
+      return false;
+    }
+    if (membership.role === MemberRole.OWNER) return true;
+
+    return this.resolveMatrix(room.settings)[membership.role][permission];
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Room Rules - قوانين الغرفة ورسالة الترحيب والإعلان المثبت
+ * تُخزن في Room.settings وتُستخدم في RoomsService و AppGateway
+ */
+
+export interface RoomRules {
+  items: string[];
+  // الانضمام يتطلب الموافقة على آخر نسخة من القوانين
+  requireAcceptance: boolean;
+  // تزيد عند تعديل نص القوانين - الأعضاء يوافقون من جديد
+  version: number;
+  updatedAt: string | null;
+}
+
+export interface RoomAnnouncement {
+  text: string;
+  pinnedBy: string;
+  pinnedAt: string;
+}
+
+export const MAX_ROOM_RULES = 20;
+export const MAX_ROOM_RULE_LENGTH = 300;
+export const MAX_WELCOME_MESSAGE_LENGTH = 500;
+export const MAX_ANNOUNCEMENT_LENGTH = 500;
+
+const EMPTY_RULES: RoomRules = {
+  items: [],
+  requireAcceptance: false,
+  version: 0,
+  updatedAt: null,
+};
+
+export function getRoomRules(settings: unknown): RoomRules {
+  const rules = (settings as { rules?: Partial<RoomRules> } | null)?.rules;
+  if (!rules) return EMPTY_RULES;
+
+  return {
+    items: Array.isArray(rules.items) ? rules.items : [],
+    requireAcceptance: !!rules.requireAcceptance,
+    version: rules.version ?? 0,
+    updatedAt: rules.updatedAt ?? null,
+  };
+}
+
+export function getWelcomeMessage(settings: unknown): string | null {
+  return (
+    (settings as { welcomeMessage?: string | null } | null)?.welcomeMessage ||
+    null
+  );
+}
+
+export function getAnnouncement(settings: unknown): RoomAnnouncement | null {
+  return (
+    (settings as { announcement?: RoomAnnouncement | null } | null)
+      ?.announcement || null
+  );
+}
+
+/**
+ * Whether a member must accept the rules before joining
+ */
+export function mustAcceptRules(
+  settings: unknown,
+  acceptedVersion: number | undefined,
+): boolean {
+  const rules = getRoomRules(settings);
+  return (
+    rules.requireAcceptance &&
+    rules.items.length > 0 &&
+    (acceptedVersion ?? 0) < rules.version
+  );
+}
+
+/**
+ * {name} in the welcome message is replaced with the joiner's name
+ */
+export function renderWelcomeMessage(message: string, name: string): string {
+  return message.replace(/\{name\}/g, name);
+}
@@ -24,8 +24,26 @@ import {
   UpdateMemberDto,
   RoomQueryDto,
   KickMemberDto,
+  UpdateMicLayoutDto,
+  ApproveMicRequestDto,
+  UpdateRoomPermissionsDto,
+  RoomAnalyticsQueryDto,
+  UpdateRoomRulesDto,
+  PinAnnouncementDto,
+  UpdateWordFilterDto,
+  ModerationLogQueryDto,
+  UpdateSlowModeDto,
+  FavoriteRoomDto,
+  CreateRoomEventDto,
+  UpdateRoomEventDto,
+  UpcomingEventsQueryDto,
+  CreateRoomInviteDto,
+  InviteFriendDto,
+  UpdateKnockModeDto,
 } from "./dto/rooms.dto";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { ApiKeyGuard } from "../auth/guards/api-key.guard";
+import { ApiKeyScopes } from "../auth/decorators/api-key-scopes.decorator";
 import { CurrentUser } from "../auth/decorators/current-user.decorator";
 
 @ApiTags("rooms")
@@ -49,6 +67,8 @@ export class RoomsController {
   }
 
   @Get()
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes("rooms:read")
   @ApiOperation({ summary: "قائمة الغرف" })
   async findAll(@Query() query: RoomQueryDto) {
     return this.roomsService.findAll(query);
@@ -60,7 +80,85 @@ export class RoomsController {
     return this.roomsService.getMyRooms(userId);
   }
 
+  @Get("archived")
+  @ApiOperation({ summary: "غرفي المحذوفة القابلة للاستعادة" })
+  async getArchivedRooms(@CurrentUser("id") userId: string) {
+    return this.roomsService.getArchivedRooms(userId);
+  }
+
+  @Get("favorites")
+  @ApiOperation({ summary: "غرفي المفضلة (المباشرة أولاً)" })
+  async getFavorites(@CurrentUser("id") userId: string) {
+    return this.roomsService.getFavorites(userId);
+  }
+
+  @Get("invites/:token")
+  @ApiOperation({ summary: "معاينة الغرفة من رابط الدعوة" })
+  async previewInvite(
+    @Param("token") token: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.previewInvite(token, userId);
+  }
+
+  @Get("events/upcoming")
+  @ApiOperation({ summary: "الفعاليات القادمة في كل الغرف" })
+  async getUpcomingEvents(
+    @Query() query: UpcomingEventsQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.getUpcomingEvents(userId, query);
+  }
+
+  @Get("events/:eventId")
+  @ApiOperation({ summary: "تفاصيل فعالية" })
+  async getRoomEvent(
+    @Param("eventId") eventId: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.getRoomEvent(eventId, userId);
+  }
+
+  @Put("events/:eventId")
+  @ApiOperation({ summary: "تعديل فعالية مجدولة" })
+  async updateRoomEvent(
+    @Param("eventId") eventId: string,
+    @Body() dto: UpdateRoomEventDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.updateRoomEvent(eventId, dto, userId);
+  }
+
+  @Delete("events/:eventId")
+  @ApiOperation({ summary: "إلغاء فعالية" })
+  async cancelRoomEvent(
+    @Param("eventId") eventId: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.cancelRoomEvent(eventId, userId);
+  }
+
+  @Post("events/:eventId/rsvp")
+  @ApiOperation({ summary: "تأكيد الحضور (تذكير + إشعار عند البدء)" })
+  async rsvpRoomEvent(
+    @Param("eventId") eventId: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.rsvpRoomEvent(eventId, userId);
+  }
+
+  @Delete("events/:eventId/rsvp")
+  @ApiOperation({ summary: "إلغاء تأكيد الحضور" })
+  async cancelRoomEventRsvp(
+    @Param("eventId") eventId: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.cancelRoomEventRsvp(eventId, userId);
+  }
+
   @Get("by-numeric-id/:numericId")
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes("rooms:read")
   @ApiOperation({ summary: "البحث عن غرفة بالرقم التعريفي" })
   async findByNumericId(
     @Param("numericId") numericId: string,
@@ -70,6 +168,8 @@ export class RoomsController {
   }
 
   @Get(":id")
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes("rooms:read")
   @ApiOperation({ summary: "تفاصيل غرفة" })
   async findById(@Param("id") id: string, @CurrentUser("id") userId: string) {
     return this.roomsService.findById(id, userId);
@@ -86,11 +186,17 @@ export class RoomsController {
   }
 
   @Delete(":id")
-  @ApiOperation({ summary: "حذف غرفة" })
+  @ApiOperation({ summary: "حذف غرفة (قابلة للاستعادة خلال 30 يوماً)" })
   async delete(@Param("id") id: string, @CurrentUser("id") userId: string) {
     return this.roomsService.delete(id, userId);
   }
 
+  @Post(":id/restore")
+  @ApiOperation({ summary: "استعادة غرفة محذوفة" })
+  async restore(@Param("id") id: string, @CurrentUser("id") userId: string) {
+    return this.roomsService.restore(id, userId);
+  }
+
   @Post(":id/join")
   @ApiOperation({ summary: "الانضمام لغرفة" })
   async join(
@@ -108,18 +214,24 @@ export class RoomsController {
   }
 
   @Get(":id/members/count")
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes("rooms:read")
   @ApiOperation({ summary: "عدد أعضاء الغرفة النشطين" })
   async getMembersCount(@Param("id") id: string) {
     return this.roomsService.getMembersCount(id);
   }
 
   @Get(":id/members/active")
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes("rooms:read")
   @ApiOperation({ summary: "الأعضاء النشطين في الغرفة" })
   async getActiveMembers(@Param("id") id: string) {
     return this.roomsService.getActiveMembers(id);
   }
 
   @Get(":id/members")
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes("rooms:read")
   @ApiOperation({ summary: "أعضاء الغرفة" })
   async getMembers(
     @Param("id") id: string,
@@ -267,6 +379,8 @@ export class RoomsController {
   // ================================
 
   @Get(":id/mic-slots")
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes("rooms:read")
   @ApiOperation({ summary: "الحصول على حالة المايكات" })
   async getMicSlots(@Param("id") id: string) {
     return this.roomsService.getMicSlots(id);
@@ -360,4 +474,308 @@ export class RoomsController {
   ) {
     return this.roomsService.unlockAllMicSlots(id, userId);
   }
+
+  @Get(":id/permissions")
+  @ApiOperation({ summary: "صلاحيات أدوار الغرفة" })
+  async getRoomPermissions(@Param("id") id: string) {
+    return this.roomsService.getRoomPermissions(id);
+  }
+
+  @Put(":id/permissions")
+  @ApiOperation({ summary: "تعديل صلاحيات دور في الغرفة (للمالك فقط)" })
+  async updateRoomPermissions(
+    @Param("id") id: string,
+    @Body() dto: UpdateRoomPermissionsDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.updateRoomPermissions(id, dto, userId);
+  }
+
+  @Get(":id/rules")
+  @ApiOperation({ summary: "قوانين الغرفة ورسالة الترحيب والإعلان المثبت" })
+  async getRoomRules(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.getRoomRules(id, userId);
+  }
+
+  @Put(":id/rules")
+  @ApiOperation({ summary: "تعديل قوانين الغرفة ورسالة الترحيب" })
+  async updateRoomRules(
+    @Param("id") id: string,
+    @Body() dto: UpdateRoomRulesDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.updateRoomRules(id, dto, userId);
+  }
+
+  @Post(":id/rules/accept")
+  @ApiOperation({ summary: "الموافقة على قوانين الغرفة" })
+  async acceptRoomRules(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.acceptRoomRules(id, userId);
+  }
+
+  @Put(":id/announcement")
+  @ApiOperation({ summary: "تثبيت إعلان في الغرفة" })
+  async pinAnnouncement(
+    @Param("id") id: string,
+    @Body() dto: PinAnnouncementDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.pinAnnouncement(id, dto, userId);
+  }
+
+  @Delete(":id/announcement")
+  @ApiOperation({ summary: "إزالة الإعلان المثبت" })
+  async unpinAnnouncement(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.unpinAnnouncement(id, userId);
+  }
+
+  @Post(":id/favorite")
+  @ApiOperation({ summary: "إضافة الغرفة للمفضلة" })
+  async addFavorite(
+    @Param("id") id: string,
+    @Body() dto: FavoriteRoomDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.addFavorite(id, userId, dto);
+  }
+
+  @Delete(":id/favorite")
+  @ApiOperation({ summary: "إزالة الغرفة من المفضلة" })
+  async removeFavorite(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.removeFavorite(id, userId);
+  }
+
+  @Put(":id/favorite/notifications")
+  @ApiOperation({ summary: "تفعيل/إيقاف إشعار بث الغرفة المفضلة" })
+  async setFavoriteNotifications(
+    @Param("id") id: string,
+    @Body() dto: FavoriteRoomDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.setFavoriteNotifications(id, userId, dto);
+  }
+
+  @Put(":id/knock-mode")
+  @ApiOperation({ summary: "تفعيل/إيقاف طرق الباب للغرفة الخاصة" })
+  async setKnockMode(
+    @Param("id") id: string,
+    @Body() dto: UpdateKnockModeDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.setKnockMode(id, dto, userId);
+  }
+
+  @Get(":id/knocks")
+  @ApiOperation({ summary: "طلبات الدخول المعلقة (للمالك والمشرفين)" })
+  async getKnocks(@Param("id") id: string, @CurrentUser("id") userId: string) {
+    return this.roomsService.getKnocks(id, userId);
+  }
+
+  @Delete(":id/knock")
+  @ApiOperation({ summary: "إلغاء طلب الدخول" })
+  async cancelKnock(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.cancelKnock(id, userId);
+  }
+
+  @Post(":id/knocks/:userId/admit")
+  @ApiOperation({ summary: "قبول طلب دخول" })
+  async admitKnock(
+    @Param("id") id: string,
+    @Param("userId") targetUserId: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.admitKnock(id, targetUserId, userId);
+  }
+
+  @Post(":id/knocks/:userId/deny")
+  @ApiOperation({ summary: "رفض طلب دخول" })
+  async denyKnock(
+    @Param("id") id: string,
+    @Param("userId") targetUserId: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.denyKnock(id, targetUserId, userId);
+  }
+
+  @Get(":id/invites")
+  @ApiOperation({ summary: "الدعوات الفعالة للغرفة (للمالك والمشرفين)" })
+  async getInvites(@Param("id") id: string, @CurrentUser("id") userId: string) {
+    return this.roomsService.getInvites(id, userId);
+  }
+
+  @Post(":id/invites")
+  @ApiOperation({ summary: "إنشاء رابط دعوة (صلاحية ومرات استخدام)" })
+  async createInviteLink(
+    @Param("id") id: string,
+    @Body() dto: CreateRoomInviteDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.createInviteLink(id, dto, userId);
+  }
+
+  @Post(":id/invites/friend")
+  @ApiOperation({ summary: "دعوة صديق للغرفة (إشعار + push)" })
+  async inviteFriend(
+    @Param("id") id: string,
+    @Body() dto: InviteFriendDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.inviteFriend(id, dto.friendId, userId);
+  }
+
+  @Delete(":id/invites/:inviteId")
+  @ApiOperation({ summary: "إلغاء دعوة" })
+  async revokeInvite(
+    @Param("id") id: string,
+    @Param("inviteId") inviteId: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.revokeInvite(id, inviteId, userId);
+  }
+
+  @Get(":id/events")
+  @ApiOperation({ summary: "فعاليات الغرفة القادمة والمباشرة" })
+  async getRoomEvents(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.getRoomEvents(id, userId);
+  }
+
+  @Post(":id/events")
+  @ApiOperation({ summary: "جدولة فعالية في الغرفة" })
+  async createRoomEvent(
+    @Param("id") id: string,
+    @Body() dto: CreateRoomEventDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.createRoomEvent(id, dto, userId);
+  }
+
+  @Get(":id/word-filter")
+  @ApiOperation({ summary: "قائمة الكلمات المحظورة في الغرفة" })
+  async getWordFilter(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.getWordFilter(id, userId);
+  }
+
+  @Put(":id/word-filter")
+  @ApiOperation({ summary: "تعديل قائمة الكلمات المحظورة وإجراءاتها" })
+  async updateWordFilter(
+    @Param("id") id: string,
+    @Body() dto: UpdateWordFilterDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.updateWordFilter(id, dto, userId);
+  }
+
+  @Put(":id/slow-mode")
+  @ApiOperation({ summary: "تفعيل/تعديل الوضع البطيء للدردشة" })
+  async updateSlowMode(
+    @Param("id") id: string,
+    @Body() dto: UpdateSlowModeDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.updateSlowMode(id, dto, userId);
+  }
+
+  @Get(":id/moderation-log")
+  @ApiOperation({ summary: "سجل الإشراف في الغرفة" })
+  async getModerationLog(
+    @Param("id") id: string,
+    @Query() query: ModerationLogQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.getModerationLog(id, userId, query);
+  }
+
+  @Get(":id/analytics")
+  @ApiOperation({ summary: "إحصائيات الغرفة (للمالك والمشرفين)" })
+  async getRoomAnalytics(
+    @Param("id") id: string,
+    @Query() query: RoomAnalyticsQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.getRoomAnalytics(id, userId, query);
+  }
+
+  @Put(":id/mic-layout")
+  @ApiOperation({ summary: "تغيير تخطيط المايكات (للمالك فقط)" })
+  async setMicLayout(
+    @Param("id") id: string,
+    @Body() dto: UpdateMicLayoutDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.setMicLayout(id, dto, userId);
+  }
+
+  @Post(":id/mic-queue")
+  @ApiOperation({ summary: "طلب الصعود على المايك (رفع اليد)" })
+  async requestMic(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.requestMic(id, userId);
+  }
+
+  @Delete(":id/mic-queue")
+  @ApiOperation({ summary: "إلغاء طلب المايك" })
+  async cancelMicRequest(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.cancelMicRequest(id, userId);
+  }
+
+  @Get(":id/mic-queue")
+  @ApiOperation({ summary: "قائمة طلبات المايك (المالك/المشرف)" })
+  async getMicQueue(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.getMicQueue(id, userId);
+  }
+
+  @Post(":id/mic-queue/:userId/approve")
+  @ApiOperation({ summary: "قبول طلب المايك إلى مقعد محدد (المالك/المشرف)" })
+  async approveMicRequest(
+    @Param("id") id: string,
+    @Param("userId") targetUserId: string,
+    @Body() dto: ApproveMicRequestDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.approveMicRequest(
+      id,
+      targetUserId,
+      dto.slotIndex,
+      userId,
+    );
+  }
+
+  @Post(":id/mic-queue/:userId/reject")
+  @ApiOperation({ summary: "رفض طلب المايك (المالك/المشرف)" })
+  async rejectMicRequest(
+    @Param("id") id: string,
+    @Param("userId") targetUserId: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    return this.roomsService.rejectMicRequest(id, targetUserId, userId);
+  }
 }
@@ -1,10 +1,10 @@
-import { Module } from "@nestjs/common";
+import { Module, forwardRef } from "@nestjs/common";
 import { RoomsController } from "./rooms.controller";
 import { RoomsService } from "./rooms.service";
 import { WebsocketModule } from "../websocket/websocket.module";
 
 @Module({
-  imports: [WebsocketModule],
+  imports: [forwardRef(() => WebsocketModule)],
   controllers: [RoomsController],
   providers: [RoomsService],
   exports: [RoomsService],
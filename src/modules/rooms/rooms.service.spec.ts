@@ -0,0 +1,633 @@
+/**
+ * Rooms Service Unit Tests
+ * اختبارات وحدة خدمة الغرف
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { RoomsService } from "./rooms.service";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { CacheService } from "../../common/cache/cache.service";
+import { AppGateway } from "../websocket/app.gateway";
+import { RoomPermissionsService } from "./room-permissions.service";
+import { MicStateService } from "./mic-state.service";
+import { RoomAnalyticsService } from "./room-analytics.service";
+import { WordFilterService } from "./word-filter.service";
+import { RoomFavoritesService } from "./room-favorites.service";
+import { RoomEventsService } from "./room-events.service";
+import { RoomInvitesService } from "./room-invites.service";
+import { RoomKnocksService } from "./room-knocks.service";
+import { ROOM_ARCHIVED_CHANNEL } from "./room-archive";
+
+describe("RoomsService", () => {
+  let service: RoomsService;
+  let redis: RedisService;
+  let room: any;
+  let micSlots: Map<number, any>;
+
+  const mockPrismaService: any = {
+    room: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    roomMember: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn((callback: any) => callback(mockPrismaService)),
+  };
+
+  const mockCacheService = {
+    invalidateRoom: jest.fn(),
+  };
+
+  const mockAppGateway = {
+    emitToRoom: jest.fn(),
+    emitToUser: jest.fn(),
+    removeFromMicQueue: jest.fn(),
+    broadcastMicQueue: jest.fn(),
+    notifyRoomUpdated: jest.fn(),
+  };
+
+  const mockRoomPermissionsService = {
+    assert: jest.fn(),
+    can: jest.fn(),
+  };
+
+  const mockMicStateService = {
+    getSlots: jest.fn(),
+    getSlot: jest.fn(),
+    setSlot: jest.fn(),
+    replaceSlots: jest.fn(),
+  };
+
+  const mockRoomFavoritesService = {
+    notifyRoomLive: jest.fn(),
+  };
+
+  const seated = (userId: string) => ({
+    userId,
+    userName: userId,
+    isLocked: false,
+    isMuted: false,
+  });
+
+  beforeEach(async () => {
+    // Redis بدون اتصال يستخدم التخزين في الذاكرة
+    redis = new RedisService(new ConfigService({ REDIS_ENABLED: "false" }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: redis },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: AppGateway, useValue: mockAppGateway },
+        {
+          provide: RoomPermissionsService,
+          useValue: mockRoomPermissionsService,
+        },
+        { provide: MicStateService, useValue: mockMicStateService },
+        { provide: RoomAnalyticsService, useValue: {} },
+        { provide: WordFilterService, useValue: {} },
+        { provide: RoomFavoritesService, useValue: mockRoomFavoritesService },
+        { provide: RoomEventsService, useValue: {} },
+        { provide: RoomInvitesService, useValue: {} },
+        { provide: RoomKnocksService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<RoomsService>(RoomsService);
+
+    jest.clearAllMocks();
+
+    room = {
+      id: "room-1",
+      ownerId: "owner-1",
+      level: 1,
+      status: "ACTIVE",
+      deletedAt: null,
+      settings: {},
+    };
+    micSlots = new Map();
+
+    mockPrismaService.room.findUnique.mockImplementation(async () => room);
+    mockPrismaService.room.update.mockImplementation(async ({ data }: any) => {
+      room = { ...room, ...data };
+      return room;
+    });
+    mockPrismaService.roomMember.findUnique.mockResolvedValue({
+      role: "OWNER",
+    });
+    mockRoomPermissionsService.assert.mockImplementation(async () => room);
+    mockMicStateService.getSlots.mockImplementation(
+      async () => new Map(micSlots),
+    );
+    mockMicStateService.getSlot.mockImplementation(
+      async (_roomId: string, index: number) => micSlots.get(index) ?? null,
+    );
+    mockMicStateService.setSlot.mockImplementation(
+      async (_roomId: string, index: number, data: any) => {
+        micSlots.set(index, data);
+      },
+    );
+    mockMicStateService.replaceSlots.mockImplementation(
+      async (_roomId: string, slots: Map<number, any>) => {
+        micSlots = new Map(slots);
+      },
+    );
+  });
+
+  describe("setMicLayout", () => {
+    it("should not allow more seats than the room level permits", async () => {
+      await expect(
+        service.setMicLayout("room-1", { seats: 10 }, "owner-1"),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockMicStateService.replaceSlots).not.toHaveBeenCalled();
+    });
+
+    it("should only allow the owner to change the layout", async () => {
+      mockPrismaService.roomMember.findUnique.mockResolvedValue({
+        role: "ADMIN",
+      });
+
+      await expect(
+        service.setMicLayout("room-1", { seats: 5 }, "admin-1"),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("should refuse while another layout change holds the lock", async () => {
+      jest.spyOn(redis, "acquireLock").mockResolvedValueOnce(false);
+
+      await expect(
+        service.setMicLayout("room-1", { seats: 5 }, "owner-1"),
+      ).rejects.toThrow(ConflictException);
+      expect(mockMicStateService.getSlots).not.toHaveBeenCalled();
+    });
+
+    it("should migrate occupants and persist the new layout", async () => {
+      micSlots.set(0, seated("a"));
+      micSlots.set(6, seated("b"));
+
+      const result = await service.setMicLayout(
+        "room-1",
+        { seats: 5, hostSeat: true },
+        "owner-1",
+      );
+
+      expect(result.layout).toEqual({ seats: 5, hostSeat: true });
+      expect(result.slots).toHaveLength(6);
+      expect(micSlots.get(0)).toBeUndefined();
+      expect(micSlots.get(1)?.userId).toBe("a");
+      expect(micSlots.get(2)?.userId).toBe("b");
+      expect(room.settings.micLayout).toEqual({ seats: 5, hostSeat: true });
+      expect(mockCacheService.invalidateRoom).toHaveBeenCalledWith("room-1");
+      expect(mockAppGateway.emitToRoom).toHaveBeenCalledWith(
+        "room-1",
+        "mic_slot_updated",
+        expect.objectContaining({ animation: "layout" }),
+      );
+      await expect(
+        redis.acquireLock("lock:room:room-1:mic_layout", 10),
+      ).resolves.toBe(true);
+    });
+
+    it("should kick occupants that no longer fit", async () => {
+      room.settings = { micLayout: { seats: 5, hostSeat: false } };
+      for (let i = 0; i < 5; i++) {
+        micSlots.set(i, seated(`user-${i}`));
+      }
+
+      await service.setMicLayout("room-1", { seats: 2 }, "owner-1");
+
+      expect([...micSlots.keys()]).toEqual([0, 1]);
+      const kicked = mockAppGateway.emitToRoom.mock.calls
+        .filter(([, event]) => event === "mic_kick")
+        .map(([, , payload]) => payload);
+      expect(kicked.map((p) => p.kickedUserId)).toEqual([
+        "user-2",
+        "user-3",
+        "user-4",
+      ]);
+      expect(kicked[0].reason).toBe("layout_changed");
+    });
+  });
+
+  describe("mic slot validation", () => {
+    it("should reject a slot outside the room layout", async () => {
+      room.settings = { micLayout: { seats: 5, hostSeat: false } };
+
+      await expect(service.lockMicSlot("room-1", 5, "owner-1")).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockMicStateService.setSlot).not.toHaveBeenCalled();
+    });
+
+    it("should accept the extra host seat slot", async () => {
+      room.settings = { micLayout: { seats: 5, hostSeat: true } };
+
+      await expect(
+        service.lockMicSlot("room-1", 5, "owner-1"),
+      ).resolves.toEqual(expect.objectContaining({ success: true }));
+    });
+
+    it("should keep members without mic management off the host seat", async () => {
+      room.settings = { micLayout: { seats: 5, hostSeat: true } };
+      mockRoomPermissionsService.can.mockResolvedValue(false);
+
+      await expect(service.enterMicSlot("room-1", 0, "user-1")).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockMicStateService.setSlot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("mic queue", () => {
+    const membership = (user: Record<string, unknown> = {}) => ({
+      leftAt: null,
+      isBanned: false,
+      room: { deletedAt: null },
+      user: {
+        displayName: "user",
+        username: "user",
+        avatar: null,
+        numericId: null,
+        isVIP: false,
+        vipExpiresAt: null,
+        ...user,
+      },
+    });
+
+    const requestAt = async (
+      userId: string,
+      at: number,
+      user: Record<string, unknown> = {},
+    ) => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(at);
+      mockPrismaService.roomMember.findUnique.mockResolvedValueOnce(
+        membership(user),
+      );
+      try {
+        return await service.requestMic("room-1", userId);
+      } finally {
+        now.mockRestore();
+      }
+    };
+
+    const queueOrder = async () =>
+      (await redis.getMicRequests("room-1")).map((r) => r.userId);
+
+    it("should put VIP requests ahead of earlier regular requests", async () => {
+      await requestAt("regular-1", 1000);
+      await requestAt("vip-1", 2000, { isVIP: true });
+      await requestAt("regular-2", 3000);
+      const result = await requestAt("vip-2", 4000, { isVIP: true });
+
+      expect(result).toEqual({ success: true, position: 2, isVip: true });
+      expect(await queueOrder()).toEqual([
+        "vip-1",
+        "vip-2",
+        "regular-1",
+        "regular-2",
+      ]);
+      expect(mockAppGateway.broadcastMicQueue).toHaveBeenCalledWith("room-1");
+    });
+
+    it("should queue an expired VIP as a regular member", async () => {
+      await requestAt("regular-1", 1000);
+      const result = await requestAt("expired-vip", 2000, {
+        isVIP: true,
+        vipExpiresAt: new Date(Date.now() - 1000),
+      });
+
+      expect(result.isVip).toBe(false);
+      expect(await queueOrder()).toEqual(["regular-1", "expired-vip"]);
+    });
+
+    it("should not queue the same user twice", async () => {
+      await requestAt("user-1", 1000);
+
+      await expect(requestAt("user-1", 2000)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(await queueOrder()).toEqual(["user-1"]);
+    });
+
+    it("should not queue a user who is already on the mic", async () => {
+      micSlots.set(2, seated("user-1"));
+
+      await expect(requestAt("user-1", 1000)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe("mic grants", () => {
+    beforeEach(async () => {
+      mockRoomPermissionsService.can.mockResolvedValue(false);
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: "user-1",
+        displayName: "User",
+        username: "user",
+      });
+      await redis.addMicRequest("room-1", "user-1", 1000, {});
+    });
+
+    it("should keep locked slots closed without a grant", async () => {
+      await expect(service.enterMicSlot("room-1", 2, "user-1")).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it("should let an approved user take the granted slot once", async () => {
+      await service.approveMicRequest("room-1", "user-1", 2, "owner-1");
+
+      expect(await redis.getMicRequests("room-1")).toEqual([]);
+      await expect(
+        service.enterMicSlot("room-1", 2, "user-1"),
+      ).resolves.toEqual(expect.objectContaining({ success: true }));
+      expect(micSlots.get(2)?.userId).toBe("user-1");
+
+      micSlots.set(2, { userId: null, isLocked: true });
+      await expect(service.enterMicSlot("room-1", 2, "user-1")).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it("should not open a different slot than the one granted", async () => {
+      await service.approveMicRequest("room-1", "user-1", 2, "owner-1");
+
+      await expect(service.enterMicSlot("room-1", 3, "user-1")).rejects.toThrow(
+        ForbiddenException,
+      );
+      await expect(
+        service.enterMicSlot("room-1", 2, "user-1"),
+      ).resolves.toEqual(expect.objectContaining({ success: true }));
+    });
+
+    it("should not let another user use the grant", async () => {
+      await service.approveMicRequest("room-1", "user-1", 2, "owner-1");
+
+      await expect(service.enterMicSlot("room-1", 2, "user-2")).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(await redis.consumeMicGrant("room-1", "user-1", 2)).toBe(true);
+    });
+  });
+
+  describe("room rules", () => {
+    const member = (rulesAcceptedVersion: number) => ({
+      id: "member-1",
+      role: "MEMBER",
+      isBanned: false,
+      leftAt: null,
+      rulesAcceptedVersion,
+    });
+
+    beforeEach(() => {
+      room.settings = {
+        rules: {
+          items: ["be nice"],
+          requireAcceptance: true,
+          version: 1,
+          updatedAt: null,
+        },
+      };
+      mockPrismaService.roomMember.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it("should bump the version when the rules text changes", async () => {
+      const { rules } = await service.updateRoomRules(
+        "room-1",
+        { items: ["be nice", "no spam"] },
+        "owner-1",
+      );
+
+      expect(rules.version).toBe(2);
+      expect(room.settings.rules.version).toBe(2);
+      expect(mockPrismaService.roomMember.updateMany).toHaveBeenCalledWith({
+        where: { roomId: "room-1", userId: "owner-1" },
+        data: { rulesAcceptedVersion: 2 },
+      });
+    });
+
+    it("should keep the version when the rules text is unchanged", async () => {
+      const { rules } = await service.updateRoomRules(
+        "room-1",
+        { items: [" be nice "], welcomeMessage: "hi" },
+        "owner-1",
+      );
+
+      expect(rules.version).toBe(1);
+    });
+
+    it("should make members accept again after a version bump", async () => {
+      mockPrismaService.roomMember.findUnique.mockResolvedValue(member(1));
+      await expect(service.join("room-1", "user-1")).resolves.toEqual(
+        expect.objectContaining({ alreadyMember: true }),
+      );
+
+      await service.updateRoomRules(
+        "room-1",
+        { items: ["be nice", "no spam"] },
+        "owner-1",
+      );
+
+      const error = await service.join("room-1", "user-1").catch((e) => e);
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({
+          code: "RULES_NOT_ACCEPTED",
+          rules: expect.objectContaining({ version: 2 }),
+        }),
+      );
+      expect(mockPrismaService.roomMember.update).not.toHaveBeenCalled();
+
+      await service.join("room-1", "user-1", { acceptRules: true });
+      expect(mockPrismaService.roomMember.update).toHaveBeenCalledWith({
+        where: { id: "member-1" },
+        data: { rulesAcceptedVersion: 2 },
+      });
+    });
+
+    it("should not ask the owner to accept the rules", async () => {
+      mockPrismaService.roomMember.findUnique.mockResolvedValue({
+        ...member(0),
+        role: "OWNER",
+      });
+
+      await expect(service.join("room-1", "owner-1")).resolves.toEqual(
+        expect.objectContaining({ alreadyMember: true }),
+      );
+    });
+  });
+
+  describe("checkChatRateLimit", () => {
+    let now: number;
+    let clock: jest.SpyInstance;
+
+    beforeEach(() => {
+      now = 1_700_000_000_000;
+      clock = jest.spyOn(Date, "now").mockImplementation(() => now);
+      room.settings = { slowMode: { intervalSeconds: 30, exemptVip: true } };
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        isVIP: false,
+        vipExpiresAt: null,
+      });
+    });
+
+    afterEach(() => {
+      clock.mockRestore();
+    });
+
+    const send = (userId = "user-1", role = "MEMBER" as any) =>
+      service.checkChatRateLimit("room-1", userId, role);
+
+    it("should reject a second message inside the interval with the time left", async () => {
+      await expect(send()).resolves.toEqual({ allowed: true });
+
+      now += 10_000;
+      await expect(send()).resolves.toEqual(
+        expect.objectContaining({
+          allowed: false,
+          reason: "SLOW_MODE",
+          retryAfter: 20,
+        }),
+      );
+
+      now += 20_000;
+      await expect(send()).resolves.toEqual({ allowed: true });
+    });
+
+    it("should let only one of several concurrent messages through", async () => {
+      const results = await Promise.all([send(), send(), send()]);
+
+      expect(results.filter((r) => r.allowed)).toHaveLength(1);
+    });
+
+    it("should track each member separately", async () => {
+      await send("user-1");
+
+      await expect(send("user-2")).resolves.toEqual({ allowed: true });
+    });
+
+    it("should exempt owners, admins and active VIPs", async () => {
+      await send("admin-1", "ADMIN");
+      await expect(send("admin-1", "ADMIN")).resolves.toEqual({
+        allowed: true,
+      });
+
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        isVIP: true,
+        vipExpiresAt: null,
+      });
+      await send("vip-1");
+      await expect(send("vip-1")).resolves.toEqual({ allowed: true });
+    });
+
+    it("should apply the burst limit when slow mode is off", async () => {
+      room.settings = {};
+
+      for (let i = 0; i < 5; i++) {
+        await expect(send("owner-1", "OWNER")).resolves.toEqual({
+          allowed: true,
+        });
+      }
+      await expect(send("owner-1", "OWNER")).resolves.toEqual(
+        expect.objectContaining({ allowed: false, reason: "BURST" }),
+      );
+    });
+
+    it("should read the new interval after slow mode is updated", async () => {
+      await send();
+      expect(mockPrismaService.room.findUnique).toHaveBeenCalledTimes(1);
+
+      await service.updateSlowMode("room-1", { intervalSeconds: 0 }, "owner-1");
+
+      await expect(send("user-2")).resolves.toEqual({ allowed: true });
+      await expect(send("user-2")).resolves.toEqual({ allowed: true });
+      expect(mockPrismaService.room.findUnique).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("archive and restore", () => {
+    const DAY = 24 * 60 * 60 * 1000;
+
+    it("should archive the room and tell every instance", async () => {
+      const publish = jest.spyOn(redis, "publish");
+
+      const result = await service.delete("room-1", "owner-1");
+
+      expect(room.deletedAt).toBeInstanceOf(Date);
+      expect(room.deletedBy).toBe("owner-1");
+      expect(result.restorableUntil.getTime()).toBe(
+        room.deletedAt.getTime() + 30 * DAY,
+      );
+      expect(publish).toHaveBeenCalledWith(ROOM_ARCHIVED_CHANNEL, {
+        roomId: "room-1",
+      });
+      expect(mockCacheService.invalidateRoom).toHaveBeenCalledWith("room-1");
+    });
+
+    it("should not archive a room twice", async () => {
+      room.deletedAt = new Date();
+
+      await expect(service.delete("room-1", "owner-1")).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it("should restore a room archived by its owner", async () => {
+      room.deletedAt = new Date(Date.now() - 5 * DAY);
+      room.deletedBy = "owner-1";
+      mockPrismaService.room.count.mockResolvedValue(0);
+
+      await service.restore("room-1", "owner-1");
+
+      expect(room.deletedAt).toBeNull();
+      expect(room.deletedBy).toBeNull();
+    });
+
+    it("should not restore past the restore window", async () => {
+      room.deletedAt = new Date(Date.now() - 31 * DAY);
+      room.deletedBy = "owner-1";
+
+      await expect(service.restore("room-1", "owner-1")).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it("should not let the owner restore a room removed by staff", async () => {
+      room.deletedAt = new Date();
+      room.deletedBy = "admin-1";
+
+      await expect(service.restore("room-1", "owner-1")).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it("should not restore while the owner has another active room", async () => {
+      room.deletedAt = new Date();
+      room.deletedBy = "owner-1";
+      mockPrismaService.room.count.mockResolvedValue(1);
+
+      const error = await service.restore("room-1", "owner-1").catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse().error).toBe("MAX_ROOMS_REACHED");
+      expect(room.deletedAt).not.toBeNull();
+    });
+  });
+});
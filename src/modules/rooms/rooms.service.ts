@@ -5,12 +5,62 @@ import {
   ConflictException,
   BadRequestException,
   Logger,
+  Inject,
+  forwardRef,
+  HttpException,
+  HttpStatus,
 } from "@nestjs/common";
 import * as argon2 from "argon2";
 import { PrismaService } from "../../common/prisma/prisma.service";
 import { RedisService } from "../../common/redis/redis.service";
 import { CacheService, CACHE_TTL } from "../../common/cache/cache.service";
 import { AppGateway } from "../websocket/app.gateway";
+import {
+  RoomPermissionsService,
+  RoomPermission,
+  ROOM_PERMISSIONS,
+} from "./room-permissions.service";
+import { MicStateService } from "./mic-state.service";
+import { RoomAnalyticsService } from "./room-analytics.service";
+import { getRoomLevelInfo, getRoomPerks } from "./room-levels";
+import {
+  getAnnouncement,
+  getRoomRules,
+  getWelcomeMessage,
+  mustAcceptRules,
+  RoomAnnouncement,
+} from "./room-rules";
+import { WordFilterService } from "./word-filter.service";
+import { RoomFavoritesService } from "./room-favorites.service";
+import { RoomEventsService } from "./room-events.service";
+import { RoomInvitesService } from "./room-invites.service";
+import {
+  getRoomPurgeCutoff,
+  getRoomRestoreDeadline,
+  MAX_ROOMS_PER_USER,
+  ROOM_ARCHIVED_CHANNEL,
+  ROOM_RESTORE_WINDOW_DAYS,
+  RoomArchivedMessage,
+} from "./room-archive";
+import {
+  isKnockModeEnabled,
+  KNOCK_ADMIT_PASS_TTL_SECONDS,
+  KNOCK_DENIED_COOLDOWN_SECONDS,
+  KNOCK_TTL_SECONDS,
+  RoomKnocksService,
+} from "./room-knocks.service";
+import {
+  CHAT_BURST_LIMIT,
+  CHAT_BURST_WINDOW_SECONDS,
+  ChatRateLimitResult,
+  getSlowMode,
+  RoomSlowMode,
+} from "./slow-mode";
+import {
+  DEFAULT_WORD_FILTER_MUTE_MINUTES,
+  getRoomWordFilter,
+  WordFilterAction,
+} from "./word-filter";
 import {
   CreateRoomDto,
   UpdateRoomDto,
@@ -18,7 +68,30 @@ import {
   UpdateMemberDto,
   RoomQueryDto,
   KickMemberDto,
+  UpdateMicLayoutDto,
+  UpdateRoomPermissionsDto,
+  RoomAnalyticsQueryDto,
+  UpdateRoomRulesDto,
+  PinAnnouncementDto,
+  UpdateWordFilterDto,
+  ModerationLogQueryDto,
+  UpdateSlowModeDto,
+  FavoriteRoomDto,
+  CreateRoomEventDto,
+  UpdateRoomEventDto,
+  UpcomingEventsQueryDto,
+  CreateRoomInviteDto,
+  UpdateKnockModeDto,
 } from "./dto/rooms.dto";
+import {
+  MicLayout,
+  MicLayoutSeats,
+  getMicLayout,
+  getMicSlotCount,
+  isHostSeat,
+  isValidMicSlot,
+  migrateMicSlots,
+} from "./mic-layout";
 import {
   RoomStatus,
   MemberRole,
@@ -28,6 +101,15 @@ import {
   RoomMember,
 } from "@prisma/client";
 
+export interface MessageModerationResult {
+  allowed: boolean;
+  // المحتوى بعد الإخفاء (mask) أو الأصلي
+  content: string;
+  action: WordFilterAction | null;
+  error?: "MESSAGE_BLOCKED" | "USER_MUTED" | "USER_KICKED";
+  message?: string;
+}
+
 @Injectable()
 export class RoomsService {
   private readonly logger = new Logger(RoomsService.name);
@@ -36,14 +118,32 @@ export class RoomsService {
     private prisma: PrismaService,
     private redis: RedisService,
     private cache: CacheService,
+    @Inject(forwardRef(() => AppGateway))
     private gateway: AppGateway,
+    private roomPermissions: RoomPermissionsService,
+    private micState: MicStateService,
+    private roomAnalytics: RoomAnalyticsService,
+    private wordFilter: WordFilterService,
+    private roomFavorites: RoomFavoritesService,
+    private roomEvents: RoomEventsService,
+    private roomInvites: RoomInvitesService,
+    private roomKnocks: RoomKnocksService,
   ) {}
 
   // ================================
   // ROOM CREATION CONSTANTS
   // ================================
   private readonly ROOM_CREATION_COST = 300000; // 300,000 نقطة
-  private readonly MAX_ROOMS_PER_USER = 1; // غرفة واحدة لكل مستخدم
+  private readonly MAX_ROOMS_PER_USER = MAX_ROOMS_PER_USER; // غرفة واحدة لكل مستخدم
+
+  // ================================
+  // MIC QUEUE CONSTANTS
+  // ================================
+  private readonly MIC_INVITE_TTL_SECONDS = 60; // مدة صلاحية دعوة المايك
+  private readonly MAX_MIC_QUEUE_SIZE = 50;
+  // طلبات غير VIP تُرتب بعد كل طلبات VIP (score = وقت الطلب + الإزاحة)
+  private readonly MIC_QUEUE_NON_VIP_OFFSET = 1e13;
+  private readonly MAX_PENDING_KNOCKS = 50;
 
   // ================================
   // CREATE ROOM
@@ -59,6 +159,7 @@ export class RoomsService {
       where: {
         ownerId: userId,
         status: RoomStatus.ACTIVE,
+        deletedAt: null,
       },
     });
 
@@ -174,6 +275,7 @@ export class RoomsService {
         where: {
           ownerId: userId,
           status: RoomStatus.ACTIVE,
+          deletedAt: null,
         },
       }),
     ]);
@@ -213,6 +315,8 @@ export class RoomsService {
       search,
       type,
       category,
+      minLevel,
+      maxLevel,
       sortBy = "currentMembers",
       sortOrder = "desc",
     } = query;
@@ -220,6 +324,7 @@ export class RoomsService {
 
     const where: any = {
       status: RoomStatus.ACTIVE,
+      deletedAt: null,
     };
 
     if (search) {
@@ -241,6 +346,13 @@ export class RoomsService {
       };
     }
 
+    if (minLevel || maxLevel) {
+      where.level = {
+        ...(minLevel && { gte: minLevel }),
+        ...(maxLevel && { lte: maxLevel }),
+      };
+    }
+
     const [rooms, total] = await Promise.all([
       this.prisma.room.findMany({
         where,
@@ -256,6 +368,8 @@ export class RoomsService {
           isPasswordProtected: true,
           ownerId: true, // 🔐 إضافة ownerId مباشرة
           settings: true, // 👑 إعدادات الغرفة (isVip, vipExpiresAt, etc.)
+          xp: true,
+          level: true,
           createdAt: true,
           owner: {
             select: {
@@ -284,6 +398,7 @@ export class RoomsService {
     const roomsWithOnline = await Promise.all(
       rooms.map(async (room) => ({
         ...room,
+        badge: getRoomPerks(room.level).badge,
         onlineCount: await this.redis.getRoomOnlineCount(room.id),
       })),
     );
@@ -301,6 +416,11 @@ export class RoomsService {
       if (aIsVip && !bIsVip) return -1;
       if (!aIsVip && bIsVip) return 1;
       
+      // ترتيب حسب المستوى عند طلبه
+      if (sortBy === "level" && a.level !== b.level) {
+        return sortOrder === "asc" ? a.level - b.level : b.level - a.level;
+      }
+
       // ترتيب حسب الأعضاء للغرف من نفس النوع
       return (b.currentMembers || 0) - (a.currentMembers || 0);
     });
@@ -350,7 +470,8 @@ export class RoomsService {
       },
     });
 
-    if (!room) {
+    // الغرف المؤرشفة لا تظهر
+    if (!room || room.deletedAt) {
       throw new NotFoundException("الغرفة غير موجودة");
     }
 
@@ -367,6 +488,10 @@ export class RoomsService {
     // Get online users
     const onlineUsers = await this.redis.getRoomOnlineUsers(roomId);
 
+    const favorite = userId
+      ? await this.roomFavorites.isFavorite(roomId, userId)
+      : { isFavorite: false, notifyLive: false };
+
     // Get banned users
     const bannedMembers = await this.prisma.roomMember.findMany({
       where: { roomId, isBanned: true },
@@ -402,10 +527,12 @@ export class RoomsService {
     return {
       ...room,
       passwordHash: undefined, // Never expose
+      levelInfo: getRoomLevelInfo(room.xp),
       onlineCount: onlineUsers.length,
       onlineUsers,
       isMember: !!membership,
       memberRole: membership?.role,
+      ...favorite,
       bannedUsers: bannedMembers.map(m => ({
         odId: m.user.id,
         odName: m.user.displayName || m.user.username,
@@ -454,7 +581,8 @@ export class RoomsService {
       },
     });
 
-    if (!room) {
+    // الغرف المؤرشفة لا تظهر
+    if (!room || room.deletedAt) {
       throw new NotFoundException("الغرفة غير موجودة");
     }
 
@@ -476,6 +604,7 @@ export class RoomsService {
     return {
       ...room,
       passwordHash: undefined, // Never expose
+      levelInfo: getRoomLevelInfo(room.xp),
       onlineCount: onlineUsers.length,
       onlineUsers,
       isMember: !!membership,
@@ -488,14 +617,44 @@ export class RoomsService {
   // ================================
 
   async update(roomId: string, dto: UpdateRoomDto, userId: string) {
-    const room = await this.getRoomWithPermission(roomId, userId, [
-      MemberRole.OWNER,
-      MemberRole.ADMIN,
-    ]);
+    const room = await this.roomPermissions.assert(roomId, userId, "editRoom");
+
+    // مزايا المستوى: السعة والخلفية المخصصة
+    const perks = getRoomPerks(room.level);
+    if (
+      dto.maxMembers &&
+      dto.maxMembers > Math.max(room.maxMembers, perks.maxMembers)
+    ) {
+      throw new ForbiddenException(
+        `الحد الأقصى للأعضاء في مستوى الغرفة الحالي هو ${perks.maxMembers}`,
+      );
+    }
+    if (
+      dto.settings?.backgroundUrl &&
+      dto.settings.backgroundUrl !== (room.settings as any)?.backgroundUrl &&
+      !perks.customBackground
+    ) {
+      throw new ForbiddenException("الخلفية المخصصة تتطلب مستوى أعلى للغرفة");
+    }
 
     // 👑 دمج الإعدادات القديمة مع الجديدة
     const currentSettings = (room.settings as any) || {};
     const newSettings = dto.settings ? { ...currentSettings, ...dto.settings } : currentSettings;
+    // هذه الإعدادات لها endpoints خاصة (mic-layout / permissions / rules / word-filter / slow-mode / knock-mode)
+    for (const key of [
+      "micLayout",
+      "permissions",
+      "rules",
+      "welcomeMessage",
+      "announcement",
+      "wordFilter",
+      "slowMode",
+      "knockMode",
+    ]) {
+      if (dto.settings && key in dto.settings) {
+        newSettings[key] = currentSettings[key];
+      }
+    }
     
     const updated = await this.prisma.room.update({
       where: { id: roomId },
@@ -540,25 +699,112 @@ export class RoomsService {
     const room = await this.getRoomWithPermission(roomId, userId, [
       MemberRole.OWNER,
     ]);
+    if (room.deletedAt) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
 
-    await this.prisma.$transaction([
-      // Delete all members
-      this.prisma.roomMember.deleteMany({ where: { roomId } }),
-      // Delete all messages
-      this.prisma.message.deleteMany({ where: { roomId } }),
-      // Delete room
-      this.prisma.room.delete({ where: { id: roomId } }),
-    ]);
-
-    // Clear Redis data
-    await this.redis.del(`room:${roomId}:online`);
+    // أرشفة بدلاً من الحذف - الأعضاء والرسائل والإعدادات تبقى كما هي
+    // والحذف النهائي يتم في CleanupService بعد انتهاء مدة الاستعادة
+    const deletedAt = new Date();
+    await this.prisma.room.update({
+      where: { id: roomId },
+      data: { deletedAt, deletedBy: userId },
+    });
 
     // Invalidate cache
     await this.cache.invalidateRoom(roomId);
 
-    this.logger.log(`User ${userId} deleted room ${roomId}`);
+    // الأعضاء يبقون - إخراج الاتصالات من القناة يتم في AppGateway
+    const message: RoomArchivedMessage = { roomId };
+    await this.redis.publish(ROOM_ARCHIVED_CHANNEL, message);
+
+    this.logger.log(`User ${userId} archived room ${roomId}`);
+
+    return {
+      message: `تم حذف الغرفة - يمكنك استعادتها خلال ${ROOM_RESTORE_WINDOW_DAYS} يوماً`,
+      restorableUntil: getRoomRestoreDeadline(deletedAt),
+    };
+  }
+
+  // ================================
+  // ARCHIVED ROOMS (restore)
+  // ================================
+
+  /**
+   * My deleted rooms that can still be restored
+   */
+  async getArchivedRooms(userId: string) {
+    const rooms = await this.prisma.room.findMany({
+      where: {
+        ownerId: userId,
+        deletedAt: { gte: getRoomPurgeCutoff() },
+      },
+      select: {
+        id: true,
+        numericId: true,
+        name: true,
+        avatar: true,
+        type: true,
+        level: true,
+        currentMembers: true,
+        deletedAt: true,
+        deletedBy: true,
+      },
+      orderBy: { deletedAt: "desc" },
+    });
+
+    return rooms.map(({ deletedBy, ...room }) => ({
+      ...room,
+      // الغرف التي حذفتها الإدارة لا يستعيدها المالك
+      canRestore: deletedBy === userId,
+      restorableUntil: getRoomRestoreDeadline(room.deletedAt!),
+    }));
+  }
+
+  /**
+   * Bring an archived room back exactly as it was (members, settings, numericId)
+   */
+  async restore(roomId: string, userId: string) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+    });
+    if (!room || !room.deletedAt) {
+      throw new NotFoundException("لا توجد غرفة محذوفة بهذا المعرف");
+    }
+    if (room.ownerId !== userId) {
+      throw new ForbiddenException("فقط مالك الغرفة يمكنه استعادتها");
+    }
+    if (room.deletedBy !== userId) {
+      throw new ForbiddenException(
+        "حذفت الإدارة هذه الغرفة ولا يمكن استعادتها",
+      );
+    }
+    if (room.deletedAt < getRoomPurgeCutoff()) {
+      throw new BadRequestException(
+        `انتهت مدة الاستعادة (${ROOM_RESTORE_WINDOW_DAYS} يوماً)`,
+      );
+    }
+
+    const activeRooms = await this.prisma.room.count({
+      where: { ownerId: userId, status: RoomStatus.ACTIVE, deletedAt: null },
+    });
+    if (activeRooms >= this.MAX_ROOMS_PER_USER) {
+      throw new ConflictException({
+        error: "MAX_ROOMS_REACHED",
+        message: "لديك غرفة أخرى - احذفها أولاً لاستعادة هذه الغرفة",
+        maxRooms: this.MAX_ROOMS_PER_USER,
+      });
+    }
+
+    await this.prisma.room.update({
+      where: { id: roomId },
+      data: { deletedAt: null, deletedBy: null },
+    });
+    await this.cache.invalidateRoom(roomId);
+
+    this.logger.log(`User ${userId} restored room ${roomId}`);
 
-    return { message: "تم حذف الغرفة" };
+    return { message: "تمت استعادة الغرفة", roomId, numericId: room.numericId };
   }
 
   // ================================
@@ -570,7 +816,7 @@ export class RoomsService {
       where: { id: roomId },
     });
 
-    if (!room) {
+    if (!room || room.deletedAt) {
       throw new NotFoundException("الغرفة غير موجودة");
     }
 
@@ -597,8 +843,24 @@ export class RoomsService {
           data: { isBanned: false, bannedUntil: null },
         });
       }
+    }
+
+    const acceptedRulesVersion = this.checkRulesAccepted(
+      room,
+      userId,
+      existingMember?.rulesAcceptedVersion,
+      dto?.acceptRules,
+    );
 
+    if (existingMember) {
       if (!existingMember.leftAt) {
+        if (acceptedRulesVersion !== undefined) {
+          await this.prisma.roomMember.update({
+            where: { id: existingMember.id },
+            data: { rulesAcceptedVersion: acceptedRulesVersion },
+          });
+        }
+
         // المستخدم عضو بالفعل - نرجع نجاح بدلاً من خطأ
         this.logger.log(`User ${userId} already a member of room ${roomId}`);
         return { message: "أنت عضو بالفعل في هذه الغرفة", alreadyMember: true };
@@ -607,7 +869,13 @@ export class RoomsService {
       // Rejoin
       await this.prisma.roomMember.update({
         where: { id: existingMember.id },
-        data: { leftAt: null, isBanned: false },
+        data: {
+          leftAt: null,
+          isBanned: false,
+          ...(acceptedRulesVersion !== undefined && {
+            rulesAcceptedVersion: acceptedRulesVersion,
+          }),
+        },
       });
     } else {
       // Check capacity
@@ -615,15 +883,24 @@ export class RoomsService {
         throw new ForbiddenException("الغرفة ممتلئة");
       }
 
-      // Check password
-      if (room.isPasswordProtected && room.passwordHash) {
-        if (!dto?.password) {
-          throw new BadRequestException("هذه الغرفة تتطلب كلمة مرور");
+      // Check password (a valid invite or an admitted knock replaces it)
+      if (dto?.inviteToken) {
+        await this.roomInvites.consume(roomId, dto.inviteToken, userId);
+      } else if (!(await this.roomKnocks.consumePass(roomId, userId))) {
+        // بدون كلمة مرور في وضع طرق الباب = طلب دخول معلق
+        if (!dto?.password && isKnockModeEnabled(room)) {
+          return this.knock(room, userId);
         }
 
-        const isValid = await argon2.verify(room.passwordHash, dto.password);
-        if (!isValid) {
-          throw new ForbiddenException("كلمة المرور غير صحيحة");
+        if (room.isPasswordProtected && room.passwordHash) {
+          if (!dto?.password) {
+            throw new BadRequestException("هذه الغرفة تتطلب كلمة مرور");
+          }
+
+          const isValid = await argon2.verify(room.passwordHash, dto.password);
+          if (!isValid) {
+            throw new ForbiddenException("كلمة المرور غير صحيحة");
+          }
         }
       }
 
@@ -633,6 +910,7 @@ export class RoomsService {
           roomId,
           userId,
           role: MemberRole.MEMBER,
+          rulesAcceptedVersion: acceptedRulesVersion ?? 0,
         },
       });
     }
@@ -648,6 +926,35 @@ export class RoomsService {
     return { message: "تم الانضمام للغرفة" };
   }
 
+  /**
+   * Enforce the "accept rules to join" gate (owner is exempt).
+   * Returns the rules version to store when the user accepts now.
+   */
+  private checkRulesAccepted(
+    room: Room,
+    userId: string,
+    acceptedVersion: number | undefined,
+    acceptRules: boolean | undefined,
+  ): number | undefined {
+    if (
+      room.ownerId === userId ||
+      !mustAcceptRules(room.settings, acceptedVersion)
+    ) {
+      return undefined;
+    }
+
+    const rules = getRoomRules(room.settings);
+    if (!acceptRules) {
+      throw new ForbiddenException({
+        message: "يجب الموافقة على قوانين الغرفة قبل الانضمام",
+        code: "RULES_NOT_ACCEPTED",
+        rules,
+      });
+    }
+
+    return rules.version;
+  }
+
   // ================================
   // LEAVE ROOM
   // ================================
@@ -681,6 +988,7 @@ export class RoomsService {
 
     // Remove from online list
     await this.redis.removeUserFromRoom(roomId, userId);
+    await this.gateway.removeFromMicQueue(roomId, userId);
 
     this.logger.log(`User ${userId} left room ${roomId}`);
 
@@ -697,12 +1005,29 @@ export class RoomsService {
     userId: string,
     dto?: KickMemberDto,
   ) {
-    await this.getRoomWithPermission(roomId, userId, [
-      MemberRole.OWNER,
-      MemberRole.ADMIN,
-      MemberRole.MODERATOR,
-    ]);
+    await this.roomPermissions.assert(roomId, userId, "kick");
+    if (dto?.ban) {
+      await this.roomPermissions.assert(
+        roomId,
+        userId,
+        "ban",
+        "ليس لديك الصلاحية لحظر الأعضاء",
+      );
+    }
+
+    return this.applyKick(roomId, targetId, userId, dto);
+  }
 
+  /**
+   * actorId = null for automatic moderation (word filter) - callers check
+   * permissions first
+   */
+  private async applyKick(
+    roomId: string,
+    targetId: string,
+    actorId: string | null,
+    dto?: KickMemberDto,
+  ) {
     const targetMembership = await this.prisma.roomMember.findUnique({
       where: { roomId_userId: { roomId, userId: targetId } },
     });
@@ -739,7 +1064,7 @@ export class RoomsService {
     this.gateway.emitToRoom(roomId, eventName, {
       roomId,
       userId: targetId,
-      kickedBy: userId,
+      kickedBy: actorId,
       isBanned: dto?.ban || false,
       bannedUntil: dto?.bannedUntil,
     });
@@ -751,7 +1076,9 @@ export class RoomsService {
       message: dto?.ban ? "تم حظرك من هذه الغرفة" : "تم طردك من هذه الغرفة",
     });
 
-    this.logger.log(`User ${userId} kicked ${targetId} from room ${roomId}`);
+    this.logger.log(
+      `User ${actorId ?? "auto-moderation"} kicked ${targetId} from room ${roomId}`,
+    );
 
     return { 
       success: true,
@@ -839,7 +1166,12 @@ export class RoomsService {
 
   async getMyRooms(userId: string) {
     const memberships = await this.prisma.roomMember.findMany({
-      where: { userId, leftAt: null, isBanned: false },
+      where: {
+        userId,
+        leftAt: null,
+        isBanned: false,
+        room: { deletedAt: null },
+      },
       include: {
         room: {
           select: {
@@ -864,105 +1196,384 @@ export class RoomsService {
   }
 
   // ================================
-  // GET ROOM MEMBERS
+  // FAVORITES
   // ================================
 
-  async getMembers(roomId: string, page: number = 1, limit: number = 50) {
-    const skip = (page - 1) * limit;
-
-    const [members, total] = await Promise.all([
-      this.prisma.roomMember.findMany({
-        where: { roomId, leftAt: null, isBanned: false },
-        include: {
-          user: {
-            include: {
-              verification: true,
-            },
-          },
-        },
-        orderBy: [
-          { role: "desc" }, // Owner first (OWNER > ADMIN > MEMBER)
-          { joinedAt: "asc" },
-        ],
-        skip,
-        take: limit,
-      }),
-      this.prisma.roomMember.count({
-        where: { roomId, leftAt: null, isBanned: false },
-      }),
-    ]);
+  async getFavorites(userId: string) {
+    return this.roomFavorites.list(userId);
+  }
 
-    // Add online status and format like getActiveMembers
-    const onlineUsers = await this.redis.getRoomOnlineUsers(roomId);
-    const now = new Date();
-    
-    const formattedMembers = members.map((m) => {
-      const hasActiveVerification = m.user?.verification && 
-        new Date(m.user.verification.expiresAt) > now;
-      
-      // Convert BigInt numericId to string for JSON serialization
-      const userNumericId = m.user?.numericId ? m.user.numericId.toString() : null;
-      
-      return {
-        odlive: m.userId,
-        odId: m.userId,
-        userId: m.userId,
-        id: m.id,
-        userName: m.user?.displayName || m.user?.username || 'Unknown',
-        displayName: m.user?.displayName || null,
-        username: m.user?.username || null,
-        userPhoto: m.user?.avatar || null,
-        avatar: m.user?.avatar || null,
-        role: m.role.toLowerCase(), // owner, admin, member
-        roleEnum: m.role,
-        status: 'listening',
-        joinedAt: m.joinedAt.toISOString(),
-        customId: userNumericId,
-        numericId: userNumericId,
-        userLevel: 1,
-        level: 1,
-        badge: null,
-        isVip: hasActiveVerification,
-        verificationType: hasActiveVerification ? m.user?.verification?.type : null,
-        isOnline: onlineUsers.includes(m.userId),
-      };
+  async addFavorite(roomId: string, userId: string, dto: FavoriteRoomDto) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { id: true },
     });
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
 
-    return {
-      members: formattedMembers,
-      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
-    };
+    return this.roomFavorites.add(roomId, userId, dto.notifyLive);
+  }
+
+  async removeFavorite(roomId: string, userId: string) {
+    return this.roomFavorites.remove(roomId, userId);
+  }
+
+  async setFavoriteNotifications(
+    roomId: string,
+    userId: string,
+    dto: FavoriteRoomDto,
+  ) {
+    return this.roomFavorites.setNotifyLive(
+      roomId,
+      userId,
+      dto.notifyLive ?? true,
+    );
   }
 
   // ================================
-  // MEMBERS COUNT AND ACTIVE
+  // KNOCK TO ENTER (private rooms)
   // ================================
 
-  async getMembersCount(roomId: string) {
-    const count = await this.prisma.roomMember.count({
-      where: { roomId, leftAt: null, isBanned: false },
+  async setKnockMode(roomId: string, dto: UpdateKnockModeDto, userId: string) {
+    const room = await this.getRoomWithPermission(roomId, userId, [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+    ]);
+    if (dto.enabled && room.type !== RoomType.PRIVATE) {
+      throw new BadRequestException("طرق الباب متاح للغرف الخاصة فقط");
+    }
+
+    const settings = {
+      ...((room.settings as any) || {}),
+      knockMode: dto.enabled,
+    };
+    await this.prisma.room.update({
+      where: { id: roomId },
+      data: { settings },
     });
-    return { count };
+    await this.cache.invalidateRoom(roomId);
+
+    await this.gateway.notifyRoomUpdated(
+      roomId,
+      { roomId, knockMode: dto.enabled },
+      userId,
+    );
+
+    return { knockMode: dto.enabled };
   }
 
-  async getActiveMembers(roomId: string) {
-    const members = await this.prisma.roomMember.findMany({
-      where: { roomId, leftAt: null, isBanned: false },
-      include: {
-        user: {
-          include: {
-            verification: true,
-          },
-        },
-      },
-      orderBy: [
-        { role: "desc" }, // Owner first (OWNER > ADMIN > MEMBER)
-        { joinedAt: "asc" },
-      ],
-    });
+  /**
+   * Pending knocks (owner and admins)
+   */
+  async getKnocks(roomId: string, userId: string) {
+    await this.getRoomWithPermission(roomId, userId, [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+    ]);
 
-    const onlineUsers = await this.redis.getRoomOnlineUsers(roomId);
-    const now = new Date();
+    return { knocks: await this.roomKnocks.list(roomId) };
+  }
+
+  async cancelKnock(roomId: string, userId: string) {
+    if (!(await this.roomKnocks.get(roomId, userId))) {
+      throw new NotFoundException("لا يوجد طلب معلق");
+    }
+
+    await this.roomKnocks.remove(roomId, userId);
+    await this.gateway.broadcastRoomKnocks(roomId);
+
+    return { success: true, message: "تم إلغاء الطلب" };
+  }
+
+  /**
+   * Admit a knock - the user joins with a short-lived pass (no password)
+   */
+  async admitKnock(roomId: string, targetUserId: string, userId: string) {
+    await this.getRoomWithPermission(roomId, userId, [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+    ]);
+
+    if (!(await this.roomKnocks.take(roomId, targetUserId))) {
+      throw new NotFoundException("الطلب غير موجود أو انتهى");
+    }
+    await this.roomKnocks.grantPass(roomId, targetUserId);
+
+    this.gateway.emitToUser(targetUserId, "knock_result", {
+      roomId,
+      status: "admitted",
+      decidedBy: userId,
+      expiresIn: KNOCK_ADMIT_PASS_TTL_SECONDS,
+    });
+    await this.gateway.broadcastRoomKnocks(roomId);
+
+    this.logger.log(
+      `User ${userId} admitted ${targetUserId} to room ${roomId}`,
+    );
+
+    return { success: true, message: "تم قبول الطلب" };
+  }
+
+  async denyKnock(roomId: string, targetUserId: string, userId: string) {
+    await this.getRoomWithPermission(roomId, userId, [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+    ]);
+
+    if (!(await this.roomKnocks.take(roomId, targetUserId))) {
+      throw new NotFoundException("الطلب غير موجود أو انتهى");
+    }
+    await this.roomKnocks.markDenied(roomId, targetUserId);
+
+    this.gateway.emitToUser(targetUserId, "knock_result", {
+      roomId,
+      status: "denied",
+      decidedBy: userId,
+      retryAfter: KNOCK_DENIED_COOLDOWN_SECONDS,
+    });
+    await this.gateway.broadcastRoomKnocks(roomId);
+
+    return { success: true, message: "تم رفض الطلب" };
+  }
+
+  /**
+   * Put a join attempt in the waiting list (throttled after a denial)
+   */
+  private async knock(room: Room, userId: string) {
+    const retryAfter = await this.roomKnocks.getDeniedRetryAfter(
+      room.id,
+      userId,
+    );
+    if (retryAfter > 0) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: "تم رفض طلبك مؤخراً، حاول لاحقاً",
+          code: "KNOCK_THROTTLED",
+          retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const existing = await this.roomKnocks.get(room.id, userId);
+    if (existing) {
+      return {
+        message: "طلبك بانتظار الموافقة",
+        knockPending: true,
+        expiresAt: existing.expiresAt,
+      };
+    }
+
+    const pending = await this.roomKnocks.list(room.id);
+    if (pending.length >= this.MAX_PENDING_KNOCKS) {
+      throw new BadRequestException("قائمة الانتظار ممتلئة، حاول لاحقاً");
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        displayName: true,
+        username: true,
+        avatar: true,
+        numericId: true,
+      },
+    });
+    const knockedAt = Date.now();
+    const expiresAt = knockedAt + KNOCK_TTL_SECONDS * 1000;
+
+    await this.roomKnocks.add(room.id, {
+      userId,
+      userName: user?.displayName || user?.username || "",
+      userAvatar: user?.avatar ?? null,
+      userNumericId: user?.numericId?.toString(),
+      knockedAt,
+      expiresAt,
+    });
+    await this.gateway.broadcastRoomKnocks(room.id);
+
+    this.logger.log(`User ${userId} knocked on room ${room.id}`);
+
+    return {
+      message: "تم إرسال طلب الدخول - بانتظار موافقة المشرفين",
+      knockPending: true,
+      expiresAt,
+    };
+  }
+
+  // ================================
+  // INVITES
+  // ================================
+
+  async createInviteLink(
+    roomId: string,
+    dto: CreateRoomInviteDto,
+    userId: string,
+  ) {
+    return this.roomInvites.createLink(roomId, userId, dto);
+  }
+
+  async inviteFriend(roomId: string, friendId: string, userId: string) {
+    return this.roomInvites.inviteFriend(roomId, userId, friendId);
+  }
+
+  async getInvites(roomId: string, userId: string) {
+    return this.roomInvites.listActive(roomId, userId);
+  }
+
+  async revokeInvite(roomId: string, inviteId: string, userId: string) {
+    return this.roomInvites.revoke(roomId, inviteId, userId);
+  }
+
+  async previewInvite(token: string, userId: string) {
+    return this.roomInvites.preview(token, userId);
+  }
+
+  // ================================
+  // SCHEDULED EVENTS
+  // ================================
+
+  async getUpcomingEvents(userId: string, query: UpcomingEventsQueryDto) {
+    return this.roomEvents.getUpcoming(userId, query);
+  }
+
+  async getRoomEvents(roomId: string, userId: string) {
+    return this.roomEvents.listRoomEvents(roomId, userId);
+  }
+
+  async getRoomEvent(eventId: string, userId: string) {
+    return this.roomEvents.getEvent(eventId, userId);
+  }
+
+  async createRoomEvent(
+    roomId: string,
+    dto: CreateRoomEventDto,
+    userId: string,
+  ) {
+    return this.roomEvents.create(roomId, userId, dto);
+  }
+
+  async updateRoomEvent(
+    eventId: string,
+    dto: UpdateRoomEventDto,
+    userId: string,
+  ) {
+    return this.roomEvents.update(eventId, userId, dto);
+  }
+
+  async cancelRoomEvent(eventId: string, userId: string) {
+    return this.roomEvents.cancel(eventId, userId);
+  }
+
+  async rsvpRoomEvent(eventId: string, userId: string) {
+    return this.roomEvents.rsvp(eventId, userId);
+  }
+
+  async cancelRoomEventRsvp(eventId: string, userId: string) {
+    return this.roomEvents.cancelRsvp(eventId, userId);
+  }
+
+  // ================================
+  // GET ROOM MEMBERS
+  // ================================
+
+  async getMembers(roomId: string, page: number = 1, limit: number = 50) {
+    const skip = (page - 1) * limit;
+
+    const [members, total] = await Promise.all([
+      this.prisma.roomMember.findMany({
+        where: { roomId, leftAt: null, isBanned: false },
+        include: {
+          user: {
+            include: {
+              verification: true,
+            },
+          },
+        },
+        orderBy: [
+          { role: "desc" }, // Owner first (OWNER > ADMIN > MEMBER)
+          { joinedAt: "asc" },
+        ],
+        skip,
+        take: limit,
+      }),
+      this.prisma.roomMember.count({
+        where: { roomId, leftAt: null, isBanned: false },
+      }),
+    ]);
+
+    // Add online status and format like getActiveMembers
+    const onlineUsers = await this.redis.getRoomOnlineUsers(roomId);
+    const now = new Date();
+    
+    const formattedMembers = members.map((m) => {
+      const hasActiveVerification = m.user?.verification && 
+        new Date(m.user.verification.expiresAt) > now;
+      
+      // Convert BigInt numericId to string for JSON serialization
+      const userNumericId = m.user?.numericId ? m.user.numericId.toString() : null;
+      
+      return {
+        odlive: m.userId,
+        odId: m.userId,
+        userId: m.userId,
+        id: m.id,
+        userName: m.user?.displayName || m.user?.username || 'Unknown',
+        displayName: m.user?.displayName || null,
+        username: m.user?.username || null,
+        userPhoto: m.user?.avatar || null,
+        avatar: m.user?.avatar || null,
+        role: m.role.toLowerCase(), // owner, admin, member
+        roleEnum: m.role,
+        status: 'listening',
+        joinedAt: m.joinedAt.toISOString(),
+        customId: userNumericId,
+        numericId: userNumericId,
+        userLevel: 1,
+        level: 1,
+        badge: null,
+        isVip: hasActiveVerification,
+        verificationType: hasActiveVerification ? m.user?.verification?.type : null,
+        isOnline: onlineUsers.includes(m.userId),
+      };
+    });
+
+    return {
+      members: formattedMembers,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  // ================================
+  // MEMBERS COUNT AND ACTIVE
+  // ================================
+
+  async getMembersCount(roomId: string) {
+    const count = await this.prisma.roomMember.count({
+      where: { roomId, leftAt: null, isBanned: false },
+    });
+    return { count };
+  }
+
+  async getActiveMembers(roomId: string) {
+    const members = await this.prisma.roomMember.findMany({
+      where: { roomId, leftAt: null, isBanned: false },
+      include: {
+        user: {
+          include: {
+            verification: true,
+          },
+        },
+      },
+      orderBy: [
+        { role: "desc" }, // Owner first (OWNER > ADMIN > MEMBER)
+        { joinedAt: "asc" },
+      ],
+    });
+
+    const onlineUsers = await this.redis.getRoomOnlineUsers(roomId);
+    const now = new Date();
 
     const formattedMembers = members.map((m) => {
       const hasActiveVerification = m.user?.verification && 
@@ -1075,25 +1686,31 @@ export class RoomsService {
    * Get mic slots state for a room
    */
   async getMicSlots(roomId: string) {
-    const slots = await this.redis.hgetall(`room:${roomId}:mic_slots`);
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { settings: true },
+    });
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+
+    const layout = getMicLayout(room.settings);
+    const slots = await this.micState.getSlots(roomId);
     const result: any[] = [];
 
-    // Default 8 slots - مقفلة افتراضياً
-    for (let i = 0; i < 8; i++) {
-      const slotData = slots[i.toString()];
+    // عدد المقاعد حسب تخطيط الغرفة - مقفلة افتراضياً
+    for (let i = 0; i < getMicSlotCount(layout); i++) {
+      const isHost = isHostSeat(layout, i);
+      const slotData = slots.get(i);
       if (slotData) {
-        try {
-          result.push({ index: i, ...JSON.parse(slotData) });
-        } catch {
-          result.push({ index: i, userId: null, isLocked: true, isMuted: false });
-        }
+        result.push({ index: i, isHost, ...slotData });
       } else {
         // ✅ المايكات مقفلة افتراضياً - المالك/المشرف يفتحونها
-        result.push({ index: i, userId: null, isLocked: true, isMuted: false });
+        result.push({ index: i, isHost, userId: null, isLocked: true, isMuted: false });
       }
     }
 
-    return { slots: result };
+    return { layout, slots: result };
   }
 
   /**
@@ -1103,32 +1720,31 @@ export class RoomsService {
   async enterMicSlot(roomId: string, slotIndex: number, userId: string) {
     const room = await this.prisma.room.findUnique({ 
       where: { id: roomId },
-      include: {
-        members: {
-          where: { userId, leftAt: null },
-          select: { role: true }
-        }
-      }
     });
-    if (!room) {
+    if (!room || room.deletedAt) {
       throw new NotFoundException("الغرفة غير موجودة");
     }
 
-    // Check user role
-    const isOwner = room.ownerId === userId;
-    const memberRole = room.members[0]?.role;
-    const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-    const canBypassLock = isOwner || isAdmin;
+    // من يملك صلاحية إدارة المايكات يمكنه تجاوز القفل
+    const canBypassLock = await this.roomPermissions.can(
+      roomId,
+      userId,
+      "manageMics",
+    );
+
+    const layout = this.assertValidMicSlot(room, slotIndex);
+    if (isHostSeat(layout, slotIndex) && !canBypassLock) {
+      throw new ForbiddenException("مقعد المضيف مخصص لمالك الغرفة والمشرفين");
+    }
 
     // Check if slot is available
-    const slotKey = `room:${roomId}:mic_slots`;
-    const existingSlot = await this.redis.hget(slotKey, slotIndex.toString());
+    const existingSlot = await this.micState.getSlot(roomId, slotIndex);
 
     // ✅ المايكات مقفلة افتراضياً - فحص القفل حتى لو لم يكن هناك بيانات
     let slotIsLocked = true; // مقفل افتراضياً
     
     if (existingSlot) {
-      const slotData = JSON.parse(existingSlot);
+      const slotData = existingSlot;
       slotIsLocked = slotData.isLocked !== false; // مقفل إلا إذا كان false صراحةً
       
       if (slotData.userId && slotData.userId !== userId) {
@@ -1136,8 +1752,12 @@ export class RoomsService {
       }
     }
     
-    // المالك والمشرف يمكنهم تجاوز القفل
-    if (slotIsLocked && !canBypassLock) {
+    // المالك والمشرف يمكنهم تجاوز القفل، والمدعو يمكنه دخول المقعد الذي دُعي إليه
+    if (
+      slotIsLocked &&
+      !canBypassLock &&
+      !(await this.redis.consumeMicGrant(roomId, userId, slotIndex))
+    ) {
       throw new ForbiddenException("المايك مقفل - يرجى طلب الإذن من المالك");
     }
 
@@ -1158,8 +1778,7 @@ export class RoomsService {
       joinedAt: Date.now(),
     };
 
-    await this.redis.hset(slotKey, slotIndex.toString(), JSON.stringify(slotData));
-    await this.redis.expire(slotKey, 86400); // 24 hours
+    await this.micState.setSlot(roomId, slotIndex, slotData);
 
     // Broadcast to room with animation event
     this.gateway.emitToRoom(roomId, "mic_slot_updated", {
@@ -1169,6 +1788,15 @@ export class RoomsService {
       animation: "join", // للأنيميشن في الـ Frontend
     });
 
+    if (room.ownerId === userId) {
+      this.roomFavorites
+        .notifyRoomLive(roomId, "mic")
+        .catch((e) => this.logger.warn(`Live notify failed: ${e.message}`));
+    }
+
+    // الصعود على المايك يلغي طلب رفع اليد
+    await this.gateway.removeFromMicQueue(roomId, userId);
+
     this.logger.log(`User ${userId} entered mic slot ${slotIndex} in room ${roomId}`);
 
     return { success: true, slot: { index: slotIndex, ...slotData } };
@@ -1179,33 +1807,30 @@ export class RoomsService {
    * المغادرة سلسة مع إعادة القفل تلقائياً
    */
   async leaveMicSlot(roomId: string, slotIndex: number, userId: string) {
-    const slotKey = `room:${roomId}:mic_slots`;
-    const existingSlot = await this.redis.hget(slotKey, slotIndex.toString());
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { settings: true },
+    });
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+    this.assertValidMicSlot(room, slotIndex);
+
+    const existingSlot = await this.micState.getSlot(roomId, slotIndex);
     let leavingUserName: string | null = null;
 
     if (existingSlot) {
-      const slotData = JSON.parse(existingSlot);
+      const slotData = existingSlot;
       leavingUserName = slotData.userName;
       
       // Only the user on the mic or owner/admin can kick
       if (slotData.userId && slotData.userId !== userId) {
-        // Check if user is owner or admin
-        const room = await this.prisma.room.findUnique({ 
-          where: { id: roomId },
-          include: {
-            members: {
-              where: { userId, leftAt: null },
-              select: { role: true }
-            }
-          }
-        });
-        const isOwner = room?.ownerId === userId;
-        const memberRole = room?.members[0]?.role;
-        const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-        
-        if (!isOwner && !isAdmin) {
-          throw new ForbiddenException("لا يمكنك إنزال هذا المستخدم");
-        }
+        await this.roomPermissions.assert(
+          roomId,
+          userId,
+          "manageMics",
+          "لا يمكنك إنزال هذا المستخدم",
+        );
       }
     }
 
@@ -1219,7 +1844,7 @@ export class RoomsService {
       isSpeaking: false,
     };
 
-    await this.redis.hset(slotKey, slotIndex.toString(), JSON.stringify(emptySlot));
+    await this.micState.setSlot(roomId, slotIndex, emptySlot);
 
     // Broadcast to room with animation
     this.gateway.emitToRoom(roomId, "mic_slot_updated", {
@@ -1240,31 +1865,21 @@ export class RoomsService {
    * قفل المايك - المالك والمشرف فقط
    */
   async lockMicSlot(roomId: string, slotIndex: number, userId: string) {
-    const room = await this.prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: {
-        members: {
-          where: { userId, leftAt: null },
-          select: { role: true }
-        }
-      }
-    });
-    
-    const isOwner = room?.ownerId === userId;
-    const memberRole = room?.members[0]?.role;
-    const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-    
-    if (!isOwner && !isAdmin) {
-      throw new ForbiddenException("ليس لديك الصلاحية لقفل المايك");
-    }
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "lockMics",
+      "ليس لديك الصلاحية لقفل المايك",
+    );
+
+    this.assertValidMicSlot(room, slotIndex);
 
-    const slotKey = `room:${roomId}:mic_slots`;
-    const existingSlot = await this.redis.hget(slotKey, slotIndex.toString());
+    const existingSlot = await this.micState.getSlot(roomId, slotIndex);
     
-    const slotData = existingSlot ? JSON.parse(existingSlot) : { userId: null };
+    const slotData = existingSlot ?? { userId: null };
     slotData.isLocked = true;
 
-    await this.redis.hset(slotKey, slotIndex.toString(), JSON.stringify(slotData));
+    await this.micState.setSlot(roomId, slotIndex, slotData);
 
     this.gateway.emitToRoom(roomId, "mic_slot_updated", {
       roomId,
@@ -1281,31 +1896,21 @@ export class RoomsService {
    * فتح المايك - المالك والمشرف فقط
    */
   async unlockMicSlot(roomId: string, slotIndex: number, userId: string) {
-    const room = await this.prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: {
-        members: {
-          where: { userId, leftAt: null },
-          select: { role: true }
-        }
-      }
-    });
-    
-    const isOwner = room?.ownerId === userId;
-    const memberRole = room?.members[0]?.role;
-    const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-    
-    if (!isOwner && !isAdmin) {
-      throw new ForbiddenException("ليس لديك الصلاحية لفتح المايك");
-    }
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "lockMics",
+      "ليس لديك الصلاحية لفتح المايك",
+    );
+
+    this.assertValidMicSlot(room, slotIndex);
 
-    const slotKey = `room:${roomId}:mic_slots`;
-    const existingSlot = await this.redis.hget(slotKey, slotIndex.toString());
+    const existingSlot = await this.micState.getSlot(roomId, slotIndex);
     
-    const slotData = existingSlot ? JSON.parse(existingSlot) : { userId: null };
+    const slotData = existingSlot ?? { userId: null };
     slotData.isLocked = false;
 
-    await this.redis.hset(slotKey, slotIndex.toString(), JSON.stringify(slotData));
+    await this.micState.setSlot(roomId, slotIndex, slotData);
 
     this.gateway.emitToRoom(roomId, "mic_slot_updated", {
       roomId,
@@ -1322,35 +1927,24 @@ export class RoomsService {
    * كتم المستخدم على المايك - المالك والمشرف
    */
   async muteMicSlot(roomId: string, slotIndex: number, userId: string) {
-    const room = await this.prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: {
-        members: {
-          where: { userId, leftAt: null },
-          select: { role: true }
-        }
-      }
-    });
-    
-    const isOwner = room?.ownerId === userId;
-    const memberRole = room?.members[0]?.role;
-    const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-    
-    if (!isOwner && !isAdmin) {
-      throw new ForbiddenException("ليس لديك الصلاحية لكتم المايك");
-    }
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "manageMics",
+      "ليس لديك الصلاحية لكتم المايك",
+    );
+
+    this.assertValidMicSlot(room, slotIndex);
 
-    const slotKey = `room:${roomId}:mic_slots`;
-    const existingSlot = await this.redis.hget(slotKey, slotIndex.toString());
+    const slotData = await this.micState.getSlot(roomId, slotIndex);
     
-    if (!existingSlot) {
+    if (!slotData) {
       throw new NotFoundException("المايك فارغ");
     }
 
-    const slotData = JSON.parse(existingSlot);
     slotData.isMuted = !slotData.isMuted; // Toggle
 
-    await this.redis.hset(slotKey, slotIndex.toString(), JSON.stringify(slotData));
+    await this.micState.setSlot(roomId, slotIndex, slotData);
 
     this.gateway.emitToRoom(roomId, "mic_slot_updated", {
       roomId,
@@ -1367,32 +1961,21 @@ export class RoomsService {
    * إنزال المستخدم من المايك - المالك والمشرف
    */
   async kickFromMicSlot(roomId: string, slotIndex: number, userId: string) {
-    const room = await this.prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: {
-        members: {
-          where: { userId, leftAt: null },
-          select: { role: true }
-        }
-      }
-    });
-    
-    const isOwner = room?.ownerId === userId;
-    const memberRole = room?.members[0]?.role;
-    const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-    
-    if (!isOwner && !isAdmin) {
-      throw new ForbiddenException("ليس لديك الصلاحية لإنزال المستخدم");
-    }
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "manageMics",
+      "ليس لديك الصلاحية لإنزال المستخدم",
+    );
+
+    this.assertValidMicSlot(room, slotIndex);
 
-    const slotKey = `room:${roomId}:mic_slots`;
-    const existingSlot = await this.redis.hget(slotKey, slotIndex.toString());
+    const slotData = await this.micState.getSlot(roomId, slotIndex);
     
-    if (!existingSlot) {
+    if (!slotData) {
       throw new NotFoundException("المايك فارغ");
     }
 
-    const slotData = JSON.parse(existingSlot);
     const kickedUserId = slotData.userId;
     const kickedUserName = slotData.userName;
 
@@ -1406,7 +1989,7 @@ export class RoomsService {
       isSpeaking: false,
     };
 
-    await this.redis.hset(slotKey, slotIndex.toString(), JSON.stringify(emptySlot));
+    await this.micState.setSlot(roomId, slotIndex, emptySlot);
 
     // Broadcast to room with animation
     this.gateway.emitToRoom(roomId, "mic_slot_updated", {
@@ -1437,33 +2020,37 @@ export class RoomsService {
    * دعوة مستخدم للصعود على المايك
    */
   async inviteToMicSlot(roomId: string, slotIndex: number, targetUserId: string, userId: string) {
-    const room = await this.prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: {
-        members: {
-          where: { userId, leftAt: null },
-          select: { role: true }
-        }
-      }
-    });
-    
-    const isOwner = room?.ownerId === userId;
-    const memberRole = room?.members[0]?.role;
-    const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-    
-    if (!isOwner && !isAdmin) {
-      throw new ForbiddenException("ليس لديك الصلاحية لدعوة المستخدمين");
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "manageMics",
+      "ليس لديك الصلاحية لدعوة المستخدمين",
+    );
+
+    return this.sendMicInvite(roomId, room, slotIndex, targetUserId, userId);
+  }
+
+  /**
+   * Validate the slot and send the invite (permission already checked)
+   * المدعو يحصل على إذن مؤقت لدخول المقعد حتى لو كان مقفلاً
+   */
+  private async sendMicInvite(
+    roomId: string,
+    room: { settings: Prisma.JsonValue } | null,
+    slotIndex: number,
+    targetUserId: string,
+    userId: string,
+  ) {
+    const layout = this.assertValidMicSlot(room, slotIndex);
+    if (isHostSeat(layout, slotIndex)) {
+      throw new BadRequestException("لا يمكن دعوة مستخدم إلى مقعد المضيف");
     }
 
     // Check if slot is available
-    const slotKey = `room:${roomId}:mic_slots`;
-    const existingSlot = await this.redis.hget(slotKey, slotIndex.toString());
+    const existingSlot = await this.micState.getSlot(roomId, slotIndex);
     
-    if (existingSlot) {
-      const slotData = JSON.parse(existingSlot);
-      if (slotData.userId) {
-        throw new ConflictException("المايك مشغول بالفعل");
-      }
+    if (existingSlot?.userId) {
+      throw new ConflictException("المايك مشغول بالفعل");
     }
 
     // Get target user info
@@ -1476,6 +2063,13 @@ export class RoomsService {
       throw new NotFoundException("المستخدم غير موجود");
     }
 
+    await this.redis.setMicGrant(
+      roomId,
+      targetUserId,
+      slotIndex,
+      this.MIC_INVITE_TTL_SECONDS,
+    );
+
     // Send invitation via WebSocket
     this.gateway.emitToRoom(roomId, "mic_invite", {
       roomId,
@@ -1498,35 +2092,24 @@ export class RoomsService {
    * قفل كل المايكات
    */
   async lockAllMicSlots(roomId: string, userId: string) {
-    const room = await this.prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: {
-        members: {
-          where: { userId, leftAt: null },
-          select: { role: true }
-        }
-      }
-    });
-    
-    const isOwner = room?.ownerId === userId;
-    const memberRole = room?.members[0]?.role;
-    const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-    
-    if (!isOwner && !isAdmin) {
-      throw new ForbiddenException("ليس لديك الصلاحية");
-    }
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "lockMics",
+      "ليس لديك الصلاحية",
+    );
 
-    const slotKey = `room:${roomId}:mic_slots`;
+    const slots = await this.micState.getSlots(roomId);
+    const slotCount = getMicSlotCount(getMicLayout(room.settings));
 
-    // Lock all 8 slots
-    for (let i = 0; i < 8; i++) {
-      const existingSlot = await this.redis.hget(slotKey, i.toString());
-      const slotData = existingSlot ? JSON.parse(existingSlot) : { userId: null };
+    // Lock all slots of the room layout
+    for (let i = 0; i < slotCount; i++) {
+      const slotData = slots.get(i) ?? { userId: null };
       
       // Only lock empty slots
       if (!slotData.userId) {
         slotData.isLocked = true;
-        await this.redis.hset(slotKey, i.toString(), JSON.stringify(slotData));
+        await this.micState.setSlot(roomId, i, slotData);
       }
     }
 
@@ -1541,32 +2124,21 @@ export class RoomsService {
    * فتح كل المايكات
    */
   async unlockAllMicSlots(roomId: string, userId: string) {
-    const room = await this.prisma.room.findUnique({ 
-      where: { id: roomId },
-      include: {
-        members: {
-          where: { userId, leftAt: null },
-          select: { role: true }
-        }
-      }
-    });
-    
-    const isOwner = room?.ownerId === userId;
-    const memberRole = room?.members[0]?.role;
-    const isAdmin = memberRole === 'ADMIN' || memberRole === 'OWNER';
-    
-    if (!isOwner && !isAdmin) {
-      throw new ForbiddenException("ليس لديك الصلاحية");
-    }
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "lockMics",
+      "ليس لديك الصلاحية",
+    );
 
-    const slotKey = `room:${roomId}:mic_slots`;
+    const slots = await this.micState.getSlots(roomId);
+    const slotCount = getMicSlotCount(getMicLayout(room.settings));
 
-    // Unlock all 8 slots
-    for (let i = 0; i < 8; i++) {
-      const existingSlot = await this.redis.hget(slotKey, i.toString());
-      const slotData = existingSlot ? JSON.parse(existingSlot) : { userId: null };
+    // Unlock all slots of the room layout
+    for (let i = 0; i < slotCount; i++) {
+      const slotData = slots.get(i) ?? { userId: null };
       slotData.isLocked = false;
-      await this.redis.hset(slotKey, i.toString(), JSON.stringify(slotData));
+      await this.micState.setSlot(roomId, i, slotData);
     }
 
     // Broadcast update
@@ -1576,84 +2148,945 @@ export class RoomsService {
   }
 
   // ================================
-  // UNBAN MEMBER
+  // MIC REQUEST QUEUE (raise hand)
   // ================================
 
-  async unbanMember(roomId: string, targetId: string, userId: string) {
-    await this.getRoomWithPermission(roomId, userId, [
-      MemberRole.OWNER,
-      MemberRole.ADMIN,
-    ]);
-
-    const targetMembership = await this.prisma.roomMember.findFirst({
-      where: { roomId, userId: targetId, isBanned: true },
+  /**
+   * Raise hand - ask to get on the mic
+   * طلبات VIP تتقدم على باقي الطلبات
+   */
+  async requestMic(roomId: string, userId: string) {
+    const membership = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      include: {
+        room: { select: { deletedAt: true } },
+        user: {
+          select: {
+            displayName: true,
+            username: true,
+            avatar: true,
+            numericId: true,
+            isVIP: true,
+            vipExpiresAt: true,
+          },
+        },
+      },
     });
 
-    if (!targetMembership) {
-      throw new NotFoundException("العضو غير محظور");
+    if (!membership || membership.leftAt) {
+      throw new BadRequestException("أنت لست عضواً في هذه الغرفة");
+    }
+    if (membership.room.deletedAt) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+    if (membership.isBanned) {
+      throw new ForbiddenException("أنت محظور من هذه الغرفة");
     }
 
-    await this.prisma.roomMember.update({
-      where: { id: targetMembership.id },
-      data: {
-        isBanned: false,
-        bannedUntil: null,
-        leftAt: null,
+    const slots = await this.micState.getSlots(roomId);
+    const onMic = [...slots.values()].some((slot) => slot.userId === userId);
+    if (onMic) {
+      throw new ConflictException("أنت على المايك بالفعل");
+    }
+
+    const queue = await this.redis.getMicRequests(roomId);
+    if (queue.length >= this.MAX_MIC_QUEUE_SIZE) {
+      throw new BadRequestException("قائمة طلبات المايك ممتلئة");
+    }
+
+    const { user } = membership;
+    const isVip =
+      user.isVIP && (!user.vipExpiresAt || user.vipExpiresAt > new Date());
+    const requestedAt = Date.now();
+
+    const added = await this.redis.addMicRequest(
+      roomId,
+      userId,
+      isVip ? requestedAt : requestedAt + this.MIC_QUEUE_NON_VIP_OFFSET,
+      {
+        userName: user.displayName || user.username,
+        userAvatar: user.avatar,
+        userNumericId: user.numericId?.toString(),
+        isVip,
+        requestedAt,
       },
+    );
+    if (!added) {
+      throw new ConflictException("لديك طلب معلق بالفعل");
+    }
+
+    await this.gateway.broadcastMicQueue(roomId);
+
+    const position =
+      (await this.redis.getMicRequests(roomId)).find((r) => r.userId === userId)
+        ?.position ?? null;
+
+    this.logger.log(`User ${userId} requested the mic in room ${roomId}`);
+
+    return { success: true, position, isVip };
+  }
+
+  async cancelMicRequest(roomId: string, userId: string) {
+    if (!(await this.redis.removeMicRequest(roomId, userId))) {
+      throw new NotFoundException("لا يوجد طلب معلق");
+    }
+
+    await this.gateway.broadcastMicQueue(roomId);
+
+    return { success: true, message: "تم إلغاء الطلب" };
+  }
+
+  /**
+   * Ordered queue (owner and moderators)
+   */
+  async getMicQueue(roomId: string, userId: string) {
+    await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "manageMics",
+      "ليس لديك الصلاحية لإدارة طلبات المايك",
+    );
+
+    return { queue: await this.redis.getMicRequests(roomId) };
+  }
+
+  /**
+   * Approve a request into a specific slot - sends a mic invite
+   */
+  async approveMicRequest(
+    roomId: string,
+    targetUserId: string,
+    slotIndex: number,
+    userId: string,
+  ) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "manageMics",
+      "ليس لديك الصلاحية لإدارة طلبات المايك",
+    );
+    await this.assertMicRequestExists(roomId, targetUserId);
+
+    const result = await this.sendMicInvite(
+      roomId,
+      room,
+      slotIndex,
+      targetUserId,
+      userId,
+    );
+
+    await this.redis.removeMicRequest(roomId, targetUserId);
+    this.gateway.emitToUser(targetUserId, "mic_request_approved", {
+      roomId,
+      slotIndex,
+      approvedBy: userId,
+      expiresIn: this.MIC_INVITE_TTL_SECONDS,
     });
+    await this.gateway.broadcastMicQueue(roomId);
 
-    this.logger.log(`User ${userId} unbanned ${targetId} from room ${roomId}`);
-    return { message: "تم إلغاء حظر العضو بنجاح" };
+    return result;
+  }
+
+  async rejectMicRequest(roomId: string, targetUserId: string, userId: string) {
+    await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "manageMics",
+      "ليس لديك الصلاحية لإدارة طلبات المايك",
+    );
+    await this.assertMicRequestExists(roomId, targetUserId);
+
+    await this.redis.removeMicRequest(roomId, targetUserId);
+    this.gateway.emitToUser(targetUserId, "mic_request_rejected", {
+      roomId,
+      rejectedBy: userId,
+    });
+    await this.gateway.broadcastMicQueue(roomId);
+
+    return { success: true, message: "تم رفض الطلب" };
+  }
+
+  private async assertMicRequestExists(roomId: string, userId: string) {
+    const queue = await this.redis.getMicRequests(roomId);
+    if (!queue.some((r) => r.userId === userId)) {
+      throw new NotFoundException("الطلب غير موجود");
+    }
   }
 
   // ================================
-  // MUTE/UNMUTE MEMBER
+  // ROOM PERMISSIONS
   // ================================
 
-  async muteMember(roomId: string, targetId: string, userId: string, durationMinutes?: number) {
-    await this.getRoomWithPermission(roomId, userId, [
+  /**
+   * Get the permission matrix of a room (with defaults applied)
+   */
+  async getRoomPermissions(roomId: string) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { settings: true },
+    });
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+
+    return {
+      permissions: this.roomPermissions.resolveMatrix(room.settings),
+      available: ROOM_PERMISSIONS,
+    };
+  }
+
+  /**
+   * Set what a role can do in the room (owner only)
+   */
+  async updateRoomPermissions(
+    roomId: string,
+    dto: UpdateRoomPermissionsDto,
+    userId: string,
+  ) {
+    const room = await this.getRoomWithPermission(roomId, userId, [
       MemberRole.OWNER,
-      MemberRole.ADMIN,
-      MemberRole.MODERATOR,
     ]);
 
-    const targetMembership = await this.prisma.roomMember.findUnique({
-      where: { roomId_userId: { roomId, userId: targetId } },
-    });
-
-    if (!targetMembership) {
-      throw new NotFoundException("العضو غير موجود");
+    const invalid = Object.entries(dto.permissions).filter(
+      ([p, allowed]) =>
+        !ROOM_PERMISSIONS.includes(p as RoomPermission) ||
+        typeof allowed !== "boolean",
+    );
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `صلاحيات غير صالحة: ${invalid.map(([p]) => p).join(", ")}`,
+      );
     }
 
-    const mutedUntil = durationMinutes 
-      ? new Date(Date.now() + durationMinutes * 60 * 1000)
-      : undefined;
-
-    await this.prisma.roomMember.update({
-      where: { id: targetMembership.id },
-      data: {
-        isMuted: true,
-        mutedUntil,
+    const currentSettings = (room.settings as any) || {};
+    const stored = currentSettings.permissions || {};
+    const settings = {
+      ...currentSettings,
+      permissions: {
+        ...stored,
+        [dto.role]: { ...(stored[dto.role] || {}), ...dto.permissions },
       },
+    };
+
+    await this.prisma.room.update({
+      where: { id: roomId },
+      data: { settings },
     });
+    await this.cache.invalidateRoom(roomId);
 
-    // Notify via websocket
-    this.gateway.emitToRoom(roomId, "member_muted", {
+    const permissions = this.roomPermissions.resolveMatrix(settings);
+
+    await this.gateway.notifyRoomUpdated(
       roomId,
-      userId: targetId,
-      mutedUntil,
-    });
+      { roomId, permissions },
+      userId,
+    );
 
-    this.logger.log(`User ${userId} muted ${targetId} in room ${roomId}`);
-    return { message: "تم كتم العضو بنجاح" };
+    this.logger.log(
+      `User ${userId} updated ${dto.role} permissions in room ${roomId}`,
+    );
+
+    return { permissions, available: ROOM_PERMISSIONS };
   }
 
-  async unmuteMember(roomId: string, targetId: string, userId: string) {
-    await this.getRoomWithPermission(roomId, userId, [
-      MemberRole.OWNER,
-      MemberRole.ADMIN,
-      MemberRole.MODERATOR,
-    ]);
+  // ================================
+  // RULES & ANNOUNCEMENT
+  // ================================
+
+  async getRoomRules(roomId: string, userId: string) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { ownerId: true, settings: true },
+    });
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+
+    const membership = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      select: { rulesAcceptedVersion: true },
+    });
+
+    return {
+      rules: getRoomRules(room.settings),
+      welcomeMessage: getWelcomeMessage(room.settings),
+      announcement: getAnnouncement(room.settings),
+      mustAccept:
+        room.ownerId !== userId &&
+        mustAcceptRules(room.settings, membership?.rulesAcceptedVersion),
+    };
+  }
+
+  /**
+   * Update rules / welcome message. Changing the rules text bumps the version
+   * so members accept again.
+   */
+  async updateRoomRules(
+    roomId: string,
+    dto: UpdateRoomRulesDto,
+    userId: string,
+  ) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لتعديل قوانين الغرفة",
+    );
+
+    const currentSettings = (room.settings as any) || {};
+    const current = getRoomRules(currentSettings);
+
+    const items = dto.items
+      ? dto.items.map((item) => item.trim()).filter(Boolean)
+      : current.items;
+    const requireAcceptance =
+      dto.requireAcceptance ?? current.requireAcceptance;
+    const changed =
+      JSON.stringify(items) !== JSON.stringify(current.items) ||
+      (requireAcceptance && !current.requireAcceptance);
+
+    const rules = {
+      items,
+      requireAcceptance,
+      version: changed ? current.version + 1 : current.version,
+      updatedAt: changed ? new Date().toISOString() : current.updatedAt,
+    };
+
+    const settings = {
+      ...currentSettings,
+      rules,
+      ...(dto.welcomeMessage !== undefined && {
+        welcomeMessage: dto.welcomeMessage?.trim() || null,
+      }),
+    };
+
+    await this.prisma.room.update({
+      where: { id: roomId },
+      data: { settings },
+    });
+    // من عدّل القوانين وافق عليها تلقائياً
+    await this.prisma.roomMember.updateMany({
+      where: { roomId, userId },
+      data: { rulesAcceptedVersion: rules.version },
+    });
+    await this.cache.invalidateRoom(roomId);
+
+    const welcomeMessage = getWelcomeMessage(settings);
+    await this.gateway.notifyRoomUpdated(
+      roomId,
+      { roomId, rules, welcomeMessage },
+      userId,
+    );
+
+    this.logger.log(
+      `User ${userId} updated rules of room ${roomId} (v${rules.version})`,
+    );
+
+    return { rules, welcomeMessage };
+  }
+
+  async acceptRoomRules(roomId: string, userId: string) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { settings: true },
+    });
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+
+    const { version } = getRoomRules(room.settings);
+    const { count } = await this.prisma.roomMember.updateMany({
+      where: { roomId, userId },
+      data: { rulesAcceptedVersion: version },
+    });
+    if (count === 0) {
+      throw new BadRequestException("أنت لست عضواً في هذه الغرفة");
+    }
+
+    return { success: true, version };
+  }
+
+  async pinAnnouncement(
+    roomId: string,
+    dto: PinAnnouncementDto,
+    userId: string,
+  ) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لتثبيت إعلان",
+    );
+
+    const announcement: RoomAnnouncement = {
+      text: dto.text.trim(),
+      pinnedBy: userId,
+      pinnedAt: new Date().toISOString(),
+    };
+
+    return this.saveAnnouncement(room, announcement, userId);
+  }
+
+  async unpinAnnouncement(roomId: string, userId: string) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لإزالة الإعلان",
+    );
+
+    return this.saveAnnouncement(room, null, userId);
+  }
+
+  private async saveAnnouncement(
+    room: Room,
+    announcement: RoomAnnouncement | null,
+    userId: string,
+  ) {
+    const settings = { ...((room.settings as any) || {}), announcement };
+
+    await this.prisma.room.update({
+      where: { id: room.id },
+      data: { settings },
+    });
+    await this.cache.invalidateRoom(room.id);
+
+    await this.gateway.notifyRoomUpdated(
+      room.id,
+      { roomId: room.id, announcement },
+      userId,
+    );
+
+    return { announcement };
+  }
+
+  // ================================
+  // WORD FILTER & MODERATION LOG
+  // ================================
+
+  async getWordFilter(roomId: string, userId: string) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لإدارة فلتر الكلمات",
+    );
+    const platformRules = await this.wordFilter.getPlatformRules();
+
+    return {
+      rules: getRoomWordFilter(room.settings),
+      platformRuleCount: platformRules.length,
+    };
+  }
+
+  async updateWordFilter(
+    roomId: string,
+    dto: UpdateWordFilterDto,
+    userId: string,
+  ) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لإدارة فلتر الكلمات",
+    );
+
+    const rules = this.wordFilter.normalizeRules(dto.rules);
+    const settings = { ...((room.settings as any) || {}), wordFilter: rules };
+
+    await this.prisma.room.update({
+      where: { id: roomId },
+      data: { settings },
+    });
+    await this.cache.invalidateRoom(roomId);
+    await this.wordFilter.invalidateRoom(roomId);
+
+    await this.wordFilter.log({
+      roomId,
+      actorId: userId,
+      action: "filter_updated",
+      details: { ruleCount: rules.length },
+    });
+
+    this.logger.log(
+      `User ${userId} updated word filter of room ${roomId} (${rules.length} rules)`,
+    );
+
+    return { rules };
+  }
+
+  async getModerationLog(
+    roomId: string,
+    userId: string,
+    query: ModerationLogQueryDto,
+  ) {
+    await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "kick",
+      "ليس لديك الصلاحية لعرض سجل الإشراف",
+    );
+
+    const entries = await this.wordFilter.getLog(
+      roomId,
+      query.limit,
+      query.before,
+    );
+
+    return {
+      entries,
+      nextCursor:
+        entries.length === query.limit
+          ? entries[entries.length - 1].createdAt
+          : null,
+    };
+  }
+
+  /**
+   * Run a room message through the word filter and apply the auto-action.
+   * Used by AppGateway send_message and MessagesService.send
+   */
+  async moderateMessage(
+    roomId: string,
+    userId: string,
+    content: string,
+  ): Promise<MessageModerationResult> {
+    const result = await this.wordFilter.check(roomId, content);
+    if (!result.action) {
+      return { allowed: true, content, action: null };
+    }
+
+    const rule = result.rule!;
+    const muteMinutes = rule.muteMinutes ?? DEFAULT_WORD_FILTER_MUTE_MINUTES;
+    let action = result.action;
+
+    if (action === "mute" || action === "kick") {
+      action = await this.applyAutoModeration(
+        roomId,
+        userId,
+        action,
+        muteMinutes,
+      );
+    }
+
+    await this.wordFilter.log({
+      roomId,
+      actorId: null,
+      targetId: userId,
+      action,
+      reason: "word_filter",
+      details: {
+        source: result.source,
+        pattern: rule.pattern,
+        isRegex: rule.isRegex,
+        matches: result.matches,
+        ...(action === "mute" && { muteMinutes }),
+      },
+    });
+
+    switch (action) {
+      case "mask":
+        return { allowed: true, content: result.content, action };
+      case "mute":
+        return {
+          allowed: false,
+          content,
+          action,
+          error: "USER_MUTED",
+          message: `تم كتمك لمدة ${muteMinutes} دقيقة بسبب كلمات محظورة`,
+        };
+      case "kick":
+        return {
+          allowed: false,
+          content,
+          action,
+          error: "USER_KICKED",
+          message: "تم طردك من الغرفة بسبب كلمات محظورة",
+        };
+      default:
+        return {
+          allowed: false,
+          content,
+          action,
+          error: "MESSAGE_BLOCKED",
+          message: "رسالتك تحتوي على كلمات محظورة",
+        };
+    }
+  }
+
+  /**
+   * Mute / kick the sender. Owners and admins are never auto-punished -
+   * their message is only blocked. Returns the action actually applied.
+   */
+  private async applyAutoModeration(
+    roomId: string,
+    userId: string,
+    action: "mute" | "kick",
+    muteMinutes: number,
+  ): Promise<WordFilterAction> {
+    const membership = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      select: { role: true },
+    });
+    if (
+      !membership ||
+      membership.role === MemberRole.OWNER ||
+      membership.role === MemberRole.ADMIN
+    ) {
+      return "block";
+    }
+
+    try {
+      if (action === "mute") {
+        await this.applyMute(roomId, userId, null, muteMinutes);
+      } else {
+        await this.applyKick(roomId, userId, null);
+        await this.gateway.kickUserFromRoom(roomId, userId, "word_filter");
+      }
+      return action;
+    } catch (error) {
+      this.logger.warn(
+        `Word filter ${action} failed for ${userId} in room ${roomId}: ${error.message}`,
+      );
+      return "block";
+    }
+  }
+
+  // ================================
+  // SLOW MODE & CHAT RATE LIMITS
+  // ================================
+
+  async updateSlowMode(roomId: string, dto: UpdateSlowModeDto, userId: string) {
+    const room = await this.roomPermissions.assert(
+      roomId,
+      userId,
+      "editRoom",
+      "ليس لديك الصلاحية لتعديل الوضع البطيء",
+    );
+
+    const slowMode: RoomSlowMode = {
+      intervalSeconds: dto.intervalSeconds,
+      exemptVip: dto.exemptVip ?? getSlowMode(room.settings).exemptVip,
+    };
+    const settings = { ...((room.settings as any) || {}), slowMode };
+
+    await this.prisma.room.update({
+      where: { id: roomId },
+      data: { settings },
+    });
+    await this.cache.invalidateRoom(roomId);
+    await this.redis.del(this.slowModeCacheKey(roomId));
+
+    await this.gateway.notifyRoomUpdated(roomId, { roomId, slowMode }, userId);
+
+    this.logger.log(
+      `User ${userId} set slow mode of room ${roomId} to ${slowMode.intervalSeconds}s`,
+    );
+
+    return { slowMode };
+  }
+
+  /**
+   * Burst limiter + slow mode for room chat.
+   * Used by AppGateway send_message and MessagesService.send
+   */
+  async checkChatRateLimit(
+    roomId: string,
+    userId: string,
+    role: MemberRole,
+  ): Promise<ChatRateLimitResult> {
+    const burstKey = `chat_burst:${roomId}:${userId}`;
+    const withinBurst = await this.redis.checkRateLimit(
+      burstKey,
+      CHAT_BURST_LIMIT,
+      CHAT_BURST_WINDOW_SECONDS,
+    );
+    if (!withinBurst) {
+      return {
+        allowed: false,
+        reason: "BURST",
+        retryAfter: Math.max(1, await this.redis.ttl(burstKey)),
+        message: "أنت ترسل الرسائل بسرعة كبيرة، حاول بعد قليل",
+      };
+    }
+
+    const slowMode = await this.getCachedSlowMode(roomId);
+    if (
+      slowMode.intervalSeconds <= 0 ||
+      (await this.isSlowModeExempt(userId, role, slowMode))
+    ) {
+      return { allowed: true };
+    }
+
+    // SET NX EX - only one of several concurrent sends claims the slot
+    const key = `room:${roomId}:slow_mode:${userId}`;
+    const claimed = await this.redis.acquireLock(key, slowMode.intervalSeconds);
+    if (!claimed) {
+      const retryAfter = Math.max(1, await this.redis.ttl(key));
+      return {
+        allowed: false,
+        reason: "SLOW_MODE",
+        retryAfter,
+        message: `الوضع البطيء مفعّل - يمكنك الإرسال بعد ${retryAfter} ثانية`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  private async getCachedSlowMode(roomId: string): Promise<RoomSlowMode> {
+    const cached = await this.redis.getJson<RoomSlowMode>(
+      this.slowModeCacheKey(roomId),
+    );
+    if (cached) return cached;
+
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { settings: true },
+    });
+    const slowMode = getSlowMode(room?.settings);
+
+    await this.redis.setJson(this.slowModeCacheKey(roomId), slowMode, 60);
+    return slowMode;
+  }
+
+  private async isSlowModeExempt(
+    userId: string,
+    role: MemberRole,
+    slowMode: RoomSlowMode,
+  ): Promise<boolean> {
+    if (role === MemberRole.OWNER || role === MemberRole.ADMIN) {
+      return true;
+    }
+    if (!slowMode.exemptVip) {
+      return false;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { isVIP: true, vipExpiresAt: true },
+    });
+    return (
+      !!user?.isVIP && (!user.vipExpiresAt || user.vipExpiresAt > new Date())
+    );
+  }
+
+  private slowModeCacheKey(roomId: string): string {
+    return `room:${roomId}:slow_mode`;
+  }
+
+  // ================================
+  // ANALYTICS
+  // ================================
+
+  /**
+   * Room dashboard for the owner and admins
+   */
+  async getRoomAnalytics(
+    roomId: string,
+    userId: string,
+    query: RoomAnalyticsQueryDto,
+  ) {
+    await this.getRoomWithPermission(roomId, userId, [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+    ]);
+
+    return this.roomAnalytics.getAnalytics(roomId, query.range);
+  }
+
+  // ================================
+  // MIC LAYOUT
+  // ================================
+
+  /**
+   * Change the seat layout of a room (owner only)
+   * تغيير تخطيط المايكات أثناء الجلسة - يتم نقل الموجودين على المايك للمقاعد الجديدة
+   */
+  async setMicLayout(roomId: string, dto: UpdateMicLayoutDto, userId: string) {
+    const room = await this.getRoomWithPermission(roomId, userId, [
+      MemberRole.OWNER,
+    ]);
+
+    const oldLayout = getMicLayout(room.settings);
+    const { maxMicSeats } = getRoomPerks(room.level);
+    if (dto.seats > Math.max(oldLayout.seats, maxMicSeats)) {
+      throw new ForbiddenException(
+        `عدد المقاعد المتاح في مستوى الغرفة الحالي هو ${maxMicSeats}`,
+      );
+    }
+
+    const newLayout: MicLayout = {
+      seats: dto.seats as MicLayoutSeats,
+      hostSeat: dto.hostSeat ?? oldLayout.hostSeat,
+    };
+
+    const lockKey = `lock:room:${roomId}:mic_layout`;
+    if (!(await this.redis.acquireLock(lockKey, 10))) {
+      throw new ConflictException("يتم تعديل المايكات حالياً، حاول مرة أخرى");
+    }
+
+    try {
+      const oldSlots = await this.micState.getSlots(roomId);
+
+      const { slots, removed } = migrateMicSlots(
+        oldSlots,
+        oldLayout,
+        newLayout,
+      );
+
+      // استبدال كل المقاعد القديمة بالتخطيط الجديد
+      await this.micState.replaceSlots(roomId, slots);
+
+      const settings = {
+        ...((room.settings as any) || {}),
+        micLayout: newLayout,
+      };
+      await this.prisma.room.update({
+        where: { id: roomId },
+        data: { settings },
+      });
+      await this.cache.invalidateRoom(roomId);
+
+      const { slots: layoutSlots } = await this.getMicSlots(roomId);
+
+      // إرسال التخطيط الجديد كاملاً للغرفة
+      this.gateway.emitToRoom(roomId, "mic_slot_updated", {
+        roomId,
+        layout: newLayout,
+        slots: layoutSlots,
+        animation: "layout",
+      });
+
+      // إبلاغ من لم يعد له مقعد في التخطيط الجديد
+      for (const slotData of removed) {
+        this.gateway.emitToRoom(roomId, "mic_kick", {
+          roomId,
+          kickedUserId: slotData.userId,
+          kickedUserName: slotData.userName,
+          reason: "layout_changed",
+        });
+      }
+
+      this.logger.log(
+        `User ${userId} changed mic layout of room ${roomId} to ${JSON.stringify(newLayout)}`,
+      );
+
+      return { success: true, layout: newLayout, slots: layoutSlots };
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * Validate a slot index against the room layout
+   */
+  private assertValidMicSlot(
+    room: { settings: Prisma.JsonValue } | null,
+    slotIndex: number,
+  ): MicLayout {
+    if (!room) {
+      throw new NotFoundException("الغرفة غير موجودة");
+    }
+
+    const layout = getMicLayout(room.settings);
+    if (!isValidMicSlot(layout, slotIndex)) {
+      throw new BadRequestException(
+        `رقم المايك غير صالح - يجب أن يكون بين 0 و ${getMicSlotCount(layout) - 1}`,
+      );
+    }
+
+    return layout;
+  }
+
+  // ================================
+  // UNBAN MEMBER
+  // ================================
+
+  async unbanMember(roomId: string, targetId: string, userId: string) {
+    await this.roomPermissions.assert(roomId, userId, "ban");
+
+    const targetMembership = await this.prisma.roomMember.findFirst({
+      where: { roomId, userId: targetId, isBanned: true },
+    });
+
+    if (!targetMembership) {
+      throw new NotFoundException("العضو غير محظور");
+    }
+
+    await this.prisma.roomMember.update({
+      where: { id: targetMembership.id },
+      data: {
+        isBanned: false,
+        bannedUntil: null,
+        leftAt: null,
+      },
+    });
+
+    this.logger.log(`User ${userId} unbanned ${targetId} from room ${roomId}`);
+    return { message: "تم إلغاء حظر العضو بنجاح" };
+  }
+
+  // ================================
+  // MUTE/UNMUTE MEMBER
+  // ================================
+
+  async muteMember(
+    roomId: string,
+    targetId: string,
+    userId: string,
+    durationMinutes?: number,
+  ) {
+    await this.roomPermissions.assert(roomId, userId, "mute");
+
+    return this.applyMute(roomId, targetId, userId, durationMinutes);
+  }
+
+  /**
+   * actorId = null for automatic moderation (word filter) - callers check
+   * permissions first
+   */
+  private async applyMute(
+    roomId: string,
+    targetId: string,
+    actorId: string | null,
+    durationMinutes?: number,
+  ) {
+    const targetMembership = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId: targetId } },
+    });
+
+    if (!targetMembership) {
+      throw new NotFoundException("العضو غير موجود");
+    }
+
+    const mutedUntil = durationMinutes 
+      ? new Date(Date.now() + durationMinutes * 60 * 1000)
+      : undefined;
+
+    await this.prisma.roomMember.update({
+      where: { id: targetMembership.id },
+      data: {
+        isMuted: true,
+        mutedUntil,
+      },
+    });
+
+    // Notify via websocket
+    this.gateway.emitToRoom(roomId, "member_muted", {
+      roomId,
+      userId: targetId,
+      mutedUntil,
+    });
+
+    this.logger.log(
+      `User ${actorId ?? "auto-moderation"} muted ${targetId} in room ${roomId}`,
+    );
+    return { message: "تم كتم العضو بنجاح" };
+  }
+
+  async unmuteMember(roomId: string, targetId: string, userId: string) {
+    await this.roomPermissions.assert(roomId, userId, "mute");
 
     const targetMembership = await this.prisma.roomMember.findUnique({
       where: { roomId_userId: { roomId, userId: targetId } },
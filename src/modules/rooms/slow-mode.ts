@@ -0,0 +1,36 @@
+/**
+ * Slow Mode - الوضع البطيء وحدود إرسال الرسائل في الغرف
+ * الإعداد يُخزن في Room.settings.slowMode
+ */
+
+export interface RoomSlowMode {
+  // أقل مدة بين رسالتين لنفس العضو (0 = معطل)
+  intervalSeconds: number;
+  // أعضاء VIP معفون (المالك والمشرفون معفون دائماً)
+  exemptVip: boolean;
+}
+
+export const MAX_SLOW_MODE_SECONDS = 300;
+
+// حد الرسائل المتتالية لكل عضو - يطبق على الجميع
+export const CHAT_BURST_LIMIT = 5;
+export const CHAT_BURST_WINDOW_SECONDS = 5;
+
+export type ChatRateLimitResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: "SLOW_MODE" | "BURST";
+      retryAfter: number; // seconds
+      message: string;
+    };
+
+export function getSlowMode(settings: unknown): RoomSlowMode {
+  const slowMode = (settings as { slowMode?: Partial<RoomSlowMode> } | null)
+    ?.slowMode;
+
+  return {
+    intervalSeconds: slowMode?.intervalSeconds ?? 0,
+    exemptVip: !!slowMode?.exemptVip,
+  };
+}
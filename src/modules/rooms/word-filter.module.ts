@@ -0,0 +1,14 @@
+/**
+ * Word Filter Module - فلتر الكلمات المحظورة وسجل الإشراف
+ * Global: تُستخدم في RoomsService و OwnerService
+ */
+
+import { Global, Module } from "@nestjs/common";
+import { WordFilterService } from "./word-filter.service";
+
+@Global()
+@Module({
+  providers: [WordFilterService],
+  exports: [WordFilterService],
+})
+export class WordFilterModule {}
@@ -0,0 +1,214 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import {
+  applyWordFilter,
+  compileWordFilterRules,
+  CompiledWordFilterRule,
+  DEFAULT_WORD_FILTER_MUTE_MINUTES,
+  getRoomWordFilter,
+  validateWordFilterRule,
+  WordFilterResult,
+  WordFilterRule,
+  WordFilterSource,
+} from "./word-filter";
+
+export interface RoomModerationLogEntry {
+  roomId: string;
+  actorId: string | null;
+  targetId?: string | null;
+  action: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Word Filter Service - قوائم الكلمات المحظورة وسجل الإشراف في الغرف
+ * القائمة العامة تُخزن في SystemSetting، وقائمة كل غرفة في Room.settings.wordFilter
+ */
+@Injectable()
+export class WordFilterService {
+  private readonly logger = new Logger(WordFilterService.name);
+
+  private readonly PLATFORM_SETTING_KEY = "moderation.word_filter";
+  private readonly CACHE_TTL_SECONDS = 60;
+  private readonly MAX_COMPILED_LISTS = 500;
+
+  private readonly compiled = new Map<string, CompiledWordFilterRule[]>();
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+  ) {}
+
+  // ================================
+  // RULE LISTS
+  // ================================
+
+  async getPlatformRules(): Promise<WordFilterRule[]> {
+    return JSON.parse(await this.getPlatformRulesJson());
+  }
+
+  async setPlatformRules(rules: WordFilterRule[]): Promise<WordFilterRule[]> {
+    const value = rules as unknown as Prisma.InputJsonValue;
+    await this.prisma.systemSetting.upsert({
+      where: { key: this.PLATFORM_SETTING_KEY },
+      create: {
+        key: this.PLATFORM_SETTING_KEY,
+        value,
+        description: "قائمة الكلمات المحظورة على مستوى المنصة",
+      },
+      update: { value },
+    });
+    await this.redis.del(this.platformCacheKey());
+
+    return rules;
+  }
+
+  async getRoomRules(roomId: string): Promise<WordFilterRule[]> {
+    return JSON.parse(await this.getRoomRulesJson(roomId));
+  }
+
+  async invalidateRoom(roomId: string): Promise<void> {
+    await this.redis.del(this.roomCacheKey(roomId));
+  }
+
+  /**
+   * Validate and clean rules before saving (room and platform lists)
+   */
+  normalizeRules(rules: WordFilterRule[]): WordFilterRule[] {
+    return rules.map((rule) => {
+      const normalized: WordFilterRule = {
+        pattern: rule.pattern.trim(),
+        isRegex: !!rule.isRegex,
+        action: rule.action,
+        ...(rule.action === "mute" && {
+          muteMinutes: rule.muteMinutes ?? DEFAULT_WORD_FILTER_MUTE_MINUTES,
+        }),
+      };
+
+      const error = validateWordFilterRule(normalized);
+      if (error) {
+        throw new BadRequestException(error);
+      }
+      return normalized;
+    });
+  }
+
+  // ================================
+  // FILTERING
+  // ================================
+
+  async check(roomId: string, content: string): Promise<WordFilterResult> {
+    const [roomRules, platformRules] = await Promise.all([
+      this.getRoomRulesJson(roomId),
+      this.getPlatformRulesJson(),
+    ]);
+
+    return applyWordFilter(content, [
+      ...this.compile(roomRules, "room"),
+      ...this.compile(platformRules, "platform"),
+    ]);
+  }
+
+  // ================================
+  // MODERATION LOG
+  // ================================
+
+  async log(entry: RoomModerationLogEntry): Promise<void> {
+    try {
+      await this.prisma.roomModerationLog.create({
+        data: {
+          roomId: entry.roomId,
+          actorId: entry.actorId,
+          targetId: entry.targetId ?? null,
+          action: entry.action,
+          reason: entry.reason,
+          details: entry.details as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to write moderation log for room ${entry.roomId}: ${error.message}`,
+      );
+    }
+  }
+
+  async getLog(roomId: string, limit = 50, before?: Date) {
+    return this.prisma.roomModerationLog.findMany({
+      where: {
+        roomId,
+        ...(before && { createdAt: { lt: before } }),
+      },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  /**
+   * Rules as cached JSON - the text doubles as the compiled-rules memo key,
+   * so the regexes are rebuilt only when the cache is refilled
+   */
+  private async getPlatformRulesJson(): Promise<string> {
+    return this.getCachedJson(this.platformCacheKey(), async () => {
+      const setting = await this.prisma.systemSetting.findUnique({
+        where: { key: this.PLATFORM_SETTING_KEY },
+      });
+      return Array.isArray(setting?.value)
+        ? (setting.value as unknown as WordFilterRule[])
+        : [];
+    });
+  }
+
+  private async getRoomRulesJson(roomId: string): Promise<string> {
+    return this.getCachedJson(this.roomCacheKey(roomId), async () => {
+      const room = await this.prisma.room.findUnique({
+        where: { id: roomId },
+        select: { settings: true },
+      });
+      return getRoomWordFilter(room?.settings);
+    });
+  }
+
+  private async getCachedJson(
+    key: string,
+    load: () => Promise<WordFilterRule[]>,
+  ): Promise<string> {
+    const cached = await this.redis.get(key);
+    if (cached) return cached;
+
+    const json = JSON.stringify(await load());
+    await this.redis.set(key, json, this.CACHE_TTL_SECONDS);
+    return json;
+  }
+
+  private compile(
+    json: string,
+    source: WordFilterSource,
+  ): CompiledWordFilterRule[] {
+    const key = `${source}:${json}`;
+    const cached = this.compiled.get(key);
+    if (cached) return cached;
+
+    const rules = compileWordFilterRules(JSON.parse(json), source);
+    if (this.compiled.size >= this.MAX_COMPILED_LISTS) {
+      // أقدم قائمة أولاً (ترتيب الإدخال في Map)
+      this.compiled.delete(this.compiled.keys().next().value);
+    }
+    this.compiled.set(key, rules);
+    return rules;
+  }
+
+  private platformCacheKey(): string {
+    return "moderation:word_filter:platform";
+  }
+
+  private roomCacheKey(roomId: string): string {
+    return `room:${roomId}:word_filter`;
+  }
+}
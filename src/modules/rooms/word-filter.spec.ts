@@ -0,0 +1,205 @@
+/**
+ * Word Filter Unit Tests
+ * اختبارات وحدة فلتر الكلمات المحظورة
+ */
+
+import {
+  applyWordFilter,
+  compileWordFilterRules,
+  getUnsafeRegexReason,
+  normalizeArabic,
+  validateWordFilterRule,
+  WordFilterRule,
+} from "./word-filter";
+
+describe("word-filter", () => {
+  const roomRules = (rules: WordFilterRule[]) =>
+    compileWordFilterRules(rules, "room");
+  const platformRules = (rules: WordFilterRule[]) =>
+    compileWordFilterRules(rules, "platform");
+
+  describe("normalizeArabic", () => {
+    it("should strip diacritics", () => {
+      expect(normalizeArabic("مَرْحَبًا")).toBe("مرحبا");
+    });
+
+    it("should strip tatweel", () => {
+      expect(normalizeArabic("مـــرحـبا")).toBe("مرحبا");
+    });
+
+    it("should unify alef, yeh and teh marbuta variants", () => {
+      expect(normalizeArabic("أإآٱ")).toBe("اااا");
+      expect(normalizeArabic("مستشفى")).toBe("مستشفي");
+      expect(normalizeArabic("غرفة")).toBe("غرفه");
+    });
+
+    it("should leave latin text unchanged", () => {
+      expect(normalizeArabic("Hello")).toBe("Hello");
+    });
+  });
+
+  describe("applyWordFilter", () => {
+    it("should allow clean messages", () => {
+      const result = applyWordFilter(
+        "مرحبا بالجميع",
+        roomRules([{ pattern: "كلب", action: "block" }]),
+      );
+
+      expect(result.action).toBeNull();
+      expect(result.content).toBe("مرحبا بالجميع");
+      expect(result.matches).toEqual([]);
+    });
+
+    it("should match through diacritics, tatweel and alef variants", () => {
+      const rules = roomRules([{ pattern: "احمق", action: "block" }]);
+
+      expect(applyWordFilter("يا أَحْمَق", rules).action).toBe("block");
+      expect(applyWordFilter("يا إحـــمق", rules).action).toBe("block");
+    });
+
+    it("should mask the original characters including trailing diacritics", () => {
+      const result = applyWordFilter(
+        "هذا كَلْـبٌ كبير",
+        roomRules([{ pattern: "كلب", action: "mask" }]),
+      );
+
+      expect(result.action).toBe("mask");
+      expect(result.matches).toEqual(["كَلْـبٌ"]);
+      expect(result.content).toBe("هذا ******* كبير");
+    });
+
+    it("should mask every occurrence and keep whitespace", () => {
+      const result = applyWordFilter(
+        "bad and BAD",
+        roomRules([{ pattern: "bad", action: "mask" }]),
+      );
+
+      expect(result.content).toBe("*** and ***");
+      expect(result.matches).toEqual(["bad", "BAD"]);
+    });
+
+    it("should apply the most severe matching action without masking", () => {
+      const result = applyWordFilter("كلب و حمار", [
+        ...roomRules([{ pattern: "كلب", action: "mask" }]),
+        ...platformRules([{ pattern: "حمار", action: "mute", muteMinutes: 5 }]),
+      ]);
+
+      expect(result.action).toBe("mute");
+      expect(result.source).toBe("platform");
+      expect(result.rule?.muteMinutes).toBe(5);
+      expect(result.content).toBe("كلب و حمار");
+    });
+
+    it("should match literal rules on whole words only", () => {
+      const rules = roomRules([{ pattern: "حمار", action: "block" }]);
+
+      expect(applyWordFilter("يا حمار!", rules).action).toBe("block");
+      expect(applyWordFilter("حمار", rules).action).toBe("block");
+      expect(applyWordFilter("حمارة الجيران", rules).action).toBeNull();
+      expect(
+        applyWordFilter(
+          "class",
+          roomRules([{ pattern: "ass", action: "block" }]),
+        ).action,
+      ).toBeNull();
+    });
+
+    it("should match multi-word literal rules", () => {
+      const rules = roomRules([{ pattern: "كلب اسود", action: "block" }]);
+
+      expect(applyWordFilter("انت كلب أسود", rules).action).toBe("block");
+    });
+
+    it("should treat regex characters in literal rules as text", () => {
+      const rules = roomRules([{ pattern: "a+", action: "block" }]);
+
+      expect(applyWordFilter("aaa", rules).action).toBeNull();
+      expect(applyWordFilter("x a+ y", rules).action).toBe("block");
+    });
+
+    it("should run room and platform regex rules", () => {
+      expect(
+        applyWordFilter(
+          "spaaam",
+          roomRules([{ pattern: "spa+m", isRegex: true, action: "block" }]),
+        ).action,
+      ).toBe("block");
+      expect(
+        applyWordFilter(
+          "spaaam",
+          platformRules([{ pattern: "spa+m", isRegex: true, action: "block" }]),
+        ).action,
+      ).toBe("block");
+    });
+
+    it("should skip stored regex rules that are no longer accepted", () => {
+      const rules = roomRules([
+        { pattern: "(a+)+$", isRegex: true, action: "block" },
+      ]);
+
+      expect(rules).toEqual([]);
+    });
+  });
+
+  describe("validateWordFilterRule", () => {
+    it("should require a pattern", () => {
+      expect(
+        validateWordFilterRule({ pattern: "  ", action: "block" }),
+      ).not.toBeNull();
+    });
+
+    it("should reject invalid and unsafe regex", () => {
+      expect(
+        validateWordFilterRule({
+          pattern: "(",
+          isRegex: true,
+          action: "block",
+        }),
+      ).not.toBeNull();
+      expect(
+        validateWordFilterRule({
+          pattern: "(ا+)+$",
+          isRegex: true,
+          action: "block",
+        }),
+      ).not.toBeNull();
+    });
+
+    it("should accept literal and safe regex rules", () => {
+      expect(
+        validateWordFilterRule({ pattern: "كلمة", action: "mask" }),
+      ).toBeNull();
+      expect(
+        validateWordFilterRule({
+          pattern: "spa+m",
+          isRegex: true,
+          action: "block",
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("getUnsafeRegexReason", () => {
+    it.each([
+      "(a+)+",
+      "(a*)*",
+      "((ab+)c)*",
+      "(?:a|b+){2,}",
+      "(a|b)*",
+      "((a|b)c)+",
+      "(a)\\1",
+      "a".repeat(61),
+      "a|b|c|d|e|f|g|h|i|j|k|l",
+      "a+b+c+d+e+f+g+h+i+j+k+",
+    ])("should reject %s", (pattern) => {
+      expect(getUnsafeRegexReason(pattern)).not.toBeNull();
+    });
+
+    it.each(["a+b*", "(ab)+", "[ab]*", "[(a+)]+", "\\(a+\\)+", "(a+)?", "a|b"])(
+      "should allow %s",
+      (pattern) => {
+        expect(getUnsafeRegexReason(pattern)).toBeNull();
+      },
+    );
+  });
+});
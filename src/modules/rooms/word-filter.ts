@@ -0,0 +1,300 @@
+/**
+ * Word Filter - فلتر الكلمات المحظورة في رسائل الغرف
+ * قائمة لكل غرفة (Room.settings.wordFilter) فوق قائمة عامة للمنصة (SystemSetting)
+ */
+
+export const WORD_FILTER_ACTIONS = ["block", "mask", "mute", "kick"] as const;
+
+export type WordFilterAction = (typeof WORD_FILTER_ACTIONS)[number];
+
+export interface WordFilterRule {
+  pattern: string;
+  isRegex?: boolean;
+  action: WordFilterAction;
+  muteMinutes?: number; // للإجراء mute فقط
+}
+
+export type WordFilterSource = "room" | "platform";
+
+export interface WordFilterResult {
+  // الإجراء الأشد بين كل القواعد المطابقة (null = الرسالة سليمة)
+  action: WordFilterAction | null;
+  rule: WordFilterRule | null;
+  source: WordFilterSource | null;
+  // المحتوى بعد إخفاء الكلمات (للإجراء mask)
+  content: string;
+  matches: string[];
+}
+
+export const MAX_WORD_FILTER_RULES = 200;
+export const MAX_WORD_FILTER_PATTERN_LENGTH = 100;
+export const MAX_WORD_FILTER_REGEX_LENGTH = 60;
+export const MAX_WORD_FILTER_REGEX_ALTERNATIONS = 10;
+export const MAX_WORD_FILTER_REGEX_QUANTIFIERS = 10;
+export const DEFAULT_WORD_FILTER_MUTE_MINUTES = 10;
+export const MAX_WORD_FILTER_MUTE_MINUTES = 7 * 24 * 60;
+
+const ACTION_SEVERITY: Record<WordFilterAction, number> = {
+  mask: 1,
+  block: 2,
+  mute: 3,
+  kick: 4,
+};
+
+// التشكيل وعلامات القرآن
+const ARABIC_DIACRITICS =
+  /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E8\u06EA-\u06ED]/;
+const TATWEEL = "\u0640";
+const ARABIC_LETTER_VARIANTS: Record<string, string> = {
+  أ: "ا",
+  إ: "ا",
+  آ: "ا",
+  ٱ: "ا",
+  ى: "ي",
+  ة: "ه",
+};
+
+/**
+ * Strip diacritics / tatweel and unify alef, yeh and teh marbuta variants.
+ * map[i] is the index in the original text of normalized character i.
+ */
+function normalizeWithMap(text: string): { text: string; map: number[] } {
+  let normalized = "";
+  const map: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === TATWEEL || ARABIC_DIACRITICS.test(char)) continue;
+
+    normalized += ARABIC_LETTER_VARIANTS[char] ?? char;
+    map.push(i);
+  }
+
+  return { text: normalized, map };
+}
+
+export function normalizeArabic(text: string): string {
+  return normalizeWithMap(text).text;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// حدود الكلمة بحروف يونيكود (\b لا يعرف الحروف العربية)
+const WORD_CHAR = /[\p{L}\p{M}\p{N}_]/u;
+const NOT_WORD_BEFORE = "(?<![\\p{L}\\p{M}\\p{N}_])";
+const NOT_WORD_AFTER = "(?![\\p{L}\\p{M}\\p{N}_])";
+
+/**
+ * Literal rules match whole words only, so a short word does not block
+ * every message that merely contains it
+ */
+function literalSource(pattern: string): string {
+  let source = escapeRegExp(pattern);
+  if (WORD_CHAR.test(pattern[0])) {
+    source = NOT_WORD_BEFORE + source;
+  }
+  if (WORD_CHAR.test(pattern[pattern.length - 1])) {
+    source += NOT_WORD_AFTER;
+  }
+  return source;
+}
+
+interface RegexGroup {
+  quantified: boolean;
+  alternation: boolean;
+}
+
+/**
+ * Regex rules run against every message, so only patterns that cannot
+ * backtrack catastrophically are accepted: no repeated group that contains
+ * a quantifier - (a+)+ - or an alternation - (a|a)* - no backreferences,
+ * and bounded length, alternations and quantifiers.
+ * Returns the reason a pattern is rejected, null when it is safe.
+ */
+export function getUnsafeRegexReason(pattern: string): string | null {
+  if (pattern.length > MAX_WORD_FILTER_REGEX_LENGTH) {
+    return `التعبير النمطي أطول من ${MAX_WORD_FILTER_REGEX_LENGTH} حرفاً`;
+  }
+
+  const groups: RegexGroup[] = [];
+  let alternations = 0;
+  let quantifiers = 0;
+  let closed: RegexGroup | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const previousGroup = closed;
+    closed = null;
+    const current = groups[groups.length - 1];
+
+    if (char === "\\") {
+      const next = pattern[++i];
+      if (/[1-9k]/.test(next ?? "")) {
+        return "المراجع الخلفية غير مسموحة في التعابير النمطية";
+      }
+    } else if (char === "[") {
+      // class - skip to the closing bracket
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push({ quantified: false, alternation: false });
+    } else if (char === ")") {
+      closed = groups.pop() ?? null;
+      const parent = groups[groups.length - 1];
+      if (closed && parent) {
+        parent.quantified ||= closed.quantified;
+        parent.alternation ||= closed.alternation;
+      }
+    } else if (char === "|") {
+      alternations++;
+      if (current) current.alternation = true;
+    } else if (char === "*" || char === "+" || char === "{") {
+      quantifiers++;
+      if (previousGroup?.quantified) {
+        return "المُكمّمات المتداخلة غير مسموحة، مثل (a+)+";
+      }
+      if (previousGroup?.alternation) {
+        return "التناوب داخل مجموعة مكررة غير مسموح، استخدم [ab]* بدل (a|b)*";
+      }
+      if (current) current.quantified = true;
+    }
+  }
+
+  if (alternations > MAX_WORD_FILTER_REGEX_ALTERNATIONS) {
+    return `عدد البدائل (|) أكثر من ${MAX_WORD_FILTER_REGEX_ALTERNATIONS}`;
+  }
+  if (quantifiers > MAX_WORD_FILTER_REGEX_QUANTIFIERS) {
+    return `عدد المُكمّمات أكثر من ${MAX_WORD_FILTER_REGEX_QUANTIFIERS}`;
+  }
+  return null;
+}
+
+/**
+ * Compiled once per cache fill, not per message
+ */
+export interface CompiledWordFilterRule {
+  rule: WordFilterRule;
+  source: WordFilterSource;
+  regex: RegExp;
+}
+
+function compileRule(rule: WordFilterRule): RegExp | null {
+  const pattern = normalizeArabic(rule.pattern.trim());
+  if (!pattern) return null;
+
+  try {
+    return rule.isRegex
+      ? new RegExp(pattern, "gi")
+      : new RegExp(literalSource(pattern), "giu");
+  } catch {
+    return null;
+  }
+}
+
+export function compileWordFilterRules(
+  rules: WordFilterRule[],
+  source: WordFilterSource,
+): CompiledWordFilterRule[] {
+  const compiled: CompiledWordFilterRule[] = [];
+
+  for (const rule of rules) {
+    // Rules saved before the safety checks are skipped, never run
+    if (rule.isRegex && getUnsafeRegexReason(rule.pattern)) continue;
+
+    const regex = compileRule(rule);
+    if (regex) compiled.push({ rule, source, regex });
+  }
+
+  return compiled;
+}
+
+/**
+ * Returns an error message for an invalid rule, null when valid
+ */
+export function validateWordFilterRule(rule: WordFilterRule): string | null {
+  if (!rule.pattern?.trim()) {
+    return "النمط مطلوب";
+  }
+  if (!rule.isRegex) {
+    return null;
+  }
+  if (!compileRule(rule)) {
+    return `تعبير نمطي غير صالح: ${rule.pattern}`;
+  }
+
+  const unsafe = getUnsafeRegexReason(rule.pattern);
+  return unsafe ? `${unsafe}: ${rule.pattern}` : null;
+}
+
+export function getRoomWordFilter(settings: unknown): WordFilterRule[] {
+  const rules = (settings as { wordFilter?: WordFilterRule[] } | null)
+    ?.wordFilter;
+  return Array.isArray(rules) ? rules : [];
+}
+
+/**
+ * Run the message through the room and platform rules.
+ * The most severe matching action wins; mask rules are applied only when
+ * nothing stronger matched.
+ */
+export function applyWordFilter(
+  content: string,
+  rules: CompiledWordFilterRule[],
+): WordFilterResult {
+  const result: WordFilterResult = {
+    action: null,
+    rule: null,
+    source: null,
+    content,
+    matches: [],
+  };
+  if (!content) return result;
+
+  const { text, map } = normalizeWithMap(content);
+  const masked = new Set<number>();
+
+  for (const { rule, source, regex } of rules) {
+    let matched = false;
+    for (const match of text.matchAll(regex)) {
+      if (!match[0]) continue;
+      matched = true;
+
+      const start = map[match.index!];
+      let end = map[match.index! + match[0].length - 1] + 1;
+      // التشكيل بعد آخر حرف جزء من الكلمة
+      while (
+        end < content.length &&
+        (content[end] === TATWEEL || ARABIC_DIACRITICS.test(content[end]))
+      ) {
+        end++;
+      }
+
+      result.matches.push(content.slice(start, end));
+      if (rule.action === "mask") {
+        for (let i = start; i < end; i++) masked.add(i);
+      }
+    }
+
+    if (
+      matched &&
+      (!result.action ||
+        ACTION_SEVERITY[rule.action] > ACTION_SEVERITY[result.action])
+    ) {
+      result.action = rule.action;
+      result.rule = rule;
+      result.source = source;
+    }
+  }
+
+  if (result.action === "mask") {
+    result.content = content
+      .split("")
+      .map((char, i) => (masked.has(i) && !/\s/.test(char) ? "*" : char))
+      .join("");
+  }
+
+  return result;
+}
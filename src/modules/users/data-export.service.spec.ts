@@ -0,0 +1,248 @@
+/**
+ * Data Export Service Unit Tests
+ * اختبارات وحدة خدمة تصدير البيانات الشخصية
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { GoneException, NotFoundException } from '@nestjs/common';
+import { DataExportStatus } from '@prisma/client';
+import * as crypto from 'crypto';
+import * as JSZip from 'jszip';
+import { DataExportService } from './data-export.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { RedisService } from '../../common/redis/redis.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+
+  const sha256 = (value: string) =>
+    crypto.createHash('sha256').update(value).digest('hex');
+
+  const mockPrismaService = {
+    dataExport: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    user: { findUniqueOrThrow: jest.fn() },
+    wallet: { findUnique: jest.fn() },
+    walletTransaction: { findMany: jest.fn() },
+    giftSend: { findMany: jest.fn() },
+    message: { findMany: jest.fn() },
+    privateMessage: { findMany: jest.fn() },
+    private_messages: { findMany: jest.fn() },
+    explorePost: { findMany: jest.fn() },
+    follow: { findMany: jest.fn() },
+    friendships: { findMany: jest.fn() },
+    notification: { findMany: jest.fn() },
+  };
+
+  const mockRedisService = {
+    acquireLock: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    create: jest.fn(),
+  };
+
+  const listModels = [
+    mockPrismaService.walletTransaction,
+    mockPrismaService.giftSend,
+    mockPrismaService.message,
+    mockPrismaService.privateMessage,
+    mockPrismaService.private_messages,
+    mockPrismaService.explorePost,
+    mockPrismaService.follow,
+    mockPrismaService.friendships,
+    mockPrismaService.notification,
+  ];
+
+  const readArchive = async (archive: Buffer, name: string) => {
+    const zip = await JSZip.loadAsync(archive);
+    return JSON.parse(await zip.file(name)!.async('string'));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<DataExportService>(DataExportService);
+
+    jest.clearAllMocks();
+    mockRedisService.acquireLock.mockResolvedValue(true);
+    mockPrismaService.dataExport.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.dataExport.findUniqueOrThrow.mockResolvedValue({
+      userId: 'user-1',
+    });
+    mockPrismaService.user.findUniqueOrThrow.mockResolvedValue({
+      id: 'user-1',
+      username: 'ali',
+    });
+    mockPrismaService.wallet.findUnique.mockResolvedValue({
+      id: 'wallet-1',
+      userId: 'user-1',
+      balance: BigInt(150),
+    });
+    for (const model of listModels) {
+      model.findMany.mockResolvedValue([]);
+    }
+  });
+
+  describe('processExport', () => {
+    it('should page through every table instead of truncating it', async () => {
+      const page = (from: number, count: number) =>
+        Array.from({ length: count }, (_, i) => ({
+          id: `n-${from + i}`,
+          title: `notification ${from + i}`,
+        }));
+      mockPrismaService.notification.findMany
+        .mockResolvedValueOnce(page(0, 1000))
+        .mockResolvedValueOnce(page(1000, 1000))
+        .mockResolvedValueOnce(page(2000, 500));
+
+      await service.processExport('export-1');
+
+      const calls = mockPrismaService.notification.findMany.mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(calls[0][0]).toEqual(
+        expect.objectContaining({ take: 1000, where: { userId: 'user-1' } }),
+      );
+      expect(calls[0][0].cursor).toBeUndefined();
+      expect(calls[1][0]).toEqual(
+        expect.objectContaining({ skip: 1, cursor: { id: 'n-999' } }),
+      );
+      expect(calls[2][0].cursor).toEqual({ id: 'n-1999' });
+
+      const { data } = mockPrismaService.dataExport.update.mock.calls[0][0];
+      expect(data.status).toBe(DataExportStatus.READY);
+
+      const notifications = await readArchive(
+        data.archive,
+        'notifications.json',
+      );
+      expect(notifications).toHaveLength(2500);
+      expect(notifications[2499].id).toBe('n-2499');
+      expect(await readArchive(data.archive, 'gifts-sent.json')).toEqual([]);
+      expect(await readArchive(data.archive, 'wallet.json')).toEqual(
+        expect.objectContaining({ balance: '150' }),
+      );
+    });
+
+    it('should notify the user with a link matching the stored token hash', async () => {
+      await service.processExport('export-1');
+
+      const { data } = mockPrismaService.dataExport.update.mock.calls[0][0];
+      const notification = mockNotificationsService.create.mock.calls[0][0];
+      const token = notification.data.downloadPath.split('/').pop();
+
+      expect(notification.userId).toBe('user-1');
+      expect(data.tokenHash).toBe(sha256(token));
+      expect(data.sizeBytes).toBe(data.archive.length);
+    });
+
+    it('should not build an export another instance already claimed', async () => {
+      mockPrismaService.dataExport.updateMany.mockResolvedValueOnce({
+        count: 0,
+      });
+
+      await service.processExport('export-1');
+
+      expect(mockPrismaService.user.findUniqueOrThrow).not.toHaveBeenCalled();
+      expect(mockPrismaService.dataExport.update).not.toHaveBeenCalled();
+    });
+
+    it('should not build without the build lock', async () => {
+      mockRedisService.acquireLock.mockResolvedValueOnce(false);
+
+      await service.processExport('export-1');
+
+      expect(mockPrismaService.dataExport.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should mark the export as failed when a query fails mid-stream', async () => {
+      mockPrismaService.message.findMany.mockRejectedValueOnce(
+        new Error('connection lost'),
+      );
+
+      await expect(service.processExport('export-1')).resolves.toBeUndefined();
+
+      expect(mockPrismaService.dataExport.update).not.toHaveBeenCalled();
+      expect(mockPrismaService.dataExport.updateMany).toHaveBeenLastCalledWith({
+        where: {
+          id: 'export-1',
+          status: {
+            in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING],
+          },
+        },
+        data: { status: DataExportStatus.FAILED, error: 'connection lost' },
+      });
+      expect(mockNotificationsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('download', () => {
+    const readyExport = {
+      id: 'export-1',
+      status: DataExportStatus.READY,
+      archive: Buffer.from('zip-bytes'),
+      createdAt: new Date('2026-01-05T10:00:00Z'),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    };
+
+    it('should look the export up by token hash and return the archive', async () => {
+      mockPrismaService.dataExport.findUnique.mockResolvedValue(readyExport);
+
+      const result = await service.download('secret-token');
+
+      expect(mockPrismaService.dataExport.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: sha256('secret-token') },
+      });
+      expect(result.fileName).toBe('ali-data-export-2026-01-05.zip');
+      expect(result.archive.toString()).toBe('zip-bytes');
+      expect(mockPrismaService.dataExport.update).toHaveBeenCalledWith({
+        where: { id: 'export-1' },
+        data: { downloadedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject an unknown token', async () => {
+      mockPrismaService.dataExport.findUnique.mockResolvedValue(null);
+
+      await expect(service.download('wrong')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should reject an expired link', async () => {
+      mockPrismaService.dataExport.findUnique.mockResolvedValue({
+        ...readyExport,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.download('secret-token')).rejects.toThrow(
+        GoneException,
+      );
+      expect(mockPrismaService.dataExport.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an export that is not ready', async () => {
+      mockPrismaService.dataExport.findUnique.mockResolvedValue({
+        ...readyExport,
+        status: DataExportStatus.PROCESSING,
+        archive: null,
+      });
+
+      await expect(service.download('secret-token')).rejects.toThrow(
+        GoneException,
+      );
+    });
+  });
+});
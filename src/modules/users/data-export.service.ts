@@ -0,0 +1,472 @@
+import {
+  Injectable,
+  NotFoundException,
+  GoneException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from "@nestjs/common";
+import * as crypto from "crypto";
+import * as JSZip from "jszip";
+import { Readable } from "stream";
+import { DataExportStatus, NotificationType } from "@prisma/client";
+import { PrismaService } from "../../common/prisma/prisma.service";
+import { RedisService } from "../../common/redis/redis.service";
+import { NotificationsService } from "../notifications/notifications.service";
+
+export interface DataExportSummary {
+  id: string;
+  status: DataExportStatus;
+  sizeBytes: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+}
+
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+
+  private readonly LINK_TTL_SEC = 48 * 60 * 60;
+  private readonly REQUEST_COOLDOWN_SEC = 24 * 60 * 60;
+  private readonly BUILD_LOCK_TTL_SEC = 10 * 60;
+  // Rows are paged into the zip - a table is never loaded at once
+  private readonly EXPORT_BATCH_SIZE = 1000;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private notifications: NotificationsService,
+  ) {}
+
+  // ================================
+  // REQUEST / STATUS
+  // ================================
+
+  /**
+   * Queue a new export. The archive is built in the background and the
+   * user gets a notification with the download link when it is ready.
+   */
+  async requestExport(userId: string): Promise<DataExportSummary> {
+    const latest = await this.prisma.dataExport.findFirst({
+      where: { userId, status: { not: DataExportStatus.FAILED } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    if (
+      latest?.status === DataExportStatus.PENDING ||
+      latest?.status === DataExportStatus.PROCESSING
+    ) {
+      return this.toSummary(latest);
+    }
+
+    if (latest) {
+      const nextAllowedAt =
+        latest.createdAt.getTime() + this.REQUEST_COOLDOWN_SEC * 1000;
+      if (nextAllowedAt > Date.now()) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.TOO_MANY_REQUESTS,
+            message: "يمكنك طلب نسخة واحدة من بياناتك كل 24 ساعة",
+            retryAfter: Math.ceil((nextAllowedAt - Date.now()) / 1000),
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    const dataExport = await this.prisma.dataExport.create({
+      data: { userId },
+    });
+
+    // Fire and forget - failures are recorded on the export row
+    void this.processExport(dataExport.id);
+
+    return this.toSummary(dataExport);
+  }
+
+  async getExports(userId: string): Promise<DataExportSummary[]> {
+    const exports = await this.prisma.dataExport.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: 10,
+      select: {
+        id: true,
+        status: true,
+        sizeBytes: true,
+        createdAt: true,
+        completedAt: true,
+        expiresAt: true,
+      },
+    });
+
+    return exports.map((e) => this.toSummary(e));
+  }
+
+  // ================================
+  // DOWNLOAD
+  // ================================
+
+  async download(
+    token: string,
+  ): Promise<{ fileName: string; archive: Buffer }> {
+    const dataExport = await this.prisma.dataExport.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (!dataExport) {
+      throw new NotFoundException("رابط التحميل غير صالح");
+    }
+
+    if (
+      dataExport.status !== DataExportStatus.READY ||
+      !dataExport.archive ||
+      !dataExport.expiresAt ||
+      dataExport.expiresAt < new Date()
+    ) {
+      throw new GoneException("انتهت صلاحية رابط التحميل، يرجى طلب نسخة جديدة");
+    }
+
+    await this.prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: { downloadedAt: new Date() },
+    });
+
+    const date = dataExport.createdAt.toISOString().slice(0, 10);
+
+    return {
+      fileName: `ali-data-export-${date}.zip`,
+      archive: Buffer.from(dataExport.archive),
+    };
+  }
+
+  // ================================
+  // BUILD
+  // ================================
+
+  /**
+   * Runs detached from the request - never throws, every failure is
+   * recorded on the export row
+   */
+  async processExport(exportId: string): Promise<void> {
+    try {
+      const locked = await this.redis.acquireLock(
+        `data-export:build:${exportId}`,
+        this.BUILD_LOCK_TTL_SEC,
+      );
+      if (!locked) return;
+
+      // Claim the row so a second instance never builds the same export
+      const claimed = await this.prisma.dataExport.updateMany({
+        where: { id: exportId, status: DataExportStatus.PENDING },
+        data: { status: DataExportStatus.PROCESSING },
+      });
+      if (claimed.count === 0) return;
+
+      const { userId } = await this.prisma.dataExport.findUniqueOrThrow({
+        where: { id: exportId },
+        select: { userId: true },
+      });
+
+      const archive = await this.buildArchive(userId);
+      const token = crypto.randomBytes(32).toString("hex");
+      const expiresAt = new Date(Date.now() + this.LINK_TTL_SEC * 1000);
+
+      await this.prisma.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: DataExportStatus.READY,
+          tokenHash: this.hashToken(token),
+          archive,
+          sizeBytes: archive.length,
+          completedAt: new Date(),
+          expiresAt,
+        },
+      });
+
+      await this.notifications.create({
+        userId,
+        type: NotificationType.SYSTEM_MESSAGE,
+        title: "نسخة بياناتك جاهزة",
+        body: "يمكنك تحميل نسخة من بياناتك الشخصية خلال 48 ساعة",
+        data: {
+          type: "DATA_EXPORT_READY",
+          exportId,
+          downloadPath: `/api/v1/users/data-export/${token}`,
+          expiresAt: expiresAt.toISOString(),
+        },
+      });
+
+      this.logger.log(
+        `Data export ${exportId} ready for user ${userId} (${archive.length} bytes)`,
+      );
+    } catch (error) {
+      this.logger.error(`Data export ${exportId} failed: ${error.message}`);
+      await this.markFailed(exportId, error.message);
+    }
+  }
+
+  private async markFailed(exportId: string, message?: string): Promise<void> {
+    try {
+      await this.prisma.dataExport.updateMany({
+        where: {
+          id: exportId,
+          status: {
+            in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING],
+          },
+        },
+        data: {
+          status: DataExportStatus.FAILED,
+          error: message?.slice(0, 500),
+        },
+      });
+    } catch (error) {
+      // CleanupService fails exports stuck for over an hour
+      this.logger.error(
+        `Failed to mark data export ${exportId} as failed: ${error.message}`,
+      );
+    }
+  }
+
+  private async buildArchive(userId: string): Promise<Buffer> {
+    const [profile, wallet] = await Promise.all([
+      this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: {
+          id: true,
+          numericId: true,
+          customId: true,
+          email: true,
+          emailVerified: true,
+          phoneNumber: true,
+          phoneVerified: true,
+          username: true,
+          displayName: true,
+          avatar: true,
+          bio: true,
+          authProvider: true,
+          role: true,
+          status: true,
+          isVIP: true,
+          vipExpiresAt: true,
+          twoFactorEnabled: true,
+          lastLoginAt: true,
+          lastLoginIp: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+      this.prisma.wallet.findUnique({ where: { userId } }),
+    ]);
+
+    const newestFirst = [
+      { createdAt: "desc" as const },
+      { id: "desc" as const },
+    ];
+    const chatNewestFirst = [
+      { created_at: "desc" as const },
+      { id: "desc" as const },
+    ];
+
+    // Every list is complete - each file pages through its table
+    const files: Record<string, Readable> = {
+      "wallet-transactions.json": this.jsonArrayStream((cursor) =>
+        wallet
+          ? this.prisma.walletTransaction.findMany({
+              where: { walletId: wallet.id },
+              orderBy: newestFirst,
+              ...this.page(cursor),
+            })
+          : Promise.resolve([]),
+      ),
+      "gifts-sent.json": this.jsonArrayStream((cursor) =>
+        this.prisma.giftSend.findMany({
+          where: { senderId: userId },
+          include: {
+            gift: { select: { name: true, price: true } },
+            receiver: { select: { username: true, displayName: true } },
+          },
+          orderBy: newestFirst,
+          ...this.page(cursor),
+        }),
+      ),
+      "gifts-received.json": this.jsonArrayStream((cursor) =>
+        this.prisma.giftSend.findMany({
+          where: { receiverId: userId },
+          include: {
+            gift: { select: { name: true, price: true } },
+            sender: { select: { username: true, displayName: true } },
+          },
+          orderBy: newestFirst,
+          ...this.page(cursor),
+        }),
+      ),
+      "room-messages.json": this.jsonArrayStream((cursor) =>
+        this.prisma.message.findMany({
+          where: { senderId: userId },
+          include: { room: { select: { name: true, numericId: true } } },
+          orderBy: newestFirst,
+          ...this.page(cursor),
+        }),
+      ),
+      "private-messages.json": this.jsonArrayStream((cursor) =>
+        this.prisma.privateMessage.findMany({
+          where: { OR: [{ senderId: userId }, { receiverId: userId }] },
+          orderBy: newestFirst,
+          ...this.page(cursor),
+        }),
+      ),
+      "private-chat-messages.json": this.jsonArrayStream((cursor) =>
+        this.prisma.private_messages.findMany({
+          where: {
+            private_chats: {
+              OR: [{ user1_id: userId }, { user2_id: userId }],
+            },
+          },
+          orderBy: chatNewestFirst,
+          ...this.page(cursor),
+        }),
+      ),
+      "explore-posts.json": this.jsonArrayStream((cursor) =>
+        this.prisma.explorePost.findMany({
+          where: { userId },
+          orderBy: newestFirst,
+          ...this.page(cursor),
+        }),
+      ),
+      "following.json": this.jsonArrayStream(
+        (cursor) =>
+          this.prisma.follow.findMany({
+            where: { followerId: userId },
+            include: {
+              following: {
+                select: { id: true, username: true, displayName: true },
+              },
+            },
+            orderBy: newestFirst,
+            ...this.page(cursor),
+          }),
+        (f) => ({ ...f.following, since: f.createdAt }),
+      ),
+      "followers.json": this.jsonArrayStream(
+        (cursor) =>
+          this.prisma.follow.findMany({
+            where: { followingId: userId },
+            include: {
+              follower: {
+                select: { id: true, username: true, displayName: true },
+              },
+            },
+            orderBy: newestFirst,
+            ...this.page(cursor),
+          }),
+        (f) => ({ ...f.follower, since: f.createdAt }),
+      ),
+      "friends.json": this.jsonArrayStream(
+        (cursor) =>
+          this.prisma.friendships.findMany({
+            where: { OR: [{ user1_id: userId }, { user2_id: userId }] },
+            orderBy: chatNewestFirst,
+            ...this.page(cursor),
+          }),
+        (f) => ({
+          userId: f.user1_id === userId ? f.user2_id : f.user1_id,
+          since: f.created_at,
+        }),
+      ),
+      "notifications.json": this.jsonArrayStream((cursor) =>
+        this.prisma.notification.findMany({
+          where: { userId },
+          orderBy: newestFirst,
+          ...this.page(cursor),
+        }),
+      ),
+    };
+
+    const zip = new JSZip();
+    zip.file(
+      "README.txt",
+      `Ali App - personal data export\nUser: ${profile.username}\nGenerated at: ${new Date().toISOString()}\n` +
+        `Lists are newest first.\n`,
+    );
+    zip.file("profile.json", this.toJson(profile));
+    zip.file("wallet.json", this.toJson(wallet));
+    for (const [name, content] of Object.entries(files)) {
+      zip.file(name, content);
+    }
+
+    return zip.generateAsync({
+      type: "nodebuffer",
+      compression: "DEFLATE",
+      compressionOptions: { level: 6 },
+    });
+  }
+
+  /**
+   * Cursor-paging args for the next batch after `cursor` (a row id)
+   */
+  private page(cursor?: string) {
+    return {
+      take: this.EXPORT_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    };
+  }
+
+  /**
+   * A JSON array written batch by batch as JSZip reads the stream
+   */
+  private jsonArrayStream<T extends { id: string }>(
+    fetchPage: (cursor?: string) => Promise<T[]>,
+    map: (row: T) => unknown = (row) => row,
+  ): Readable {
+    const batchSize = this.EXPORT_BATCH_SIZE;
+    const toJson = (value: unknown) => this.toJson(value);
+
+    async function* generate() {
+      let cursor: string | undefined;
+      let first = true;
+
+      yield Buffer.from("[");
+      for (;;) {
+        const rows = await fetchPage(cursor);
+        for (const row of rows) {
+          yield Buffer.from(`${first ? "\n" : ",\n"}${toJson(map(row))}`);
+          first = false;
+        }
+        if (rows.length < batchSize) break;
+        cursor = rows[rows.length - 1].id;
+      }
+      yield Buffer.from(first ? "]" : "\n]");
+    }
+
+    return Readable.from(generate());
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private toJson(value: unknown): string {
+    // BigInt amounts are kept as strings to avoid losing precision
+    return JSON.stringify(
+      value,
+      (_key, v) => (typeof v === "bigint" ? v.toString() : v),
+      2,
+    );
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  private toSummary(dataExport: DataExportSummary): DataExportSummary {
+    return {
+      id: dataExport.id,
+      status: dataExport.status,
+      sizeBytes: dataExport.sizeBytes,
+      createdAt: dataExport.createdAt,
+      completedAt: dataExport.completedAt,
+      expiresAt: dataExport.expiresAt,
+    };
+  }
+}
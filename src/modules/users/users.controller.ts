@@ -13,7 +13,9 @@ import {
   ParseFilePipe,
   MaxFileSizeValidator,
   FileTypeValidator,
+  StreamableFile,
 } from "@nestjs/common";
+import { Throttle } from "@nestjs/throttler";
 import { FileInterceptor } from "@nestjs/platform-express";
 import {
   ApiTags,
@@ -23,6 +25,7 @@ import {
   ApiConsumes,
 } from "@nestjs/swagger";
 import { UsersService } from "./users.service";
+import { DataExportService } from "./data-export.service";
 import {
   UpdateProfileDto,
   UpdateUsernameDto,
@@ -33,6 +36,7 @@ import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { RolesGuard } from "../auth/guards/roles.guard";
 import { Roles } from "../auth/decorators/roles.decorator";
 import { CurrentUser } from "../auth/decorators/current-user.decorator";
+import { Public } from "../auth/decorators/public.decorator";
 import { UploadService } from "../../common/upload/upload.service";
 
 @ApiTags("users")
@@ -42,6 +46,7 @@ import { UploadService } from "../../common/upload/upload.service";
 export class UsersController {
   constructor(
     private readonly usersService: UsersService,
+    private readonly dataExportService: DataExportService,
     private readonly uploadService: UploadService,
   ) {}
 
@@ -164,13 +169,48 @@ export class UsersController {
     return this.usersService.unbanUser(id, adminId);
   }
 
+  // ================================
+  // DATA EXPORT
+  // ================================
+
+  @Post("me/data-export")
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiOperation({ summary: "طلب نسخة من البيانات الشخصية" })
+  @ApiResponse({
+    status: 201,
+    description: "سيتم إشعارك عند جاهزية الملف",
+  })
+  async requestDataExport(@CurrentUser("id") userId: string) {
+    return this.dataExportService.requestExport(userId);
+  }
+
+  @Get("me/data-export")
+  @ApiOperation({ summary: "حالة طلبات تصدير البيانات" })
+  async getDataExports(@CurrentUser("id") userId: string) {
+    return this.dataExportService.getExports(userId);
+  }
+
+  @Public()
+  @Get("data-export/:token")
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: "تحميل نسخة البيانات (رابط مؤقت)" })
+  async downloadDataExport(@Param("token") token: string) {
+    const { fileName, archive } = await this.dataExportService.download(token);
+
+    return new StreamableFile(archive, {
+      type: "application/zip",
+      disposition: `attachment; filename="${fileName}"`,
+      length: archive.length,
+    });
+  }
+
   // ================================
   // DELETE ACCOUNT
   // ================================
 
   @Post("me/delete")
-  @ApiOperation({ summary: "حذف الحساب نهائياً" })
-  @ApiResponse({ status: 200, description: "تم حذف الحساب بنجاح" })
+  @ApiOperation({ summary: "حذف الحساب (قابل للاستعادة خلال فترة السماح)" })
+  @ApiResponse({ status: 200, description: "تم جدولة حذف الحساب" })
   async deleteMyAccount(
     @CurrentUser("id") userId: string,
     @Body("password") password?: string,
@@ -1,12 +1,14 @@
 import { Module } from "@nestjs/common";
 import { UsersController } from "./users.controller";
 import { UsersService } from "./users.service";
+import { DataExportService } from "./data-export.service";
 import { WebsocketModule } from "../websocket/websocket.module";
+import { NotificationsModule } from "../notifications/notifications.module";
 
 @Module({
-  imports: [WebsocketModule],
+  imports: [WebsocketModule, NotificationsModule],
   controllers: [UsersController],
-  providers: [UsersService],
+  providers: [UsersService, DataExportService],
   exports: [UsersService],
 })
 export class UsersModule {}
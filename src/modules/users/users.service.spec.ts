@@ -9,7 +9,9 @@ import { PrismaService } from '../../common/prisma/prisma.service';
 import { RedisService } from '../../common/redis/redis.service';
 import { CacheService } from '../../common/cache/cache.service';
 import { AppGateway } from '../websocket/app.gateway';
-import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import * as argon2 from 'argon2';
 
 describe('UsersService', () => {
   let service: UsersService;
@@ -21,6 +23,14 @@ describe('UsersService', () => {
       update: jest.fn(),
       count: jest.fn(),
     },
+    refreshToken: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    adminAction: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
     follow: {
       findUnique: jest.fn(),
       create: jest.fn(),
@@ -36,6 +46,7 @@ describe('UsersService', () => {
     isEnabled: jest.fn().mockReturnValue(false),
     isUserOnline: jest.fn().mockResolvedValue(false),
     publish: jest.fn(),
+    setUserOffline: jest.fn(),
   };
 
   const mockCacheService = {
@@ -48,6 +59,11 @@ describe('UsersService', () => {
 
   const mockGateway = {
     notifyUserUpdated: jest.fn(),
+    disconnectSessions: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
   };
 
   beforeEach(async () => {
@@ -58,6 +74,7 @@ describe('UsersService', () => {
         { provide: RedisService, useValue: mockRedisService },
         { provide: CacheService, useValue: mockCacheService },
         { provide: AppGateway, useValue: mockGateway },
+        { provide: ConfigService, useValue: mockConfigService },
       ],
     }).compile();
 
@@ -161,4 +178,49 @@ describe('UsersService', () => {
       expect(result.meta.total).toBe(2);
     });
   });
+
+  describe('deleteAccount', () => {
+    it('should schedule deletion with a grace period and cut off sessions', async () => {
+      const passwordHash = await argon2.hash('Password123');
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        status: 'ACTIVE',
+        passwordHash,
+      });
+      mockPrismaService.refreshToken.findMany.mockResolvedValue([
+        { sessionId: 'session-1' },
+      ]);
+      mockPrismaService.$transaction.mockResolvedValue([]);
+
+      const before = Date.now();
+      const result = await service.deleteAccount('user-1', 'Password123');
+
+      const graceMs = 14 * 24 * 60 * 60 * 1000;
+      expect(result.deletionScheduledFor.getTime()).toBeGreaterThanOrEqual(
+        before + graceMs,
+      );
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'DELETED' }),
+        }),
+      );
+      expect(mockGateway.disconnectSessions).toHaveBeenCalledWith(
+        ['session-1'],
+        'account_deleted',
+      );
+    });
+
+    it('should require the password for password accounts', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        status: 'ACTIVE',
+        passwordHash: await argon2.hash('Password123'),
+      });
+
+      await expect(
+        service.deleteAccount('user-1', 'WrongPassword'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -3,8 +3,11 @@ import {
   NotFoundException,
   ConflictException,
   ForbiddenException,
+  UnauthorizedException,
   Logger,
 } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as argon2 from "argon2";
 import { PrismaService } from "../../common/prisma/prisma.service";
 import { RedisService } from "../../common/redis/redis.service";
 import { CacheService, CACHE_TTL } from "../../common/cache/cache.service";
@@ -15,7 +18,7 @@ import {
   AdminUpdateUserDto,
   UserQueryDto,
 } from "./dto/users.dto";
-import { UserStatus, UserRole } from "@prisma/client";
+import { UserStatus, UserRole, AdminActionType } from "@prisma/client";
 
 @Injectable()
 export class UsersService {
@@ -26,6 +29,7 @@ export class UsersService {
     private redis: RedisService,
     private cache: CacheService,
     private gateway: AppGateway,
+    private config: ConfigService,
   ) {}
 
   private toNumber(value: bigint | number | null | undefined) {
@@ -573,52 +577,80 @@ export class UsersService {
     // التحقق من وجود المستخدم
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
-      include: { wallet: true },
     });
 
-    if (!user) {
+    if (!user || user.status === UserStatus.DELETED) {
       throw new NotFoundException("المستخدم غير موجود");
     }
 
-    // التحقق من كلمة المرور إذا تم توفيرها
-    // ملاحظة: في التطبيق الحقيقي، يجب التحقق من كلمة المرور
-    // لكن حالياً سنسمح بالحذف مباشرة
+    // الحسابات التي لديها كلمة مرور يجب أن تؤكد الحذف بها
+    if (user.passwordHash) {
+      if (!password || !(await argon2.verify(user.passwordHash, password))) {
+        throw new UnauthorizedException("كلمة المرور غير صحيحة");
+      }
+    }
+
+    const graceDays = this.config.get<number>(
+      "ACCOUNT_DELETION_GRACE_DAYS",
+      14,
+    );
+    const now = new Date();
+    const deletionScheduledFor = new Date(
+      now.getTime() + graceDays * 24 * 60 * 60 * 1000,
+    );
+
+    const activeSessions = await this.prisma.refreshToken.findMany({
+      where: { userId, revokedAt: null },
+      select: { sessionId: true },
+      distinct: ["sessionId"],
+    });
 
     try {
-      // حذف البيانات المرتبطة (soft delete)
+      // الحساب يبقى قابلاً للاستعادة حتى نهاية فترة السماح،
+      // بعدها يقوم ScheduledTasksService بإخفاء البيانات الشخصية
       await this.prisma.$transaction([
-        // تحديث حالة المستخدم إلى محذوف
         this.prisma.user.update({
           where: { id: userId },
           data: {
-            status: UserStatus.BANNED, // نستخدم BANNED مؤقتاً كحالة محذوف
-            email: `deleted_${Date.now()}_${user.email}`, // إخفاء الإيميل
-            username: `deleted_${Date.now()}`,
-            displayName: 'مستخدم محذوف',
-            avatar: null,
-            bio: null,
+            status: UserStatus.DELETED,
+            deletionRequestedAt: now,
+            deletionScheduledFor,
           },
         }),
+        this.prisma.refreshToken.updateMany({
+          where: { userId, revokedAt: null },
+          data: { revokedAt: now },
+        }),
         // سجل الإجراء
         this.prisma.adminAction.create({
           data: {
             actorId: userId,
             targetId: userId,
-            action: 'USER_BANNED',
+            action: AdminActionType.ACCOUNT_DELETION_REQUESTED,
             reason: reason ? `حذف الحساب: ${reason}` : 'حذف الحساب - طلب المستخدم',
+            details: {
+              deletionScheduledFor: deletionScheduledFor.toISOString(),
+            },
           },
         }),
       ]);
 
-      // إزالة من Redis
+      // إزالة من Redis وقطع الاتصالات المفتوحة
       await this.redis.setUserOffline(userId);
       await this.cache.invalidateUser(userId);
+      await this.gateway.disconnectSessions(
+        activeSessions.map((s) => s.sessionId),
+        "account_deleted",
+      );
 
-      this.logger.warn(`Account ${userId} has been deleted`);
+      this.logger.warn(
+        `Account ${userId} scheduled for deletion at ${deletionScheduledFor.toISOString()}`,
+      );
 
-      return { 
-        message: "تم حذف حسابك بنجاح",
+      return {
+        message: `تم جدولة حذف حسابك. يمكنك استعادته بتسجيل الدخول خلال ${graceDays} يوماً`,
         deleted: true,
+        deletionScheduledFor,
       };
     } catch (error) {
       this.logger.error(`Error deleting account ${userId}: ${error.message}`);
@@ -19,7 +19,11 @@ import {
 } from "./dto/wallets.dto";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { RolesGuard } from "../auth/guards/roles.guard";
+import { EmailVerifiedGuard } from "../auth/guards/email-verified.guard";
+import { ApiKeyGuard } from "../auth/guards/api-key.guard";
 import { Roles } from "../auth/decorators/roles.decorator";
+import { RequireVerifiedEmail } from "../auth/decorators/require-verified-email.decorator";
+import { ApiKeyScopes } from "../auth/decorators/api-key-scopes.decorator";
 import { CurrentUser } from "../auth/decorators/current-user.decorator";
 
 @ApiTags("wallets")
@@ -69,6 +73,8 @@ export class WalletsController {
   }
 
   @Post("transfer/by-custom-id")
+  @UseGuards(EmailVerifiedGuard)
+  @RequireVerifiedEmail("wallet_transfer")
   @ApiOperation({ summary: "تحويل رصيد باستخدام الـ ID الرقمي" })
   async transferByCustomId(
     @CurrentUser("id") userId: string,
@@ -90,7 +96,8 @@ export class WalletsController {
   }
 
   @Post(":userId/adjust")
-  @UseGuards(RolesGuard)
+  @UseGuards(ApiKeyGuard, RolesGuard)
+  @ApiKeyScopes("wallet:adjust")
   @Roles("ADMIN", "SUPER_ADMIN")
   @ApiOperation({ summary: "تعديل رصيد مستخدم (مسؤول)" })
   async adjustBalance(
@@ -8,13 +8,55 @@ import {
   ConnectedSocket,
   MessageBody,
 } from "@nestjs/websockets";
-import { Logger, UseGuards } from "@nestjs/common";
+import { Inject, Logger, UseGuards, forwardRef } from "@nestjs/common";
 import { Server, Socket } from "socket.io";
 import { JwtService } from "@nestjs/jwt";
 import { ConfigService } from "@nestjs/config";
 import { PrismaService } from "../../common/prisma/prisma.service";
 import { RedisService } from "../../common/redis/redis.service";
-import { NotificationType } from "@prisma/client";
+import { MemberRole, NotificationType } from "@prisma/client";
+import { getMicLayout, isHostSeat, isValidMicSlot } from "../rooms/mic-layout";
+import {
+  getAnnouncement,
+  getRoomRules,
+  getWelcomeMessage,
+  mustAcceptRules,
+  renderWelcomeMessage,
+} from "../rooms/room-rules";
+import { RoomPermissionsService } from "../rooms/room-permissions.service";
+import {
+  ClearedMicSlot,
+  MicStateService,
+  MIC_SLOTS_CLEARED_CHANNEL,
+} from "../rooms/mic-state.service";
+import {
+  RoomMusicRepeatMode,
+  RoomMusicService,
+  RoomMusicSong,
+  RoomMusicUpdateResult,
+  ROOM_MUSIC_REPEAT_MODES,
+  ROOM_MUSIC_UPDATED_CHANNEL,
+} from "../rooms/room-music.service";
+import { RoomAnalyticsService } from "../rooms/room-analytics.service";
+import { RoomsService } from "../rooms/rooms.service";
+import { RoomFavoritesService } from "../rooms/room-favorites.service";
+import {
+  RoomLevelsService,
+  ROOM_LEVEL_UP_CHANNEL,
+} from "../rooms/room-levels.service";
+import {
+  RoomEventStartedMessage,
+  ROOM_EVENT_STARTED_CHANNEL,
+} from "../rooms/room-events.service";
+import {
+  ExpiredRoomKnocks,
+  RoomKnocksService,
+  ROOM_KNOCKS_EXPIRED_CHANNEL,
+} from "../rooms/room-knocks.service";
+import {
+  ROOM_ARCHIVED_CHANNEL,
+  RoomArchivedMessage,
+} from "../rooms/room-archive";
 
 // ================================
 // TYPES & INTERFACES
@@ -23,12 +65,13 @@ import { NotificationType } from "@prisma/client";
 interface AuthenticatedSocket extends Socket {
   user?: {
     id: string;
-    email: string;
+    email: string | null;
     username: string;
     displayName: string;
     role: string;
     avatar?: string;
   };
+  sessionId?: string;
   connectedAt?: Date;
   lastHeartbeat?: Date;
   joinedRooms?: Set<string>;
@@ -73,29 +116,6 @@ interface RoomEvent {
   data: Record<string, any>;
 }
 
-interface RoomMusicSong {
-  id: string;
-  name?: string;
-  title?: string;
-  artist?: string;
-  url: string;
-  coverUrl?: string;
-  category?: string;
-  durationSeconds?: number;
-}
-
-interface RoomMusicState {
-  roomId: string;
-  playlist: RoomMusicSong[];
-  currentSong: RoomMusicSong | null;
-  isPlaying: boolean;
-  positionMs: number;
-  startedAt?: number | null;
-  updatedAt: number;
-  stateVersion: number;
-  updatedBy?: string;
-}
-
 interface GameQueueEntry {
   socketId: string;
   userId: string;
@@ -197,8 +217,6 @@ export class AppGateway
   private readonly PRESENCE_CLEANUP_INTERVAL_MS = 30000;
   // Duplicate join prevention window (5 seconds)
   private readonly DUPLICATE_JOIN_WINDOW = 5000;
-  // Room music state (in-memory)
-  private roomMusicState = new Map<string, RoomMusicState>();
   // Game matchmaking state (in-memory)
   private gameMatches = new Map<string, GameMatchState>();
   private socketToMatch = new Map<string, string>();
@@ -218,6 +236,15 @@ export class AppGateway
     private configService: ConfigService,
     private prisma: PrismaService,
     private redis: RedisService,
+    private roomPermissions: RoomPermissionsService,
+    private micState: MicStateService,
+    private roomMusic: RoomMusicService,
+    private roomAnalytics: RoomAnalyticsService,
+    private roomLevels: RoomLevelsService,
+    private roomFavorites: RoomFavoritesService,
+    private roomKnocks: RoomKnocksService,
+    @Inject(forwardRef(() => RoomsService))
+    private roomsService: RoomsService,
   ) {}
 
   afterInit(server: Server) {
@@ -475,6 +502,9 @@ export class AppGateway
    */
   private async finalizeLeave(roomId: string, userId: string, user: { username?: string; displayName?: string; avatar?: string }) {
     try {
+      // ✋ Drop pending mic request
+      await this.removeFromMicQueue(roomId, userId);
+
       // 🔧 ATOMIC: Remove from Redis and check if actually removed
       const wasRemoved = await this.redis.removeUserFromRoom(roomId, userId);
       
@@ -482,6 +512,8 @@ export class AppGateway
         this.logger.debug(`📤 [LEAVE] User ${user.username} was already removed from room ${roomId}`);
         return;
       }
+
+      await this.roomAnalytics.recordLeave(roomId, userId);
       
       // 🔢 Increment presence version AFTER mutation
       const presenceVersion = await this.redis.incrementPresenceVersion(roomId);
@@ -651,6 +683,18 @@ export class AppGateway
         return;
       }
 
+      if (payload.sid && (await this.redis.isSessionRevoked(payload.sid))) {
+        this.logger.warn(
+          `❌ [CONNECT] Client ${client.id} - Revoked session: ${payload.sid}`,
+        );
+        client.emit("error", {
+          code: "SESSION_REVOKED",
+          message: "Session has been revoked",
+        });
+        client.disconnect();
+        return;
+      }
+
       // Get user from database
       const user = await this.prisma.user.findUnique({
         where: { id: payload.sub },
@@ -695,6 +739,22 @@ export class AppGateway
         return;
       }
 
+      // Accounts pending deletion (grace period) or suspended get no sockets
+      if (user.status === "DELETED" || user.status === "SUSPENDED") {
+        this.logger.warn(
+          `❌ [CONNECT] Client ${client.id} - User ${user.status.toLowerCase()}: ${user.username}`,
+        );
+        client.emit("error", {
+          code: user.status === "DELETED" ? "USER_DELETED" : "USER_SUSPENDED",
+          message:
+            user.status === "DELETED"
+              ? "Account is pending deletion"
+              : "Account is suspended",
+        });
+        client.disconnect();
+        return;
+      }
+
       // Attach user and metadata to socket
       client.user = {
         id: user.id,
@@ -704,6 +764,7 @@ export class AppGateway
         role: user.role,
         avatar: user.avatar || undefined,
       };
+      client.sessionId = payload.sid;
       client.connectedAt = connectionTime;
       client.lastHeartbeat = connectionTime;
       client.joinedRooms = new Set();
@@ -745,6 +806,11 @@ export class AppGateway
       // Join user's personal room for direct messages
       client.join(`user:${user.id}`);
 
+      // Join session room so a revoked session (device) can be cut off
+      if (client.sessionId) {
+        client.join(`session:${client.sessionId}`);
+      }
+
       this.logger.log(
         `✅ [CONNECT] User ${user.username} connected (socket: ${client.id}, total connections: ${this.userConnections.get(user.id)!.size})`,
       );
@@ -939,6 +1005,8 @@ export class AppGateway
 
       // Remove from Redis
       await this.redis.removeUserFromRoom(roomId, client.user.id);
+      await this.removeFromMicQueue(roomId, client.user.id);
+      await this.roomAnalytics.recordLeave(roomId, client.user.id);
 
       // Remove from tracking
       client.joinedRooms?.delete(roomId);
@@ -1152,14 +1220,15 @@ export class AppGateway
       return { success: false, error: "INVALID_PAYLOAD" };
     }
 
-    // التحقق من أن المستخدم هو المالك
-    const membership = await this.prisma.roomMember.findUnique({
-      where: { roomId_userId: { roomId, userId: client.user.id } },
-      include: { room: true },
-    });
-
-    if (!membership || membership.role !== 'OWNER') {
-      return { success: false, error: "NOT_OWNER", message: "فقط مالك الغرفة يمكنه فتح اللعبة" };
+    // التحقق من صلاحية إدارة الألعاب
+    if (
+      !(await this.roomPermissions.can(roomId, client.user.id, "startGames"))
+    ) {
+      return {
+        success: false,
+        error: "NOT_OWNER",
+        message: "ليس لديك صلاحية فتح اللعبة",
+      };
     }
 
     // التحقق من عدم وجود لعبة نشطة
@@ -1194,12 +1263,10 @@ export class AppGateway
 
     const { roomId } = data || {};
 
-    // التحقق من أن المستخدم هو المالك
-    const membership = await this.prisma.roomMember.findUnique({
-      where: { roomId_userId: { roomId, userId: client.user.id } },
-    });
-
-    if (!membership || membership.role !== 'OWNER') {
+    // التحقق من صلاحية إدارة الألعاب
+    if (
+      !(await this.roomPermissions.can(roomId, client.user.id, "startGames"))
+    ) {
       return { success: false, error: "NOT_OWNER" };
     }
 
@@ -1315,12 +1382,11 @@ export class AppGateway
       return { success: false, error: "REQUEST_NOT_FOUND" };
     }
 
-    // فقط صاحب الطلب أو المالك يمكنه الإلغاء
-    const membership = await this.prisma.roomMember.findUnique({
-      where: { roomId_userId: { roomId, userId: client.user.id } },
-    });
-
-    if (request.userId !== client.user.id && membership?.role !== 'OWNER') {
+    // فقط صاحب الطلب أو من يملك صلاحية الألعاب يمكنه الإلغاء
+    if (
+      request.userId !== client.user.id &&
+      !(await this.roomPermissions.can(roomId, client.user.id, "startGames"))
+    ) {
       return { success: false, error: "NOT_AUTHORIZED" };
     }
 
@@ -1361,6 +1427,11 @@ export class AppGateway
       success: true, 
       requests: requestList,
       isOwner: membership.role === 'OWNER',
+      canManage: await this.roomPermissions.can(
+        roomId,
+        client.user.id,
+        "startGames",
+      ),
     };
   }
 
@@ -1383,13 +1454,15 @@ export class AppGateway
       return { success: false, error: "INVALID_PAYLOAD", message: "يجب اختيار لاعبين على الأقل" };
     }
 
-    // التحقق من أن المستخدم هو المالك
-    const membership = await this.prisma.roomMember.findUnique({
-      where: { roomId_userId: { roomId, userId: client.user.id } },
-    });
-
-    if (!membership || membership.role !== 'OWNER') {
-      return { success: false, error: "NOT_OWNER", message: "فقط مالك الغرفة يمكنه بدء اللعبة" };
+    // التحقق من صلاحية إدارة الألعاب
+    if (
+      !(await this.roomPermissions.can(roomId, client.user.id, "startGames"))
+    ) {
+      return {
+        success: false,
+        error: "NOT_OWNER",
+        message: "ليس لديك صلاحية بدء اللعبة",
+      };
     }
 
     // التحقق من عدم وجود لعبة نشطة
@@ -1669,11 +1742,9 @@ export class AppGateway
 
     const { roomId } = data || {};
 
-    const membership = await this.prisma.roomMember.findUnique({
-      where: { roomId_userId: { roomId, userId: client.user.id } },
-    });
-
-    if (!membership || membership.role !== 'OWNER') {
+    if (
+      !(await this.roomPermissions.can(roomId, client.user.id, "startGames"))
+    ) {
       return { success: false, error: "NOT_OWNER" };
     }
 
@@ -1721,7 +1792,8 @@ export class AppGateway
   @SubscribeMessage("join_room")
   async handleJoinRoom(
     @ConnectedSocket() client: AuthenticatedSocket,
-    @MessageBody() data: { roomId: string; clientTs?: number },
+    @MessageBody()
+    data: { roomId: string; clientTs?: number; acceptRules?: boolean },
   ) {
     const serverTs = Date.now();
     const correlationId = `join_${serverTs}_${Math.random().toString(36).substr(2, 6)}`;
@@ -1785,10 +1857,18 @@ export class AppGateway
         // Check if room exists
         const room = await this.prisma.room.findUnique({
           where: { id: roomId },
-          select: { id: true, name: true, status: true, maxMembers: true },
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            maxMembers: true,
+            ownerId: true,
+            settings: true,
+            deletedAt: true,
+          },
         });
 
-        if (!room) {
+        if (!room || room.deletedAt) {
           this.logger.warn(
             `🚪 [JOIN] User ${client.user.username} tried to join non-existent room: ${roomId}`,
           );
@@ -1851,6 +1931,28 @@ export class AppGateway
           return { success: false, error: "USER_BANNED", message: bannedMessage, correlationId };
         }
 
+        // 📜 Room rules must be accepted (owner is exempt)
+        if (
+          room.ownerId !== userId &&
+          mustAcceptRules(room.settings, membership.rulesAcceptedVersion)
+        ) {
+          const rules = getRoomRules(room.settings);
+          if (!data.acceptRules) {
+            return {
+              success: false,
+              error: "RULES_NOT_ACCEPTED",
+              message: "يجب الموافقة على قوانين الغرفة قبل الانضمام",
+              rules,
+              correlationId,
+            };
+          }
+
+          await this.prisma.roomMember.update({
+            where: { id: membership.id },
+            data: { rulesAcceptedVersion: rules.version },
+          });
+        }
+
         if (membership.leftAt) {
           // User left before, rejoin
           await this.prisma.roomMember.update({
@@ -1922,6 +2024,10 @@ export class AppGateway
         // 5️⃣ Get authoritative count from Redis
         const onlineCount = await this.redis.getRoomOnlineCount(roomId);
 
+        if (wasNewlyAdded) {
+          await this.roomAnalytics.recordJoin(roomId, userId, onlineCount);
+        }
+
         // Get online members for snapshot
         const onlineUsers = await this.getRoomOnlineUsersDetailed(roomId);
 
@@ -1955,6 +2061,28 @@ export class AppGateway
           data: joinEventData,
         });
 
+        // 🔴 Owner opened the room - notify followers
+        if (room.ownerId === userId) {
+          this.roomFavorites
+            .notifyRoomLive(roomId, "opened")
+            .catch((e) =>
+              this.logger.warn(`Live notify failed: ${e.message}`),
+            );
+        }
+
+        // 👋 Welcome message is private to the joining user
+        const welcomeMessage = getWelcomeMessage(room.settings);
+        if (welcomeMessage) {
+          client.emit("room_welcome", {
+            roomId,
+            message: renderWelcomeMessage(
+              welcomeMessage,
+              client.user.displayName || client.user.username,
+            ),
+            serverTs: Date.now(),
+          });
+        }
+
         this.logger.log(
           `✅ [JOIN] User ${client.user.username} joined room ${roomId} (v${presenceVersion}, count=${onlineCount}, isFirst=${isFirstSocket}) [${correlationId}]`,
         );
@@ -1988,7 +2116,7 @@ export class AppGateway
       });
 
       // Send current room music state (if exists)
-      const musicState = this.roomMusicState.get(roomId);
+      const musicState = await this.roomMusic.get(roomId);
       if (musicState) {
         client.emit("room_music_state", musicState);
       }
@@ -2001,6 +2129,8 @@ export class AppGateway
         onlineCount,
         presenceVersion,
         userRole: membership.role,
+        rules: getRoomRules(room.settings),
+        announcement: getAnnouncement(room.settings),
         correlationId,
         serverTs: Date.now(),
       };
@@ -2119,6 +2249,12 @@ export class AppGateway
 
     const { roomId, avatar, name, description } = data;
 
+    if (
+      !(await this.roomPermissions.can(roomId, client.user.id, "editRoom"))
+    ) {
+      return { success: false, error: "NOT_AUTHORIZED" };
+    }
+
     try {
       // Broadcast room update to all users in the room
       const updateEventData = {
@@ -2159,32 +2295,39 @@ export class AppGateway
   // ROOM MUSIC EVENTS
   // ================================
 
-  private broadcastRoomMusicState(roomId: string) {
-    const state = this.roomMusicState.get(roomId);
-    if (state) {
-      this.server.to(`room:${roomId}`).emit("room_music_state", state);
+  private emitRoomMusicResult(
+    client: AuthenticatedSocket,
+    roomId: string,
+    result: RoomMusicUpdateResult,
+  ) {
+    // البث للغرفة يتم عبر قناة Redis حتى يصل لكل الـ instances
+    if (!result.success && result.error !== "NOT_FOUND") {
+      client.emit("room_music_error", {
+        roomId,
+        error: result.error,
+        state: result.state,
+      });
     }
-  }
 
-  private createDefaultRoomMusicState(roomId: string): RoomMusicState {
-    return {
-      roomId,
-      playlist: [],
-      currentSong: null,
-      isPlaying: false,
-      positionMs: 0,
-      startedAt: null,
-      updatedAt: Date.now(),
-      stateVersion: 1,
-    };
+    return result.success
+      ? { success: true, stateVersion: result.state.stateVersion }
+      : { success: false, error: result.error };
   }
 
-  private bumpRoomMusicState(state: RoomMusicState, userId?: string) {
-    state.updatedAt = Date.now();
-    state.stateVersion = (state.stateVersion ?? 0) + 1;
-    if (userId) {
-      state.updatedBy = userId;
+  private async canControlRoomMusic(
+    client: AuthenticatedSocket,
+    roomId: string,
+  ): Promise<boolean> {
+    if (await this.roomMusic.canControl(roomId, client.user!.id)) {
+      return true;
     }
+
+    client.emit("room_music_error", {
+      roomId,
+      error: "NOT_AUTHORIZED",
+      message: "ليس لديك صلاحية التحكم بالموسيقى",
+    });
+    return false;
   }
 
   @SubscribeMessage("room_music_state_request")
@@ -2195,7 +2338,7 @@ export class AppGateway
     if (!client.user) return;
     const roomId = data?.roomId;
     if (!roomId) return;
-    const state = this.roomMusicState.get(roomId);
+    const state = await this.roomMusic.get(roomId);
     if (state) {
       client.emit("room_music_state", state);
     }
@@ -2204,144 +2347,391 @@ export class AppGateway
   @SubscribeMessage("room_music_add")
   async handleRoomMusicAdd(
     @ConnectedSocket() client: AuthenticatedSocket,
-    @MessageBody() data: { roomId: string; song: RoomMusicSong },
+    @MessageBody()
+    data: { roomId: string; song: RoomMusicSong; stateVersion?: number },
   ) {
     if (!client.user) return;
-    const { roomId, song } = data || {};
-    if (!roomId || !song?.url) return;
-
-    const existing =
-      this.roomMusicState.get(roomId) || this.createDefaultRoomMusicState(roomId);
-
-    const already = existing.playlist.find((s) => s.id === song.id);
-    if (!already) {
-      existing.playlist.push(song);
+    const { roomId, stateVersion } = data || {};
+    if (!roomId) return;
+    const song = this.roomMusic.sanitizeSong(data.song);
+    if (!song) {
+      return { success: false, error: "INVALID_SONG" };
     }
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
 
-    if (!existing.currentSong) {
-      existing.currentSong = song;
-      existing.isPlaying = true;
-      existing.positionMs = 0;
-      existing.startedAt = Date.now();
-    }
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        const already = state.playlist.find((s) => s.id === song.id);
+        if (!already) {
+          state.playlist.push(song);
+        }
 
-    this.bumpRoomMusicState(existing, client.user.id);
+        if (!state.currentSong) {
+          state.currentSong = song;
+          state.isPlaying = true;
+          state.positionMs = 0;
+          state.startedAt = Date.now();
+        }
+      },
+      { create: true },
+    );
 
-    this.roomMusicState.set(roomId, existing);
-    this.broadcastRoomMusicState(roomId);
+    return this.emitRoomMusicResult(client, roomId, result);
   }
 
   @SubscribeMessage("room_music_remove")
   async handleRoomMusicRemove(
     @ConnectedSocket() client: AuthenticatedSocket,
-    @MessageBody() data: { roomId: string; songId: string },
+    @MessageBody()
+    data: { roomId: string; songId: string; stateVersion?: number },
   ) {
     if (!client.user) return;
-    const { roomId, songId } = data || {};
+    const { roomId, songId, stateVersion } = data || {};
     if (!roomId || !songId) return;
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
 
-    const existing = this.roomMusicState.get(roomId);
-    if (!existing) return;
-
-    existing.playlist = existing.playlist.filter((s) => s.id !== songId);
-    if (existing.currentSong?.id === songId) {
-      existing.currentSong = existing.playlist[0] || null;
-      existing.positionMs = 0;
-      existing.isPlaying = existing.currentSong != null;
-      existing.startedAt = existing.isPlaying ? Date.now() : null;
-    }
-
-    this.bumpRoomMusicState(existing, client.user.id);
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        state.playlist = state.playlist.filter((s) => s.id !== songId);
+        if (state.currentSong?.id === songId) {
+          state.currentSong = state.playlist[0] || null;
+          state.positionMs = 0;
+          state.isPlaying = state.currentSong != null;
+          state.startedAt = state.isPlaying ? Date.now() : null;
+        }
+      },
+    );
 
-    this.roomMusicState.set(roomId, existing);
-    this.broadcastRoomMusicState(roomId);
+    return this.emitRoomMusicResult(client, roomId, result);
   }
 
   @SubscribeMessage("room_music_play")
   async handleRoomMusicPlay(
     @ConnectedSocket() client: AuthenticatedSocket,
     @MessageBody()
-    data: { roomId: string; song?: RoomMusicSong; positionMs?: number },
+    data: {
+      roomId: string;
+      song?: RoomMusicSong;
+      positionMs?: number;
+      stateVersion?: number;
+    },
   ) {
     if (!client.user) return;
-    const { roomId, song, positionMs } = data || {};
+    const { roomId, positionMs, stateVersion } = data || {};
     if (!roomId) return;
-
-    const existing =
-      this.roomMusicState.get(roomId) || this.createDefaultRoomMusicState(roomId);
-
-    if (song?.url) {
-      const already = existing.playlist.find((s) => s.id === song.id);
-      if (!already) {
-        existing.playlist.push(song);
-      }
-      existing.currentSong = song;
+    const song = data.song ? this.roomMusic.sanitizeSong(data.song) : null;
+    if (data.song && !song) {
+      return { success: false, error: "INVALID_SONG" };
     }
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
 
-    existing.isPlaying = true;
-    if (Number.isFinite(positionMs ?? NaN)) {
-      existing.positionMs = Math.max(0, Math.trunc(positionMs as number));
-    } else if (song?.url) {
-      existing.positionMs = 0;
-    }
-    existing.startedAt = Date.now();
-    this.bumpRoomMusicState(existing, client.user.id);
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        if (song) {
+          const already = state.playlist.find((s) => s.id === song.id);
+          if (!already) {
+            state.playlist.push(song);
+          }
+          state.currentSong = song;
+        }
 
-    this.roomMusicState.set(roomId, existing);
-    this.broadcastRoomMusicState(roomId);
+        state.isPlaying = true;
+        if (Number.isFinite(positionMs ?? NaN)) {
+          state.positionMs = Math.max(0, Math.trunc(positionMs as number));
+        } else if (song) {
+          state.positionMs = 0;
+        }
+        state.startedAt = Date.now();
+      },
+      { create: true },
+    );
+
+    return this.emitRoomMusicResult(client, roomId, result);
   }
 
   @SubscribeMessage("room_music_pause")
   async handleRoomMusicPause(
     @ConnectedSocket() client: AuthenticatedSocket,
-    @MessageBody() data: { roomId: string; positionMs?: number },
+    @MessageBody()
+    data: { roomId: string; positionMs?: number; stateVersion?: number },
   ) {
     if (!client.user) return;
-    const { roomId, positionMs } = data || {};
+    const { roomId, positionMs, stateVersion } = data || {};
     if (!roomId) return;
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
 
-    const existing = this.roomMusicState.get(roomId);
-    if (!existing) return;
-
-    const now = Date.now();
-    if (existing.isPlaying && existing.startedAt) {
-      const elapsed = now - existing.startedAt;
-      if (elapsed > 0) {
-        existing.positionMs = Math.max(0, existing.positionMs + elapsed);
-      }
-    }
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        const now = Date.now();
+        if (state.isPlaying && state.startedAt) {
+          const elapsed = now - state.startedAt;
+          if (elapsed > 0) {
+            state.positionMs = Math.max(0, state.positionMs + elapsed);
+          }
+        }
 
-    existing.isPlaying = false;
-    if (Number.isFinite(positionMs)) {
-      existing.positionMs = Math.max(0, Math.trunc(positionMs as number));
-    }
-    existing.startedAt = null;
-    this.bumpRoomMusicState(existing, client.user.id);
+        state.isPlaying = false;
+        if (Number.isFinite(positionMs)) {
+          state.positionMs = Math.max(0, Math.trunc(positionMs as number));
+        }
+        state.startedAt = null;
+      },
+    );
 
-    this.roomMusicState.set(roomId, existing);
-    this.broadcastRoomMusicState(roomId);
+    return this.emitRoomMusicResult(client, roomId, result);
   }
 
   @SubscribeMessage("room_music_seek")
   async handleRoomMusicSeek(
     @ConnectedSocket() client: AuthenticatedSocket,
-    @MessageBody() data: { roomId: string; positionMs: number },
+    @MessageBody()
+    data: { roomId: string; positionMs: number; stateVersion?: number },
   ) {
     if (!client.user) return;
-    const { roomId, positionMs } = data || {};
+    const { roomId, positionMs, stateVersion } = data || {};
     if (!roomId || !Number.isFinite(positionMs)) return;
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
+
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        state.positionMs = Math.max(0, Math.trunc(positionMs));
+        if (state.isPlaying) {
+          state.startedAt = Date.now();
+        }
+      },
+    );
+
+    return this.emitRoomMusicResult(client, roomId, result);
+  }
+
+  @SubscribeMessage("room_music_next")
+  async handleRoomMusicNext(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { roomId: string; stateVersion?: number },
+  ) {
+    if (!client.user) return;
+    const { roomId, stateVersion } = data || {};
+    if (!roomId) return;
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
+
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => this.roomMusic.advance(state),
+    );
+
+    return this.emitRoomMusicResult(client, roomId, result);
+  }
+
+  @SubscribeMessage("room_music_reorder")
+  async handleRoomMusicReorder(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody()
+    data: {
+      roomId: string;
+      songId: string;
+      toIndex: number;
+      stateVersion?: number;
+    },
+  ) {
+    if (!client.user) return;
+    const { roomId, songId, toIndex, stateVersion } = data || {};
+    if (!roomId || !songId || !Number.isInteger(toIndex)) return;
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
+
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        const fromIndex = state.playlist.findIndex((s) => s.id === songId);
+        if (fromIndex === -1) return false;
+
+        const [song] = state.playlist.splice(fromIndex, 1);
+        const target = Math.min(Math.max(0, toIndex), state.playlist.length);
+        state.playlist.splice(target, 0, song);
+      },
+    );
+
+    return this.emitRoomMusicResult(client, roomId, result);
+  }
+
+  @SubscribeMessage("room_music_mode")
+  async handleRoomMusicMode(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody()
+    data: {
+      roomId: string;
+      shuffle?: boolean;
+      repeat?: RoomMusicRepeatMode;
+      stateVersion?: number;
+    },
+  ) {
+    if (!client.user) return;
+    const { roomId, shuffle, repeat, stateVersion } = data || {};
+    if (!roomId) return;
+    if (repeat !== undefined && !ROOM_MUSIC_REPEAT_MODES.includes(repeat)) {
+      return { success: false, error: "INVALID_MODE" };
+    }
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
+
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        if (typeof shuffle === "boolean") {
+          state.shuffle = shuffle;
+        }
+        if (repeat) {
+          state.repeat = repeat;
+        }
+      },
+      { create: true },
+    );
+
+    return this.emitRoomMusicResult(client, roomId, result);
+  }
+
+  /**
+   * Choose the room DJ (manageMusic only - a DJ cannot pass the role on)
+   */
+  @SubscribeMessage("room_music_set_dj")
+  async handleRoomMusicSetDj(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody()
+    data: { roomId: string; userId: string | null; stateVersion?: number },
+  ) {
+    if (!client.user) return;
+    const { roomId, userId, stateVersion } = data || {};
+    if (!roomId || userId === undefined) return;
 
-    const existing = this.roomMusicState.get(roomId);
-    if (!existing) return;
+    if (
+      !(await this.roomPermissions.can(roomId, client.user.id, "manageMusic"))
+    ) {
+      client.emit("room_music_error", {
+        roomId,
+        error: "NOT_AUTHORIZED",
+        message: "ليس لديك صلاحية اختيار الـ DJ",
+      });
+      return { success: false, error: "NOT_AUTHORIZED" };
+    }
 
-    existing.positionMs = Math.max(0, Math.trunc(positionMs));
-    if (existing.isPlaying) {
-      existing.startedAt = Date.now();
+    if (userId && !(await this.roomMusic.isSeated(roomId, userId))) {
+      return { success: false, error: "DJ_NOT_ON_MIC" };
     }
-    this.bumpRoomMusicState(existing, client.user.id);
 
-    this.roomMusicState.set(roomId, existing);
-    this.broadcastRoomMusicState(roomId);
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        state.djUserId = userId;
+      },
+      { create: true },
+    );
+
+    return this.emitRoomMusicResult(client, roomId, result);
+  }
+
+  // ================================
+  // SAVED PLAYLISTS
+  // ================================
+
+  @SubscribeMessage("room_music_playlists")
+  async handleRoomMusicPlaylists(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { roomId: string },
+  ) {
+    if (!client.user || !data?.roomId) return;
+
+    const playlists = await this.roomMusic.listPlaylists(data.roomId);
+    client.emit("room_music_playlists", { roomId: data.roomId, playlists });
+    return { success: true, playlists };
+  }
+
+  @SubscribeMessage("room_music_playlist_save")
+  async handleRoomMusicPlaylistSave(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { roomId: string; name: string },
+  ) {
+    if (!client.user) return;
+    const roomId = data?.roomId;
+    const name = data?.name?.trim();
+    if (!roomId || !name || name.length > 50) {
+      return { success: false, error: "INVALID_NAME" };
+    }
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
+
+    return this.roomMusic.savePlaylist(roomId, client.user.id, name);
+  }
+
+  /**
+   * Replace the live playlist with a saved one
+   */
+  @SubscribeMessage("room_music_playlist_load")
+  async handleRoomMusicPlaylistLoad(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody()
+    data: { roomId: string; playlistId: string; stateVersion?: number },
+  ) {
+    if (!client.user) return;
+    const { roomId, playlistId, stateVersion } = data || {};
+    if (!roomId || !playlistId) return;
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
+
+    const songs = await this.roomMusic.getPlaylistSongs(roomId, playlistId);
+    if (!songs) {
+      return { success: false, error: "PLAYLIST_NOT_FOUND" };
+    }
+
+    const result = await this.roomMusic.update(
+      roomId,
+      client.user.id,
+      stateVersion,
+      (state) => {
+        state.playlist = songs;
+        state.currentSong = songs[0] || null;
+        state.positionMs = 0;
+        state.isPlaying = state.currentSong != null;
+        state.startedAt = state.isPlaying ? Date.now() : null;
+      },
+      { create: true },
+    );
+
+    return this.emitRoomMusicResult(client, roomId, result);
+  }
+
+  @SubscribeMessage("room_music_playlist_delete")
+  async handleRoomMusicPlaylistDelete(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { roomId: string; playlistId: string },
+  ) {
+    if (!client.user) return;
+    const { roomId, playlistId } = data || {};
+    if (!roomId || !playlistId) return;
+    if (!(await this.canControlRoomMusic(client, roomId))) return;
+
+    const deleted = await this.roomMusic.deletePlaylist(roomId, playlistId);
+    return deleted
+      ? { success: true }
+      : { success: false, error: "PLAYLIST_NOT_FOUND" };
   }
 
   // ================================
@@ -2359,21 +2749,47 @@ export class AppGateway
 
     const userId = client.user.id;
     const slotIndex = parseInt(slotId, 10);
-    const slotKey = `room:${roomId}:mic_slots`;
 
     try {
+      // التحقق من رقم المقعد حسب تخطيط الغرفة
+      const room = await this.prisma.room.findUnique({
+        where: { id: roomId },
+        select: { settings: true, ownerId: true, deletedAt: true },
+      });
+      if (!room || room.deletedAt) return;
+
+      const layout = getMicLayout(room.settings);
+      if (!isValidMicSlot(layout, slotIndex)) {
+        client.emit("mic_error", { error: "رقم المايك غير صالح" });
+        return;
+      }
+
       if (isActive) {
+        // مقعد المضيف لمن يملك صلاحية إدارة المايكات فقط
+        if (
+          isHostSeat(layout, slotIndex) &&
+          !(await this.roomPermissions.can(roomId, userId, "manageMics"))
+        ) {
+          client.emit("mic_error", {
+            error: "مقعد المضيف مخصص لمالك الغرفة",
+          });
+          return;
+        }
+
         // User is taking the mic
-        const existingSlot = await this.redis.hget(slotKey, slotId);
+        const existingSlot = await this.micState.getSlot(roomId, slotIndex);
         let slotData: any = { userId: null, isLocked: false, isMuted: false };
 
         if (existingSlot) {
-          slotData = JSON.parse(existingSlot);
+          slotData = existingSlot;
           if (slotData.userId && slotData.userId !== userId) {
             client.emit("mic_error", { error: "المايك مشغول" });
             return;
           }
-          if (slotData.isLocked) {
+          if (
+            slotData.isLocked &&
+            !(await this.redis.consumeMicGrant(roomId, userId, slotIndex))
+          ) {
             client.emit("mic_error", { error: "المايك مقفل" });
             return;
           }
@@ -2395,8 +2811,7 @@ export class AppGateway
           joinedAt: Date.now(),
         };
 
-        await this.redis.hset(slotKey, slotId, JSON.stringify(slotData));
-        await this.redis.expire(slotKey, 86400);
+        await this.micState.setSlot(roomId, slotIndex, slotData);
 
         // Broadcast to room
         this.server.to(`room:${roomId}`).emit("mic_slot_updated", {
@@ -2405,12 +2820,22 @@ export class AppGateway
           ...slotData,
         });
 
+        await this.removeFromMicQueue(roomId, userId);
+
+        // 🔴 Owner took a mic - notify followers
+        if (room.ownerId === userId) {
+          this.roomFavorites
+            .notifyRoomLive(roomId, "mic")
+            .catch((e) =>
+              this.logger.warn(`Live notify failed: ${e.message}`),
+            );
+        }
+
         this.logger.debug(`🎤 User ${userId} entered mic slot ${slotIndex} in room ${roomId}`);
       } else {
         // User is leaving the mic
-        const existingSlot = await this.redis.hget(slotKey, slotId);
-        if (existingSlot) {
-          const slotData = JSON.parse(existingSlot);
+        const slotData = await this.micState.getSlot(roomId, slotIndex);
+        if (slotData) {
           if (slotData.userId === userId) {
             const emptySlot = {
               userId: null,
@@ -2421,7 +2846,7 @@ export class AppGateway
               isSpeaking: false,
             };
 
-            await this.redis.hset(slotKey, slotId, JSON.stringify(emptySlot));
+            await this.micState.setSlot(roomId, slotIndex, emptySlot);
 
             this.server.to(`room:${roomId}`).emit("mic_slot_updated", {
               roomId,
@@ -2508,7 +2933,8 @@ export class AppGateway
       this.logger.warn(`⚠️ [MESSAGE] High latency: ${serverTs - clientTs}ms [${correlationId}]`);
     }
 
-    const { roomId, content, type: rawType = "TEXT", metadata, tempId } = data;
+    const { roomId, type: rawType = "TEXT", metadata, tempId } = data;
+    let { content } = data;
     // Ensure type is uppercase to match Prisma enum
     const type = rawType?.toUpperCase() || "TEXT";
     const clientMessageId =
@@ -2542,9 +2968,33 @@ export class AppGateway
       // Verify membership and check if muted (use cached check when possible)
       const membership = await this.prisma.roomMember.findUnique({
         where: { roomId_userId: { roomId, userId: client.user.id } },
-        select: { id: true, role: true, leftAt: true, isBanned: true, isMuted: true, mutedUntil: true },
+        select: {
+          id: true,
+          role: true,
+          leftAt: true,
+          isBanned: true,
+          isMuted: true,
+          mutedUntil: true,
+          room: { select: { deletedAt: true } },
+        },
       });
 
+      if (membership?.room.deletedAt) {
+        if (clientMessageId) {
+          client.emit("message_state", {
+            tempId: clientMessageId,
+            state: "failed",
+            error: "ROOM_NOT_FOUND",
+          });
+        }
+        return {
+          success: false,
+          error: "ROOM_NOT_FOUND",
+          message: "الغرفة غير موجودة",
+          correlationId,
+        };
+      }
+
       if (!membership || membership.leftAt || membership.isBanned) {
         if (clientMessageId) {
           client.emit("message_state", {
@@ -2587,6 +3037,57 @@ export class AppGateway
         }).catch(e => this.logger.error(`Unmute error: ${e.message}`));
       }
 
+      // ⏱️ Slow mode + burst limiter
+      const rateLimit = await this.roomsService.checkChatRateLimit(
+        roomId,
+        client.user.id,
+        membership.role,
+      );
+      if (!rateLimit.allowed) {
+        if (clientMessageId) {
+          client.emit("message_state", {
+            tempId: clientMessageId,
+            state: "failed",
+            error: "RATE_LIMITED",
+            reason: rateLimit.reason,
+            retryAfter: rateLimit.retryAfter,
+          });
+        }
+        return {
+          success: false,
+          error: "RATE_LIMITED",
+          reason: rateLimit.reason,
+          retryAfter: rateLimit.retryAfter,
+          message: rateLimit.message,
+          correlationId,
+        };
+      }
+
+      // 🧹 Banned-word filter (block / mask / auto-mute / auto-kick)
+      if (type === "TEXT" && content) {
+        const moderation = await this.roomsService.moderateMessage(
+          roomId,
+          client.user.id,
+          content,
+        );
+        if (!moderation.allowed) {
+          if (clientMessageId) {
+            client.emit("message_state", {
+              tempId: clientMessageId,
+              state: "failed",
+              error: moderation.error,
+            });
+          }
+          return {
+            success: false,
+            error: moderation.error,
+            message: moderation.message,
+            correlationId,
+          };
+        }
+        content = moderation.content;
+      }
+
       // 🚀 OPTIMISTIC BROADCAST: Send to room immediately, then persist
       // This reduces perceived latency significantly
       const senderId = client.user!.id; // Store for transaction closure
@@ -2693,6 +3194,8 @@ export class AppGateway
         return newMessage;
       });
 
+      await this.roomLevels.addMessageXp(roomId, senderId);
+
       const now = new Date();
       const senderVerificationType =
         message.sender?.verification &&
@@ -3980,6 +4483,100 @@ export class AppGateway
       }
     });
 
+    // Subscribe to room music changes (state lives in Redis)
+    await this.redis.subscribe(ROOM_MUSIC_UPDATED_CHANNEL, (message) => {
+      try {
+        const state = JSON.parse(message);
+        if (state?.roomId) {
+          this.server
+            .to(`room:${state.roomId}`)
+            .emit("room_music_state", state);
+        }
+      } catch (e) {
+        this.logger.error(`Failed to process room music update: ${e.message}`);
+      }
+    });
+
+    // Subscribe to room level-ups
+    await this.redis.subscribe(ROOM_LEVEL_UP_CHANNEL, (message) => {
+      try {
+        const data = JSON.parse(message);
+        if (data?.roomId) {
+          this.server.to(`room:${data.roomId}`).emit("room_level_up", data);
+        }
+      } catch (e) {
+        this.logger.error(`Failed to process room level-up: ${e.message}`);
+      }
+    });
+
+    // Subscribe to mic seats cleared by the reconciliation job
+    await this.redis.subscribe(MIC_SLOTS_CLEARED_CHANNEL, (message) => {
+      try {
+        const cleared: ClearedMicSlot[] = JSON.parse(message);
+        for (const seat of cleared) {
+          this.server.to(`room:${seat.roomId}`).emit("mic_slot_updated", {
+            roomId: seat.roomId,
+            slotIndex: seat.slotIndex,
+            ...seat.slot,
+            animation: "leave",
+            leavingUser: seat.userName,
+            reason: "not_in_room",
+          });
+        }
+      } catch (e) {
+        this.logger.error(`Failed to process cleared mic seats: ${e.message}`);
+      }
+    });
+
+    // Subscribe to scheduled room events going live
+    await this.redis.subscribe(ROOM_EVENT_STARTED_CHANNEL, (message) => {
+      try {
+        const data: RoomEventStartedMessage = JSON.parse(message);
+        const room = this.server.to(`room:${data.roomId}`);
+        for (const { slotIndex, slot } of data.unlockedSlots) {
+          room.emit("mic_slot_updated", {
+            roomId: data.roomId,
+            slotIndex,
+            ...slot,
+            animation: "unlock",
+            reason: "event_started",
+          });
+        }
+        room.emit("room_event_started", {
+          roomId: data.roomId,
+          event: data.event,
+        });
+      } catch (e) {
+        this.logger.error(`Failed to process room event start: ${e.message}`);
+      }
+    });
+
+    // Subscribe to knocks that expired without a decision
+    await this.redis.subscribe(ROOM_KNOCKS_EXPIRED_CHANNEL, (message) => {
+      try {
+        const data: ExpiredRoomKnocks = JSON.parse(message);
+        for (const userId of data.userIds) {
+          this.server.to(`user:${userId}`).emit("knock_result", {
+            roomId: data.roomId,
+            status: "expired",
+          });
+        }
+        void this.broadcastRoomKnocks(data.roomId);
+      } catch (e) {
+        this.logger.error(`Failed to process expired knocks: ${e.message}`);
+      }
+    });
+
+    // Subscribe to archived (deleted) rooms
+    await this.redis.subscribe(ROOM_ARCHIVED_CHANNEL, (message) => {
+      try {
+        const data: RoomArchivedMessage = JSON.parse(message);
+        void this.closeArchivedRoom(data.roomId, data.reason);
+      } catch (e) {
+        this.logger.error(`Failed to process archived room: ${e.message}`);
+      }
+    });
+
     // Subscribe to verification events
     await this.redis.subscribe("verification:updated", (message) => {
       try {
@@ -4100,6 +4697,61 @@ export class AppGateway
     this.logger.debug(`📢 [ROOM_UPDATED] room:${roomId}`);
   }
 
+  /**
+   * Broadcast the ordered raise-hand queue of a room
+   */
+  async broadcastMicQueue(roomId: string) {
+    const queue = await this.redis.getMicRequests(roomId);
+    this.server.to(`room:${roomId}`).emit("mic_queue_updated", {
+      roomId,
+      queue,
+      serverTs: Date.now(),
+    });
+  }
+
+  /**
+   * Send the pending knocks of a private room to its owner and admins
+   */
+  async broadcastRoomKnocks(roomId: string) {
+    try {
+      const [knocks, managers] = await Promise.all([
+        this.roomKnocks.list(roomId),
+        this.prisma.roomMember.findMany({
+          where: {
+            roomId,
+            role: { in: [MemberRole.OWNER, MemberRole.ADMIN] },
+            leftAt: null,
+            isBanned: false,
+          },
+          select: { userId: true },
+        }),
+      ]);
+
+      for (const { userId } of managers) {
+        this.server.to(`user:${userId}`).emit("room_knocks_updated", {
+          roomId,
+          knocks,
+          serverTs: Date.now(),
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Knock broadcast error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drop a user's mic request when they leave or are kicked from the room
+   */
+  async removeFromMicQueue(roomId: string, userId: string) {
+    try {
+      if (await this.redis.removeMicRequest(roomId, userId)) {
+        await this.broadcastMicQueue(roomId);
+      }
+    } catch (error) {
+      this.logger.error(`Mic queue cleanup error: ${error.message}`);
+    }
+  }
+
   async notifyUserUpdated(data: {
     id: string;
     numericId?: string;
@@ -4157,6 +4809,28 @@ export class AppGateway
   // ADMIN METHODS (ENHANCED BAN ENFORCEMENT)
   // ================================
 
+  /**
+   * Archived room - members are kept for restore, so drop every socket on
+   * this instance from the room channel
+   */
+  private async closeArchivedRoom(roomId: string, reason?: string) {
+    const channel = `room:${roomId}`;
+    this.server.local.to(channel).emit("room_deleted", { roomId, reason });
+
+    const sockets = await this.server.local.in(channel).fetchSockets();
+    for (const socket of sockets) {
+      (socket as unknown as AuthenticatedSocket).joinedRooms?.delete(roomId);
+      socket.leave(channel);
+    }
+
+    this.roomPresence.delete(roomId);
+    await this.redis.del(`room:${roomId}:online`);
+
+    this.logger.log(
+      `🗄️ [ARCHIVE] Room ${roomId} closed, ${sockets.length} sockets removed`,
+    );
+  }
+
   /**
    * Immediately kick user from room (all their sockets)
    */
@@ -4167,6 +4841,9 @@ export class AppGateway
     kickedBy?: string,
   ) {
     this.logger.log(`🚫 [KICK] Kicking user ${userId} from room ${roomId}, reason: ${reason}`);
+
+    await this.removeFromMicQueue(roomId, userId);
+    await this.roomAnalytics.recordLeave(roomId, userId);
     
     // Find all sockets for this user
     const userSockets = this.userConnections.get(userId);
@@ -4323,6 +5000,24 @@ export class AppGateway
     this.logger.log(`✅ [UNBAN] User ${userId} unbanned from room ${roomId}`);
   }
 
+  /**
+   * Disconnect all sockets opened with the given sessions (revoked devices)
+   */
+  async disconnectSessions(sessionIds: string[], reason: string = "session_revoked") {
+    if (sessionIds.length === 0) return;
+
+    const rooms = sessionIds.map((sessionId) => `session:${sessionId}`);
+
+    this.server.to(rooms).emit("session_revoked", {
+      reason,
+      message: "تم إنهاء هذه الجلسة، يرجى تسجيل الدخول من جديد",
+      serverTs: Date.now(),
+    });
+    this.server.in(rooms).disconnectSockets(true);
+
+    this.logger.log(`🔒 [SESSION] Disconnected sockets of ${sessionIds.length} revoked session(s)`);
+  }
+
   // ================================
   // STATISTICS & MONITORING
   // ================================
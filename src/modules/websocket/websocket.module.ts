@@ -1,7 +1,8 @@
-import { Module } from "@nestjs/common";
+import { Module, forwardRef } from "@nestjs/common";
 import { JwtModule } from "@nestjs/jwt";
 import { ConfigModule, ConfigService } from "@nestjs/config";
 import { AppGateway } from "./app.gateway";
+import { RoomsModule } from "../rooms/rooms.module";
 
 @Module({
   imports: [
@@ -12,6 +13,7 @@ import { AppGateway } from "./app.gateway";
         secret: config.get<string>("JWT_SECRET"),
       }),
     }),
+    forwardRef(() => RoomsModule),
   ],
   providers: [AppGateway],
   exports: [AppGateway],